@@ -2,6 +2,7 @@
 
 # NeutralApp Health Check Script
 # Usage: ./scripts/health-check.sh [staging|production]
+# Set NEUTRAL_API_TOKEN to a personal access token to check API endpoints as a signed-in user
 
 set -e
 
@@ -16,6 +17,12 @@ NC='\033[0m' # No Color
 SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
 PROJECT_ROOT="$(dirname "$SCRIPT_DIR")"
 
+# Authorization header for API requests when a personal access token is given
+AUTH_HEADER=()
+if [[ -n "${NEUTRAL_API_TOKEN:-}" ]]; then
+    AUTH_HEADER=(-H "Authorization: Bearer $NEUTRAL_API_TOKEN")
+fi
+
 # Functions
 log_info() {
     echo -e "${BLUE}[INFO]${NC} $1"
@@ -143,7 +150,7 @@ check_api_endpoints() {
     for endpoint in "${endpoints[@]}"; do
         local url="$base_url$endpoint"
         local response_code
-        response_code=$(curl -s -o /dev/null -w "%{http_code}" "$url" || echo "000")
+        response_code=$(curl -s -o /dev/null -w "%{http_code}" "${AUTH_HEADER[@]}" "$url" || echo "000")
         
         if [[ "$response_code" == "200" || "$response_code" == "401" || "$response_code" == "403" ]]; then
             log_success "API endpoint $endpoint check passed (HTTP $response_code)"
@@ -218,7 +225,7 @@ check_plugin_health() {
     # Check plugin health endpoint
     local plugin_health_url="$base_url/api/plugins/health"
     local response_code
-    response_code=$(curl -s -o /dev/null -w "%{http_code}" "$plugin_health_url" || echo "000")
+    response_code=$(curl -s -o /dev/null -w "%{http_code}" "${AUTH_HEADER[@]}" "$plugin_health_url" || echo "000")
     
     if [[ "$response_code" == "200" ]]; then
         log_success "Plugin health check passed (HTTP $response_code)"
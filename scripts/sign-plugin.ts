@@ -0,0 +1,82 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Sign a plugin in the plugins directory
+ *
+ *   npm run plugin:sign -- <plugin-id> --key <private-key.pem> --key-id <key-id>
+ *   npm run plugin:sign -- --generate-key <key-id>
+ *
+ * Signing writes `<key-id>:<signature>` to the plugin's manifest.json. The
+ * matching public key must be placed in the trusted keys directory
+ * (PLUGIN_TRUSTED_KEYS_DIRECTORY, default config/trusted-keys) as `<key-id>.pem`.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pluginRegistry } from '../src/plugins';
+import { signPluginPackage } from '../src/features/plugin-manager/services/plugin.verifier';
+import { getTrustedKeysDirectory } from '../src/features/plugin-manager/services/trusted-key.store';
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function generateKey(keyId: string): void {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const privateKeyPath = path.resolve(`${keyId}.key.pem`);
+  const publicKeyPath = path.join(getTrustedKeysDirectory(), `${keyId}.pem`);
+
+  fs.writeFileSync(privateKeyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  fs.mkdirSync(path.dirname(publicKeyPath), { recursive: true });
+  fs.writeFileSync(publicKeyPath, publicKey.export({ type: 'spki', format: 'pem' }));
+
+  console.log(`🔑 Private key: ${privateKeyPath} (keep this out of version control)`);
+  console.log(`✅ Trusted public key: ${publicKeyPath}`);
+}
+
+function signPlugin(pluginId: string, keyPath: string, keyId: string): void {
+  pluginRegistry.refresh();
+  const pluginPackage = pluginRegistry.getPluginPackage(pluginId);
+  const info = pluginRegistry.getPluginInfo(pluginId);
+  if (!pluginPackage || !info) {
+    throw new Error(`Plugin ${pluginId} not found in ${pluginRegistry.getPluginsDirectory()}`);
+  }
+
+  const signature = signPluginPackage(pluginPackage, fs.readFileSync(keyPath, 'utf8'), keyId);
+  const manifestPath = path.resolve(pluginRegistry.getPluginsDirectory(), info.manifest);
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  manifest.signature = signature;
+  fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+
+  console.log(`✅ Signed ${pluginId}@${pluginPackage.version} with key ${keyId}`);
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  try {
+    const generateKeyId = getOption(args, '--generate-key');
+    if (generateKeyId) {
+      generateKey(generateKeyId);
+      return;
+    }
+
+    const pluginId = args[0];
+    const keyPath = getOption(args, '--key');
+    const keyId = getOption(args, '--key-id');
+    if (!pluginId || pluginId.startsWith('--') || !keyPath || !keyId) {
+      console.error('Usage: sign-plugin <plugin-id> --key <private-key.pem> --key-id <key-id>');
+      console.error('       sign-plugin --generate-key <key-id>');
+      process.exit(1);
+    }
+
+    signPlugin(pluginId, keyPath, keyId);
+  } catch (error) {
+    console.error('❌ Plugin signing failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
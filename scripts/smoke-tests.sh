@@ -1,6 +1,7 @@
 #!/bin/bash
 # NeutralApp Smoke Tests Script
 # Usage: ./scripts/smoke-tests.sh [staging|production]
+# Set NEUTRAL_API_TOKEN to a personal access token to check API endpoints as a signed-in user
 set -e
 
 # Colors for output
@@ -31,6 +32,12 @@ log_error() {
 SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
 PROJECT_ROOT="$(dirname "$SCRIPT_DIR")"
 
+# Authorization header for API requests when a personal access token is given
+AUTH_HEADER=()
+if [[ -n "${NEUTRAL_API_TOKEN:-}" ]]; then
+    AUTH_HEADER=(-H "Authorization: Bearer $NEUTRAL_API_TOKEN")
+fi
+
 # Function to run smoke tests
 run_smoke_tests() {
     local environment=$1
@@ -179,7 +186,7 @@ test_authentication() {
     for endpoint in "${auth_endpoints[@]}"; do
         local url="$base_url$endpoint"
         local response_code
-        response_code=$(curl -s -o /dev/null -w "%{http_code}" "$url" --max-time 30 || echo "000")
+        response_code=$(curl -s -o /dev/null -w "%{http_code}" "${AUTH_HEADER[@]}" "$url" --max-time 30 || echo "000")
         
         if [[ "$response_code" == "200" || "$response_code" == "401" || "$response_code" == "405" ]]; then
             log_success "Authentication endpoint $endpoint passed (HTTP $response_code)"
@@ -229,7 +236,7 @@ test_plugin_functionality() {
     for endpoint in "${plugin_endpoints[@]}"; do
         local url="$base_url$endpoint"
         local response_code
-        response_code=$(curl -s -o /dev/null -w "%{http_code}" "$url" --max-time 30 || echo "000")
+        response_code=$(curl -s -o /dev/null -w "%{http_code}" "${AUTH_HEADER[@]}" "$url" --max-time 30 || echo "000")
         
         if [[ "$response_code" == "200" || "$response_code" == "401" || "$response_code" == "404" ]]; then
             log_success "Plugin endpoint $endpoint passed (HTTP $response_code)"
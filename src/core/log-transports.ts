@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConsoleTransport, LogEntry, LogLevel, LogTransport, LoggingOptions, parseContextLevels, parseLogLevel } from './logger';
+import { EnvironmentConfig } from '../shared/utils/environment-manager';
+
+/**
+ * Writes each entry to stdout as one JSON object per line, for log collectors
+ */
+export class JsonTransport implements LogTransport {
+  write(entry: LogEntry): void {
+    process.stdout.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * Appends each entry to a file as one JSON object per line. The file and its
+ * directory are created on the first entry.
+ */
+export class FileTransport implements LogTransport {
+  private stream: fs.WriteStream | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  write(entry: LogEntry): void {
+    if (!this.stream) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+      // Logging must not crash the server when the disk fills up
+      this.stream.on('error', error => console.error('Log file error:', error));
+    }
+    this.stream.write(`${JSON.stringify(entry)}\n`);
+  }
+
+  close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    return new Promise(resolve => (stream ? stream.end(resolve) : resolve()));
+  }
+}
+
+/**
+ * Logging options from the environment: LOG_LEVEL and LOG_CONTEXT_LEVELS set
+ * the levels, LOG_FORMAT picks readable or JSON console output and LOG_FILE
+ * adds a file.
+ */
+export function createLoggingOptions(
+  config: Pick<EnvironmentConfig, 'LOG_LEVEL' | 'LOG_FORMAT' | 'LOG_FILE' | 'LOG_CONTEXT_LEVELS'>
+): LoggingOptions {
+  const transports: LogTransport[] = [config.LOG_FORMAT === 'json' ? new JsonTransport() : new ConsoleTransport()];
+  if (config.LOG_FILE) {
+    transports.push(new FileTransport(path.resolve(config.LOG_FILE)));
+  }
+  return {
+    level: parseLogLevel(config.LOG_LEVEL) || LogLevel.INFO,
+    contextLevels: parseContextLevels(config.LOG_CONTEXT_LEVELS || ''),
+    transports
+  };
+}
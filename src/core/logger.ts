@@ -1,23 +1,148 @@
 /**
- * Simple logging utility for the application
- * In production, this would integrate with a proper logging service
+ * Structured logging for the server. Loggers are created per context (a
+ * component name); their entries are filtered by level and handed to the
+ * configured transports, which print, store or forward them.
  */
+import { AsyncLocalStorage } from 'async_hooks';
+import { LogLevel } from '../shared/types';
 
-export enum LogLevel {
-  DEBUG = 'debug',
-  INFO = 'info',
-  WARN = 'warn',
-  ERROR = 'error'
-}
+export { LogLevel };
 
 export interface LogEntry {
   level: LogLevel;
   message: string;
-  context?: string;
+  context: string;
   data?: Record<string, unknown>;
+  correlationId?: string; // Set while handling a request, so its entries can be found together
   timestamp: string;
 }
 
+export interface LogTransport {
+  write(entry: LogEntry): void;
+  close?(): Promise<void>;
+}
+
+export interface LoggingOptions {
+  level: LogLevel;
+  contextLevels: Record<string, LogLevel>; // Overrides level for the loggers of these contexts
+  transports: LogTransport[];
+}
+
+// Least to most severe
+const LOG_LEVEL_ORDER: LogLevel[] = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARNING, LogLevel.ERROR, LogLevel.CRITICAL];
+
+// Names other loggers use for the same levels
+const LOG_LEVEL_ALIASES: Record<string, LogLevel> = {
+  warn: LogLevel.WARNING,
+  fatal: LogLevel.CRITICAL
+};
+
+/**
+ * Read a level from configuration. Accepts `warn` and `fatal` for warning and
+ * critical; returns undefined for anything else.
+ */
+export function parseLogLevel(value: string): LogLevel | undefined {
+  const name = value.trim().toLowerCase();
+  return LOG_LEVEL_ORDER.find(level => level === name) || LOG_LEVEL_ALIASES[name];
+}
+
+/**
+ * Read per-context levels written as `Context=level` pairs separated by
+ * commas, e.g. `PluginManager=debug,WebServer=warn`. Pairs with an unknown
+ * level are skipped.
+ */
+export function parseContextLevels(value: string): Record<string, LogLevel> {
+  const levels: Record<string, LogLevel> = {};
+  for (const pair of value.split(',')) {
+    const separator = pair.indexOf('=');
+    const context = pair.substring(0, separator).trim();
+    const level = separator > 0 ? parseLogLevel(pair.substring(separator + 1)) : undefined;
+    if (context && level) {
+      levels[context] = level;
+    }
+  }
+  return levels;
+}
+
+/**
+ * Prints entries as readable lines, one console method per level
+ */
+export class ConsoleTransport implements LogTransport {
+  write(entry: LogEntry): void {
+    const prefix = `[${entry.timestamp}] [${entry.level.toUpperCase()}] [${entry.context}]`
+      + (entry.correlationId ? ` [${entry.correlationId}]` : '');
+    switch (entry.level) {
+      case LogLevel.CRITICAL:
+      case LogLevel.ERROR:
+        console.error(prefix, entry.message, entry.data || '');
+        break;
+      case LogLevel.WARNING:
+        console.warn(prefix, entry.message, entry.data || '');
+        break;
+      case LogLevel.INFO:
+        console.info(prefix, entry.message, entry.data || '');
+        break;
+      case LogLevel.DEBUG:
+        console.debug(prefix, entry.message, entry.data || '');
+        break;
+    }
+  }
+}
+
+// Development and tests print to the console; production prints nothing until configured
+function getDefaultOptions(): LoggingOptions {
+  const verbose = process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test';
+  return {
+    level: LogLevel.DEBUG,
+    contextLevels: {},
+    transports: verbose ? [new ConsoleTransport()] : []
+  };
+}
+
+let options: LoggingOptions = getDefaultOptions();
+const extraTransports: Set<LogTransport> = new Set();
+const correlation = new AsyncLocalStorage<string>();
+
+/**
+ * Replace the levels and transports. Transports added with addLogTransport
+ * are kept.
+ */
+export function configureLogging(changes: Partial<LoggingOptions>): void {
+  options = { ...options, ...changes };
+}
+
+/**
+ * Go back to the default levels and transports, closing the configured ones
+ */
+export async function resetLogging(): Promise<void> {
+  const closing = options.transports;
+  options = getDefaultOptions();
+  await Promise.all(closing.map(transport => transport.close?.()));
+}
+
+/**
+ * Send entries to one more transport, besides the configured ones. Returns a
+ * function that removes it.
+ */
+export function addLogTransport(transport: LogTransport): () => void {
+  extraTransports.add(transport);
+  return () => {
+    extraTransports.delete(transport);
+  };
+}
+
+/**
+ * Run a function with a correlation id that every entry logged during it,
+ * including in the async work it starts, carries
+ */
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlation.run(correlationId, fn);
+}
+
+export function getCorrelationId(): string | undefined {
+  return correlation.getStore();
+}
+
 class Logger {
   private context: string;
 
@@ -26,35 +151,28 @@ class Logger {
   }
 
   private log(level: LogLevel, message: string, data?: Record<string, unknown>): void {
+    const threshold = options.contextLevels[this.context] || options.level;
+    if (LOG_LEVEL_ORDER.indexOf(level) < LOG_LEVEL_ORDER.indexOf(threshold)) {
+      return;
+    }
+
+    const correlationId = getCorrelationId();
     const entry: LogEntry = {
       level,
       message,
       context: this.context,
-      data,
+      ...(data ? { data } : {}),
+      ...(correlationId ? { correlationId } : {}),
       timestamp: new Date().toISOString()
     };
 
-    // In development/test, still use console for visibility
-    if (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test') {
-      const prefix = `[${entry.timestamp}] [${level.toUpperCase()}] [${this.context}]`;
-      switch (level) {
-        case LogLevel.ERROR:
-          console.error(prefix, message, data || '');
-          break;
-        case LogLevel.WARN:
-          console.warn(prefix, message, data || '');
-          break;
-        case LogLevel.INFO:
-          console.info(prefix, message, data || '');
-          break;
-        case LogLevel.DEBUG:
-          console.debug(prefix, message, data || '');
-          break;
+    [...options.transports, ...extraTransports].forEach(transport => {
+      try {
+        transport.write(entry);
+      } catch {
+        // A failing transport must not break the code that logged
       }
-    }
-
-    // In production, this would send to a proper logging service
-    // For now, we just structure the log entry
+    });
   }
 
   debug(message: string, data?: Record<string, unknown>): void {
@@ -66,16 +184,20 @@ class Logger {
   }
 
   warn(message: string, data?: Record<string, unknown>): void {
-    this.log(LogLevel.WARN, message, data);
+    this.log(LogLevel.WARNING, message, data);
   }
 
   error(message: string, data?: Record<string, unknown>): void {
     this.log(LogLevel.ERROR, message, data);
   }
+
+  critical(message: string, data?: Record<string, unknown>): void {
+    this.log(LogLevel.CRITICAL, message, data);
+  }
 }
 
 export function createLogger(context: string): Logger {
   return new Logger(context);
 }
 
-export const logger = new Logger('Core');
\ No newline at end of file
+export const logger = new Logger('Core');
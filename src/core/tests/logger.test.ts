@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ConsoleTransport,
+  LogEntry,
+  LogLevel,
+  LogTransport,
+  addLogTransport,
+  configureLogging,
+  createLogger,
+  parseContextLevels,
+  parseLogLevel,
+  resetLogging,
+  runWithCorrelationId
+} from '../logger';
+import { FileTransport, JsonTransport, createLoggingOptions } from '../log-transports';
+
+class MemoryTransport implements LogTransport {
+  entries: LogEntry[] = [];
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+  }
+}
+
+describe('core logger', () => {
+  let transport: MemoryTransport;
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    configureLogging({ level: LogLevel.DEBUG, contextLevels: {}, transports: [transport] });
+  });
+
+  afterEach(async () => {
+    await resetLogging();
+  });
+
+  it('should send structured entries at or above the level of their context', () => {
+    configureLogging({ level: LogLevel.WARNING, contextLevels: { PluginManager: LogLevel.DEBUG } });
+
+    createLogger('WebServer').info('Not sent');
+    createLogger('WebServer').warn('Slow request', { path: '/api/plugins' });
+    createLogger('PluginManager').debug('Loading plugin');
+
+    expect(transport.entries).toEqual([
+      { level: LogLevel.WARNING, message: 'Slow request', context: 'WebServer', data: { path: '/api/plugins' }, timestamp: expect.any(String) },
+      { level: LogLevel.DEBUG, message: 'Loading plugin', context: 'PluginManager', timestamp: expect.any(String) }
+    ]);
+  });
+
+  it('should tag entries with the correlation id of the work that logged them', async () => {
+    const logger = createLogger('WebServer');
+
+    await runWithCorrelationId('request-1', async () => {
+      await Promise.resolve();
+      logger.info('Handled');
+    });
+    logger.info('Outside');
+
+    expect(transport.entries.map(entry => entry.correlationId)).toEqual(['request-1', undefined]);
+  });
+
+  it('should keep added transports until they are removed, and survive failing ones', () => {
+    const added = new MemoryTransport();
+    const remove = addLogTransport(added);
+    configureLogging({ transports: [{ write: () => { throw new Error('Disk full'); } }, transport] });
+
+    createLogger('Registry').error('First');
+    remove();
+    createLogger('Registry').error('Second');
+
+    expect(added.entries.map(entry => entry.message)).toEqual(['First']);
+    expect(transport.entries.map(entry => entry.message)).toEqual(['First', 'Second']);
+  });
+
+  it('should read levels from configuration, including the old names', () => {
+    expect(parseLogLevel('warn')).toBe(LogLevel.WARNING);
+    expect(parseLogLevel(' FATAL ')).toBe(LogLevel.CRITICAL);
+    expect(parseLogLevel('loud')).toBeUndefined();
+    expect(parseContextLevels('PluginManager=debug, WebServer=warn,Broken=loud,=info')).toEqual({
+      PluginManager: LogLevel.DEBUG,
+      WebServer: LogLevel.WARNING
+    });
+  });
+});
+
+describe('log transports', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-log-transports-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const entry: LogEntry = { level: LogLevel.ERROR, message: 'Scan failed', context: 'Library', correlationId: 'request-1', timestamp: '2024-01-01T00:00:00.000Z' };
+
+  it('should append entries to a file as JSON lines', async () => {
+    const filePath = path.join(directory, 'nested', 'server.log');
+    const file = new FileTransport(filePath);
+
+    file.write(entry);
+    file.write({ ...entry, message: 'Retried' });
+    await file.close();
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([entry, { ...entry, message: 'Retried' }]);
+  });
+
+  it('should write JSON to stdout and readable lines to the console', () => {
+    const stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const consoleError = jest.spyOn(console, 'error').mockImplementation();
+
+    new JsonTransport().write(entry);
+    new ConsoleTransport().write(entry);
+
+    expect(stdout).toHaveBeenCalledWith(`${JSON.stringify(entry)}\n`);
+    expect(consoleError).toHaveBeenCalledWith('[2024-01-01T00:00:00.000Z] [ERROR] [Library] [request-1]', 'Scan failed', '');
+    stdout.mockRestore();
+    consoleError.mockRestore();
+  });
+
+  it('should build transports and levels from the environment', () => {
+    const options = createLoggingOptions({
+      LOG_LEVEL: 'warn',
+      LOG_FORMAT: 'json',
+      LOG_FILE: path.join(directory, 'server.log'),
+      LOG_CONTEXT_LEVELS: 'PluginManager=debug'
+    });
+
+    expect(options.level).toBe(LogLevel.WARNING);
+    expect(options.contextLevels).toEqual({ PluginManager: LogLevel.DEBUG });
+    expect(options.transports.map(transport => transport.constructor)).toEqual([JsonTransport, FileTransport]);
+    expect(createLoggingOptions({ LOG_LEVEL: 'info', LOG_FORMAT: 'dev' }).transports.map(transport => transport.constructor)).toEqual([ConsoleTransport]);
+  });
+});
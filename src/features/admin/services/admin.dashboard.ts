@@ -112,7 +112,7 @@ export class AdminDashboard implements IAdminDashboard {
       {
         id: 'log2',
         timestamp: new Date(Date.now() - 1800000), // 30 minutes ago
-        level: LogLevel.WARN,
+        level: LogLevel.WARNING,
         message: 'Plugin performance degradation detected',
         context: { component: 'plugin-monitor', action: 'performance-check' },
         pluginId: 'dashboard-plugin',
@@ -50,7 +50,7 @@ export class SystemMonitor implements ISystemMonitor {
   }
 
   private getRandomLogLevel(): LogLevel {
-    const levels = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR, LogLevel.FATAL];
+    const levels = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARNING, LogLevel.ERROR, LogLevel.CRITICAL];
     const weights = [0.3, 0.4, 0.2, 0.08, 0.02]; // Weighted towards less severe levels
     
     let random = Math.random();
@@ -75,9 +75,9 @@ export class SystemMonitor implements ISystemMonitor {
     const messages = {
       [LogLevel.DEBUG]: ['Debug trace completed', 'Variable state logged', 'Function entry/exit'],
       [LogLevel.INFO]: ['Operation completed successfully', 'User action processed', 'System state updated'],
-      [LogLevel.WARN]: ['Performance threshold exceeded', 'Deprecated function called', 'Resource usage high'],
+      [LogLevel.WARNING]: ['Performance threshold exceeded', 'Deprecated function called', 'Resource usage high'],
       [LogLevel.ERROR]: ['Request failed', 'Validation error occurred', 'Network timeout'],
-      [LogLevel.FATAL]: ['System critical failure', 'Database connection lost', 'Security breach detected']
+      [LogLevel.CRITICAL]: ['System critical failure', 'Database connection lost', 'Security breach detected']
     };
     
     const levelMessages = messages[level];
@@ -119,9 +119,9 @@ export class SystemMonitor implements ISystemMonitor {
     const byLevel: Record<LogLevel, number> = {
       [LogLevel.DEBUG]: 0,
       [LogLevel.INFO]: 0,
-      [LogLevel.WARN]: 0,
+      [LogLevel.WARNING]: 0,
       [LogLevel.ERROR]: 0,
-      [LogLevel.FATAL]: 0
+      [LogLevel.CRITICAL]: 0
     };
 
     const byPlugin: Record<string, number> = {};
@@ -130,7 +130,7 @@ export class SystemMonitor implements ISystemMonitor {
     // Count logs by level and component (simulating plugin errors)
     this.mockLogs.forEach(log => {
       byLevel[log.level]++;
-      if (log.level === LogLevel.ERROR || log.level === LogLevel.FATAL) {
+      if (log.level === LogLevel.ERROR || log.level === LogLevel.CRITICAL) {
         total++;
         const component = log.context.component;
         byPlugin[component] = (byPlugin[component] || 0) + 1;
@@ -139,7 +139,7 @@ export class SystemMonitor implements ISystemMonitor {
 
     // Get recent error logs
     const recentErrors = this.mockLogs
-      .filter(log => log.level === LogLevel.ERROR || log.level === LogLevel.FATAL)
+      .filter(log => log.level === LogLevel.ERROR || log.level === LogLevel.CRITICAL)
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
       .slice(0, 10);
 
@@ -204,10 +204,10 @@ describe('Admin Interfaces', () => {
         total: 50,
         byLevel: { 
           [LogLevel.ERROR]: 20, 
-          [LogLevel.WARN]: 15, 
+          [LogLevel.WARNING]: 15, 
           [LogLevel.INFO]: 15, 
           [LogLevel.DEBUG]: 0,
-          [LogLevel.FATAL]: 0
+          [LogLevel.CRITICAL]: 0
         },
         byPlugin: { 'plugin1': 20, 'plugin2': 15, 'core': 15 },
         recent: []
@@ -1,6 +1,12 @@
 import { AdminDashboard } from '../services/admin.dashboard';
 import { SystemMonitor } from '../services/system.monitor';
 import { UserManager } from '../services/user.manager';
+import { UserService } from '../../auth/services/user.service';
+import { MemoryUserStore } from '../../auth/services/user.store';
+import { SessionService } from '../../auth/services/session.service';
+import { MemoryRevocationList, MemorySessionStore } from '../../auth/services/session.store';
+import { UserRecord } from '../../auth/types/user.types';
+import { ISettingsService } from '../../settings/interfaces/settings.interface';
 import {
   PluginStatus,
   LogLevel,
@@ -220,52 +226,71 @@ describe('Admin Services', () => {
 
   describe('UserManager', () => {
     let userManager: UserManager;
+    let users: UserService;
+    let sessions: SessionService;
+
+    const account = (id: string, email: string, status: UserRecord['status'] = 'active'): UserRecord => ({
+      id,
+      email,
+      name: id,
+      passwordHash: 'hash',
+      status,
+      roles: ['user'],
+      createdAt: new Date(Date.now() - 60 * 1000),
+      updatedAt: new Date(),
+      failedLoginAttempts: 0
+    });
 
     beforeEach(() => {
-      userManager = new UserManager();
+      users = new UserService(new MemoryUserStore([
+        account('user1', 'alice@example.com'),
+        account('user2', 'bob@example.com', 'suspended'),
+        account('admin1', 'admin@example.com')
+      ]));
+      const settingsService = {
+        getUserSettings: async () => ({ theme: 'dark', language: 'en', notifications: true, adminMode: true })
+      } as unknown as ISettingsService;
+      sessions = new SessionService(new MemorySessionStore(), new MemoryRevocationList());
+      userManager = new UserManager(users, settingsService, sessions);
     });
 
-    it('should initialize with mock users', () => {
-      expect(userManager).toBeDefined();
-      expect(userManager.getMockUserCount()).toBeGreaterThan(0);
-      expect(userManager.getActiveUserCount()).toBeGreaterThan(0);
+    it('should read users from the user store', async () => {
+      expect(await userManager.getUserCount()).toBe(3);
+      expect(await userManager.getActiveUserCount()).toBe(2);
+      expect(await userManager.getSuspendedUserCount()).toBe(1);
+
+      await users.signup({ email: 'carol@example.com', password: 'correct-horse' });
+      expect(await userManager.getUserCount()).toBe(4);
     });
 
     it('should return user profiles', async () => {
       const profiles = await userManager.getUserProfiles();
       
-      expect(Array.isArray(profiles)).toBe(true);
-      expect(profiles.length).toBeGreaterThan(0);
-      
+      expect(profiles.map(profile => [profile.id, profile.email, profile.status])).toEqual([
+        ['user1', 'alice@example.com', 'active'],
+        ['user2', 'bob@example.com', 'suspended'],
+        ['admin1', 'admin@example.com', 'active']
+      ]);
       profiles.forEach(profile => {
-        expect(typeof profile.id).toBe('string');
-        expect(typeof profile.email).toBe('string');
-        expect(profile.email).toContain('@');
-        expect(typeof profile.settings).toBe('object');
-        
+        expect(profile.settings).toEqual({ theme: 'dark', language: 'en', notifications: true });
         // Verify sensitive settings are filtered out
         expect(profile.settings.adminMode).toBeUndefined();
+        expect(profile).not.toHaveProperty('passwordHash');
       });
     });
 
     it('should return user activity for valid user', async () => {
-      const profiles = await userManager.getUserProfiles();
-      const userId = profiles[0]?.id;
+      const user = await users.signup({ email: 'carol@example.com', password: 'correct-horse' });
+      await users.verifyCredentials('carol@example.com', 'correct-horse');
+
+      const activities = await userManager.getUserActivity(user.id);
       
-      if (userId) {
-        const activities = await userManager.getUserActivity(userId);
-        
-        expect(Array.isArray(activities)).toBe(true);
-        expect(activities.length).toBeGreaterThan(0);
-        
-        activities.forEach(activity => {
-          expect(activity.userId).toBe(userId);
-          expect(typeof activity.action).toBe('string');
-          expect(typeof activity.resource).toBe('string');
-          expect(activity.timestamp).toBeInstanceOf(Date);
-          expect(typeof activity.metadata).toBe('object');
-        });
-      }
+      expect(activities.map(activity => activity.action)).toEqual(['login', 'signup']);
+      activities.forEach(activity => {
+        expect(activity.userId).toBe(user.id);
+        expect(activity.resource).toBe('auth');
+        expect(activity.timestamp).toBeInstanceOf(Date);
+      });
     });
 
     it('should return empty array for invalid user', async () => {
@@ -273,62 +298,73 @@ describe('Admin Services', () => {
       expect(activities).toEqual([]);
     });
 
-    it('should perform suspend user admin action', async () => {
-      const profiles = await userManager.getUserProfiles();
-      const userId = profiles[0]?.id;
+    it('should suspend and reactivate users in the store', async () => {
+      const adminAction = {
+        type: 'suspend_user',
+        description: 'Suspended for testing',
+        confirmation: true
+      };
       
-      if (userId) {
-        const adminAction = {
-          type: 'suspend_user',
-          description: 'Suspended for testing',
-          confirmation: true
-        };
-        
-        await expect(userManager.performAdminAction(userId, adminAction)).resolves.not.toThrow();
-        
-        // Verify suspension was logged
-        const activities = await userManager.getUserActivity(userId);
-        const suspensionActivity = activities.find(a => a.action === 'admin_suspend_user');
-        expect(suspensionActivity).toBeDefined();
-      }
+      await expect(userManager.performAdminAction('user1', adminAction, 'admin1')).resolves.not.toThrow();
+      expect((await users.getAccount('user1'))?.status).toBe('suspended');
+      
+      // Verify suspension was logged
+      const activities = await userManager.getUserActivity('user1');
+      expect(activities[0]).toMatchObject({ action: 'admin_suspend_user', metadata: { performedBy: 'admin1' } });
+
+      await userManager.performAdminAction('user2', { type: 'activate_user', description: 'Activated after review' });
+      expect((await users.getAccount('user2'))?.status).toBe('active');
     });
 
-    it('should perform activate user admin action', async () => {
-      const profiles = await userManager.getUserProfiles();
-      const userId = profiles[0]?.id;
+    it('should change roles and record who changed them', async () => {
+      const profile = await userManager.setUserRoles('user1', ['admin'], 'admin1');
+
+      expect(profile?.roles).toEqual(['admin']);
+      expect((await users.getAccount('user1'))?.roles).toEqual(['admin']);
+      expect((await userManager.getUserActivity('user1'))[0])
+        .toMatchObject({ action: 'admin_set_roles', metadata: { roles: ['admin'], performedBy: 'admin1' } });
+      expect(await userManager.setUserRoles('invalid-user', ['admin'])).toBeNull();
+    });
+
+    it('should sign users out everywhere when clearing sessions or suspending', async () => {
+      const first = await sessions.createSession('user1');
+      await sessions.createSession('user1');
+      const other = await sessions.createSession('user2');
+
+      await userManager.performAdminAction('user1', { type: 'clear_sessions', description: 'Lost laptop' });
+      expect(await sessions.listSessions('user1')).toEqual([]);
+      expect(await sessions.isRevoked(first.session.id)).toBe(true);
+
+      await userManager.performAdminAction('user2', { type: 'suspend_user', description: 'Abuse' });
+      expect(await sessions.isRevoked(other.session.id)).toBe(true);
+    });
+
+    it('should mark deleted users without removing them', async () => {
+      await userManager.performAdminAction('user1', { type: 'delete_user', description: 'Requested by user' });
+
+      expect((await userManager.getUserById('user1'))?.status).toBe('deleted');
+      expect(await users.getUser('user1')).toBeNull();
+    });
+
+    it('should handle various admin action types', async () => {
+      const actionTypes = [
+        'reset_password',
+        'update_profile',
+        'clear_sessions'
+      ];
       
-      if (userId) {
+      for (const type of actionTypes) {
         const adminAction = {
-          type: 'activate_user',
-          description: 'Activated after review',
+          type,
+          description: `Test ${type} action`,
           confirmation: true
         };
         
-        await expect(userManager.performAdminAction(userId, adminAction)).resolves.not.toThrow();
-      }
-    });
-
-    it('should handle various admin action types', async () => {
-      const profiles = await userManager.getUserProfiles();
-      const userId = profiles[0]?.id;
-      
-      if (userId) {
-        const actionTypes = [
-          'reset_password',
-          'update_profile',
-          'clear_sessions'
-        ];
-        
-        for (const type of actionTypes) {
-          const adminAction = {
-            type,
-            description: `Test ${type} action`,
-            confirmation: true
-          };
-          
-          await expect(userManager.performAdminAction(userId, adminAction)).resolves.not.toThrow();
-        }
+        await expect(userManager.performAdminAction('user1', adminAction)).resolves.not.toThrow();
       }
+      expect((await userManager.getUserActivity('user1')).map(activity => activity.action)).toEqual([
+        'admin_clear_sessions', 'admin_update_profile', 'admin_reset_password', 'signup'
+      ]);
     });
 
     it('should throw error for invalid user in admin action', async () => {
@@ -343,61 +379,14 @@ describe('Admin Services', () => {
     });
 
     it('should throw error for unknown admin action type', async () => {
-      const profiles = await userManager.getUserProfiles();
-      const userId = profiles[0]?.id;
-      
-      if (userId) {
-        const adminAction = {
-          type: 'unknown_action',
-          description: 'Unknown action test',
-          confirmation: true
-        };
-        
-        await expect(userManager.performAdminAction(userId, adminAction))
-          .rejects.toThrow('Unknown admin action type: unknown_action');
-      }
-    });
-
-    it('should support user management utilities', () => {
-      const newUser = {
-        id: 'test-user',
-        email: 'test@example.com',
-        displayName: 'Test User',
-        settings: { theme: 'light', language: 'en', notifications: true }
+      const adminAction = {
+        type: 'unknown_action',
+        description: 'Unknown action test',
+        confirmation: true
       };
       
-      userManager.addMockUser(newUser);
-      expect(userManager.getUserById('test-user')).toEqual(newUser);
-      
-      userManager.addUserActivity('test-user', {
-        action: 'test_action',
-        resource: 'test_resource'
-      });
-      
-      userManager.removeMockUser('test-user');
-      expect(userManager.getUserById('test-user')).toBeUndefined();
-    });
-
-    it('should provide user count statistics', () => {
-      const totalUsers = userManager.getMockUserCount();
-      const activeUsers = userManager.getActiveUserCount();
-      const suspendedUsers = userManager.getSuspendedUserCount();
-      
-      expect(typeof totalUsers).toBe('number');
-      expect(typeof activeUsers).toBe('number');
-      expect(typeof suspendedUsers).toBe('number');
-      
-      expect(totalUsers).toBeGreaterThan(0);
-      expect(activeUsers).toBeLessThanOrEqual(totalUsers);
-      expect(suspendedUsers).toBeGreaterThanOrEqual(0);
-    });
-
-    it('should support data reset', () => {
-      const originalCount = userManager.getMockUserCount();
-      
-      userManager.clearAllMockData();
-      
-      expect(userManager.getMockUserCount()).toBe(originalCount); // Should reinitialize
+      await expect(userManager.performAdminAction('user1', adminAction))
+        .rejects.toThrow('Unknown admin action type: unknown_action');
     });
   });
 
@@ -1,6 +1,67 @@
 // Export JWT authentication service
 export { JWTAuthService } from './services/jwt.service';
 
+// Export user accounts
+export {
+  UserService,
+  UserValidationError,
+  EmailInUseError,
+  InvalidCredentialsError,
+  AccountLockedError,
+  AccountSuspendedError,
+  InvalidResetTokenError,
+  IdentityConflictError,
+  DEFAULT_USER_SERVICE_OPTIONS,
+  toUser
+} from './services/user.service';
+export { MemoryUserStore, JsonFileUserStore, DevelopmentUserStore, createUserStore, createDevelopmentUsers, getUsersFile } from './services/user.store';
+export { hashPassword, verifyPassword, getPasswordProblems } from './services/password.hasher';
+export { createInitialAdmin } from './services/initial-admin';
+
+// Export sessions and refresh tokens
+export {
+  SessionService,
+  InvalidRefreshTokenError,
+  ACCESS_TOKEN_TTL_MS,
+  DEFAULT_SESSION_SERVICE_OPTIONS
+} from './services/session.service';
+export {
+  MemorySessionStore,
+  JsonFileSessionStore,
+  MemoryRevocationList,
+  JsonFileRevocationList,
+  getSessionsFile,
+  getRevokedSessionsFile
+} from './services/session.store';
+
+// Export personal access tokens
+export {
+  AccessTokenService,
+  AccessTokenValidationError,
+  ACCESS_TOKEN_PREFIX,
+  DEFAULT_ACCESS_TOKEN_SERVICE_OPTIONS,
+  isAccessToken
+} from './services/access-token.service';
+export { MemoryAccessTokenStore, JsonFileAccessTokenStore, getAccessTokensFile } from './services/access-token.store';
+
+// Export sign-in providers
+export {
+  AuthProviderRegistry,
+  LocalAuthProvider,
+  LOCAL_PROVIDER_ID,
+  OIDC_PROVIDER_ID,
+  createAuthProviders,
+  getOidcProviderConfig,
+  parseRoleMapping,
+  isRedirectProvider,
+  isLocalProvider
+} from './services/auth.providers';
+export { OidcAuthProvider, OidcError, mapClaimToRoles } from './services/oidc.provider';
+
+// Export roles and permissions
+export { PERMISSIONS, ROLES, DEFAULT_ROLE, isKnownRole, getPermissionsForRoles } from './services/roles';
+export type { PermissionName } from './services/roles';
+
 // Export JWT authentication middleware
 export { JWTAuthMiddleware } from './middleware/auth.middleware';
 
@@ -13,5 +74,42 @@ export type {
   JWTPayload, 
   TokenValidationResult, 
   AuthenticationResult,
-  JWTAuthServiceInterface 
-} from './types/jwt.types'; 
\ No newline at end of file
+  JWTAuthServiceInterface,
+  SignedInSession
+} from './types/jwt.types';
+export type {
+  SessionRecord,
+  AuthSession,
+  SessionClient,
+  IssuedSession,
+  SessionServiceOptions,
+  ISessionStore,
+  IRevocationList
+} from './types/session.types';
+export type {
+  AccessTokenRecord,
+  AccessToken,
+  CreateAccessTokenRequest,
+  IssuedAccessToken,
+  AccessTokenServiceOptions,
+  IAccessTokenStore
+} from './types/access-token.types';
+export type {
+  AuthProviderType,
+  AuthProviderInfo,
+  ExternalIdentity,
+  LinkedIdentity,
+  CompletedLogin,
+  IAuthProvider,
+  ILocalAuthProvider,
+  IRedirectAuthProvider,
+  OidcProviderConfig
+} from './types/provider.types';
+export type {
+  UserRecord,
+  UserAccount,
+  UserStatus,
+  SignupRequest,
+  UserServiceOptions,
+  IUserStore
+} from './types/user.types';
@@ -1,27 +1,41 @@
 import { Request, Response, NextFunction } from 'express';
 import { JWTAuthService } from '../services/jwt.service';
+import { SessionService } from '../services/session.service';
+import { UserService } from '../services/user.service';
+import { AccessTokenService, isAccessToken } from '../services/access-token.service';
 import { User } from '../types/jwt.types';
+import { PERMISSIONS } from '../services/roles';
 
 // Extend Express Request interface to include user
 declare global {
   namespace Express {
     interface Request {
       user?: User;
+      authSessionId?: string; // The session the access token was issued for
+      authTokenId?: string; // The personal access token the request was made with
+      authExpiresAt?: Date; // When the token the request was made with expires; tokens without an expiry leave it unset
     }
   }
 }
 
 export class JWTAuthMiddleware {
   private jwtService: JWTAuthService;
+  private sessions: SessionService;
+  private accessTokens: AccessTokenService;
 
-  constructor() {
-    this.jwtService = new JWTAuthService();
+  constructor(sessions?: SessionService, accessTokens?: AccessTokenService, users?: UserService) {
+    this.sessions = sessions || new SessionService();
+    this.accessTokens = accessTokens || new AccessTokenService(undefined, users);
+    this.jwtService = new JWTAuthService(users, this.sessions);
   }
 
   /**
-   * Middleware to validate JWT token and inject user into request
+   * Middleware to validate JWT token and inject user into request. Tokens of
+   * revoked sessions are refused until they expire. Personal access tokens
+   * are accepted too; their user has only the permissions of the token's
+   * scopes.
    */
-  authenticateToken = (req: Request, res: Response, next: NextFunction): void => {
+  authenticateToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const authHeader = req.headers.authorization;
     const token = authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : null;
 
@@ -31,6 +45,22 @@ export class JWTAuthMiddleware {
     }
 
     try {
+      if (isAccessToken(token)) {
+        const authenticated = await this.accessTokens.authenticate(token);
+        if (!authenticated) {
+          res.status(401).json({ error: 'Invalid or expired access token' });
+          return;
+        }
+
+        req.user = authenticated.user;
+        req.authTokenId = authenticated.accessToken.id;
+        if (authenticated.accessToken.expiresAt) {
+          req.authExpiresAt = authenticated.accessToken.expiresAt;
+        }
+        next();
+        return;
+      }
+
       const validation = this.jwtService.validateToken(token);
       
       if (!validation.isValid || !validation.user) {
@@ -38,8 +68,19 @@ export class JWTAuthMiddleware {
         return;
       }
 
+      if (validation.sessionId && await this.sessions.isRevoked(validation.sessionId)) {
+        res.status(401).json({ error: 'Token revoked' });
+        return;
+      }
+
       // Inject user into request object
       req.user = validation.user;
+      if (validation.sessionId) {
+        req.authSessionId = validation.sessionId;
+      }
+      if (validation.expiresAt) {
+        req.authExpiresAt = validation.expiresAt;
+      }
       next();
     } catch (error) {
       console.error('Token validation error:', error);
@@ -50,7 +91,7 @@ export class JWTAuthMiddleware {
   /**
    * Optional authentication middleware - doesn't fail if no token provided
    */
-  optionalAuth = (req: Request, res: Response, next: NextFunction): void => {
+  optionalAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const authHeader = req.headers.authorization;
     const token = authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : null;
 
@@ -61,11 +102,25 @@ export class JWTAuthMiddleware {
     }
 
     try {
+      if (isAccessToken(token)) {
+        const authenticated = await this.accessTokens.authenticate(token);
+        if (authenticated) {
+          req.user = authenticated.user;
+          req.authTokenId = authenticated.accessToken.id;
+        }
+        next();
+        return;
+      }
+
       const validation = this.jwtService.validateToken(token);
       
-      if (validation.isValid && validation.user) {
+      const revoked = validation.sessionId ? await this.sessions.isRevoked(validation.sessionId) : false;
+      if (validation.isValid && validation.user && !revoked) {
         // Valid token, inject user into request object
         req.user = validation.user;
+        if (validation.sessionId) {
+          req.authSessionId = validation.sessionId;
+        }
       }
       
       next();
@@ -77,7 +132,7 @@ export class JWTAuthMiddleware {
   };
 
   /**
-   * Middleware to check if user has required role (for future use)
+   * Middleware to check that the user has a role
    */
   requireRole = (requiredRole: string) => {
     return (req: Request, res: Response, next: NextFunction): void => {
@@ -86,23 +141,38 @@ export class JWTAuthMiddleware {
         return;
       }
 
-      // For now, all authenticated users have access
-      // In the future, this can be extended to check user roles
+      if (!req.user.roles?.includes(requiredRole)) {
+        res.status(403).json({ error: `Role required: ${requiredRole}`, requiredRole });
+        return;
+      }
+
       next();
     };
   };
 
   /**
-   * Middleware to check if user is admin (for future use)
+   * Middleware to check that one of the user's roles grants a permission. The
+   * 403 response names the permission that is missing.
    */
-  requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
-    if (!req.user) {
-      res.status(401).json({ error: 'Authentication required' });
-      return;
-    }
+  requirePermission = (permission: string) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
 
-    // For now, all authenticated users have admin access
-    // In the future, this can be extended to check admin status
-    next();
+      // Tokens issued before roles existed carry no permissions at all
+      if (!req.user.permissions?.includes(permission)) {
+        res.status(403).json({ error: `Missing permission: ${permission}`, missingPermission: permission });
+        return;
+      }
+
+      next();
+    };
   };
-} 
\ No newline at end of file
+
+  /**
+   * Middleware to check that the user may use the admin area
+   */
+  requireAdmin = this.requirePermission(PERMISSIONS.ADMIN_ACCESS);
+}
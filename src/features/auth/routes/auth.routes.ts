@@ -1,20 +1,84 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { JWTAuthService } from '../services/jwt.service';
+import {
+  AccountLockedError,
+  AccountSuspendedError,
+  EmailInUseError,
+  IdentityConflictError,
+  InvalidCredentialsError,
+  InvalidResetTokenError,
+  UserService,
+  UserValidationError
+} from '../services/user.service';
+import { InvalidRefreshTokenError, SessionService } from '../services/session.service';
+import { AccessTokenService, AccessTokenValidationError } from '../services/access-token.service';
+import { AuthProviderRegistry, LOCAL_PROVIDER_ID, createAuthProviders, isLocalProvider, isRedirectProvider } from '../services/auth.providers';
+import { OidcError } from '../services/oidc.provider';
 import { JWTAuthMiddleware } from '../middleware/auth.middleware';
+import { SignedInSession } from '../types/jwt.types';
+import { SessionClient } from '../types/session.types';
+import { ILocalAuthProvider, IRedirectAuthProvider } from '../types/provider.types';
+import { env } from '../../../shared/utils/environment-manager';
+
+const PASSWORD_SIGNIN_DISABLED = 'Email and password sign-in is disabled';
+
+// The device and address a session is listed with
+function getSessionClient(req: Request): SessionClient {
+  return {
+    device: req.get('user-agent') || 'Unknown device',
+    ip: req.ip || req.socket?.remoteAddress || ''
+  };
+}
+
+function toSignedInResponse(signedIn: SignedInSession) {
+  return {
+    success: true,
+    user: signedIn.user,
+    token: signedIn.token,
+    refreshToken: signedIn.refreshToken,
+    expires: signedIn.expiresAt.toISOString()
+  };
+}
+
+// Sign-ins through a provider end on the client with the outcome in the URL fragment
+function toClientRedirect(path: string, fragment: Record<string, string>): string {
+  return `${path}#${new URLSearchParams(fragment).toString()}`;
+}
+
+// Errors whose message is meant for the user signing in
+function isSignInError(error: unknown): error is Error {
+  return error instanceof OidcError
+    || error instanceof IdentityConflictError
+    || error instanceof AccountSuspendedError
+    || error instanceof InvalidCredentialsError
+    || error instanceof UserValidationError;
+}
 
 export class JWTAuthRoutes {
   private router: Router;
+  private userService: UserService;
+  private sessionService: SessionService;
+  private accessTokenService: AccessTokenService;
   private jwtService: JWTAuthService;
   private authMiddleware: JWTAuthMiddleware;
+  private providers: AuthProviderRegistry;
 
-  constructor() {
+  constructor(providers?: AuthProviderRegistry, users?: UserService) {
     this.router = Router();
-    this.jwtService = new JWTAuthService();
-    this.authMiddleware = new JWTAuthMiddleware();
+    this.userService = users || new UserService();
+    this.sessionService = new SessionService();
+    this.accessTokenService = new AccessTokenService(undefined, this.userService);
+    this.jwtService = new JWTAuthService(this.userService, this.sessionService);
+    this.authMiddleware = new JWTAuthMiddleware(this.sessionService, this.accessTokenService, this.userService);
+    // The local provider, plus the OpenID Connect provider from the environment config
+    this.providers = providers || createAuthProviders(this.userService);
     this.setupRoutes();
   }
 
   private setupRoutes(): void {
+    // POST /api/auth/signup - Create an account
+    this.router.post('/signup', this.handleSignup.bind(this));
+
     // POST /api/auth/signin - User login
     this.router.post('/signin', this.handleSignin.bind(this));
 
@@ -22,10 +86,85 @@ export class JWTAuthRoutes {
     this.router.get('/session', this.authMiddleware.authenticateToken, this.handleSession.bind(this));
 
     // POST /api/auth/signout - User logout
-    this.router.post('/signout', this.handleSignout.bind(this));
+    this.router.post('/signout', this.authMiddleware.optionalAuth, this.handleSignout.bind(this));
 
-    // POST /api/auth/refresh - Refresh token
+    // POST /api/auth/refresh - Trade a refresh token for new tokens
     this.router.post('/refresh', this.handleRefreshToken.bind(this));
+
+    // GET /api/auth/sessions - List the signed-in user's sessions
+    this.router.get('/sessions', this.authMiddleware.authenticateToken, this.requireSession('Sessions'), this.handleListSessions.bind(this));
+
+    // DELETE /api/auth/sessions/:sessionId - Sign one of the user's sessions out
+    this.router.delete('/sessions/:sessionId', this.authMiddleware.authenticateToken, this.requireSession('Sessions'), this.handleRevokeSession.bind(this));
+
+    // GET /api/auth/tokens - List the signed-in user's personal access tokens
+    this.router.get('/tokens', this.authMiddleware.authenticateToken, this.requireSession('Access tokens'), this.handleListTokens.bind(this));
+
+    // POST /api/auth/tokens - Create a personal access token
+    this.router.post('/tokens', this.authMiddleware.authenticateToken, this.requireSession('Access tokens'), this.handleCreateToken.bind(this));
+
+    // DELETE /api/auth/tokens/:tokenId - Revoke one of the user's personal access tokens
+    this.router.delete('/tokens/:tokenId', this.authMiddleware.authenticateToken, this.requireSession('Access tokens'), this.handleRevokeToken.bind(this));
+
+    // POST /api/auth/password - Change the signed-in user's password
+    this.router.post('/password', this.authMiddleware.authenticateToken, this.handleChangePassword.bind(this));
+
+    // POST /api/auth/password/forgot - Issue a password reset token
+    this.router.post('/password/forgot', this.handleForgotPassword.bind(this));
+
+    // POST /api/auth/password/reset - Set a new password with a reset token
+    this.router.post('/password/reset', this.handleResetPassword.bind(this));
+
+    // GET /api/auth/providers - List the enabled sign-in providers
+    this.router.get('/providers', this.handleListProviders.bind(this));
+
+    // GET /api/auth/providers/:providerId/login - Send the browser to an identity provider
+    this.router.get('/providers/:providerId/login', this.handleProviderLogin.bind(this));
+
+    // GET /api/auth/providers/:providerId/callback - Take the identity provider's answer
+    this.router.get('/providers/:providerId/callback', this.handleProviderCallback.bind(this));
+  }
+
+  /**
+   * Handle account creation
+   */
+  private async handleSignup(req: Request, res: Response): Promise<void> {
+    try {
+      const { email, password, name } = req.body || {};
+
+      if (!email || !password) {
+        res.status(400).json({ 
+          error: 'Email and password are required',
+          success: false 
+        });
+        return;
+      }
+
+      if (!this.getLocalProvider()) {
+        res.status(403).json({ error: PASSWORD_SIGNIN_DISABLED, success: false });
+        return;
+      }
+
+      const user = await this.userService.signup({ email, password, name });
+      const signedIn = await this.jwtService.startSession(user, getSessionClient(req));
+
+      res.status(201).json(toSignedInResponse(signedIn));
+
+    } catch (error) {
+      if (error instanceof UserValidationError) {
+        res.status(400).json({ error: error.message, errors: error.errors, success: false });
+        return;
+      }
+      if (error instanceof EmailInUseError) {
+        res.status(409).json({ error: error.message, success: false });
+        return;
+      }
+      console.error('Signup error:', error);
+      res.status(500).json({ 
+        error: 'Internal server error',
+        success: false 
+      });
+    }
   }
 
   /**
@@ -44,26 +183,30 @@ export class JWTAuthRoutes {
         return;
       }
 
-      // Authenticate user
-      const result = this.jwtService.authenticateUser(email, password);
-
-      if (!result.success) {
-        res.status(401).json({ 
-          error: result.error,
-          success: false 
-        });
+      const provider = this.getLocalProvider();
+      if (!provider) {
+        res.status(403).json({ error: PASSWORD_SIGNIN_DISABLED, success: false });
         return;
       }
 
-      // Return success response
-      res.status(200).json({
-        success: true,
-        user: result.user,
-        token: result.token,
-        expires: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-      });
+      const user = await provider.authenticate(email, password);
+      const signedIn = await this.jwtService.startSession(user, getSessionClient(req));
+
+      res.status(200).json(toSignedInResponse(signedIn));
 
     } catch (error) {
+      if (error instanceof AccountLockedError) {
+        res.status(423).json({ error: error.message, lockedUntil: error.lockedUntil, success: false });
+        return;
+      }
+      if (error instanceof AccountSuspendedError) {
+        res.status(403).json({ error: error.message, success: false });
+        return;
+      }
+      if (error instanceof InvalidCredentialsError) {
+        res.status(401).json({ error: 'Invalid credentials', success: false });
+        return;
+      }
       console.error('Signin error:', error);
       res.status(500).json({ 
         error: 'Internal server error',
@@ -88,10 +231,11 @@ export class JWTAuthRoutes {
         return;
       }
 
+      // When the token the client holds expires; null for access tokens without an expiry
       res.status(200).json({
         success: true,
         user,
-        expires: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
+        expires: req.authExpiresAt ? req.authExpiresAt.toISOString() : null
       });
 
     } catch (error) {
@@ -104,12 +248,20 @@ export class JWTAuthRoutes {
   }
 
   /**
-   * Handle user signout
+   * Handle user signout. Ends the session of the access token and of the
+   * refresh token in the body, whichever are given; signing out twice is
+   * not an error.
    */
   private async handleSignout(req: Request, res: Response): Promise<void> {
     try {
-      // JWT tokens are stateless, so we just return success
-      // In a more sophisticated implementation, you might want to blacklist the token
+      if (req.user && req.authSessionId) {
+        await this.sessionService.revokeSession(req.user.id, req.authSessionId);
+      }
+      const { refreshToken } = req.body || {};
+      if (typeof refreshToken === 'string') {
+        await this.sessionService.endSession(refreshToken);
+      }
+
       res.status(200).json({ 
         success: true,
         message: 'Successfully signed out'
@@ -125,14 +277,14 @@ export class JWTAuthRoutes {
   }
 
   /**
-   * Handle token refresh
+   * Handle token refresh. The refresh token is single-use: the response
+   * carries its replacement.
    */
   private async handleRefreshToken(req: Request, res: Response): Promise<void> {
     try {
-      const authHeader = req.headers.authorization;
-      const token = authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : null;
+      const { refreshToken } = req.body || {};
 
-      if (!token) {
+      if (!refreshToken || typeof refreshToken !== 'string') {
         res.status(401).json({ 
           error: 'Refresh token required',
           success: false 
@@ -140,26 +292,287 @@ export class JWTAuthRoutes {
         return;
       }
 
-      // Refresh the token
-      const newToken = this.jwtService.refreshToken(token);
-      const user = this.jwtService.extractUserFromToken(newToken);
+      const signedIn = await this.jwtService.refreshSession(refreshToken, getSessionClient(req));
+
+      res.status(200).json(toSignedInResponse(signedIn));
+
+    } catch (error) {
+      if (error instanceof InvalidRefreshTokenError) {
+        res.status(401).json({ error: 'Invalid refresh token', success: false });
+        return;
+      }
+      console.error('Token refresh error:', error);
+      res.status(500).json({ 
+        error: 'Internal server error',
+        success: false 
+      });
+    }
+  }
+
+  /**
+   * Handle listing the signed-in user's sessions, marking the one making the request
+   */
+  private async handleListSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const sessions = await this.sessionService.listSessions(req.user!.id);
 
       res.status(200).json({
         success: true,
-        user,
-        token: newToken,
-        expires: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
+        sessions: sessions.map(session => ({ ...session, current: session.id === req.authSessionId }))
       });
 
     } catch (error) {
-      console.error('Token refresh error:', error);
-      res.status(401).json({ 
-        error: 'Invalid refresh token',
-        success: false 
+      console.error('List sessions error:', error);
+      res.status(500).json({ error: 'Internal server error', success: false });
+    }
+  }
+
+  /**
+   * Handle signing one of the user's sessions out; its access tokens stop working at once
+   */
+  private async handleRevokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const revoked = await this.sessionService.revokeSession(req.user!.id, req.params.sessionId!);
+
+      if (!revoked) {
+        res.status(404).json({ error: 'Session not found', success: false });
+        return;
+      }
+
+      res.status(200).json({ success: true, message: 'Session revoked' });
+
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({ error: 'Internal server error', success: false });
+    }
+  }
+
+  /**
+   * Handle listing the signed-in user's personal access tokens; their secrets are never shown again
+   */
+  private async handleListTokens(req: Request, res: Response): Promise<void> {
+    try {
+      const tokens = await this.accessTokenService.listTokens(req.user!.id);
+
+      res.status(200).json({ success: true, tokens });
+
+    } catch (error) {
+      console.error('List access tokens error:', error);
+      res.status(500).json({ error: 'Internal server error', success: false });
+    }
+  }
+
+  /**
+   * Handle creating a personal access token. The response is the only time
+   * the token is shown.
+   */
+  private async handleCreateToken(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, scopes, expiresInDays } = req.body || {};
+      const issued = await this.accessTokenService.createToken(req.user!, { name, scopes, expiresInDays });
+
+      res.status(201).json({ success: true, accessToken: issued.accessToken, token: issued.token });
+
+    } catch (error) {
+      if (error instanceof AccessTokenValidationError) {
+        res.status(400).json({ error: error.message, errors: error.errors, success: false });
+        return;
+      }
+      console.error('Create access token error:', error);
+      res.status(500).json({ error: 'Internal server error', success: false });
+    }
+  }
+
+  /**
+   * Handle revoking one of the user's personal access tokens; it stops working at once
+   */
+  private async handleRevokeToken(req: Request, res: Response): Promise<void> {
+    try {
+      const revoked = await this.accessTokenService.revokeToken(req.user!.id, req.params.tokenId!);
+
+      if (!revoked) {
+        res.status(404).json({ error: 'Access token not found', success: false });
+        return;
+      }
+
+      res.status(200).json({ success: true, message: 'Access token revoked' });
+
+    } catch (error) {
+      console.error('Revoke access token error:', error);
+      res.status(500).json({ error: 'Internal server error', success: false });
+    }
+  }
+
+  // A leaked access token must not be able to mint more of them, or keep the user's sessions signed out
+  private requireSession(managed: string) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (req.authTokenId) {
+        res.status(403).json({ error: `${managed} cannot be managed with an access token`, success: false });
+        return;
+      }
+      next();
+    };
+  }
+
+  /**
+   * Handle a password change by the signed-in user. Every other session is
+   * signed out and the user's access tokens are revoked.
+   */
+  private async handleChangePassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { currentPassword, newPassword } = req.body || {};
+
+      if (!currentPassword || !newPassword) {
+        res.status(400).json({ error: 'Current and new password are required', success: false });
+        return;
+      }
+
+      await this.userService.changePassword(req.user!.id, currentPassword, newPassword);
+      await this.sessionService.revokeAllSessions(req.user!.id, req.authSessionId);
+      await this.accessTokenService.revokeAllTokens(req.user!.id);
+
+      res.status(200).json({ success: true, message: 'Password changed' });
+
+    } catch (error) {
+      if (error instanceof InvalidCredentialsError) {
+        res.status(400).json({ error: 'Current password is incorrect', success: false });
+        return;
+      }
+      if (error instanceof UserValidationError) {
+        res.status(400).json({ error: error.message, errors: error.errors, success: false });
+        return;
+      }
+      console.error('Change password error:', error);
+      res.status(500).json({ error: 'Internal server error', success: false });
+    }
+  }
+
+  /**
+   * Handle a forgotten password. The response is the same whether or not the
+   * email is registered. There is no mail delivery yet, so outside production
+   * the token is returned for the client to use directly.
+   */
+  private async handleForgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { email } = req.body || {};
+
+      if (!email) {
+        res.status(400).json({ error: 'Email is required', success: false });
+        return;
+      }
+
+      const resetToken = await this.userService.requestPasswordReset(email);
+
+      res.status(200).json({
+        success: true,
+        message: 'If the email is registered, a password reset token has been issued',
+        ...(resetToken && !env.isProduction() ? { resetToken } : {})
       });
+
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({ error: 'Internal server error', success: false });
+    }
+  }
+
+  /**
+   * Handle a password reset with a token from /password/forgot. Every session
+   * of the account is signed out and its access tokens are revoked.
+   */
+  private async handleResetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, password } = req.body || {};
+
+      if (!token || !password) {
+        res.status(400).json({ error: 'Reset token and password are required', success: false });
+        return;
+      }
+
+      const user = await this.userService.resetPassword(token, password);
+      await this.sessionService.revokeAllSessions(user.id);
+      await this.accessTokenService.revokeAllTokens(user.id);
+
+      res.status(200).json({ success: true, message: 'Password reset' });
+
+    } catch (error) {
+      if (error instanceof InvalidResetTokenError) {
+        res.status(400).json({ error: error.message, success: false });
+        return;
+      }
+      if (error instanceof UserValidationError) {
+        res.status(400).json({ error: error.message, errors: error.errors, success: false });
+        return;
+      }
+      console.error('Reset password error:', error);
+      res.status(500).json({ error: 'Internal server error', success: false });
     }
   }
 
+  /**
+   * Handle listing the sign-in providers for the sign-in page
+   */
+  private async handleListProviders(req: Request, res: Response): Promise<void> {
+    res.status(200).json({ success: true, providers: this.providers.list() });
+  }
+
+  /**
+   * Handle the start of a sign-in through an identity provider. `redirect` is
+   * the page to return to afterwards.
+   */
+  private async handleProviderLogin(req: Request, res: Response): Promise<void> {
+    const provider = this.getRedirectProvider(req.params.providerId!);
+    if (!provider) {
+      res.status(404).json({ error: 'Auth provider not found', success: false });
+      return;
+    }
+
+    try {
+      const redirect = typeof req.query.redirect === 'string' ? req.query.redirect : undefined;
+      res.redirect(302, await provider.beginLogin(redirect));
+    } catch (error) {
+      console.error('Provider login error:', error);
+      res.redirect(302, toClientRedirect('/auth', { error: 'The identity provider is not available' }));
+    }
+  }
+
+  /**
+   * Handle the identity provider's callback. The browser is sent back to the
+   * client with a refresh token in the URL fragment, which never reaches a
+   * server; the client trades it for an access token.
+   */
+  private async handleProviderCallback(req: Request, res: Response): Promise<void> {
+    const provider = this.getRedirectProvider(req.params.providerId!);
+    if (!provider) {
+      res.status(404).json({ error: 'Auth provider not found', success: false });
+      return;
+    }
+
+    try {
+      const { identity, redirectTo } = await provider.completeLogin(req.query as Record<string, unknown>);
+      const user = await this.userService.signInWithIdentity(identity);
+      const signedIn = await this.jwtService.startSession(user, getSessionClient(req));
+
+      res.redirect(302, toClientRedirect(redirectTo, { refreshToken: signedIn.refreshToken }));
+    } catch (error) {
+      if (!isSignInError(error)) {
+        console.error('Provider callback error:', error);
+      }
+      const message = isSignInError(error) ? error.message : 'Sign-in failed';
+      res.redirect(302, toClientRedirect('/auth', { error: message }));
+    }
+  }
+
+  // Email and password sign-in and sign-up go through the local provider, so they stop when it is disabled
+  private getLocalProvider(): ILocalAuthProvider | null {
+    const provider = this.providers.get(LOCAL_PROVIDER_ID);
+    return provider && isLocalProvider(provider) ? provider : null;
+  }
+
+  private getRedirectProvider(id: string): IRedirectAuthProvider | null {
+    const provider = this.providers.get(id);
+    return provider && isRedirectProvider(provider) ? provider : null;
+  }
+
   /**
    * Get the router instance
    */
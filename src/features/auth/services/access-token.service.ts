@@ -0,0 +1,215 @@
+import * as crypto from 'crypto';
+import {
+  AccessToken,
+  AccessTokenRecord,
+  AccessTokenServiceOptions,
+  CreateAccessTokenRequest,
+  IAccessTokenStore,
+  IssuedAccessToken
+} from '../types/access-token.types';
+import { User } from '../types/jwt.types';
+import { JsonFileAccessTokenStore } from './access-token.store';
+import { UserService } from './user.service';
+import { PERMISSIONS, getPermissionsForRoles } from './roles';
+
+// Lets the middleware tell access tokens from JWTs, and secret scanners find leaked ones
+export const ACCESS_TOKEN_PREFIX = 'nat_';
+
+export const DEFAULT_ACCESS_TOKEN_SERVICE_OPTIONS: AccessTokenServiceOptions = {
+  maxExpiresInDays: 365,
+  lastUsedIntervalMs: 60 * 1000
+};
+
+const MAX_NAME_LENGTH = 100;
+
+export class AccessTokenValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'AccessTokenValidationError';
+    this.errors = errors;
+  }
+}
+
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+function hashTokenSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function matchesHash(secret: string, hash: string): boolean {
+  const actual = Buffer.from(hashTokenSecret(secret), 'hex');
+  const expected = Buffer.from(hash, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// Tokens are `nat_<token id>_<secret>`, so the record can be found without a scan
+function parseAccessToken(token: string): { id: string; secret: string } | null {
+  if (!isAccessToken(token)) {
+    return null;
+  }
+  const rest = token.substring(ACCESS_TOKEN_PREFIX.length);
+  const separator = rest.indexOf('_');
+  if (separator <= 0 || separator === rest.length - 1) {
+    return null;
+  }
+  return { id: rest.substring(0, separator), secret: rest.substring(separator + 1) };
+}
+
+function toAccessToken(record: AccessTokenRecord): AccessToken {
+  const token: Partial<AccessTokenRecord> = { ...record };
+  delete token.tokenHash;
+  return token as AccessToken;
+}
+
+function isExpired(record: AccessTokenRecord, now: number = Date.now()): boolean {
+  return record.expiresAt !== undefined && record.expiresAt.getTime() <= now;
+}
+
+/**
+ * Long-lived personal access tokens for scripts and integrations. A token
+ * carries a set of permission scopes and acts as its owner limited to those;
+ * scopes the owner has since lost are not granted.
+ */
+export class AccessTokenService {
+  private readonly store: IAccessTokenStore;
+  private readonly users: UserService;
+  private readonly options: AccessTokenServiceOptions;
+
+  constructor(store?: IAccessTokenStore, users?: UserService, options: Partial<AccessTokenServiceOptions> = {}) {
+    // data/access-tokens.json
+    this.store = store || new JsonFileAccessTokenStore();
+    this.users = users || new UserService();
+    this.options = { ...DEFAULT_ACCESS_TOKEN_SERVICE_OPTIONS, ...options };
+  }
+
+  /**
+   * Create a token for a user. Scopes are limited to permissions the user
+   * has. The returned token is the only copy of its secret.
+   */
+  async createToken(user: User, request: CreateAccessTokenRequest): Promise<IssuedAccessToken> {
+    const { name, scopes, expiresInDays } = this.validateRequest(user, request);
+    const now = new Date();
+    const secret = crypto.randomBytes(32).toString('hex');
+    const record: AccessTokenRecord = {
+      id: Date.now().toString(36) + Math.random().toString(36).substring(2, 8),
+      userId: user.id,
+      name,
+      tokenHash: hashTokenSecret(secret),
+      scopes,
+      createdAt: now,
+      ...(expiresInDays !== undefined ? { expiresAt: new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000) } : {})
+    };
+
+    await this.store.create(record);
+    return { accessToken: toAccessToken(record), token: `${ACCESS_TOKEN_PREFIX}${record.id}_${secret}` };
+  }
+
+  /**
+   * A user's tokens, newest first. Expired tokens are listed until they are
+   * revoked, so the user can see why a script stopped working.
+   */
+  async listTokens(userId: string): Promise<AccessToken[]> {
+    return (await this.store.list())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(toAccessToken);
+  }
+
+  /**
+   * Revoke one of a user's tokens; it stops working at once. Returns false
+   * when the user has no such token.
+   */
+  async revokeToken(userId: string, tokenId: string): Promise<boolean> {
+    const token = await this.store.get(tokenId);
+    if (!token || token.userId !== userId) {
+      return false;
+    }
+    return (await this.store.delete([tokenId])) > 0;
+  }
+
+  /**
+   * Revoke all of a user's tokens, as when their password is reset. Returns
+   * how many were revoked.
+   */
+  async revokeAllTokens(userId: string): Promise<number> {
+    const ids = (await this.store.list()).filter(token => token.userId === userId).map(token => token.id);
+    return ids.length > 0 ? this.store.delete(ids) : 0;
+  }
+
+  /**
+   * The user a token acts as, with the permissions of its scopes that the
+   * user still has. Returns null for unknown, revoked or expired tokens and
+   * for accounts that are not active.
+   */
+  async authenticate(token: string): Promise<{ user: User; accessToken: AccessToken } | null> {
+    const parsed = parseAccessToken(token);
+    const record = parsed ? await this.store.get(parsed.id) : null;
+    if (!parsed || !record || !matchesHash(parsed.secret, record.tokenHash) || isExpired(record)) {
+      return null;
+    }
+
+    const account = await this.users.getAccount(record.userId);
+    if (!account || account.status !== 'active') {
+      return null;
+    }
+
+    const granted = getPermissionsForRoles(account.roles);
+    const user: User = {
+      id: account.id,
+      email: account.email,
+      name: account.name,
+      roles: [...account.roles],
+      permissions: record.scopes.filter(scope => granted.includes(scope)).sort()
+    };
+
+    const used = await this.recordUse(record);
+    return { user, accessToken: toAccessToken(used) };
+  }
+
+  // Busy tokens would rewrite the store on every request, so the time is only kept to the minute
+  private async recordUse(record: AccessTokenRecord): Promise<AccessTokenRecord> {
+    const now = Date.now();
+    if (record.lastUsedAt && now - record.lastUsedAt.getTime() < this.options.lastUsedIntervalMs) {
+      return record;
+    }
+    const updated = await this.store.update(record.id, current => ({ ...current, lastUsedAt: new Date(now) }));
+    return updated || record;
+  }
+
+  private validateRequest(user: User, request: CreateAccessTokenRequest): { name: string; scopes: string[]; expiresInDays?: number } {
+    const errors: string[] = [];
+    const name = typeof request.name === 'string' ? request.name.trim() : '';
+    if (!name) {
+      errors.push('Token name is required');
+    } else if (name.length > MAX_NAME_LENGTH) {
+      errors.push(`Token name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+
+    const known: string[] = Object.values(PERMISSIONS);
+    const scopes = Array.isArray(request.scopes) ? Array.from(new Set(request.scopes)).sort() : [];
+    if (scopes.length === 0) {
+      errors.push('At least one scope is required');
+    }
+    for (const scope of scopes) {
+      if (typeof scope !== 'string' || !known.includes(scope)) {
+        errors.push(`Unknown scope: ${scope}`);
+      } else if (!user.permissions?.includes(scope)) {
+        errors.push(`You do not have the permission ${scope}`);
+      }
+    }
+
+    const { expiresInDays } = request;
+    if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > this.options.maxExpiresInDays)) {
+      errors.push(`Expiry must be a whole number of days between 1 and ${this.options.maxExpiresInDays}`);
+    }
+
+    if (errors.length > 0) {
+      throw new AccessTokenValidationError(errors);
+    }
+    return { name, scopes, ...(expiresInDays !== undefined ? { expiresInDays } : {}) };
+  }
+}
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccessTokenRecord, IAccessTokenStore } from '../types/access-token.types';
+import { getDataDirectory } from '../../../shared/utils/data-directory';
+import { withFileLock, writeFileAtomic } from '../../../shared/utils/atomic-file';
+
+export function getAccessTokensFile(): string {
+  return path.join(getDataDirectory(), 'access-tokens.json');
+}
+
+const DATE_FIELDS = ['createdAt', 'expiresAt', 'lastUsedAt'] as const;
+
+// JSON has no dates, so the date fields come back as strings
+function reviveAccessToken(token: any): AccessTokenRecord {
+  const revived = { ...token, scopes: Array.isArray(token.scopes) ? token.scopes : [] };
+  for (const field of DATE_FIELDS) {
+    if (typeof revived[field] === 'string') {
+      revived[field] = new Date(revived[field]);
+    }
+  }
+  return revived;
+}
+
+/**
+ * Access tokens kept for as long as the process lives
+ */
+export class MemoryAccessTokenStore implements IAccessTokenStore {
+  private tokens: Map<string, AccessTokenRecord> = new Map();
+
+  async list(): Promise<AccessTokenRecord[]> {
+    return Array.from(this.tokens.values(), token => ({ ...token, scopes: [...token.scopes] }));
+  }
+
+  async get(id: string): Promise<AccessTokenRecord | null> {
+    const token = this.tokens.get(id);
+    return token ? { ...token, scopes: [...token.scopes] } : null;
+  }
+
+  async create(token: AccessTokenRecord): Promise<void> {
+    this.tokens.set(token.id, { ...token, scopes: [...token.scopes] });
+  }
+
+  async update(id: string, change: (token: AccessTokenRecord) => AccessTokenRecord): Promise<AccessTokenRecord | null> {
+    const token = this.tokens.get(id);
+    if (!token) {
+      return null;
+    }
+    const updated = change({ ...token, scopes: [...token.scopes] });
+    this.tokens.set(id, updated);
+    return { ...updated, scopes: [...updated.scopes] };
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    return ids.filter(id => this.tokens.delete(id)).length;
+  }
+}
+
+/**
+ * Access tokens kept in one JSON file under the data directory, keyed by id.
+ * Every change is made while holding the file's lock.
+ */
+export class JsonFileAccessTokenStore implements IAccessTokenStore {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly resolveFile: () => string = getAccessTokensFile) {}
+
+  async list(): Promise<AccessTokenRecord[]> {
+    return Object.values(await this.readAll());
+  }
+
+  async get(id: string): Promise<AccessTokenRecord | null> {
+    const tokens = await this.readAll();
+    return Object.prototype.hasOwnProperty.call(tokens, id) ? tokens[id]! : null;
+  }
+
+  async create(token: AccessTokenRecord): Promise<void> {
+    await this.change(tokens => {
+      tokens[token.id] = token;
+    });
+  }
+
+  async update(id: string, change: (token: AccessTokenRecord) => AccessTokenRecord): Promise<AccessTokenRecord | null> {
+    let updated: AccessTokenRecord | null = null;
+    await this.change(tokens => {
+      const token = tokens[id];
+      if (token) {
+        updated = tokens[id] = change(token);
+      }
+    });
+    return updated;
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    let deleted = 0;
+    await this.change(tokens => {
+      for (const id of ids) {
+        if (Object.prototype.hasOwnProperty.call(tokens, id)) {
+          delete tokens[id];
+          deleted++;
+        }
+      }
+    });
+    return deleted;
+  }
+
+  private async readAll(): Promise<Record<string, AccessTokenRecord>> {
+    let data: string;
+    try {
+      data = await fs.promises.readFile(path.resolve(this.resolveFile()), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(data);
+    const tokens: Record<string, AccessTokenRecord> = {};
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      for (const [id, token] of Object.entries(parsed)) {
+        tokens[id] = reviveAccessToken(token);
+      }
+    }
+    return tokens;
+  }
+
+  // Changes from this process are applied in the order they were made
+  private change(apply: (tokens: Record<string, AccessTokenRecord>) => void): Promise<void> {
+    const filePath = path.resolve(this.resolveFile());
+    const write = this.pendingWrite.then(() => withFileLock(filePath, async () => {
+      const tokens = await this.readAll();
+      apply(tokens);
+      await writeFileAtomic(filePath, JSON.stringify(tokens, null, 2));
+    }));
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+}
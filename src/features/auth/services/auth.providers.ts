@@ -0,0 +1,134 @@
+import { User } from '../types/jwt.types';
+import {
+  AuthProviderInfo,
+  IAuthProvider,
+  ILocalAuthProvider,
+  IRedirectAuthProvider,
+  OidcProviderConfig
+} from '../types/provider.types';
+import { EnvironmentConfig, env } from '../../../shared/utils/environment-manager';
+import { UserService } from './user.service';
+import { OidcAuthProvider } from './oidc.provider';
+import { isKnownRole } from './roles';
+
+export const LOCAL_PROVIDER_ID = 'local';
+export const OIDC_PROVIDER_ID = 'oidc';
+
+const DEFAULT_OIDC_SCOPES = ['openid', 'email', 'profile'];
+const DEFAULT_LOGIN_TTL_MS = 10 * 60 * 1000;
+// Anyone can start a sign-in, so the ones waiting for their callback are capped
+const DEFAULT_MAX_PENDING_LOGINS = 1000;
+
+/**
+ * Sign-in with the email and password of an account in the user store
+ */
+export class LocalAuthProvider implements ILocalAuthProvider {
+  readonly id = LOCAL_PROVIDER_ID;
+  readonly name = 'Email and password';
+  readonly type = 'local' as const;
+
+  constructor(private readonly users: UserService) {}
+
+  authenticate(email: string, password: string): Promise<User> {
+    return this.users.verifyCredentials(email, password);
+  }
+}
+
+export function isRedirectProvider(provider: IAuthProvider): provider is IRedirectAuthProvider {
+  return provider.type !== 'local';
+}
+
+export function isLocalProvider(provider: IAuthProvider): provider is ILocalAuthProvider {
+  return provider.type === 'local';
+}
+
+/**
+ * The enabled sign-in providers, in the order the sign-in page lists them
+ */
+export class AuthProviderRegistry {
+  private providers: Map<string, IAuthProvider> = new Map();
+
+  constructor(providers: IAuthProvider[] = []) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  register(provider: IAuthProvider): void {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Auth provider ${provider.id} is already registered`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): IAuthProvider | null {
+    return this.providers.get(id) || null;
+  }
+
+  list(): AuthProviderInfo[] {
+    return Array.from(this.providers.values(), provider => ({
+      id: provider.id,
+      name: provider.name,
+      type: provider.type,
+      ...(isRedirectProvider(provider) ? { loginUrl: `/api/auth/providers/${encodeURIComponent(provider.id)}/login` } : {})
+    }));
+  }
+}
+
+/**
+ * Parse `group:role` pairs separated by commas. A group may be listed more
+ * than once to grant several roles; unknown roles are rejected.
+ */
+export function parseRoleMapping(mapping: string | undefined): Record<string, string[]> {
+  const roleMapping: Record<string, string[]> = {};
+  for (const entry of (mapping || '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf(':');
+    const group = separator > 0 ? entry.substring(0, separator).trim() : '';
+    const role = separator > 0 ? entry.substring(separator + 1).trim() : '';
+    if (!group || !role) {
+      throw new Error(`Invalid OIDC role mapping entry: ${entry}`);
+    }
+    if (!isKnownRole(role)) {
+      throw new Error(`Unknown role in OIDC role mapping: ${role}`);
+    }
+    roleMapping[group] = Array.from(new Set([...(roleMapping[group] || []), role]));
+  }
+  return roleMapping;
+}
+
+/**
+ * The OpenID Connect provider from the environment config, or null when no
+ * issuer and client id are configured
+ */
+export function getOidcProviderConfig(config: Partial<EnvironmentConfig> = env.getConfig()): OidcProviderConfig | null {
+  if (!config.OIDC_ISSUER || !config.OIDC_CLIENT_ID) {
+    return null;
+  }
+
+  const apiBaseUrl = (config.API_BASE_URL || 'http://localhost:3000/api').replace(/\/+$/, '');
+  const scopes = config.OIDC_SCOPES ? config.OIDC_SCOPES.split(/[\s,]+/).filter(Boolean) : DEFAULT_OIDC_SCOPES;
+  return {
+    id: OIDC_PROVIDER_ID,
+    name: config.OIDC_PROVIDER_NAME || 'Single sign-on',
+    issuer: config.OIDC_ISSUER,
+    clientId: config.OIDC_CLIENT_ID,
+    ...(config.OIDC_CLIENT_SECRET ? { clientSecret: config.OIDC_CLIENT_SECRET } : {}),
+    redirectUri: config.OIDC_REDIRECT_URI || `${apiBaseUrl}/auth/providers/${OIDC_PROVIDER_ID}/callback`,
+    scopes: scopes.includes('openid') ? scopes : ['openid', ...scopes],
+    ...(config.OIDC_ROLE_CLAIM ? { roleClaim: config.OIDC_ROLE_CLAIM } : {}),
+    roleMapping: parseRoleMapping(config.OIDC_ROLE_MAPPING),
+    loginTtlMs: DEFAULT_LOGIN_TTL_MS,
+    maxPendingLogins: DEFAULT_MAX_PENDING_LOGINS
+  };
+}
+
+/**
+ * The local provider unless LOCAL_SIGNIN_ENABLED is false, and the OpenID
+ * Connect provider when one is configured
+ */
+export function createAuthProviders(users: UserService, config: Partial<EnvironmentConfig> = env.getConfig()): AuthProviderRegistry {
+  const registry = new AuthProviderRegistry(config.LOCAL_SIGNIN_ENABLED === false ? [] : [new LocalAuthProvider(users)]);
+  const oidcConfig = getOidcProviderConfig(config);
+  if (oidcConfig) {
+    registry.register(new OidcAuthProvider(oidcConfig));
+  }
+  return registry;
+}
@@ -0,0 +1,28 @@
+import { User } from '../types/jwt.types';
+import { EnvironmentConfig, env } from '../../../shared/utils/environment-manager';
+import { createLogger } from '../../../core/logger';
+import { UserService } from './user.service';
+
+const logger = createLogger('InitialAdmin');
+
+/**
+ * Create the administrator configured with INITIAL_ADMIN_EMAIL and
+ * INITIAL_ADMIN_PASSWORD, so a new server can be administered at all. Nothing
+ * is created when they are not set or an active administrator exists, so the
+ * settings can stay in place after the first start.
+ */
+export async function createInitialAdmin(users: UserService, config: Partial<EnvironmentConfig> = env.getConfig()): Promise<User | null> {
+  if (!config.INITIAL_ADMIN_EMAIL || !config.INITIAL_ADMIN_PASSWORD) {
+    return null;
+  }
+
+  const admin = await users.createInitialAdmin({
+    email: config.INITIAL_ADMIN_EMAIL,
+    password: config.INITIAL_ADMIN_PASSWORD,
+    ...(config.INITIAL_ADMIN_NAME ? { name: config.INITIAL_ADMIN_NAME } : {})
+  });
+  if (admin) {
+    logger.info(`Created the initial administrator ${admin.email}`);
+  }
+  return admin;
+}
@@ -4,53 +4,56 @@ import {
   JWTPayload, 
   TokenValidationResult, 
   AuthenticationResult,
-  JWTAuthServiceInterface 
+  JWTAuthServiceInterface,
+  SignedInSession
 } from '../types/jwt.types';
+import { SessionClient } from '../types/session.types';
 import { env } from '../../../shared/utils/environment-manager';
+import {
+  AccountLockedError,
+  AccountSuspendedError,
+  InvalidCredentialsError,
+  UserService
+} from './user.service';
+import { ACCESS_TOKEN_TTL_MS, InvalidRefreshTokenError, SessionService } from './session.service';
 
 export class JWTAuthService implements JWTAuthServiceInterface {
   private readonly jwtSecret: string;
-  private readonly tokenExpiration: string = '30d';
-
-  // Test user credentials (in production, this would come from a database)
-  private readonly testUsers: User[] = [
-    {
-      id: '1',
-      email: 'test@example.com',
-      name: 'Test User'
-    },
-    {
-      id: 'admin1',
-      email: 'admin@example.com',
-      name: 'System Administrator'
-    }
-  ];
+  private readonly tokenExpirationSeconds: number = ACCESS_TOKEN_TTL_MS / 1000;
+  private readonly users: UserService;
+  private readonly sessions: SessionService;
 
-  constructor() {
+  constructor(users?: UserService, sessions?: SessionService) {
     const secret = env.get('JWT_SECRET');
     if (!secret) {
       throw new Error('JWT_SECRET not configured');
     }
     this.jwtSecret = secret;
+    this.users = users || new UserService();
+    this.sessions = sessions || new SessionService();
   }
 
   /**
-   * Generate a JWT token for a user
+   * Generate a short-lived JWT access token for a user, tied to a session
+   * when one is given
    */
-  generateToken(user: User): string {
+  generateToken(user: User, sessionId?: string): string {
     if (!this.jwtSecret) {
       throw new Error('JWT_SECRET not configured');
     }
 
     // Create payload object for JWT
-    const payload = {
+    const payload: JWTPayload = {
       userId: user.id,
       email: user.email,
-      name: user.name
+      name: user.name,
+      ...(user.roles ? { roles: user.roles } : {}),
+      ...(user.permissions ? { permissions: user.permissions } : {}),
+      ...(sessionId ? { sid: sessionId } : {})
     };
 
     return (jwt as any).sign(payload, this.jwtSecret, {
-      expiresIn: this.tokenExpiration
+      expiresIn: this.tokenExpirationSeconds
     });
   }
 
@@ -68,13 +71,17 @@ export class JWTAuthService implements JWTAuthServiceInterface {
       const user: User = {
         id: decoded.userId,
         email: decoded.email,
-        name: decoded.name
+        name: decoded.name,
+        ...(decoded.roles ? { roles: decoded.roles } : {}),
+        ...(decoded.permissions ? { permissions: decoded.permissions } : {})
       };
 
       return {
         isValid: true,
         user,
-        error: null
+        error: null,
+        ...(decoded.sid ? { sessionId: decoded.sid } : {}),
+        ...(decoded.exp ? { expiresAt: new Date(decoded.exp * 1000) } : {})
       };
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
@@ -100,9 +107,9 @@ export class JWTAuthService implements JWTAuthServiceInterface {
   }
 
   /**
-   * Authenticate user with email and password
+   * Authenticate user with email and password, starting a session for the client
    */
-  authenticateUser(email: string, password: string): AuthenticationResult {
+  async authenticateUser(email: string, password: string, client: SessionClient = {}): Promise<AuthenticationResult> {
     // Validate input
     if (!email || !password) {
       return {
@@ -113,38 +120,52 @@ export class JWTAuthService implements JWTAuthServiceInterface {
       };
     }
 
-    // Check against test credentials
-    const user = this.testUsers.find(u => u.email === email);
-    if (user && password === 'password123') {
-      const token = this.generateToken(user);
-      
+    try {
+      const user = await this.users.verifyCredentials(email, password);
+      const signedIn = await this.startSession(user, client);
+
       return {
         success: true,
-        token,
-        user: user,
-        error: null
+        error: null,
+        ...signedIn
       };
+    } catch (error) {
+      if (error instanceof AccountLockedError) {
+        return { success: false, token: null, user: null, error: error.message, reason: 'account_locked', lockedUntil: error.lockedUntil };
+      }
+      if (error instanceof AccountSuspendedError) {
+        return { success: false, token: null, user: null, error: error.message, reason: 'account_suspended' };
+      }
+      if (error instanceof InvalidCredentialsError) {
+        return { success: false, token: null, user: null, error: 'Invalid credentials', reason: 'invalid_credentials' };
+      }
+      throw error;
     }
+  }
 
-    return {
-      success: false,
-      token: null,
-      user: null,
-      error: 'Invalid credentials'
-    };
+  /**
+   * Start a session for a user who has just signed in or signed up
+   */
+  async startSession(user: User, client: SessionClient = {}): Promise<SignedInSession> {
+    const { session, refreshToken } = await this.sessions.createSession(user.id, client);
+    return this.toSignedInSession(user, session.id, refreshToken);
   }
 
   /**
-   * Refresh a JWT token
+   * Trade a refresh token for new tokens. The user is read again, so role
+   * changes apply and suspended or deleted accounts cannot keep a session.
    */
-  refreshToken(token: string): string {
-    const validation = this.validateToken(token);
-    
-    if (!validation.isValid || !validation.user) {
-      throw new Error(validation.error || 'Invalid token');
+  async refreshSession(refreshToken: string, client: SessionClient = {}): Promise<SignedInSession> {
+    const { session, refreshToken: nextRefreshToken } = await this.sessions.rotateRefreshToken(refreshToken, client);
+
+    const account = await this.users.getAccount(session.userId);
+    const user = account?.status === 'active' ? await this.users.getUser(session.userId) : null;
+    if (!user) {
+      await this.sessions.revokeSession(session.userId, session.id);
+      throw new InvalidRefreshTokenError();
     }
 
-    return this.generateToken(validation.user);
+    return this.toSignedInSession(user, session.id, nextRefreshToken);
   }
 
   /**
@@ -159,4 +180,14 @@ export class JWTAuthService implements JWTAuthServiceInterface {
 
     return validation.user;
   }
+
+  private toSignedInSession(user: User, sessionId: string, refreshToken: string): SignedInSession {
+    return {
+      user,
+      token: this.generateToken(user, sessionId),
+      refreshToken,
+      sessionId,
+      expiresAt: new Date(Date.now() + this.tokenExpirationSeconds * 1000)
+    };
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,335 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import jwt from 'jsonwebtoken';
+import {
+  CompletedLogin,
+  ExternalIdentity,
+  IRedirectAuthProvider,
+  OidcProviderConfig
+} from '../types/provider.types';
+
+// Asymmetric algorithms only: an HS256 token would be checked against the public key as a secret
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+const REQUEST_TIMEOUT_MS = 10000;
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingLogin {
+  nonce: string;
+  codeVerifier: string;
+  redirectTo: string;
+  expiresAt: number;
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomToken(): string {
+  return base64url(crypto.randomBytes(32));
+}
+
+// Only paths on this site, so a sign-in link cannot send the user elsewhere
+function toLocalPath(redirectTo: unknown): string {
+  return typeof redirectTo === 'string' && redirectTo.startsWith('/') && !redirectTo.startsWith('//') && !redirectTo.includes('\\')
+    ? redirectTo
+    : '/';
+}
+
+function requestJson(url: string, options: { method?: string; headers?: Record<string, string>; body?: string } = {}): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const transport = url.startsWith('https:') ? https : url.startsWith('http:') ? http : null;
+    if (!transport) {
+      reject(new OidcError(`Unsupported URL: ${url}`));
+      return;
+    }
+
+    const request = transport.request(url, {
+      method: options.method || 'GET',
+      headers: { 'Accept': 'application/json', ...options.headers },
+      timeout: REQUEST_TIMEOUT_MS
+    }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', chunk => chunks.push(chunk));
+      response.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        try {
+          resolve({ status: response.statusCode || 0, body: text ? JSON.parse(text) : null });
+        } catch {
+          reject(new OidcError(`Invalid JSON from ${url}`));
+        }
+      });
+    });
+    request.on('timeout', () => request.destroy(new OidcError(`Request to ${url} timed out`)));
+    request.on('error', reject);
+    if (options.body) {
+      request.write(options.body);
+    }
+    request.end();
+  });
+}
+
+function getClaim(claims: Record<string, unknown>, claimPath: string): unknown {
+  return claimPath.split('.').reduce<unknown>(
+    (value, key) => value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+    claims
+  );
+}
+
+/**
+ * The roles a user gets from a claim. The claim may be a list or a single
+ * value; values with no mapping grant nothing.
+ */
+export function mapClaimToRoles(claims: Record<string, unknown>, roleClaim: string, roleMapping: Record<string, string[]>): string[] {
+  const value = getClaim(claims, roleClaim);
+  const groups = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  const roles = new Set<string>();
+  for (const group of groups) {
+    const mapped = typeof group === 'string' && Object.prototype.hasOwnProperty.call(roleMapping, group) ? roleMapping[group]! : [];
+    mapped.forEach(role => roles.add(role));
+  }
+  return Array.from(roles);
+}
+
+/**
+ * Sign-in through an OpenID Connect identity provider with the authorization
+ * code flow and PKCE. The provider's endpoints come from its discovery
+ * document and ID tokens are checked against its published keys. Started
+ * sign-ins are kept in memory, so the callback has to reach the same server
+ * process that started it.
+ */
+export class OidcAuthProvider implements IRedirectAuthProvider {
+  readonly type = 'oidc' as const;
+  private discovery: Promise<DiscoveryDocument> | null = null;
+  private keys: Map<string, crypto.KeyObject> = new Map();
+  private pending: Map<string, PendingLogin> = new Map();
+
+  constructor(private readonly config: OidcProviderConfig) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  async beginLogin(redirectTo?: string): Promise<string> {
+    const discovery = await this.discover();
+    this.pruneExpiredLogins();
+    // Maps keep insertion order, so the oldest started sign-ins are dropped first
+    for (const state of this.pending.keys()) {
+      if (this.pending.size < this.config.maxPendingLogins) {
+        break;
+      }
+      this.pending.delete(state);
+    }
+
+    const state = randomToken();
+    const nonce = randomToken();
+    const codeVerifier = randomToken();
+    this.pending.set(state, {
+      nonce,
+      codeVerifier,
+      redirectTo: toLocalPath(redirectTo),
+      expiresAt: Date.now() + this.config.loginTtlMs
+    });
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    url.searchParams.set('scope', this.config.scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', base64url(crypto.createHash('sha256').update(codeVerifier).digest()));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+  }
+
+  /**
+   * Finish a sign-in from the parameters of the callback request. Each
+   * started sign-in can be completed once.
+   */
+  async completeLogin(params: Record<string, unknown>): Promise<CompletedLogin> {
+    if (typeof params.error === 'string') {
+      const description = typeof params.error_description === 'string' ? params.error_description : params.error;
+      throw new OidcError(`The identity provider refused the sign-in: ${description}`);
+    }
+
+    const state = typeof params.state === 'string' ? params.state : '';
+    const login = this.pending.get(state);
+    this.pending.delete(state);
+    if (!login || login.expiresAt <= Date.now()) {
+      throw new OidcError('Unknown or expired sign-in request');
+    }
+    if (typeof params.code !== 'string' || !params.code) {
+      throw new OidcError('Authorization code missing');
+    }
+
+    const idToken = await this.exchangeCode(params.code, login.codeVerifier);
+    const claims = await this.verifyIdToken(idToken, login.nonce);
+    return { identity: this.toIdentity(claims), redirectTo: login.redirectTo };
+  }
+
+  private discover(): Promise<DiscoveryDocument> {
+    if (!this.discovery) {
+      const issuer = this.config.issuer.replace(/\/+$/, '');
+      this.discovery = requestJson(`${issuer}/.well-known/openid-configuration`).then(({ status, body }) => {
+        if (status !== 200 || !body) {
+          throw new OidcError(`Discovery failed for ${issuer} (HTTP ${status})`);
+        }
+        if (body.issuer !== this.config.issuer) {
+          throw new OidcError(`Discovery document is for issuer ${body.issuer}, expected ${this.config.issuer}`);
+        }
+        for (const field of ['authorization_endpoint', 'token_endpoint', 'jwks_uri']) {
+          if (typeof body[field] !== 'string') {
+            throw new OidcError(`Discovery document has no ${field}`);
+          }
+        }
+        return body as DiscoveryDocument;
+      });
+      // Try again on the next sign-in rather than keeping a failure
+      this.discovery.catch(() => {
+        this.discovery = null;
+      });
+    }
+    return this.discovery;
+  }
+
+  private async exchangeCode(code: string, codeVerifier: string): Promise<string> {
+    const discovery = await this.discover();
+    const form = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      code_verifier: codeVerifier,
+      client_id: this.config.clientId
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (this.config.clientSecret) {
+      const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const { status, body } = await requestJson(discovery.token_endpoint, { method: 'POST', headers, body: form.toString() });
+    if (status !== 200 || !body || typeof body.id_token !== 'string') {
+      const reason = body && typeof body.error === 'string' ? body.error : `HTTP ${status}`;
+      throw new OidcError(`Token exchange failed: ${reason}`);
+    }
+    return body.id_token;
+  }
+
+  private async verifyIdToken(idToken: string, nonce: string): Promise<Record<string, unknown>> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new OidcError('ID token is malformed');
+    }
+    const algorithm = decoded.header.alg as jwt.Algorithm;
+    if (!ID_TOKEN_ALGORITHMS.includes(algorithm)) {
+      throw new OidcError(`ID token algorithm ${decoded.header.alg} is not allowed`);
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: [algorithm],
+        issuer: this.config.issuer,
+        audience: this.config.clientId,
+        clockTolerance: 30
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      throw new OidcError(`ID token rejected: ${(error as Error).message}`);
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new OidcError('ID token nonce does not match');
+    }
+    return claims;
+  }
+
+  // Keys are fetched again when a token names one we do not know, so key rotation is picked up
+  private async getSigningKey(kid: string | undefined): Promise<crypto.KeyObject> {
+    const cached = this.findKey(kid);
+    if (cached) {
+      return cached;
+    }
+
+    const discovery = await this.discover();
+    const { status, body } = await requestJson(discovery.jwks_uri);
+    if (status !== 200 || !body || !Array.isArray(body.keys)) {
+      throw new OidcError(`Fetching signing keys failed (HTTP ${status})`);
+    }
+
+    const keys = new Map<string, crypto.KeyObject>();
+    for (const jwk of body.keys) {
+      if (jwk.use && jwk.use !== 'sig') {
+        continue;
+      }
+      try {
+        keys.set(jwk.kid || '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        // Key types this runtime cannot load are never used to sign ID tokens we accept
+      }
+    }
+    this.keys = keys;
+
+    const key = this.findKey(kid);
+    if (!key) {
+      throw new OidcError(`No signing key ${kid || ''} published by the identity provider`);
+    }
+    return key;
+  }
+
+  private findKey(kid: string | undefined): crypto.KeyObject | undefined {
+    if (kid) {
+      return this.keys.get(kid);
+    }
+    // Without a key id the provider has to publish exactly one key
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+
+  private toIdentity(claims: Record<string, unknown>): ExternalIdentity {
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new OidcError('ID token has no subject');
+    }
+    if (typeof claims.email !== 'string' || !claims.email) {
+      throw new OidcError('The identity provider did not share an email address');
+    }
+
+    const name = typeof claims.name === 'string' ? claims.name
+      : typeof claims.preferred_username === 'string' ? claims.preferred_username
+        : undefined;
+    return {
+      provider: this.config.id,
+      subject: claims.sub,
+      email: claims.email,
+      emailVerified: claims.email_verified === true,
+      ...(name ? { name } : {}),
+      ...(this.config.roleClaim ? { roles: mapClaimToRoles(claims, this.config.roleClaim, this.config.roleMapping) } : {})
+    };
+  }
+
+  private pruneExpiredLogins(): void {
+    const now = Date.now();
+    for (const [state, login] of this.pending) {
+      if (login.expiresAt <= now) {
+        this.pending.delete(state);
+      }
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import * as crypto from 'crypto';
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 256;
+
+// scrypt cost parameters, stored with each hash so they can be raised later
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+
+function scrypt(password: string, salt: Buffer, keyLength: number, options: crypto.ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, options, (error, key) => error ? reject(error) : resolve(key));
+  });
+}
+
+/**
+ * Hash a password as `scrypt$<N>$<r>$<p>$<salt>$<key>`, salt and key in base64
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, KEY_LENGTH, {
+    N: SCRYPT_COST,
+    r: SCRYPT_BLOCK_SIZE,
+    p: SCRYPT_PARALLELIZATION
+  });
+
+  return ['scrypt', SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, cost, blockSize, parallelization, salt, key] = hash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'base64');
+  try {
+    const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+      N: Number(cost),
+      r: Number(blockSize),
+      p: Number(parallelization)
+    });
+    return crypto.timingSafeEqual(actual, expected);
+  } catch {
+    // Cost parameters scrypt refuses, or an empty key: the hash is corrupt
+    return false;
+  }
+}
+
+/**
+ * Reasons a password cannot be used, empty when it is fine
+ */
+export function getPasswordProblems(password: string): string[] {
+  if (typeof password !== 'string') {
+    return ['Password is required'];
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return [`Password must be at least ${MIN_PASSWORD_LENGTH} characters`];
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    return [`Password must be at most ${MAX_PASSWORD_LENGTH} characters`];
+  }
+  return [];
+}
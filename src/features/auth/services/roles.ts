@@ -0,0 +1,49 @@
+import { UserRole } from '../../../shared/types';
+
+/**
+ * Everything a role can grant. Routes ask for a permission rather than a
+ * role, so roles can be reshaped without touching them.
+ */
+export const PERMISSIONS = {
+  ADMIN_ACCESS: 'admin:access',
+  USERS_MANAGE: 'users:manage',
+  PLUGINS_MANAGE: 'plugins:manage',
+  SETTINGS_MANAGE: 'settings:manage',
+  LOGS_READ: 'logs:read',
+  LOGS_WRITE: 'logs:write'
+} as const;
+
+export type PermissionName = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export const DEFAULT_ROLE = 'user';
+
+export const ROLES: Record<string, UserRole> = {
+  user: {
+    id: 'user',
+    name: 'User',
+    permissions: [PERMISSIONS.LOGS_WRITE]
+  },
+  admin: {
+    id: 'admin',
+    name: 'Administrator',
+    permissions: Object.values(PERMISSIONS)
+  }
+};
+
+export function isKnownRole(roleId: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ROLES, roleId);
+}
+
+/**
+ * The permissions granted by any of the roles, sorted and without duplicates.
+ * Unknown roles grant nothing.
+ */
+export function getPermissionsForRoles(roleIds: string[]): string[] {
+  const permissions = new Set<string>();
+  for (const roleId of roleIds) {
+    if (isKnownRole(roleId)) {
+      ROLES[roleId]!.permissions.forEach(permission => permissions.add(permission));
+    }
+  }
+  return Array.from(permissions).sort();
+}
@@ -0,0 +1,217 @@
+import * as crypto from 'crypto';
+import {
+  AuthSession,
+  IRevocationList,
+  ISessionStore,
+  IssuedSession,
+  SessionClient,
+  SessionRecord,
+  SessionServiceOptions
+} from '../types/session.types';
+import { JsonFileRevocationList, JsonFileSessionStore } from './session.store';
+
+// Access tokens are short-lived; clients keep signed in with the refresh token
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+export const DEFAULT_SESSION_SERVICE_OPTIONS: SessionServiceOptions = {
+  refreshTokenTtlMs: 30 * 24 * 60 * 60 * 1000,
+  accessTokenTtlMs: ACCESS_TOKEN_TTL_MS
+};
+
+export class InvalidRefreshTokenError extends Error {
+  constructor() {
+    super('Invalid refresh token');
+    this.name = 'InvalidRefreshTokenError';
+  }
+}
+
+function hashRefreshToken(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function matchesHash(secret: string, hash: string): boolean {
+  const actual = Buffer.from(hashRefreshToken(secret), 'hex');
+  const expected = Buffer.from(hash, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// Refresh tokens are `<session id>.<secret>`, so the session can be found without a scan
+function parseRefreshToken(refreshToken: unknown): { sessionId: string; secret: string } | null {
+  if (typeof refreshToken !== 'string') {
+    return null;
+  }
+  const separator = refreshToken.indexOf('.');
+  if (separator <= 0 || separator === refreshToken.length - 1) {
+    return null;
+  }
+  return { sessionId: refreshToken.substring(0, separator), secret: refreshToken.substring(separator + 1) };
+}
+
+function toSession(record: SessionRecord): AuthSession {
+  const session: Partial<SessionRecord> = { ...record };
+  delete session.refreshTokenHash;
+  return session as AuthSession;
+}
+
+/**
+ * Server-side sessions behind rotating refresh tokens. Every refresh issues a
+ * new refresh token and retires the old one; presenting a retired token again
+ * means it was copied, so the whole session is ended.
+ */
+export class SessionService {
+  private readonly store: ISessionStore;
+  private readonly revocations: IRevocationList;
+  private readonly options: SessionServiceOptions;
+
+  constructor(store?: ISessionStore, revocations?: IRevocationList, options: Partial<SessionServiceOptions> = {}) {
+    // data/sessions.json and data/revoked-sessions.json
+    this.store = store || new JsonFileSessionStore();
+    this.revocations = revocations || new JsonFileRevocationList();
+    this.options = { ...DEFAULT_SESSION_SERVICE_OPTIONS, ...options };
+  }
+
+  async createSession(userId: string, client: SessionClient = {}): Promise<IssuedSession> {
+    const now = new Date();
+    const secret = crypto.randomBytes(32).toString('hex');
+    const session: SessionRecord = {
+      id: Date.now().toString(36) + Math.random().toString(36).substring(2, 8),
+      userId,
+      refreshTokenHash: hashRefreshToken(secret),
+      device: client.device || 'Unknown device',
+      ip: client.ip || '',
+      createdAt: now,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + this.options.refreshTokenTtlMs)
+    };
+
+    await this.store.create(session);
+    await this.pruneExpiredSessions(userId);
+    return { session: toSession(session), refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * Trade a refresh token for a new one, keeping the session alive
+   */
+  async rotateRefreshToken(refreshToken: string, client: SessionClient = {}): Promise<IssuedSession> {
+    const parsed = parseRefreshToken(refreshToken);
+    const session = parsed ? await this.store.get(parsed.sessionId) : null;
+    if (!parsed || !session) {
+      throw new InvalidRefreshTokenError();
+    }
+
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await this.store.delete([session.id]);
+      throw new InvalidRefreshTokenError();
+    }
+
+    if (!matchesHash(parsed.secret, session.refreshTokenHash)) {
+      // A retired refresh token: whoever holds the current one may not be the user
+      await this.revoke([session.id]);
+      throw new InvalidRefreshTokenError();
+    }
+
+    const secret = crypto.randomBytes(32).toString('hex');
+    const now = new Date();
+    let rotated = false;
+    const updated = await this.store.update(session.id, current => {
+      // Another request may have used the same token in the meantime
+      if (current.refreshTokenHash !== session.refreshTokenHash) {
+        return current;
+      }
+      rotated = true;
+      return {
+        ...current,
+        refreshTokenHash: hashRefreshToken(secret),
+        device: client.device || current.device,
+        ip: client.ip || current.ip,
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + this.options.refreshTokenTtlMs)
+      };
+    });
+
+    if (!updated || !rotated) {
+      await this.revoke([session.id]);
+      throw new InvalidRefreshTokenError();
+    }
+    return { session: toSession(updated), refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * End the session a refresh token belongs to. Returns false when the token
+   * is not current.
+   */
+  async endSession(refreshToken: string): Promise<boolean> {
+    const parsed = parseRefreshToken(refreshToken);
+    const session = parsed ? await this.store.get(parsed.sessionId) : null;
+    if (!parsed || !session || !matchesHash(parsed.secret, session.refreshTokenHash)) {
+      return false;
+    }
+
+    await this.revoke([session.id]);
+    return true;
+  }
+
+  /**
+   * A user's sessions that can still be refreshed, most recently used first
+   */
+  async listSessions(userId: string): Promise<AuthSession[]> {
+    const now = Date.now();
+    return (await this.store.list())
+      .filter(session => session.userId === userId && session.expiresAt.getTime() > now)
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime())
+      .map(toSession);
+  }
+
+  /**
+   * End one of a user's sessions. Returns false when the user has no such
+   * session.
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const session = await this.store.get(sessionId);
+    if (!session || session.userId !== userId) {
+      return false;
+    }
+
+    await this.revoke([sessionId]);
+    return true;
+  }
+
+  /**
+   * End every session of a user, except `exceptSessionId` when given.
+   * Returns how many were ended.
+   */
+  async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const ids = (await this.store.list())
+      .filter(session => session.userId === userId && session.id !== exceptSessionId)
+      .map(session => session.id);
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    await this.revoke(ids);
+    return ids.length;
+  }
+
+  /**
+   * Whether access tokens issued for this session must be refused
+   */
+  isRevoked(sessionId: string): Promise<boolean> {
+    return this.revocations.isRevoked(sessionId);
+  }
+
+  // The session's access tokens stay valid until they expire unless they are listed
+  private async revoke(sessionIds: string[]): Promise<void> {
+    await this.revocations.revoke(sessionIds, new Date(Date.now() + this.options.accessTokenTtlMs));
+    await this.store.delete(sessionIds);
+  }
+
+  private async pruneExpiredSessions(userId: string): Promise<void> {
+    const now = Date.now();
+    const expired = (await this.store.list())
+      .filter(session => session.userId === userId && session.expiresAt.getTime() <= now)
+      .map(session => session.id);
+    if (expired.length > 0) {
+      await this.store.delete(expired);
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IRevocationList, ISessionStore, SessionRecord } from '../types/session.types';
+import { getDataDirectory } from '../../../shared/utils/data-directory';
+import { withFileLock, writeFileAtomic } from '../../../shared/utils/atomic-file';
+
+export function getSessionsFile(): string {
+  return path.join(getDataDirectory(), 'sessions.json');
+}
+
+export function getRevokedSessionsFile(): string {
+  return path.join(getDataDirectory(), 'revoked-sessions.json');
+}
+
+const DATE_FIELDS = ['createdAt', 'lastUsedAt', 'expiresAt'] as const;
+
+// JSON has no dates, so the date fields come back as strings
+function reviveSession(session: any): SessionRecord {
+  const revived = { ...session };
+  for (const field of DATE_FIELDS) {
+    if (typeof revived[field] === 'string') {
+      revived[field] = new Date(revived[field]);
+    }
+  }
+  return revived;
+}
+
+async function readJsonObject(filePath: string): Promise<Record<string, any>> {
+  let data: string;
+  try {
+    data = await fs.promises.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(data);
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+}
+
+/**
+ * Sessions kept for as long as the process lives
+ */
+export class MemorySessionStore implements ISessionStore {
+  private sessions: Map<string, SessionRecord> = new Map();
+
+  async list(): Promise<SessionRecord[]> {
+    return Array.from(this.sessions.values(), session => ({ ...session }));
+  }
+
+  async get(id: string): Promise<SessionRecord | null> {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async create(session: SessionRecord): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async update(id: string, change: (session: SessionRecord) => SessionRecord): Promise<SessionRecord | null> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return null;
+    }
+    const updated = change({ ...session });
+    this.sessions.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    return ids.filter(id => this.sessions.delete(id)).length;
+  }
+}
+
+/**
+ * Sessions kept in one JSON file under the data directory, keyed by id. Every
+ * change is made while holding the file's lock, so a refresh token cannot be
+ * used twice by two server processes.
+ */
+export class JsonFileSessionStore implements ISessionStore {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly resolveFile: () => string = getSessionsFile) {}
+
+  async list(): Promise<SessionRecord[]> {
+    return Object.values(await this.readAll());
+  }
+
+  async get(id: string): Promise<SessionRecord | null> {
+    const sessions = await this.readAll();
+    return Object.prototype.hasOwnProperty.call(sessions, id) ? sessions[id]! : null;
+  }
+
+  async create(session: SessionRecord): Promise<void> {
+    await this.change(sessions => {
+      sessions[session.id] = session;
+    });
+  }
+
+  async update(id: string, change: (session: SessionRecord) => SessionRecord): Promise<SessionRecord | null> {
+    let updated: SessionRecord | null = null;
+    await this.change(sessions => {
+      const session = sessions[id];
+      if (session) {
+        updated = sessions[id] = change(session);
+      }
+    });
+    return updated;
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    let deleted = 0;
+    await this.change(sessions => {
+      for (const id of ids) {
+        if (Object.prototype.hasOwnProperty.call(sessions, id)) {
+          delete sessions[id];
+          deleted++;
+        }
+      }
+    });
+    return deleted;
+  }
+
+  private async readAll(): Promise<Record<string, SessionRecord>> {
+    const sessions: Record<string, SessionRecord> = {};
+    for (const [id, session] of Object.entries(await readJsonObject(path.resolve(this.resolveFile())))) {
+      sessions[id] = reviveSession(session);
+    }
+    return sessions;
+  }
+
+  // Changes from this process are applied in the order they were made
+  private change(apply: (sessions: Record<string, SessionRecord>) => void): Promise<void> {
+    const filePath = path.resolve(this.resolveFile());
+    const write = this.pendingWrite.then(() => withFileLock(filePath, async () => {
+      const sessions = await this.readAll();
+      apply(sessions);
+      await writeFileAtomic(filePath, JSON.stringify(sessions, null, 2));
+    }));
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Revoked sessions kept for as long as the process lives
+ */
+export class MemoryRevocationList implements IRevocationList {
+  private revoked: Map<string, number> = new Map();
+
+  async revoke(sessionIds: string[], until: Date): Promise<void> {
+    sessionIds.forEach(id => this.revoked.set(id, until.getTime()));
+  }
+
+  async isRevoked(sessionId: string): Promise<boolean> {
+    const until = this.revoked.get(sessionId);
+    return until !== undefined && until > Date.now();
+  }
+}
+
+/**
+ * Revoked sessions in a JSON file under the data directory, mapping each
+ * session id to when its last access token expires. Every middleware
+ * instance reads the same file, so a revocation applies to all routes at
+ * once. Expired entries are dropped whenever the file is written.
+ */
+export class JsonFileRevocationList implements IRevocationList {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly resolveFile: () => string = getRevokedSessionsFile) {}
+
+  async revoke(sessionIds: string[], until: Date): Promise<void> {
+    const filePath = path.resolve(this.resolveFile());
+    const write = this.pendingWrite.then(() => withFileLock(filePath, async () => {
+      const now = Date.now();
+      const revoked: Record<string, string> = {};
+      for (const [id, expiresAt] of Object.entries(await readJsonObject(filePath))) {
+        if (new Date(expiresAt).getTime() > now) {
+          revoked[id] = expiresAt;
+        }
+      }
+      sessionIds.forEach(id => {
+        revoked[id] = until.toISOString();
+      });
+      await writeFileAtomic(filePath, JSON.stringify(revoked, null, 2));
+    }));
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  async isRevoked(sessionId: string): Promise<boolean> {
+    const revoked = await readJsonObject(path.resolve(this.resolveFile()));
+    const expiresAt = Object.prototype.hasOwnProperty.call(revoked, sessionId) ? revoked[sessionId] : undefined;
+    return typeof expiresAt === 'string' && new Date(expiresAt).getTime() > Date.now();
+  }
+}
@@ -0,0 +1,388 @@
+import * as crypto from 'crypto';
+import { User } from '../types/jwt.types';
+import {
+  IUserStore,
+  SignupRequest,
+  UserAccount,
+  UserRecord,
+  UserServiceOptions,
+  UserStatus
+} from '../types/user.types';
+import { ExternalIdentity } from '../types/provider.types';
+import { getPasswordProblems, hashPassword, verifyPassword } from './password.hasher';
+import { createUserStore } from './user.store';
+import { DEFAULT_ROLE, getPermissionsForRoles, isKnownRole } from './roles';
+
+export const DEFAULT_USER_SERVICE_OPTIONS: UserServiceOptions = {
+  maxFailedLoginAttempts: 5,
+  lockoutMs: 15 * 60 * 1000,
+  passwordResetTtlMs: 60 * 60 * 1000
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class UserValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'UserValidationError';
+    this.errors = errors;
+  }
+}
+
+export class EmailInUseError extends Error {
+  readonly email: string;
+
+  constructor(email: string) {
+    super('Email is already registered');
+    this.name = 'EmailInUseError';
+    this.email = email;
+  }
+}
+
+export class InvalidCredentialsError extends Error {
+  constructor() {
+    super('Invalid credentials');
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+export class AccountLockedError extends Error {
+  readonly lockedUntil: Date;
+
+  constructor(lockedUntil: Date) {
+    super('Account is locked after too many failed sign-in attempts');
+    this.name = 'AccountLockedError';
+    this.lockedUntil = lockedUntil;
+  }
+}
+
+export class AccountSuspendedError extends Error {
+  constructor() {
+    super('Account is suspended');
+    this.name = 'AccountSuspendedError';
+  }
+}
+
+export class InvalidResetTokenError extends Error {
+  constructor() {
+    super('Invalid or expired reset token');
+    this.name = 'InvalidResetTokenError';
+  }
+}
+
+export class IdentityConflictError extends Error {
+  readonly email: string;
+
+  constructor(email: string) {
+    super('An account with this email already exists; sign in with its password to use it');
+    this.name = 'IdentityConflictError';
+    this.email = email;
+  }
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Reset tokens are stored hashed, so the accounts file alone cannot be used to reset passwords
+function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function toUser(record: UserRecord): User {
+  return {
+    id: record.id,
+    email: record.email,
+    name: record.name,
+    roles: [...record.roles],
+    permissions: getPermissionsForRoles(record.roles)
+  };
+}
+
+function toAccount(record: UserRecord): UserAccount {
+  const account: Partial<UserRecord> = { ...record };
+  delete account.passwordHash;
+  delete account.passwordResetTokenHash;
+  return account as UserAccount;
+}
+
+/**
+ * Sign-up, sign-in and password management for the accounts in a user store
+ */
+export class UserService {
+  private readonly store: IUserStore;
+  private readonly options: UserServiceOptions;
+  private unknownUserHash: Promise<string> | null = null;
+
+  constructor(store?: IUserStore, options: Partial<UserServiceOptions> = {}) {
+    // data/users.json, with the development accounts outside production
+    this.store = store || createUserStore();
+    this.options = { ...DEFAULT_USER_SERVICE_OPTIONS, ...options };
+  }
+
+  async signup(request: SignupRequest): Promise<User> {
+    return this.createAccount(request, [DEFAULT_ROLE]);
+  }
+
+  /**
+   * The first administrator of a server where no active account has the
+   * admin role, since sign-up only grants the default role. Returns null, and
+   * creates nothing, once there is an administrator.
+   */
+  async createInitialAdmin(request: SignupRequest): Promise<User | null> {
+    const hasAdmin = (await this.store.list()).some(user => user.status === 'active' && user.roles.includes('admin'));
+    return hasAdmin ? null : this.createAccount(request, ['admin']);
+  }
+
+  /**
+   * The user with this email and password. Too many wrong passwords in a row
+   * lock the account for a while; a successful sign-in starts the count over.
+   */
+  async verifyCredentials(email: string, password: string): Promise<User> {
+    // Request bodies are not checked, so the email may be any JSON value
+    const user = typeof email === 'string' ? await this.store.findByEmail(normalizeEmail(email)) : null;
+    if (!user || user.status === 'deleted') {
+      // Take as long as a wrong password would, so unknown emails cannot be told apart
+      await verifyPassword(password, await this.getUnknownUserHash());
+      throw new InvalidCredentialsError();
+    }
+
+    const now = Date.now();
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+      throw new AccountLockedError(user.lockedUntil);
+    }
+
+    if (!(await verifyPassword(password, user.passwordHash))) {
+      const updated = await this.store.update(user.id, current => {
+        const failedLoginAttempts = current.failedLoginAttempts + 1;
+        return failedLoginAttempts >= this.options.maxFailedLoginAttempts
+          ? { ...current, failedLoginAttempts: 0, lockedUntil: new Date(now + this.options.lockoutMs) }
+          : { ...current, failedLoginAttempts };
+      });
+      if (updated?.lockedUntil && updated.lockedUntil.getTime() > now) {
+        throw new AccountLockedError(updated.lockedUntil);
+      }
+      throw new InvalidCredentialsError();
+    }
+
+    if (user.status === 'suspended') {
+      throw new AccountSuspendedError();
+    }
+
+    await this.store.update(user.id, current => {
+      const signedIn: UserRecord = { ...current, failedLoginAttempts: 0, lastLoginAt: new Date(now) };
+      delete signedIn.lockedUntil;
+      return signedIn;
+    });
+    return toUser(user);
+  }
+
+  /**
+   * The account an identity provider vouched for, created on first sign-in.
+   * An existing account with the same email is only linked when the provider
+   * verified the email. Roles mapped from the provider's claims replace the
+   * account's roles; without a mapping they are left alone.
+   */
+  async signInWithIdentity(identity: ExternalIdentity): Promise<User> {
+    const email = normalizeEmail(identity.email);
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new UserValidationError(['A valid email is required']);
+    }
+
+    const isLinked = (user: UserRecord) => (user.identities || [])
+      .some(linked => linked.provider === identity.provider && linked.subject === identity.subject);
+    let user = (await this.store.list()).find(isLinked) || null;
+
+    if (!user) {
+      const existing = await this.store.findByEmail(email);
+      if (existing && !identity.emailVerified) {
+        throw new IdentityConflictError(email);
+      }
+      user = existing || await this.createExternalUser(identity, email);
+    }
+
+    if (user.status === 'deleted') {
+      throw new InvalidCredentialsError();
+    }
+    if (user.status === 'suspended') {
+      throw new AccountSuspendedError();
+    }
+
+    const roles = identity.roles ? identity.roles.filter(isKnownRole) : null;
+    const updated = await this.store.update(user.id, current => ({
+      ...current,
+      identities: isLinked(current)
+        ? current.identities
+        : [...(current.identities || []), { provider: identity.provider, subject: identity.subject }],
+      ...(roles ? { roles: roles.length > 0 ? roles : [DEFAULT_ROLE] } : {}),
+      lastLoginAt: new Date(),
+      updatedAt: new Date()
+    }));
+    return toUser(updated || user);
+  }
+
+  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
+    const user = await this.store.get(userId);
+    if (!user || !(await verifyPassword(currentPassword || '', user.passwordHash))) {
+      throw new InvalidCredentialsError();
+    }
+
+    await this.setPassword(userId, newPassword);
+  }
+
+  /**
+   * A single-use token for resetPassword, or null when no active account has
+   * this email. Only the newest token of an account is valid.
+   */
+  async requestPasswordReset(email: string): Promise<string | null> {
+    const user = typeof email === 'string' ? await this.store.findByEmail(normalizeEmail(email)) : null;
+    if (!user || user.status !== 'active') {
+      return null;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    await this.store.update(user.id, current => ({
+      ...current,
+      passwordResetTokenHash: hashResetToken(token),
+      passwordResetExpiresAt: new Date(Date.now() + this.options.passwordResetTtlMs)
+    }));
+    return token;
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<User> {
+    const tokenHash = typeof token === 'string' ? hashResetToken(token) : '';
+    const user = (await this.store.list()).find(candidate => candidate.passwordResetTokenHash === tokenHash);
+    if (!user || !user.passwordResetExpiresAt || user.passwordResetExpiresAt.getTime() < Date.now()) {
+      throw new InvalidResetTokenError();
+    }
+
+    await this.setPassword(user.id, newPassword);
+    return toUser(user);
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    const user = await this.store.get(id);
+    return user && user.status !== 'deleted' ? toUser(user) : null;
+  }
+
+  async listAccounts(): Promise<UserAccount[]> {
+    return (await this.store.list()).map(toAccount);
+  }
+
+  async getAccount(id: string): Promise<UserAccount | null> {
+    const user = await this.store.get(id);
+    return user ? toAccount(user) : null;
+  }
+
+  /**
+   * Suspend, delete or reactivate an account. Reactivating also lifts a
+   * lockout. Returns false when there is no such account.
+   */
+  async setStatus(id: string, status: UserStatus): Promise<boolean> {
+    const updated = await this.store.update(id, current => {
+      const next: UserRecord = { ...current, status, updatedAt: new Date() };
+      if (status === 'active') {
+        next.failedLoginAttempts = 0;
+        delete next.lockedUntil;
+      }
+      return next;
+    });
+    return !!updated;
+  }
+
+  /**
+   * Replace an account's roles. They take effect the next time the user
+   * signs in, since tokens carry the permissions they were issued with.
+   */
+  async setRoles(id: string, roles: string[]): Promise<UserAccount | null> {
+    const unknown = roles.filter(role => !isKnownRole(role));
+    if (unknown.length > 0) {
+      throw new UserValidationError(unknown.map(role => `Unknown role: ${role}`));
+    }
+
+    const updated = await this.store.update(id, current => ({
+      ...current,
+      roles: Array.from(new Set(roles)),
+      updatedAt: new Date()
+    }));
+    return updated ? toAccount(updated) : null;
+  }
+
+  private async createAccount(request: SignupRequest, roles: string[]): Promise<User> {
+    const email = typeof request.email === 'string' ? normalizeEmail(request.email) : '';
+    const errors = [
+      ...(EMAIL_PATTERN.test(email) ? [] : ['A valid email is required']),
+      ...getPasswordProblems(request.password)
+    ];
+    if (errors.length > 0) {
+      throw new UserValidationError(errors);
+    }
+
+    const now = new Date();
+    const user: UserRecord = {
+      id: Date.now().toString(36) + Math.random().toString(36).substring(2, 8),
+      email,
+      name: request.name?.trim() || email.substring(0, email.indexOf('@')),
+      passwordHash: await hashPassword(request.password),
+      status: 'active',
+      roles,
+      createdAt: now,
+      updatedAt: now,
+      failedLoginAttempts: 0
+    };
+
+    if (!(await this.store.create(user))) {
+      throw new EmailInUseError(email);
+    }
+    return toUser(user);
+  }
+
+  // A new password also ends any lockout and uses up the reset token
+  private async setPassword(userId: string, password: string): Promise<void> {
+    const problems = getPasswordProblems(password);
+    if (problems.length > 0) {
+      throw new UserValidationError(problems);
+    }
+
+    const passwordHash = await hashPassword(password);
+    await this.store.update(userId, current => {
+      const next: UserRecord = { ...current, passwordHash, failedLoginAttempts: 0, updatedAt: new Date() };
+      delete next.lockedUntil;
+      delete next.passwordResetTokenHash;
+      delete next.passwordResetExpiresAt;
+      return next;
+    });
+  }
+
+  // Such accounts have no password until one is set through a password reset
+  private async createExternalUser(identity: ExternalIdentity, email: string): Promise<UserRecord> {
+    const now = new Date();
+    const user: UserRecord = {
+      id: Date.now().toString(36) + Math.random().toString(36).substring(2, 8),
+      email,
+      name: identity.name?.trim() || email.substring(0, email.indexOf('@')),
+      passwordHash: '',
+      status: 'active',
+      roles: [DEFAULT_ROLE],
+      createdAt: now,
+      updatedAt: now,
+      failedLoginAttempts: 0,
+      identities: []
+    };
+
+    if (!(await this.store.create(user))) {
+      // Another sign-in registered the email first
+      throw new IdentityConflictError(email);
+    }
+    return user;
+  }
+
+  private getUnknownUserHash(): Promise<string> {
+    if (!this.unknownUserHash) {
+      this.unknownUserHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+    }
+    return this.unknownUserHash;
+  }
+}
@@ -0,0 +1,241 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IUserStore, UserRecord } from '../types/user.types';
+import { hashPassword } from './password.hasher';
+import { DEFAULT_ROLE } from './roles';
+import { getDataDirectory } from '../../../shared/utils/data-directory';
+import { withFileLock, writeFileAtomic } from '../../../shared/utils/atomic-file';
+
+export function getUsersFile(): string {
+  return path.join(getDataDirectory(), 'users.json');
+}
+
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'lastLoginAt', 'lockedUntil', 'passwordResetExpiresAt'] as const;
+
+// JSON has no dates, so the date fields come back as strings. Accounts
+// written before roles existed get the default role.
+function reviveUser(user: any): UserRecord {
+  const revived = { ...user };
+  for (const field of DATE_FIELDS) {
+    if (typeof revived[field] === 'string') {
+      revived[field] = new Date(revived[field]);
+    }
+  }
+  if (!Array.isArray(revived.roles)) {
+    revived.roles = [DEFAULT_ROLE];
+  }
+  return revived;
+}
+
+/**
+ * The accounts a development or test server starts with, both with the
+ * password `password123`; admin@example.com is an administrator
+ */
+export async function createDevelopmentUsers(): Promise<UserRecord[]> {
+  const passwordHash = await hashPassword('password123');
+  const createdAt = new Date();
+  const account = (id: string, email: string, name: string, roles: string[]): UserRecord =>
+    ({ id, email, name, passwordHash, status: 'active', roles, createdAt, updatedAt: createdAt, failedLoginAttempts: 0 });
+
+  return [
+    account('1', 'test@example.com', 'Test User', [DEFAULT_ROLE]),
+    account('admin1', 'admin@example.com', 'System Administrator', ['admin'])
+  ];
+}
+
+/**
+ * Accounts kept for as long as the process lives
+ */
+export class MemoryUserStore implements IUserStore {
+  private users: Map<string, UserRecord>;
+
+  constructor(users: UserRecord[] = []) {
+    this.users = new Map(users.map(user => [user.id, { ...user }]));
+  }
+
+  async list(): Promise<UserRecord[]> {
+    return Array.from(this.users.values(), user => ({ ...user }));
+  }
+
+  async get(id: string): Promise<UserRecord | null> {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const user = Array.from(this.users.values()).find(candidate => candidate.email === email);
+    return user ? { ...user } : null;
+  }
+
+  async create(user: UserRecord): Promise<boolean> {
+    if (await this.findByEmail(user.email)) {
+      return false;
+    }
+    this.users.set(user.id, { ...user });
+    return true;
+  }
+
+  async update(id: string, change: (user: UserRecord) => UserRecord): Promise<UserRecord | null> {
+    const user = this.users.get(id);
+    if (!user) {
+      return null;
+    }
+    const updated = change({ ...user });
+    this.users.set(id, updated);
+    return { ...updated };
+  }
+}
+
+/**
+ * Accounts kept in one JSON file under the data directory, keyed by id. Every
+ * change is made while holding the file's lock, so email uniqueness holds
+ * across server processes. Until the file is first written, the store holds
+ * `initialUsers`.
+ */
+export class JsonFileUserStore implements IUserStore {
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private initial: Promise<UserRecord[]> | null = null;
+
+  constructor(
+    private readonly resolveFile: () => string = getUsersFile,
+    private readonly initialUsers?: () => Promise<UserRecord[]>
+  ) {}
+
+  async list(): Promise<UserRecord[]> {
+    return Object.values(await this.readAll());
+  }
+
+  async get(id: string): Promise<UserRecord | null> {
+    const users = await this.readAll();
+    return Object.prototype.hasOwnProperty.call(users, id) ? users[id]! : null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    return (await this.list()).find(user => user.email === email) || null;
+  }
+
+  async create(user: UserRecord): Promise<boolean> {
+    let created = false;
+    await this.change(users => {
+      if (!Object.values(users).some(existing => existing.email === user.email)) {
+        users[user.id] = user;
+        created = true;
+      }
+    });
+    return created;
+  }
+
+  async update(id: string, change: (user: UserRecord) => UserRecord): Promise<UserRecord | null> {
+    let updated: UserRecord | null = null;
+    await this.change(users => {
+      const user = users[id];
+      if (user) {
+        updated = users[id] = change(user);
+      }
+    });
+    return updated;
+  }
+
+  private async readAll(): Promise<Record<string, UserRecord>> {
+    let data: string;
+    try {
+      data = await fs.promises.readFile(path.resolve(this.resolveFile()), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.getInitialUsers();
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(data);
+    const users: Record<string, UserRecord> = {};
+    for (const [id, user] of Object.entries(parsed && typeof parsed === 'object' ? parsed : {})) {
+      users[id] = reviveUser(user);
+    }
+    return users;
+  }
+
+  // Hashing the initial passwords is slow, so it is only done once
+  private async getInitialUsers(): Promise<Record<string, UserRecord>> {
+    if (!this.initialUsers) {
+      return {};
+    }
+    if (!this.initial) {
+      this.initial = this.initialUsers();
+    }
+    return Object.fromEntries((await this.initial).map(user => [user.id, { ...user }]));
+  }
+
+  // Changes from this process are applied in the order they were made
+  private change(apply: (users: Record<string, UserRecord>) => void): Promise<void> {
+    const filePath = path.resolve(this.resolveFile());
+    const write = this.pendingWrite.then(() => withFileLock(filePath, async () => {
+      const users = await this.readAll();
+      apply(users);
+      await writeFileAtomic(filePath, JSON.stringify(users, null, 2));
+    }));
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * The development accounts, held in memory in front of the store that keeps
+ * every other account, so they are never written to the users file
+ */
+export class DevelopmentUserStore implements IUserStore {
+  private developmentUsers: Promise<MemoryUserStore> | null = null;
+
+  constructor(
+    private readonly store: IUserStore,
+    private readonly createUsers: () => Promise<UserRecord[]> = createDevelopmentUsers
+  ) {}
+
+  async list(): Promise<UserRecord[]> {
+    return [...await (await this.getDevelopmentUsers()).list(), ...await this.store.list()];
+  }
+
+  async get(id: string): Promise<UserRecord | null> {
+    return await (await this.getDevelopmentUsers()).get(id) || this.store.get(id);
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    return await (await this.getDevelopmentUsers()).findByEmail(email) || this.store.findByEmail(email);
+  }
+
+  async create(user: UserRecord): Promise<boolean> {
+    if (await (await this.getDevelopmentUsers()).findByEmail(user.email)) {
+      return false;
+    }
+    return this.store.create(user);
+  }
+
+  async update(id: string, change: (user: UserRecord) => UserRecord): Promise<UserRecord | null> {
+    const developmentUsers = await this.getDevelopmentUsers();
+    return await developmentUsers.get(id) ? developmentUsers.update(id, change) : this.store.update(id, change);
+  }
+
+  // Hashing the passwords is slow, so it waits for the first use
+  private getDevelopmentUsers(): Promise<MemoryUserStore> {
+    if (!this.developmentUsers) {
+      this.developmentUsers = this.createUsers().then(users => new MemoryUserStore(users));
+    }
+    return this.developmentUsers;
+  }
+}
+
+/**
+ * The accounts file under the data directory. Only development and test
+ * servers have the development accounts, and only tests, whose data
+ * directory is temporary, write them to the file.
+ */
+export function createUserStore(): IUserStore {
+  switch (process.env.NODE_ENV) {
+    case 'test':
+      return new JsonFileUserStore(getUsersFile, createDevelopmentUsers);
+    case 'development':
+      return new DevelopmentUserStore(new JsonFileUserStore(getUsersFile));
+    default:
+      return new JsonFileUserStore(getUsersFile);
+  }
+}
@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccessTokenService, AccessTokenValidationError, isAccessToken } from '../services/access-token.service';
+import { JsonFileAccessTokenStore, MemoryAccessTokenStore } from '../services/access-token.store';
+import { UserService } from '../services/user.service';
+import { MemoryUserStore } from '../services/user.store';
+import { PERMISSIONS } from '../services/roles';
+import { AccessTokenRecord } from '../types/access-token.types';
+import { User } from '../types/jwt.types';
+
+describe('AccessTokenService', () => {
+  let store: MemoryAccessTokenStore;
+  let users: UserService;
+  let service: AccessTokenService;
+  let admin: User;
+
+  beforeEach(async () => {
+    store = new MemoryAccessTokenStore();
+    users = new UserService(new MemoryUserStore());
+    service = new AccessTokenService(store, users);
+
+    const created = await users.signup({ email: 'admin@example.com', password: 'correct-horse' });
+    await users.setRoles(created.id, ['admin']);
+    admin = (await users.getUser(created.id))!;
+  });
+
+  it('should store only a hash of the token and show it once', async () => {
+    const { accessToken, token } = await service.createToken(admin, { name: ' CI ', scopes: [PERMISSIONS.LOGS_READ] });
+
+    expect(isAccessToken(token)).toBe(true);
+    expect(accessToken).toMatchObject({ userId: admin.id, name: 'CI', scopes: ['logs:read'] });
+    expect(accessToken).not.toHaveProperty('tokenHash');
+    expect(JSON.stringify(await store.list())).not.toContain(token.split('_')[2]);
+    expect(await service.listTokens(admin.id)).toEqual([accessToken]);
+  });
+
+  it('should act as the owner with only the token scopes', async () => {
+    const { token } = await service.createToken(admin, { name: 'CI', scopes: [PERMISSIONS.LOGS_READ, PERMISSIONS.PLUGINS_MANAGE] });
+
+    const authenticated = await service.authenticate(token);
+    expect(authenticated?.user).toMatchObject({ id: admin.id, email: 'admin@example.com', permissions: ['logs:read', 'plugins:manage'] });
+    expect(authenticated?.accessToken.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('should stop granting scopes the owner has lost', async () => {
+    const { token } = await service.createToken(admin, { name: 'CI', scopes: [PERMISSIONS.LOGS_READ, PERMISSIONS.LOGS_WRITE] });
+    await users.setRoles(admin.id, ['user']);
+
+    expect((await service.authenticate(token))?.user.permissions).toEqual(['logs:write']);
+  });
+
+  it('should refuse unknown scopes and scopes the user does not have', async () => {
+    const user: User = { ...admin, permissions: [PERMISSIONS.LOGS_WRITE] };
+
+    await expect(service.createToken(user, { name: 'CI', scopes: ['logs:read', 'root'], expiresInDays: 0 }))
+      .rejects.toThrow(new AccessTokenValidationError([
+        'You do not have the permission logs:read',
+        'Unknown scope: root',
+        'Expiry must be a whole number of days between 1 and 365'
+      ]));
+    await expect(service.createToken(user, { name: '', scopes: [] })).rejects.toThrow(AccessTokenValidationError);
+  });
+
+  it('should refuse revoked, expired and tampered tokens and suspended accounts', async () => {
+    const revoked = await service.createToken(admin, { name: 'Old', scopes: [PERMISSIONS.LOGS_READ] });
+    const current = await service.createToken(admin, { name: 'New', scopes: [PERMISSIONS.LOGS_READ], expiresInDays: 1 });
+
+    expect(await service.revokeToken('someone-else', revoked.accessToken.id)).toBe(false);
+    expect(await service.revokeToken(admin.id, revoked.accessToken.id)).toBe(true);
+    expect(await service.authenticate(revoked.token)).toBeNull();
+    expect(await service.authenticate(`${current.token}0`)).toBeNull();
+    expect(await service.authenticate('nat_garbage')).toBeNull();
+
+    await users.setStatus(admin.id, 'suspended');
+    expect(await service.authenticate(current.token)).toBeNull();
+    await users.setStatus(admin.id, 'active');
+    expect(await service.authenticate(current.token)).not.toBeNull();
+
+    await store.update(current.accessToken.id, token => ({ ...token, expiresAt: new Date(Date.now() - 1000) }));
+    expect(await service.authenticate(current.token)).toBeNull();
+  });
+
+  it('should write the last-used time at most once per interval', async () => {
+    const { token } = await service.createToken(admin, { name: 'CI', scopes: [PERMISSIONS.LOGS_READ] });
+    const update = jest.spyOn(store, 'update');
+
+    await service.authenticate(token);
+    await service.authenticate(token);
+
+    expect(update).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('JSON file access token storage', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-access-tokens-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist tokens and read them back with dates', async () => {
+    const filePath = path.join(directory, 'access-tokens.json');
+    const token: AccessTokenRecord = {
+      id: 'one',
+      userId: 'alice',
+      name: 'CI',
+      tokenHash: 'hash',
+      scopes: ['logs:read'],
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 1000)
+    };
+    await new JsonFileAccessTokenStore(() => filePath).create(token);
+    await new JsonFileAccessTokenStore(() => filePath).create({ ...token, id: 'two' });
+
+    const store = new JsonFileAccessTokenStore(() => filePath);
+    expect(await store.get('one')).toEqual(token);
+    expect(await store.delete(['two', 'missing'])).toBe(1);
+    expect((await store.list()).map(item => item.id)).toEqual(['one']);
+  });
+});
@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { JWTAuthMiddleware } from '../middleware/auth.middleware';
 import { JWTAuthService } from '../services/jwt.service';
+import { SessionService } from '../services/session.service';
+import { MemoryRevocationList, MemorySessionStore } from '../services/session.store';
+import { AccessTokenService } from '../services/access-token.service';
+import { MemoryAccessTokenStore } from '../services/access-token.store';
 import { User } from '../types/jwt.types';
 
 // Mock the JWT service
@@ -137,6 +141,56 @@ describe('JWTAuthMiddleware', () => {
     });
   });
 
+  describe('authenticateToken with sessions', () => {
+    it('should refuse tokens of a revoked session and accept the others', async () => {
+      const sessions = new SessionService(new MemorySessionStore(), new MemoryRevocationList());
+      const revoked = await sessions.createSession(mockUser.id);
+      const active = await sessions.createSession(mockUser.id);
+      await sessions.revokeSession(mockUser.id, revoked.session.id);
+
+      const sessionMiddleware = new JWTAuthMiddleware(sessions);
+      const mockJwtService = sessionMiddleware['jwtService'] as jest.Mocked<JWTAuthService>;
+      mockRequest.headers = { authorization: 'Bearer valid.jwt.token' };
+
+      mockJwtService.validateToken.mockReturnValue({ isValid: true, user: mockUser, error: null, sessionId: revoked.session.id });
+      await sessionMiddleware.authenticateToken(mockRequest as Request, mockResponse as Response, mockNext);
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Token revoked' });
+      expect(mockNext).not.toHaveBeenCalled();
+
+      mockJwtService.validateToken.mockReturnValue({ isValid: true, user: mockUser, error: null, sessionId: active.session.id });
+      await sessionMiddleware.authenticateToken(mockRequest as Request, mockResponse as Response, mockNext);
+      expect(mockRequest.authSessionId).toBe(active.session.id);
+      expect(mockNext).toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticateToken with access tokens', () => {
+    it('should accept personal access tokens without asking the JWT service', async () => {
+      const accessTokens = new AccessTokenService(new MemoryAccessTokenStore());
+      const scopedUser: User = { ...mockUser, permissions: ['logs:read'] };
+      jest.spyOn(accessTokens, 'authenticate').mockImplementation(async token => token === 'nat_abc_secret'
+        ? { user: scopedUser, accessToken: { id: 'abc', userId: mockUser.id, name: 'CI', scopes: ['logs:read'], createdAt: new Date() } }
+        : null);
+
+      const tokenMiddleware = new JWTAuthMiddleware(undefined, accessTokens);
+      const mockJwtService = tokenMiddleware['jwtService'] as jest.Mocked<JWTAuthService>;
+
+      mockRequest.headers = { authorization: 'Bearer nat_abc_wrong' };
+      await tokenMiddleware.authenticateToken(mockRequest as Request, mockResponse as Response, mockNext);
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Invalid or expired access token' });
+      expect(mockNext).not.toHaveBeenCalled();
+
+      mockRequest.headers = { authorization: 'Bearer nat_abc_secret' };
+      await tokenMiddleware.authenticateToken(mockRequest as Request, mockResponse as Response, mockNext);
+      expect(mockRequest.user).toEqual(scopedUser);
+      expect(mockRequest.authTokenId).toBe('abc');
+      expect(mockNext).toHaveBeenCalled();
+      expect(mockJwtService.validateToken).not.toHaveBeenCalled();
+    });
+  });
+
   describe('optionalAuth', () => {
     it('should call next() when no token is provided', () => {
       mockRequest.headers = {};
@@ -224,8 +278,8 @@ describe('JWTAuthMiddleware', () => {
   });
 
   describe('requireRole', () => {
-    it('should call next() when user is authenticated', () => {
-      mockRequest.user = mockUser;
+    it('should call next() when the user has the role', () => {
+      mockRequest.user = { ...mockUser, roles: ['user', 'admin'] };
 
       const requireRole = middleware.requireRole('admin');
       requireRole(
@@ -238,6 +292,21 @@ describe('JWTAuthMiddleware', () => {
       expect(mockResponse.status).not.toHaveBeenCalled();
     });
 
+    it('should return 403 when the user does not have the role', () => {
+      mockRequest.user = { ...mockUser, roles: ['user'] };
+
+      const requireRole = middleware.requireRole('admin');
+      requireRole(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith({ error: 'Role required: admin', requiredRole: 'admin' });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
     it('should return 401 when user is not authenticated', () => {
       mockRequest.user = undefined;
 
@@ -254,9 +323,41 @@ describe('JWTAuthMiddleware', () => {
     });
   });
 
+  describe('requirePermission', () => {
+    it('should call next() when one of the user\'s roles grants the permission', () => {
+      mockRequest.user = { ...mockUser, permissions: ['logs:read', 'logs:write'] };
+
+      middleware.requirePermission('logs:read')(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+
+    it('should name the missing permission in the 403 response', () => {
+      mockRequest.user = { ...mockUser, permissions: ['logs:write'] };
+
+      middleware.requirePermission('logs:read')(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'Missing permission: logs:read',
+        missingPermission: 'logs:read'
+      });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+
   describe('requireAdmin', () => {
-    it('should call next() when user is authenticated', () => {
-      mockRequest.user = mockUser;
+    it('should call next() when the user may use the admin area', () => {
+      mockRequest.user = { ...mockUser, roles: ['admin'], permissions: ['admin:access'] };
 
       middleware.requireAdmin(
         mockRequest as Request,
@@ -268,6 +369,23 @@ describe('JWTAuthMiddleware', () => {
       expect(mockResponse.status).not.toHaveBeenCalled();
     });
 
+    it('should return 403 for users without admin access, including tokens without permissions', () => {
+      mockRequest.user = mockUser;
+
+      middleware.requireAdmin(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'Missing permission: admin:access',
+        missingPermission: 'admin:access'
+      });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
     it('should return 401 when user is not authenticated', () => {
       mockRequest.user = undefined;
 
@@ -282,4 +400,4 @@ describe('JWTAuthMiddleware', () => {
       expect(mockNext).not.toHaveBeenCalled();
     });
   });
-}); 
\ No newline at end of file
+});
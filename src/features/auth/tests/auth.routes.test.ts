@@ -2,6 +2,11 @@ import request from 'supertest';
 import express from 'express';
 import { JWTAuthRoutes } from '../routes/auth.routes';
 import { JWTAuthService } from '../services/jwt.service';
+import { InvalidRefreshTokenError, SessionService } from '../services/session.service';
+import { AuthProviderRegistry, LocalAuthProvider } from '../services/auth.providers';
+import { OidcError } from '../services/oidc.provider';
+import { AccountLockedError, AccountSuspendedError, InvalidCredentialsError, UserService } from '../services/user.service';
+import { IRedirectAuthProvider } from '../types/provider.types';
 import { User } from '../types/jwt.types';
 
 // Mock the JWT service
@@ -34,13 +39,21 @@ describe('JWTAuthRoutes', () => {
   });
 
   describe('POST /api/auth/signin', () => {
+    let authenticate: jest.SpyInstance;
+
+    beforeEach(() => {
+      authenticate = jest.spyOn((authRoutes as any).providers.get('local') as LocalAuthProvider, 'authenticate');
+    });
+
     it('should return 200 with token for valid credentials', async () => {
       const mockToken = 'valid.jwt.token';
-      mockJwtService.authenticateUser.mockReturnValue({
-        success: true,
-        token: mockToken,
+      authenticate.mockResolvedValue(mockUser);
+      mockJwtService.startSession.mockResolvedValue({
         user: mockUser,
-        error: null
+        token: mockToken,
+        refreshToken: 'session1.secret',
+        sessionId: 'session1',
+        expiresAt: new Date(Date.now() + 15 * 60 * 1000)
       });
 
       const response = await request(app)
@@ -55,9 +68,14 @@ describe('JWTAuthRoutes', () => {
         success: true,
         user: mockUser,
         token: mockToken,
+        refreshToken: 'session1.secret',
         expires: expect.any(String)
       });
-      expect(mockJwtService.authenticateUser).toHaveBeenCalledWith('test@example.com', 'password123');
+      expect(authenticate).toHaveBeenCalledWith('test@example.com', 'password123');
+      expect(mockJwtService.startSession).toHaveBeenCalledWith(mockUser, {
+        device: expect.any(String),
+        ip: expect.any(String)
+      });
     });
 
     it('should return 400 when email is missing', async () => {
@@ -72,7 +90,7 @@ describe('JWTAuthRoutes', () => {
         error: 'Email and password are required',
         success: false
       });
-      expect(mockJwtService.authenticateUser).not.toHaveBeenCalled();
+      expect(authenticate).not.toHaveBeenCalled();
     });
 
     it('should return 400 when password is missing', async () => {
@@ -87,16 +105,11 @@ describe('JWTAuthRoutes', () => {
         error: 'Email and password are required',
         success: false
       });
-      expect(mockJwtService.authenticateUser).not.toHaveBeenCalled();
+      expect(authenticate).not.toHaveBeenCalled();
     });
 
     it('should return 401 for invalid credentials', async () => {
-      mockJwtService.authenticateUser.mockReturnValue({
-        success: false,
-        token: null,
-        user: null,
-        error: 'Invalid credentials'
-      });
+      authenticate.mockRejectedValue(new InvalidCredentialsError());
 
       const response = await request(app)
         .post('/api/auth/signin')
@@ -110,13 +123,23 @@ describe('JWTAuthRoutes', () => {
         error: 'Invalid credentials',
         success: false
       });
-      expect(mockJwtService.authenticateUser).toHaveBeenCalledWith('invalid@example.com', 'wrongpassword');
+      expect(authenticate).toHaveBeenCalledWith('invalid@example.com', 'wrongpassword');
+      expect(mockJwtService.startSession).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for suspended accounts', async () => {
+      authenticate.mockRejectedValue(new AccountSuspendedError());
+
+      const response = await request(app)
+        .post('/api/auth/signin')
+        .send({ email: 'test@example.com', password: 'password123' });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: 'Account is suspended', success: false });
     });
 
     it('should return 500 when authentication service throws an error', async () => {
-      mockJwtService.authenticateUser.mockImplementation(() => {
-        throw new Error('Service error');
-      });
+      authenticate.mockRejectedValue(new Error('Service error'));
 
       const response = await request(app)
         .post('/api/auth/signin')
@@ -131,30 +154,160 @@ describe('JWTAuthRoutes', () => {
         success: false
       });
     });
+
+    it('should return 423 while the account is locked', async () => {
+      const lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+      authenticate.mockRejectedValue(new AccountLockedError(lockedUntil));
+
+      const response = await request(app)
+        .post('/api/auth/signin')
+        .send({ email: 'test@example.com', password: 'wrongpassword' });
+
+      expect(response.status).toBe(423);
+      expect(response.body).toEqual({
+        error: 'Account is locked after too many failed sign-in attempts',
+        lockedUntil: lockedUntil.toISOString(),
+        success: false
+      });
+    });
   });
 
-  describe('GET /api/auth/session', () => {
-    it('should return 200 with user data for valid token', async () => {
-      // Create a new app with mocked middleware
-      const testApp = express();
-      testApp.use(express.json());
-      
-      // Mock the authenticateToken middleware to inject user
-      testApp.use('/api/auth', (req: any, res: any, next: any) => {
-        req.user = mockUser;
-        next();
-      });
-      
-      // Add the session route directly without the middleware
-      testApp.get('/api/auth/session', (req: any, res: any) => {
-        res.json({
-          success: true,
-          user: req.user,
-          expires: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-        });
+  describe('POST /api/auth/signup', () => {
+    it('should create an account and sign it in', async () => {
+      mockJwtService.startSession.mockImplementation(async user => ({
+        user,
+        token: 'signup.jwt.token',
+        refreshToken: 'session1.secret',
+        sessionId: 'session1',
+        expiresAt: new Date(Date.now() + 15 * 60 * 1000)
+      }));
+
+      const response = await request(app)
+        .post('/api/auth/signup')
+        .send({ email: 'New.User@Example.com', password: 'correct-horse', name: 'New User' });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({
+        success: true,
+        user: {
+          id: expect.any(String),
+          email: 'new.user@example.com',
+          name: 'New User',
+          roles: ['user'],
+          permissions: ['logs:write']
+        },
+        token: 'signup.jwt.token',
+        refreshToken: 'session1.secret',
+        expires: expect.any(String)
+      });
+    });
+
+    it('should return 409 when the email is already registered', async () => {
+      const response = await request(app)
+        .post('/api/auth/signup')
+        .send({ email: 'test@example.com', password: 'correct-horse' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({ error: 'Email is already registered', success: false });
+    });
+
+    it('should return 400 with the problems for an invalid email or password', async () => {
+      const response = await request(app)
+        .post('/api/auth/signup')
+        .send({ email: 'not-an-email', password: 'short' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.errors).toEqual(['A valid email is required', 'Password must be at least 8 characters']);
+    });
+  });
+
+  describe('POST /api/auth/password', () => {
+    beforeEach(() => {
+      const middlewareJwtService = (authRoutes as any).authMiddleware.jwtService as jest.Mocked<JWTAuthService>;
+      middlewareJwtService.validateToken.mockReturnValue({ isValid: true, user: mockUser, error: null });
+    });
+
+    it('should change the password of the signed-in user', async () => {
+      const response = await request(app)
+        .post('/api/auth/password')
+        .set('Authorization', 'Bearer valid.token')
+        .send({ currentPassword: 'password123', newPassword: 'a-new-password' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, message: 'Password changed' });
+      await expect((authRoutes as any).userService.verifyCredentials('test@example.com', 'a-new-password'))
+        .resolves.toMatchObject(mockUser);
+    });
+
+    it('should sign out every other session of the user', async () => {
+      const sessionService: SessionService = (authRoutes as any).sessionService;
+      const current = await sessionService.createSession('1');
+      const other = await sessionService.createSession('1');
+      const middlewareJwtService = (authRoutes as any).authMiddleware.jwtService as jest.Mocked<JWTAuthService>;
+      middlewareJwtService.validateToken.mockReturnValue({ isValid: true, user: mockUser, error: null, sessionId: current.session.id });
+
+      const response = await request(app)
+        .post('/api/auth/password')
+        .set('Authorization', 'Bearer valid.token')
+        .send({ currentPassword: 'password123', newPassword: 'a-new-password' });
+
+      expect(response.status).toBe(200);
+      expect((await sessionService.listSessions('1')).map(session => session.id)).toEqual([current.session.id]);
+      expect(await sessionService.isRevoked(other.session.id)).toBe(true);
+    });
+
+    it('should return 400 when the current password is wrong', async () => {
+      const response = await request(app)
+        .post('/api/auth/password')
+        .set('Authorization', 'Bearer valid.token')
+        .send({ currentPassword: 'wrongpassword', newPassword: 'a-new-password' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Current password is incorrect', success: false });
+    });
+  });
+
+  describe('POST /api/auth/password/forgot and /reset', () => {
+    it('should reset the password with a single-use token', async () => {
+      const forgot = await request(app)
+        .post('/api/auth/password/forgot')
+        .send({ email: 'test@example.com' });
+
+      expect(forgot.status).toBe(200);
+      expect(forgot.body.resetToken).toEqual(expect.any(String));
+
+      const reset = await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token: forgot.body.resetToken, password: 'a-new-password' });
+      expect(reset.status).toBe(200);
+
+      const reused = await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token: forgot.body.resetToken, password: 'another-password' });
+      expect(reused.status).toBe(400);
+      expect(reused.body).toEqual({ error: 'Invalid or expired reset token', success: false });
+    });
+
+    it('should not reveal whether an email is registered', async () => {
+      const response = await request(app)
+        .post('/api/auth/password/forgot')
+        .send({ email: 'nobody@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        success: true,
+        message: 'If the email is registered, a password reset token has been issued'
       });
+    });
+  });
+
+  describe('GET /api/auth/session', () => {
+    it('should return the user and when their access token expires', async () => {
+      const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
+      const middlewareJwtService = (authRoutes as any).authMiddleware.jwtService as jest.Mocked<JWTAuthService>;
+      middlewareJwtService.validateToken.mockReturnValue({ isValid: true, user: mockUser, error: null, expiresAt });
 
-      const response = await request(testApp)
+      const response = await request(app)
         .get('/api/auth/session')
         .set('Authorization', 'Bearer valid.token');
 
@@ -162,7 +315,7 @@ describe('JWTAuthRoutes', () => {
       expect(response.body).toEqual({
         success: true,
         user: mockUser,
-        expires: expect.any(String)
+        expires: expiresAt.toISOString()
       });
     });
 
@@ -187,58 +340,358 @@ describe('JWTAuthRoutes', () => {
       });
     });
 
-    // Note: Error handling is tested in the main signout test
-    // The signout endpoint is stateless and doesn't typically throw errors
+    it('should end the sessions of the access token and the refresh token', async () => {
+      const sessionService = (authRoutes as any).sessionService;
+      const current = await sessionService.createSession('1');
+      const other = await sessionService.createSession('1');
+      const middlewareJwtService = (authRoutes as any).authMiddleware.jwtService as jest.Mocked<JWTAuthService>;
+      middlewareJwtService.validateToken.mockReturnValue({ isValid: true, user: mockUser, error: null, sessionId: current.session.id });
+
+      const response = await request(app)
+        .post('/api/auth/signout')
+        .set('Authorization', 'Bearer valid.token')
+        .send({ refreshToken: other.refreshToken });
+
+      expect(response.status).toBe(200);
+      expect(await sessionService.listSessions('1')).toEqual([]);
+      expect(await sessionService.isRevoked(current.session.id)).toBe(true);
+    });
   });
 
   describe('POST /api/auth/refresh', () => {
-    it('should return 200 with new token for valid refresh token', async () => {
-      const newToken = 'new.jwt.token';
-      mockJwtService.refreshToken.mockReturnValue(newToken);
-      mockJwtService.extractUserFromToken.mockReturnValue(mockUser);
+    const refreshed = {
+      user: mockUser,
+      token: 'new.jwt.token',
+      refreshToken: 'session1.next',
+      sessionId: 'session1',
+      expiresAt: new Date(Date.now() + 15 * 60 * 1000)
+    };
+
+    it('should return 200 with new tokens for a valid refresh token', async () => {
+      mockJwtService.refreshSession.mockResolvedValue(refreshed);
 
       const response = await request(app)
         .post('/api/auth/refresh')
-        .set('Authorization', 'Bearer old.token');
+        .send({ refreshToken: 'session1.secret' });
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
         success: true,
         user: mockUser,
-        token: newToken,
-        expires: expect.any(String)
+        token: 'new.jwt.token',
+        refreshToken: 'session1.next',
+        expires: refreshed.expiresAt.toISOString()
       });
-      expect(mockJwtService.refreshToken).toHaveBeenCalledWith('old.token');
-      expect(mockJwtService.extractUserFromToken).toHaveBeenCalledWith(newToken);
+      expect(mockJwtService.refreshSession).toHaveBeenCalledWith('session1.secret', expect.any(Object));
     });
 
-    it('should return 401 when no authorization header is provided', async () => {
+    it('should return 401 when no refresh token is provided', async () => {
       const response = await request(app)
-        .post('/api/auth/refresh');
+        .post('/api/auth/refresh')
+        .set('Authorization', 'Bearer old.token');
 
       expect(response.status).toBe(401);
       expect(response.body).toEqual({
         error: 'Refresh token required',
         success: false
       });
-      expect(mockJwtService.refreshToken).not.toHaveBeenCalled();
+      expect(mockJwtService.refreshSession).not.toHaveBeenCalled();
     });
 
     it('should return 401 when refresh token is invalid', async () => {
-      mockJwtService.refreshToken.mockImplementation(() => {
-        throw new Error('Invalid refresh token');
-      });
+      mockJwtService.refreshSession.mockRejectedValue(new InvalidRefreshTokenError());
 
       const response = await request(app)
         .post('/api/auth/refresh')
-        .set('Authorization', 'Bearer invalid.token');
+        .send({ refreshToken: 'session1.retired' });
 
       expect(response.status).toBe(401);
       expect(response.body).toEqual({
         error: 'Invalid refresh token',
         success: false
       });
-      expect(mockJwtService.refreshToken).toHaveBeenCalledWith('invalid.token');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('GET and DELETE /api/auth/sessions', () => {
+    let sessionService: SessionService;
+    let currentSessionId: string;
+
+    beforeEach(async () => {
+      sessionService = (authRoutes as any).sessionService;
+      currentSessionId = (await sessionService.createSession('1', { device: 'Firefox', ip: '10.0.0.1' })).session.id;
+      const middlewareJwtService = (authRoutes as any).authMiddleware.jwtService as jest.Mocked<JWTAuthService>;
+      middlewareJwtService.validateToken.mockReturnValue({ isValid: true, user: mockUser, error: null, sessionId: currentSessionId });
+    });
+
+    it('should list the user\'s sessions and mark the current one', async () => {
+      await sessionService.createSession('2', { device: 'Someone else' });
+
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', 'Bearer valid.token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.sessions).toEqual([
+        expect.objectContaining({ id: currentSessionId, device: 'Firefox', ip: '10.0.0.1', current: true })
+      ]);
+      expect(response.body.sessions[0]).not.toHaveProperty('refreshTokenHash');
+    });
+
+    it('should revoke one of the user\'s sessions and refuse its access tokens', async () => {
+      const other = await sessionService.createSession('1', { device: 'Phone' });
+
+      const response = await request(app)
+        .delete(`/api/auth/sessions/${other.session.id}`)
+        .set('Authorization', 'Bearer valid.token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, message: 'Session revoked' });
+      expect(await sessionService.isRevoked(other.session.id)).toBe(true);
+
+      const middlewareJwtService = (authRoutes as any).authMiddleware.jwtService as jest.Mocked<JWTAuthService>;
+      middlewareJwtService.validateToken.mockReturnValue({ isValid: true, user: mockUser, error: null, sessionId: other.session.id });
+      const refused = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', 'Bearer revoked.token');
+      expect(refused.status).toBe(401);
+      expect(refused.body).toEqual({ error: 'Token revoked' });
+    });
+
+    it('should return 404 for another user\'s session', async () => {
+      const other = await sessionService.createSession('2');
+
+      const response = await request(app)
+        .delete(`/api/auth/sessions/${other.session.id}`)
+        .set('Authorization', 'Bearer valid.token');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Session not found', success: false });
+      expect(await sessionService.isRevoked(other.session.id)).toBe(false);
+    });
+  });
+
+  describe('personal access tokens', () => {
+    let owner: User;
+
+    beforeEach(async () => {
+      const userService: UserService = (authRoutes as any).userService;
+      const created = await userService.signup({ email: 'ci@example.com', password: 'correct-horse' });
+      owner = (await userService.getUser(created.id))!;
+      const middlewareJwtService = (authRoutes as any).authMiddleware.jwtService as jest.Mocked<JWTAuthService>;
+      middlewareJwtService.validateToken.mockReturnValue({ isValid: true, user: owner, error: null, sessionId: 'session1' });
+    });
+
+    it('should create a token that authenticates as its owner with its scopes', async () => {
+      const created = await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', 'Bearer valid.token')
+        .send({ name: 'Smoke tests', scopes: ['logs:write'], expiresInDays: 30 });
+
+      expect(created.status).toBe(201);
+      expect(created.body.token).toMatch(/^nat_/);
+      expect(created.body.accessToken).toMatchObject({ userId: owner.id, name: 'Smoke tests', scopes: ['logs:write'] });
+
+      const session = await request(app)
+        .get('/api/auth/session')
+        .set('Authorization', `Bearer ${created.body.token}`);
+      expect(session.status).toBe(200);
+      expect(session.body.user).toMatchObject({ id: owner.id, permissions: ['logs:write'] });
+      expect(session.body.expires).toBe(created.body.accessToken.expiresAt);
+    });
+
+    it('should refuse scopes the user does not have', async () => {
+      const response = await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', 'Bearer valid.token')
+        .send({ name: 'Too much', scopes: ['users:manage'] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.errors).toEqual(['You do not have the permission users:manage']);
+    });
+
+    it('should list and revoke tokens, and refuse revoked tokens at once', async () => {
+      const created = await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', 'Bearer valid.token')
+        .send({ name: 'Smoke tests', scopes: ['logs:write'] });
+
+      const listed = await request(app).get('/api/auth/tokens').set('Authorization', 'Bearer valid.token');
+      expect(listed.status).toBe(200);
+      expect(listed.body.tokens).toEqual([expect.objectContaining({ id: created.body.accessToken.id })]);
+      expect(listed.body.tokens[0]).not.toHaveProperty('tokenHash');
+
+      const revoked = await request(app)
+        .delete(`/api/auth/tokens/${created.body.accessToken.id}`)
+        .set('Authorization', 'Bearer valid.token');
+      expect(revoked.body).toEqual({ success: true, message: 'Access token revoked' });
+
+      const refused = await request(app)
+        .get('/api/auth/session')
+        .set('Authorization', `Bearer ${created.body.token}`);
+      expect(refused.status).toBe(401);
+      expect(refused.body).toEqual({ error: 'Invalid or expired access token' });
+    });
+
+    it('should not let an access token manage access tokens', async () => {
+      const created = await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', 'Bearer valid.token')
+        .send({ name: 'Smoke tests', scopes: ['logs:write'] });
+
+      const response = await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', `Bearer ${created.body.token}`)
+        .send({ name: 'Another', scopes: ['logs:write'] });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({ error: 'Access tokens cannot be managed with an access token', success: false });
+    });
+
+    it('should not let an access token list or sign out sessions', async () => {
+      const created = await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', 'Bearer valid.token')
+        .send({ name: 'Smoke tests', scopes: ['logs:write'] });
+      const session = await (authRoutes as any).sessionService.createSession(owner.id);
+
+      const listed = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${created.body.token}`);
+      expect(listed.status).toBe(403);
+      expect(listed.body).toEqual({ error: 'Sessions cannot be managed with an access token', success: false });
+
+      const revoked = await request(app)
+        .delete(`/api/auth/sessions/${session.session.id}`)
+        .set('Authorization', `Bearer ${created.body.token}`);
+      expect(revoked.status).toBe(403);
+      expect(await (authRoutes as any).sessionService.isRevoked(session.session.id)).toBe(false);
+    });
+
+    it('should revoke the user\'s tokens when the password is changed or reset', async () => {
+      const createToken = async () => (await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', 'Bearer valid.token')
+        .send({ name: 'Smoke tests', scopes: ['logs:write'] })).body.token as string;
+      const isRefused = async (token: string) => (await request(app)
+        .get('/api/auth/session')
+        .set('Authorization', `Bearer ${token}`)).status === 401;
+
+      const beforeChange = await createToken();
+      await request(app)
+        .post('/api/auth/password')
+        .set('Authorization', 'Bearer valid.token')
+        .send({ currentPassword: 'correct-horse', newPassword: 'battery-staple' })
+        .expect(200);
+      expect(await isRefused(beforeChange)).toBe(true);
+
+      const beforeReset = await createToken();
+      const forgot = await request(app).post('/api/auth/password/forgot').send({ email: 'ci@example.com' });
+      await request(app)
+        .post('/api/auth/password/reset')
+        .send({ token: forgot.body.resetToken, password: 'another-password' })
+        .expect(200);
+      expect(await isRefused(beforeReset)).toBe(true);
+      expect(await (authRoutes as any).accessTokenService.listTokens(owner.id)).toEqual([]);
+    });
+  });
+
+  describe('sign-in providers', () => {
+    let providerApp: express.Application;
+    let providerRoutes: JWTAuthRoutes;
+    let sso: jest.Mocked<IRedirectAuthProvider>;
+
+    beforeEach(() => {
+      sso = {
+        id: 'oidc',
+        name: 'Acme SSO',
+        type: 'oidc',
+        beginLogin: jest.fn().mockResolvedValue('https://sso.example.com/authorize?state=abc'),
+        completeLogin: jest.fn()
+      };
+      providerRoutes = new JWTAuthRoutes(new AuthProviderRegistry([new LocalAuthProvider(new UserService()), sso]));
+      providerApp = express();
+      providerApp.use('/api/auth', providerRoutes.getRouter());
+    });
+
+    it('should list the enabled providers', async () => {
+      const response = await request(providerApp).get('/api/auth/providers');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        success: true,
+        providers: [
+          { id: 'local', name: 'Email and password', type: 'local' },
+          { id: 'oidc', name: 'Acme SSO', type: 'oidc', loginUrl: '/api/auth/providers/oidc/login' }
+        ]
+      });
+    });
+
+    it('should send the browser to the identity provider', async () => {
+      const response = await request(providerApp).get('/api/auth/providers/oidc/login?redirect=%2Fsettings');
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('https://sso.example.com/authorize?state=abc');
+      expect(sso.beginLogin).toHaveBeenCalledWith('/settings');
+    });
+
+    it('should refuse email and password sign-in and sign-up when the local provider is disabled', async () => {
+      const ssoOnlyApp = express();
+      ssoOnlyApp.use(express.json());
+      ssoOnlyApp.use('/api/auth', new JWTAuthRoutes(new AuthProviderRegistry([sso])).getRouter());
+
+      const signin = await request(ssoOnlyApp)
+        .post('/api/auth/signin')
+        .send({ email: 'test@example.com', password: 'password123' });
+      expect(signin.status).toBe(403);
+      expect(signin.body).toEqual({ error: 'Email and password sign-in is disabled', success: false });
+
+      const signup = await request(ssoOnlyApp)
+        .post('/api/auth/signup')
+        .send({ email: 'new@example.com', password: 'correct-horse' });
+      expect(signup.status).toBe(403);
+      expect(signup.body).toEqual({ error: 'Email and password sign-in is disabled', success: false });
+    });
+
+    it('should return 404 for providers that do not redirect', async () => {
+      const response = await request(providerApp).get('/api/auth/providers/local/login');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Auth provider not found', success: false });
+    });
+
+    it('should start a session and hand the refresh token to the client in the fragment', async () => {
+      sso.completeLogin.mockResolvedValue({
+        identity: { provider: 'oidc', subject: 'user-42', email: 'jane@example.com', emailVerified: true },
+        redirectTo: '/settings'
+      });
+      const providerJwtService = (providerRoutes as any).jwtService as jest.Mocked<JWTAuthService>;
+      providerJwtService.startSession.mockResolvedValue({
+        user: mockUser,
+        token: 'access.token',
+        refreshToken: 'session1.secret',
+        sessionId: 'session1',
+        expiresAt: new Date()
+      });
+
+      const response = await request(providerApp).get('/api/auth/providers/oidc/callback?code=xyz&state=abc');
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/settings#refreshToken=session1.secret');
+      expect(sso.completeLogin).toHaveBeenCalledWith({ code: 'xyz', state: 'abc' });
+      expect(providerJwtService.startSession).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'jane@example.com' }),
+        expect.any(Object)
+      );
+    });
+
+    it('should send sign-in errors back to the sign-in page', async () => {
+      sso.completeLogin.mockRejectedValue(new OidcError('Unknown or expired sign-in request'));
+
+      const response = await request(providerApp).get('/api/auth/providers/oidc/callback?code=xyz&state=old');
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/auth#error=Unknown+or+expired+sign-in+request');
+    });
+  });
+});
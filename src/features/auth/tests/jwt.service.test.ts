@@ -1,5 +1,9 @@
 import jwt from 'jsonwebtoken';
 import { JWTAuthService } from '../services/jwt.service';
+import { UserService } from '../services/user.service';
+import { MemoryUserStore, createDevelopmentUsers } from '../services/user.store';
+import { InvalidRefreshTokenError, SessionService } from '../services/session.service';
+import { MemoryRevocationList, MemorySessionStore } from '../services/session.store';
 import { env } from '../../../shared/utils/environment-manager';
 
 // Test environment JWT secret (matches test.env)
@@ -49,8 +53,8 @@ describe('JWTAuthService', () => {
       expect(decoded.exp).toBeDefined();
       expect(decoded.iat).toBeDefined();
       
-      // Check if expiration is set to 30 days from now
-      const expectedExp = Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60);
+      // Access tokens are short-lived: 15 minutes from now
+      const expectedExp = Math.floor(Date.now() / 1000) + (15 * 60);
       expect(decoded.exp).toBeGreaterThan(expectedExp - 60); // Allow 1 minute tolerance
       expect(decoded.exp).toBeLessThan(expectedExp + 60);
     });
@@ -76,6 +80,13 @@ describe('JWTAuthService', () => {
       expect(result.error).toBeNull();
     });
 
+    it('should carry the user\'s roles and permissions', () => {
+      const admin = { ...mockUser, roles: ['admin'], permissions: ['admin:access', 'logs:read'] };
+      const result = jwtService.validateToken(jwtService.generateToken(admin));
+
+      expect(result.user).toEqual(admin);
+    });
+
     it('should reject an invalid JWT token', () => {
       const invalidToken = 'invalid.token.here';
       const result = jwtService.validateToken(invalidToken);
@@ -126,17 +137,17 @@ describe('JWTAuthService', () => {
   });
 
   describe('authenticateUser', () => {
-    it('should authenticate user with valid credentials', () => {
-      const result = jwtService.authenticateUser('test@example.com', 'password123');
+    it('should authenticate user with valid credentials', async () => {
+      const result = await jwtService.authenticateUser('test@example.com', 'password123');
       
       expect(result.success).toBe(true);
       expect(result.token).toBeDefined();
-      expect(result.user).toEqual(mockUser);
+      expect(result.user).toEqual({ ...mockUser, roles: ['user'], permissions: ['logs:write'] });
       expect(result.error).toBeNull();
     });
 
-    it('should reject invalid email', () => {
-      const result = jwtService.authenticateUser('invalid@example.com', 'password123');
+    it('should reject invalid email', async () => {
+      const result = await jwtService.authenticateUser('invalid@example.com', 'password123');
       
       expect(result.success).toBe(false);
       expect(result.token).toBeNull();
@@ -144,8 +155,8 @@ describe('JWTAuthService', () => {
       expect(result.error).toBe('Invalid credentials');
     });
 
-    it('should reject invalid password', () => {
-      const result = jwtService.authenticateUser('test@example.com', 'wrongpassword');
+    it('should reject invalid password', async () => {
+      const result = await jwtService.authenticateUser('test@example.com', 'wrongpassword');
       
       expect(result.success).toBe(false);
       expect(result.token).toBeNull();
@@ -153,9 +164,9 @@ describe('JWTAuthService', () => {
       expect(result.error).toBe('Invalid credentials');
     });
 
-    it('should reject empty credentials', () => {
-      const result1 = jwtService.authenticateUser('', 'password123');
-      const result2 = jwtService.authenticateUser('test@example.com', '');
+    it('should reject empty credentials', async () => {
+      const result1 = await jwtService.authenticateUser('', 'password123');
+      const result2 = await jwtService.authenticateUser('test@example.com', '');
       
       expect(result1.success).toBe(false);
       expect(result1.error).toBe('Email and password are required');
@@ -163,45 +174,69 @@ describe('JWTAuthService', () => {
       expect(result2.error).toBe('Email and password are required');
     });
 
-    it('should reject null/undefined credentials', () => {
-      const result1 = jwtService.authenticateUser(null as any, 'password123');
-      const result2 = jwtService.authenticateUser('test@example.com', undefined as any);
+    it('should reject null/undefined credentials', async () => {
+      const result1 = await jwtService.authenticateUser(null as any, 'password123');
+      const result2 = await jwtService.authenticateUser('test@example.com', undefined as any);
       
       expect(result1.success).toBe(false);
       expect(result1.error).toBe('Email and password are required');
       expect(result2.success).toBe(false);
       expect(result2.error).toBe('Email and password are required');
     });
+
+    it('should say why an account cannot sign in', async () => {
+      const users = new UserService(new MemoryUserStore(await createDevelopmentUsers()), { maxFailedLoginAttempts: 1 });
+      const service = new JWTAuthService(users);
+
+      const locked = await service.authenticateUser('test@example.com', 'wrongpassword');
+      expect(locked).toMatchObject({ success: false, reason: 'account_locked', lockedUntil: expect.any(Date) });
+
+      await users.setStatus('admin1', 'suspended');
+      const suspended = await service.authenticateUser('admin@example.com', 'password123');
+      expect(suspended).toMatchObject({ success: false, token: null, error: 'Account is suspended', reason: 'account_suspended' });
+    });
   });
 
-  describe('refreshToken', () => {
-    it('should refresh a valid token', () => {
-      const originalToken = jwtService.generateToken(mockUser);
-      const refreshedToken = jwtService.refreshToken(originalToken);
-      
-      expect(refreshedToken).toBeDefined();
-      expect(typeof refreshedToken).toBe('string');
-      
-      // Verify refreshed token is valid
-      const result = jwtService.validateToken(refreshedToken);
-      expect(result.isValid).toBe(true);
-      expect(result.user).toEqual(mockUser);
+  describe('sessions', () => {
+    let users: UserService;
+    let sessions: SessionService;
+    let service: JWTAuthService;
+
+    beforeEach(async () => {
+      users = new UserService(new MemoryUserStore(await createDevelopmentUsers()));
+      sessions = new SessionService(new MemorySessionStore(), new MemoryRevocationList());
+      service = new JWTAuthService(users, sessions);
     });
 
-    it('should throw error when refreshing invalid token', () => {
-      const invalidToken = 'invalid.token.here';
-      
-      expect(() => jwtService.refreshToken(invalidToken)).toThrow('Invalid token');
+    it('should issue a refresh token and tie the access token to the session', async () => {
+      const result = await service.authenticateUser('test@example.com', 'password123', { device: 'jest', ip: '127.0.0.1' });
+
+      expect(result.refreshToken).toMatch(new RegExp(`^${result.sessionId}\\.`));
+      expect(service.validateToken(result.token!).sessionId).toBe(result.sessionId);
+      expect(await sessions.listSessions('1')).toEqual([
+        expect.objectContaining({ id: result.sessionId, device: 'jest', ip: '127.0.0.1' })
+      ]);
     });
 
-    it('should throw error when refreshing expired token', () => {
-      const expiredToken = jwt.sign(
-        { userId: mockUser.id, email: mockUser.email, name: mockUser.name },
-        'test-secret-key', // Use the same secret as test.env
-        { expiresIn: '0s' }
-      );
-      
-      expect(() => jwtService.refreshToken(expiredToken)).toThrow('Token expired');
+    it('should rotate the refresh token and refuse the old one', async () => {
+      const signedIn = await service.startSession({ id: '1', email: 'test@example.com', name: 'Test User' });
+      const refreshed = await service.refreshSession(signedIn.refreshToken);
+
+      expect(refreshed.sessionId).toBe(signedIn.sessionId);
+      expect(refreshed.refreshToken).not.toBe(signedIn.refreshToken);
+      // The user is read again, so the new token carries the current roles
+      expect(service.validateToken(refreshed.token).user).toMatchObject({ id: '1', roles: ['user'] });
+
+      await expect(service.refreshSession(signedIn.refreshToken)).rejects.toThrow(InvalidRefreshTokenError);
+      await expect(service.refreshSession(refreshed.refreshToken)).rejects.toThrow(InvalidRefreshTokenError);
+    });
+
+    it('should end the session of a suspended account on refresh', async () => {
+      const signedIn = await service.startSession({ id: '1', email: 'test@example.com', name: 'Test User' });
+      await users.setStatus('1', 'suspended');
+
+      await expect(service.refreshSession(signedIn.refreshToken)).rejects.toThrow(InvalidRefreshTokenError);
+      expect(await sessions.isRevoked(signedIn.sessionId)).toBe(true);
     });
   });
 
@@ -0,0 +1,227 @@
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { OidcAuthProvider, OidcError, mapClaimToRoles } from '../services/oidc.provider';
+import { createAuthProviders, getOidcProviderConfig, parseRoleMapping } from '../services/auth.providers';
+import { UserService } from '../services/user.service';
+import { MemoryUserStore } from '../services/user.store';
+import { OidcProviderConfig } from '../types/provider.types';
+
+const CLIENT_ID = 'neutral-app';
+const CLIENT_SECRET = 'client-secret';
+const REDIRECT_URI = 'http://localhost:3000/api/auth/providers/oidc/callback';
+
+interface IssuedCode {
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * A minimal OpenID Connect issuer: discovery, a JWKS endpoint and a token
+ * endpoint that checks PKCE and the client secret. Tests play the browser by
+ * calling authorize() with the parameters from the authorization URL.
+ */
+function startStubIssuer() {
+  const signingKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, IssuedCode>();
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  // Failing to listen rejects, so the test fails instead of timing out
+  return new Promise<Server>((resolve, reject) => {
+    const server = app.listen(0, '127.0.0.1', () => resolve(server));
+    server.once('error', reject);
+  }).then(server => {
+    const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const stub = {
+      issuer,
+      audience: CLIENT_ID,
+      key: signingKey.privateKey,
+      kid: 'key-1',
+      authorize(authorizationUrl: string, claims: Record<string, unknown>): { code: string; state: string } {
+        const params = new URL(authorizationUrl).searchParams;
+        const code = crypto.randomBytes(16).toString('hex');
+        codes.set(code, { codeChallenge: params.get('code_challenge')!, nonce: params.get('nonce')!, claims });
+        return { code, state: params.get('state')! };
+      },
+      close: () => new Promise<void>(resolve => server.close(() => resolve()))
+    };
+
+    app.get('/.well-known/openid-configuration', (req, res) => {
+      res.json({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`
+      });
+    });
+
+    app.get('/jwks', (req, res) => {
+      res.json({ keys: [{ ...signingKey.publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'RS256' }] });
+    });
+
+    app.post('/token', (req, res) => {
+      const issued = codes.get(req.body.code);
+      codes.delete(req.body.code);
+      const verifier = crypto.createHash('sha256').update(req.body.code_verifier || '').digest('base64url');
+      const expectedAuth = `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')}`;
+      if (!issued || verifier !== issued.codeChallenge || req.headers.authorization !== expectedAuth || req.body.redirect_uri !== REDIRECT_URI) {
+        res.status(400).json({ error: 'invalid_grant' });
+        return;
+      }
+
+      const idToken = jwt.sign({ nonce: issued.nonce, ...issued.claims }, stub.key, {
+        algorithm: 'RS256',
+        keyid: stub.kid,
+        issuer,
+        audience: stub.audience,
+        expiresIn: 300
+      });
+      res.json({ access_token: 'access-token', token_type: 'Bearer', id_token: idToken });
+    });
+
+    return stub;
+  });
+}
+
+describe('OidcAuthProvider', () => {
+  let issuer: Awaited<ReturnType<typeof startStubIssuer>>;
+  let provider: OidcAuthProvider;
+
+  const claims = { sub: 'user-42', email: 'Jane@Example.com', email_verified: true, name: 'Jane', groups: ['staff', 'neutral-admins'] };
+
+  beforeEach(async () => {
+    issuer = await startStubIssuer();
+    const config: OidcProviderConfig = {
+      id: 'oidc',
+      name: 'Stub SSO',
+      issuer: issuer.issuer,
+      clientId: CLIENT_ID,
+      clientSecret: CLIENT_SECRET,
+      redirectUri: REDIRECT_URI,
+      scopes: ['openid', 'email', 'profile'],
+      roleClaim: 'groups',
+      roleMapping: { 'neutral-admins': ['admin'] },
+      loginTtlMs: 60000,
+      maxPendingLogins: 2
+    };
+    provider = new OidcAuthProvider(config);
+  });
+
+  afterEach(async () => {
+    await issuer.close();
+  });
+
+  it('should build an authorization URL with PKCE from the discovery document', async () => {
+    const url = new URL(await provider.beginLogin('/settings'));
+
+    expect(`${url.origin}${url.pathname}`).toBe(`${issuer.issuer}/authorize`);
+    expect(url.searchParams.get('response_type')).toBe('code');
+    expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+    expect(url.searchParams.get('scope')).toBe('openid email profile');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('code_challenge')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(url.searchParams.get('state')).toBeTruthy();
+    expect(url.searchParams.get('nonce')).toBeTruthy();
+  });
+
+  it('should complete a sign-in and map the group claim to roles', async () => {
+    const callback = issuer.authorize(await provider.beginLogin('/settings'), claims);
+
+    await expect(provider.completeLogin(callback)).resolves.toEqual({
+      identity: {
+        provider: 'oidc',
+        subject: 'user-42',
+        email: 'Jane@Example.com',
+        emailVerified: true,
+        name: 'Jane',
+        roles: ['admin']
+      },
+      redirectTo: '/settings'
+    });
+  });
+
+  it('should only return to paths on this site', async () => {
+    const callback = issuer.authorize(await provider.beginLogin('https://evil.example.com'), claims);
+
+    expect((await provider.completeLogin(callback)).redirectTo).toBe('/');
+  });
+
+  it('should refuse a sign-in request that was already completed', async () => {
+    const callback = issuer.authorize(await provider.beginLogin(), claims);
+    await provider.completeLogin(callback);
+
+    await expect(provider.completeLogin(callback)).rejects.toThrow('Unknown or expired sign-in request');
+  });
+
+  it('should drop the oldest started sign-ins beyond the limit', async () => {
+    const oldest = issuer.authorize(await provider.beginLogin(), claims);
+    const older = issuer.authorize(await provider.beginLogin(), claims);
+    const newest = issuer.authorize(await provider.beginLogin(), claims);
+
+    await expect(provider.completeLogin(oldest)).rejects.toThrow('Unknown or expired sign-in request');
+    await expect(provider.completeLogin(older)).resolves.toMatchObject({ identity: { subject: 'user-42' } });
+    await expect(provider.completeLogin(newest)).resolves.toMatchObject({ identity: { subject: 'user-42' } });
+  });
+
+  it('should refuse ID tokens signed with a key the issuer does not publish', async () => {
+    issuer.key = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+    const callback = issuer.authorize(await provider.beginLogin(), claims);
+
+    await expect(provider.completeLogin(callback)).rejects.toThrow(/ID token rejected: invalid signature/);
+  });
+
+  it('should refuse ID tokens for another client', async () => {
+    issuer.audience = 'another-app';
+    const callback = issuer.authorize(await provider.beginLogin(), claims);
+
+    await expect(provider.completeLogin(callback)).rejects.toThrow(/jwt audience invalid/);
+  });
+
+  it('should report an error the identity provider sent back', async () => {
+    await expect(provider.completeLogin({ error: 'access_denied', error_description: 'User cancelled' }))
+      .rejects.toThrow(new OidcError('The identity provider refused the sign-in: User cancelled'));
+  });
+});
+
+describe('auth provider configuration', () => {
+  it('should enable the local provider unless disabled, and OpenID Connect when an issuer and client id are configured', () => {
+    const users = new UserService(new MemoryUserStore());
+
+    expect(createAuthProviders(users, {}).list()).toEqual([
+      { id: 'local', name: 'Email and password', type: 'local' }
+    ]);
+    expect(createAuthProviders(users, { OIDC_ISSUER: 'https://sso.example.com', OIDC_CLIENT_ID: CLIENT_ID, OIDC_PROVIDER_NAME: 'Acme' }).list())
+      .toContainEqual({ id: 'oidc', name: 'Acme', type: 'oidc', loginUrl: '/api/auth/providers/oidc/login' });
+    expect(createAuthProviders(users, { LOCAL_SIGNIN_ENABLED: false, OIDC_ISSUER: 'https://sso.example.com', OIDC_CLIENT_ID: CLIENT_ID }).list())
+      .toEqual([{ id: 'oidc', name: 'Single sign-on', type: 'oidc', loginUrl: '/api/auth/providers/oidc/login' }]);
+  });
+
+  it('should derive the redirect URI and scopes from the environment config', () => {
+    expect(getOidcProviderConfig({
+      OIDC_ISSUER: 'https://sso.example.com',
+      OIDC_CLIENT_ID: CLIENT_ID,
+      OIDC_SCOPES: 'email groups',
+      API_BASE_URL: 'https://app.example.com/api/'
+    })).toMatchObject({
+      redirectUri: 'https://app.example.com/api/auth/providers/oidc/callback',
+      scopes: ['openid', 'email', 'groups'],
+      roleMapping: {}
+    });
+  });
+
+  it('should parse role mappings and refuse unknown roles', () => {
+    expect(parseRoleMapping('admins:admin, staff:user, admins:user')).toEqual({ admins: ['admin', 'user'], staff: ['user'] });
+    expect(() => parseRoleMapping('admins:superuser')).toThrow('Unknown role in OIDC role mapping: superuser');
+  });
+
+  it('should read role claims at a dotted path', () => {
+    expect(mapClaimToRoles({ realm_access: { roles: ['admins', 'other'] } }, 'realm_access.roles', { admins: ['admin'] }))
+      .toEqual(['admin']);
+    expect(mapClaimToRoles({ group: 'staff' }, 'group', { staff: ['user'] })).toEqual(['user']);
+  });
+});
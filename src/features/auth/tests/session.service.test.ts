@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InvalidRefreshTokenError, SessionService } from '../services/session.service';
+import {
+  JsonFileRevocationList,
+  JsonFileSessionStore,
+  MemoryRevocationList,
+  MemorySessionStore
+} from '../services/session.store';
+import { SessionRecord } from '../types/session.types';
+
+describe('SessionService', () => {
+  let store: MemorySessionStore;
+  let service: SessionService;
+
+  beforeEach(() => {
+    store = new MemorySessionStore();
+    service = new SessionService(store, new MemoryRevocationList(), { refreshTokenTtlMs: 60 * 1000 });
+  });
+
+  it('should store only a hash of the refresh token', async () => {
+    const { session, refreshToken } = await service.createSession('alice', { device: 'Firefox', ip: '10.0.0.1' });
+
+    expect(session).toMatchObject({ userId: 'alice', device: 'Firefox', ip: '10.0.0.1' });
+    expect(session).not.toHaveProperty('refreshTokenHash');
+    const [record] = await store.list();
+    expect(JSON.stringify(record)).not.toContain(refreshToken.split('.')[1]);
+  });
+
+  it('should rotate the refresh token on every use', async () => {
+    const first = await service.createSession('alice');
+    const second = await service.rotateRefreshToken(first.refreshToken, { ip: '10.0.0.2' });
+
+    expect(second.session).toMatchObject({ id: first.session.id, ip: '10.0.0.2' });
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    await expect(service.rotateRefreshToken('not-a-token')).rejects.toThrow(InvalidRefreshTokenError);
+    await expect(service.rotateRefreshToken('unknown.secret')).rejects.toThrow(InvalidRefreshTokenError);
+  });
+
+  it('should end the session when a retired refresh token is used again', async () => {
+    const first = await service.createSession('alice');
+    const second = await service.rotateRefreshToken(first.refreshToken);
+
+    await expect(service.rotateRefreshToken(first.refreshToken)).rejects.toThrow(InvalidRefreshTokenError);
+    // The current token stops working too, since it may be the copied one
+    await expect(service.rotateRefreshToken(second.refreshToken)).rejects.toThrow(InvalidRefreshTokenError);
+    expect(await service.isRevoked(first.session.id)).toBe(true);
+  });
+
+  it('should let only one of two concurrent refreshes through', async () => {
+    const { refreshToken } = await service.createSession('alice');
+
+    const results = await Promise.allSettled([
+      service.rotateRefreshToken(refreshToken),
+      service.rotateRefreshToken(refreshToken)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled').length).toBeLessThanOrEqual(1);
+  });
+
+  it('should refuse expired refresh tokens and leave them out of the list', async () => {
+    const { session, refreshToken } = await service.createSession('alice');
+
+    const realNow = Date.now();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(realNow + 61 * 1000);
+    try {
+      expect(await service.listSessions('alice')).toEqual([]);
+      await expect(service.rotateRefreshToken(refreshToken)).rejects.toThrow(InvalidRefreshTokenError);
+      expect(await store.get(session.id)).toBeNull();
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('should list, revoke and revoke all of a user\'s sessions', async () => {
+    const laptop = await service.createSession('alice', { device: 'Laptop' });
+    const phone = await service.createSession('alice', { device: 'Phone' });
+    const tablet = await service.createSession('alice', { device: 'Tablet' });
+    await service.createSession('bob');
+
+    expect((await service.listSessions('alice')).map(session => session.id).sort())
+      .toEqual([laptop.session.id, phone.session.id, tablet.session.id].sort());
+
+    expect(await service.revokeSession('bob', laptop.session.id)).toBe(false);
+    expect(await service.revokeSession('alice', laptop.session.id)).toBe(true);
+    expect(await service.isRevoked(laptop.session.id)).toBe(true);
+
+    expect(await service.revokeAllSessions('alice', phone.session.id)).toBe(1);
+    expect((await service.listSessions('alice')).map(session => session.id)).toEqual([phone.session.id]);
+    expect(await service.isRevoked(tablet.session.id)).toBe(true);
+    expect(await service.isRevoked(phone.session.id)).toBe(false);
+    expect(await service.listSessions('bob')).toHaveLength(1);
+  });
+
+  it('should end a session by its refresh token only while the token is current', async () => {
+    const { session, refreshToken } = await service.createSession('alice');
+
+    expect(await service.endSession(`${session.id}.wrong`)).toBe(false);
+    expect(await service.endSession(refreshToken)).toBe(true);
+    expect(await service.endSession(refreshToken)).toBe(false);
+  });
+});
+
+describe('JSON file session storage', () => {
+  let directory: string;
+
+  const record = (id: string): SessionRecord => ({
+    id,
+    userId: 'alice',
+    refreshTokenHash: 'hash',
+    device: 'Firefox',
+    ip: '10.0.0.1',
+    createdAt: new Date(),
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 1000)
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-sessions-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist sessions and read them back with dates', async () => {
+    const filePath = path.join(directory, 'sessions.json');
+    const session = record('one');
+    await new JsonFileSessionStore(() => filePath).create(session);
+    await new JsonFileSessionStore(() => filePath).create(record('two'));
+
+    const store = new JsonFileSessionStore(() => filePath);
+    expect(await store.get('one')).toEqual(session);
+    expect(await store.delete(['two', 'missing'])).toBe(1);
+    expect((await store.list()).map(item => item.id)).toEqual(['one']);
+  });
+
+  it('should share revocations through the file and forget them once they lapse', async () => {
+    const filePath = path.join(directory, 'revoked-sessions.json');
+    const revocations = new JsonFileRevocationList(() => filePath);
+
+    await revocations.revoke(['lapsed'], new Date(Date.now() - 1000));
+    await revocations.revoke(['one', 'two'], new Date(Date.now() + 60 * 1000));
+
+    const other = new JsonFileRevocationList(() => filePath);
+    expect(await other.isRevoked('one')).toBe(true);
+    expect(await other.isRevoked('lapsed')).toBe(false);
+    expect(Object.keys(JSON.parse(fs.readFileSync(filePath, 'utf8'))).sort()).toEqual(['one', 'two']);
+  });
+});
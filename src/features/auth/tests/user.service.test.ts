@@ -0,0 +1,311 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AccountLockedError,
+  AccountSuspendedError,
+  EmailInUseError,
+  IdentityConflictError,
+  InvalidCredentialsError,
+  InvalidResetTokenError,
+  UserService,
+  UserValidationError
+} from '../services/user.service';
+import { DevelopmentUserStore, JsonFileUserStore, MemoryUserStore, createDevelopmentUsers } from '../services/user.store';
+import { createInitialAdmin } from '../services/initial-admin';
+import { hashPassword, verifyPassword } from '../services/password.hasher';
+import { getPermissionsForRoles } from '../services/roles';
+import { UserRecord } from '../types/user.types';
+
+describe('password hashing', () => {
+  it('should salt every hash and only verify the right password', async () => {
+    const first = await hashPassword('correct-horse');
+    const second = await hashPassword('correct-horse');
+
+    expect(first).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(first).not.toBe(second);
+    await expect(verifyPassword('correct-horse', first)).resolves.toBe(true);
+    await expect(verifyPassword('battery-staple', first)).resolves.toBe(false);
+    await expect(verifyPassword('correct-horse', 'plain-text')).resolves.toBe(false);
+    await expect(verifyPassword('correct-horse', 'scrypt$3$8$1$c2FsdA==$a2V5')).resolves.toBe(false);
+  });
+});
+
+describe('UserService', () => {
+  let service: UserService;
+
+  beforeEach(() => {
+    service = new UserService(new MemoryUserStore(), { maxFailedLoginAttempts: 3, lockoutMs: 60 * 1000 });
+  });
+
+  it('should sign up users with unique, normalized emails', async () => {
+    const user = await service.signup({ email: ' Alice@Example.com ', password: 'correct-horse' });
+
+    expect(user).toEqual({
+      id: expect.any(String),
+      email: 'alice@example.com',
+      name: 'alice',
+      roles: ['user'],
+      permissions: ['logs:write']
+    });
+    await expect(service.signup({ email: 'alice@example.com', password: 'battery-staple' }))
+      .rejects.toThrow(EmailInUseError);
+    await expect(service.signup({ email: 'bob', password: 'short' })).rejects.toMatchObject({
+      errors: ['A valid email is required', 'Password must be at least 8 characters']
+    });
+    await expect(service.verifyCredentials('ALICE@example.com', 'correct-horse')).resolves.toEqual(user);
+  });
+
+  it('should never store the password itself', async () => {
+    const store = new MemoryUserStore();
+    await new UserService(store).signup({ email: 'alice@example.com', password: 'correct-horse' });
+
+    const [record] = await store.list();
+    expect(JSON.stringify(record)).not.toContain('correct-horse');
+  });
+
+  it('should treat an email that is not a string as unknown', async () => {
+    await service.signup({ email: 'alice@example.com', password: 'correct-horse' });
+
+    await expect(service.verifyCredentials(1 as any, 'correct-horse')).rejects.toThrow(InvalidCredentialsError);
+    expect(await service.requestPasswordReset({ email: 'alice@example.com' } as any)).toBeNull();
+  });
+
+  it('should lock the account after repeated failures until the lockout ends', async () => {
+    await service.signup({ email: 'alice@example.com', password: 'correct-horse' });
+
+    await expect(service.verifyCredentials('alice@example.com', 'wrong-1')).rejects.toThrow(InvalidCredentialsError);
+    await expect(service.verifyCredentials('alice@example.com', 'wrong-2')).rejects.toThrow(InvalidCredentialsError);
+    await expect(service.verifyCredentials('alice@example.com', 'wrong-3')).rejects.toThrow(AccountLockedError);
+    // Even the right password is refused while locked
+    await expect(service.verifyCredentials('alice@example.com', 'correct-horse')).rejects.toThrow(AccountLockedError);
+
+    const realNow = Date.now();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(realNow + 61 * 1000);
+    try {
+      await expect(service.verifyCredentials('alice@example.com', 'correct-horse')).resolves.toMatchObject({ email: 'alice@example.com' });
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('should start the failure count over after a successful sign-in', async () => {
+    await service.signup({ email: 'alice@example.com', password: 'correct-horse' });
+
+    for (let i = 0; i < 2; i++) {
+      await expect(service.verifyCredentials('alice@example.com', 'wrong')).rejects.toThrow(InvalidCredentialsError);
+      await service.verifyCredentials('alice@example.com', 'correct-horse');
+    }
+    await expect(service.verifyCredentials('alice@example.com', 'wrong')).rejects.toThrow(InvalidCredentialsError);
+  });
+
+  it('should refuse suspended and deleted accounts', async () => {
+    const user = await service.signup({ email: 'alice@example.com', password: 'correct-horse' });
+
+    await service.setStatus(user.id, 'suspended');
+    await expect(service.verifyCredentials('alice@example.com', 'correct-horse')).rejects.toThrow(AccountSuspendedError);
+
+    await service.setStatus(user.id, 'deleted');
+    await expect(service.verifyCredentials('alice@example.com', 'correct-horse')).rejects.toThrow(InvalidCredentialsError);
+    expect(await service.getUser(user.id)).toBeNull();
+  });
+
+  it('should change the password only with the current one', async () => {
+    const user = await service.signup({ email: 'alice@example.com', password: 'correct-horse' });
+
+    await expect(service.changePassword(user.id, 'wrong', 'battery-staple')).rejects.toThrow(InvalidCredentialsError);
+    await expect(service.changePassword(user.id, 'correct-horse', 'short')).rejects.toThrow(UserValidationError);
+    await service.changePassword(user.id, 'correct-horse', 'battery-staple');
+
+    await expect(service.verifyCredentials('alice@example.com', 'correct-horse')).rejects.toThrow(InvalidCredentialsError);
+    await expect(service.verifyCredentials('alice@example.com', 'battery-staple')).resolves.toEqual(user);
+  });
+
+  it('should reset the password with the newest token, once, before it expires', async () => {
+    const expiring = new UserService(new MemoryUserStore(), { passwordResetTtlMs: -1 });
+    await expiring.signup({ email: 'bob@example.com', password: 'correct-horse' });
+    const expired = await expiring.requestPasswordReset('bob@example.com');
+    await expect(expiring.resetPassword(expired!, 'battery-staple')).rejects.toThrow(InvalidResetTokenError);
+
+    await service.signup({ email: 'alice@example.com', password: 'correct-horse' });
+    expect(await service.requestPasswordReset('nobody@example.com')).toBeNull();
+    const replaced = await service.requestPasswordReset('alice@example.com');
+    const token = await service.requestPasswordReset('alice@example.com');
+
+    await expect(service.resetPassword(replaced!, 'battery-staple')).rejects.toThrow(InvalidResetTokenError);
+    await service.resetPassword(token!, 'battery-staple');
+    await expect(service.resetPassword(token!, 'another-password')).rejects.toThrow(InvalidResetTokenError);
+    await expect(service.verifyCredentials('alice@example.com', 'battery-staple')).resolves.toMatchObject({ email: 'alice@example.com' });
+  });
+
+  it('should sign users in with the permissions of their roles', async () => {
+    const user = await service.signup({ email: 'alice@example.com', password: 'correct-horse' });
+
+    await expect(service.setRoles(user.id, ['admin', 'owner'])).rejects.toMatchObject({ errors: ['Unknown role: owner'] });
+    expect(await service.setRoles('nobody', ['admin'])).toBeNull();
+    expect(await service.setRoles(user.id, ['admin', 'user', 'admin'])).toMatchObject({ roles: ['admin', 'user'] });
+
+    const signedIn = await service.verifyCredentials('alice@example.com', 'correct-horse');
+    expect(signedIn.roles).toEqual(['admin', 'user']);
+    expect(signedIn.permissions).toEqual(getPermissionsForRoles(['admin']));
+    expect(signedIn.permissions).toContain('plugins:manage');
+  });
+
+  it('should not expose password hashes or reset tokens in accounts', async () => {
+    await service.signup({ email: 'alice@example.com', password: 'correct-horse' });
+    await service.requestPasswordReset('alice@example.com');
+
+    const [account] = await service.listAccounts();
+    expect(account).toMatchObject({ email: 'alice@example.com', status: 'active', failedLoginAttempts: 0 });
+    expect(account).not.toHaveProperty('passwordHash');
+    expect(account).not.toHaveProperty('passwordResetTokenHash');
+  });
+
+  describe('createInitialAdmin', () => {
+    const config = { INITIAL_ADMIN_EMAIL: 'Root@Example.com', INITIAL_ADMIN_PASSWORD: 'correct-horse' };
+
+    it('should create the configured administrator only while there is none', async () => {
+      await service.signup({ email: 'alice@example.com', password: 'battery-staple' });
+
+      const admin = await createInitialAdmin(service, config);
+      expect(admin).toMatchObject({ email: 'root@example.com', name: 'root', roles: ['admin'] });
+      await expect(service.verifyCredentials('root@example.com', 'correct-horse')).resolves.toMatchObject({ id: admin!.id });
+
+      // Later starts leave the accounts alone, even with other settings
+      await expect(createInitialAdmin(service, { ...config, INITIAL_ADMIN_EMAIL: 'other@example.com' })).resolves.toBeNull();
+      expect(await service.listAccounts()).toHaveLength(2);
+    });
+
+    it('should do nothing unless both the email and password are set', async () => {
+      await expect(createInitialAdmin(service, {})).resolves.toBeNull();
+      await expect(createInitialAdmin(service, { INITIAL_ADMIN_EMAIL: 'root@example.com' })).resolves.toBeNull();
+      expect(await service.listAccounts()).toEqual([]);
+    });
+
+    it('should not grant the role to an existing account or accept a weak password', async () => {
+      await service.signup({ email: 'root@example.com', password: 'battery-staple' });
+
+      await expect(createInitialAdmin(service, config)).rejects.toThrow(EmailInUseError);
+      await expect(createInitialAdmin(service, { ...config, INITIAL_ADMIN_EMAIL: 'new@example.com', INITIAL_ADMIN_PASSWORD: 'short' }))
+        .rejects.toThrow(UserValidationError);
+      expect((await service.listAccounts()).map(account => account.roles)).toEqual([['user']]);
+    });
+
+    it('should create one when the only administrator was suspended', async () => {
+      const first = await createInitialAdmin(service, config);
+      await service.setStatus(first!.id, 'suspended');
+
+      await expect(createInitialAdmin(service, { ...config, INITIAL_ADMIN_EMAIL: 'new@example.com' }))
+        .resolves.toMatchObject({ email: 'new@example.com', roles: ['admin'] });
+    });
+  });
+
+  describe('signInWithIdentity', () => {
+    const identity = { provider: 'oidc', subject: 'user-42', email: 'Jane@Example.com', emailVerified: true, name: 'Jane' };
+
+    it('should create an account without a password on first sign-in and find it again by subject', async () => {
+      const user = await service.signInWithIdentity(identity);
+
+      expect(user).toMatchObject({ email: 'jane@example.com', name: 'Jane', roles: ['user'] });
+      await expect(service.verifyCredentials('jane@example.com', '')).rejects.toThrow(InvalidCredentialsError);
+      // The provider's email may change; the subject does not
+      await expect(service.signInWithIdentity({ ...identity, email: 'jane@new.example.com' })).resolves.toMatchObject({ id: user.id });
+    });
+
+    it('should only link an existing account when the provider verified the email', async () => {
+      const existing = await service.signup({ email: 'jane@example.com', password: 'correct-horse' });
+
+      await expect(service.signInWithIdentity({ ...identity, emailVerified: false })).rejects.toThrow(IdentityConflictError);
+      await expect(service.signInWithIdentity(identity)).resolves.toMatchObject({ id: existing.id });
+      expect((await service.getAccount(existing.id))!.identities).toEqual([{ provider: 'oidc', subject: 'user-42' }]);
+    });
+
+    it('should apply mapped roles and refuse suspended accounts', async () => {
+      const user = await service.signInWithIdentity({ ...identity, roles: ['admin'] });
+      expect(user.roles).toEqual(['admin']);
+      expect((await service.signInWithIdentity({ ...identity, roles: [] })).roles).toEqual(['user']);
+
+      await service.setStatus(user.id, 'suspended');
+      await expect(service.signInWithIdentity(identity)).rejects.toThrow(AccountSuspendedError);
+    });
+  });
+});
+
+describe('JsonFileUserStore', () => {
+  let directory: string;
+  let filePath: string;
+
+  const record = (id: string, email: string): UserRecord => ({
+    id,
+    email,
+    name: id,
+    passwordHash: 'hash',
+    status: 'active',
+    roles: ['user'],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    failedLoginAttempts: 0
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-users-'));
+    filePath = path.join(directory, 'users.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist accounts and read them back with dates', async () => {
+    const alice = record('alice', 'alice@example.com');
+    await new JsonFileUserStore(() => filePath).create(alice);
+
+    expect(await new JsonFileUserStore(() => filePath).findByEmail('alice@example.com')).toEqual(alice);
+  });
+
+  it('should give accounts stored before roles existed the user role', async () => {
+    const { roles: _roles, ...withoutRoles } = record('alice', 'alice@example.com');
+    fs.writeFileSync(filePath, JSON.stringify({ alice: withoutRoles }));
+
+    expect((await new JsonFileUserStore(() => filePath).get('alice'))?.roles).toEqual(['user']);
+  });
+
+  it('should keep emails unique across concurrent sign-ups', async () => {
+    const results = await Promise.all([
+      new JsonFileUserStore(() => filePath).create(record('first', 'alice@example.com')),
+      new JsonFileUserStore(() => filePath).create(record('second', 'alice@example.com')),
+      new JsonFileUserStore(() => filePath).create(record('third', 'bob@example.com'))
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(2);
+    expect((await new JsonFileUserStore(() => filePath).list()).map(user => user.email).sort())
+      .toEqual(['alice@example.com', 'bob@example.com']);
+  });
+
+  it('should start out with the initial accounts until it is written', async () => {
+    const store = new JsonFileUserStore(() => filePath, createDevelopmentUsers);
+
+    expect((await store.list()).map(user => [user.email, user.roles])).toEqual([
+      ['test@example.com', ['user']],
+      ['admin@example.com', ['admin']]
+    ]);
+    expect(fs.existsSync(filePath)).toBe(false);
+
+    await store.create(record('alice', 'alice@example.com'));
+    expect((await new JsonFileUserStore(() => filePath).list()).map(user => user.email))
+      .toEqual(['test@example.com', 'admin@example.com', 'alice@example.com']);
+  });
+
+  it('should keep the development accounts out of the file', async () => {
+    const store = new DevelopmentUserStore(new JsonFileUserStore(() => filePath));
+
+    expect(await store.create(record('alice', 'alice@example.com'))).toBe(true);
+    expect(await store.create(record('other', 'admin@example.com'))).toBe(false);
+    await store.update('admin1', user => ({ ...user, failedLoginAttempts: 1 }));
+
+    expect((await store.list()).map(user => user.email))
+      .toEqual(['test@example.com', 'admin@example.com', 'alice@example.com']);
+    expect((await store.findByEmail('admin@example.com'))?.failedLoginAttempts).toBe(1);
+    expect((await new JsonFileUserStore(() => filePath).list()).map(user => user.email)).toEqual(['alice@example.com']);
+  });
+});
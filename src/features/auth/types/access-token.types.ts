@@ -0,0 +1,44 @@
+/**
+ * A personal access token for scripts and integrations. The token itself is
+ * shown once when it is created; only a hash of its secret is stored.
+ */
+export interface AccessTokenRecord {
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  scopes: string[]; // Permissions the token may use, see PERMISSIONS
+  createdAt: Date;
+  expiresAt?: Date; // Tokens without an expiry last until they are revoked
+  lastUsedAt?: Date;
+}
+
+// What users get to see of their tokens
+export type AccessToken = Omit<AccessTokenRecord, 'tokenHash'>;
+
+export interface CreateAccessTokenRequest {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+}
+
+export interface IssuedAccessToken {
+  accessToken: AccessToken;
+  token: string;
+}
+
+export interface AccessTokenServiceOptions {
+  maxExpiresInDays: number;
+  lastUsedIntervalMs: number; // How often the last-used time is written for a busy token
+}
+
+/**
+ * Where access tokens are kept
+ */
+export interface IAccessTokenStore {
+  list(): Promise<AccessTokenRecord[]>;
+  get(id: string): Promise<AccessTokenRecord | null>;
+  create(token: AccessTokenRecord): Promise<void>;
+  update(id: string, change: (token: AccessTokenRecord) => AccessTokenRecord): Promise<AccessTokenRecord | null>;
+  delete(ids: string[]): Promise<number>;
+}
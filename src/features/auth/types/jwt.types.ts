@@ -1,13 +1,20 @@
+import { SessionClient } from './session.types';
+
 export interface User {
   id: string;
   email: string;
   name: string;
+  roles?: string[];
+  permissions?: string[]; // Granted by the roles when the token was issued
 }
 
 export interface JWTPayload {
   userId: string;
   email: string;
   name: string;
+  roles?: string[];
+  permissions?: string[];
+  sid?: string; // The session the token was issued for
   iat?: number;
   exp?: number;
 }
@@ -16,6 +23,17 @@ export interface TokenValidationResult {
   isValid: boolean;
   user: User | null;
   error: string | null;
+  sessionId?: string;
+  expiresAt?: Date;
+}
+
+// A new session's tokens; expiresAt is when the access token expires
+export interface SignedInSession {
+  user: User;
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+  expiresAt: Date;
 }
 
 export interface AuthenticationResult {
@@ -23,12 +41,18 @@ export interface AuthenticationResult {
   token: string | null;
   user: User | null;
   error: string | null;
+  reason?: 'invalid_credentials' | 'account_locked' | 'account_suspended';
+  lockedUntil?: Date;
+  refreshToken?: string;
+  sessionId?: string;
+  expiresAt?: Date;
 }
 
 export interface JWTAuthServiceInterface {
-  generateToken(user: User): string;
+  generateToken(user: User, sessionId?: string): string;
   validateToken(token: string): TokenValidationResult;
-  authenticateUser(email: string, password: string): AuthenticationResult;
-  refreshToken(token: string): string;
+  authenticateUser(email: string, password: string, client?: SessionClient): Promise<AuthenticationResult>;
+  startSession(user: User, client?: SessionClient): Promise<SignedInSession>;
+  refreshSession(refreshToken: string, client?: SessionClient): Promise<SignedInSession>;
   extractUserFromToken(token: string): User;
 } 
\ No newline at end of file
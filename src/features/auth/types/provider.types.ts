@@ -0,0 +1,70 @@
+import { User } from './jwt.types';
+
+export type AuthProviderType = 'local' | 'oidc';
+
+// What the sign-in page is told about a provider
+export interface AuthProviderInfo {
+  id: string;
+  name: string;
+  type: AuthProviderType;
+  loginUrl?: string; // Where the browser goes to sign in, for providers that redirect
+}
+
+/**
+ * Who an identity provider says signed in. `roles` is only set when the
+ * provider is configured to map its claims to roles.
+ */
+export interface ExternalIdentity {
+  provider: string;
+  subject: string; // The provider's id for the user, unique per provider
+  email: string;
+  emailVerified: boolean;
+  name?: string;
+  roles?: string[];
+}
+
+// An account's link to an identity provider
+export interface LinkedIdentity {
+  provider: string;
+  subject: string;
+}
+
+export interface CompletedLogin {
+  identity: ExternalIdentity;
+  redirectTo: string;
+}
+
+/**
+ * A way of signing in. Local providers check a password; redirect providers
+ * send the browser to an identity provider and take its answer on a callback.
+ */
+export interface IAuthProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly type: AuthProviderType;
+}
+
+export interface ILocalAuthProvider extends IAuthProvider {
+  readonly type: 'local';
+  authenticate(email: string, password: string): Promise<User>;
+}
+
+export interface IRedirectAuthProvider extends IAuthProvider {
+  readonly type: 'oidc';
+  beginLogin(redirectTo?: string): Promise<string>; // The URL to send the browser to
+  completeLogin(params: Record<string, unknown>): Promise<CompletedLogin>;
+}
+
+export interface OidcProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // Public clients rely on PKCE alone
+  redirectUri: string;
+  scopes: string[];
+  roleClaim?: string; // Dotted path to the claim holding the user's groups, e.g. realm_access.roles
+  roleMapping: Record<string, string[]>; // Claim value to role ids
+  loginTtlMs: number; // How long a started sign-in can be completed
+  maxPendingLogins: number; // Started sign-ins kept at once; the oldest are dropped beyond this
+}
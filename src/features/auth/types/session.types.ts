@@ -0,0 +1,54 @@
+/**
+ * A signed-in device. Access tokens name the session they were issued for,
+ * and the refresh token is stored hashed so it can only be checked, not
+ * recovered.
+ */
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  refreshTokenHash: string;
+  device: string; // The client's user agent
+  ip: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date; // Moves forward every time the refresh token is used
+}
+
+// What users get to see of their sessions
+export type AuthSession = Omit<SessionRecord, 'refreshTokenHash'>;
+
+// Where a sign-in or refresh came from
+export interface SessionClient {
+  device?: string;
+  ip?: string;
+}
+
+export interface IssuedSession {
+  session: AuthSession;
+  refreshToken: string;
+}
+
+export interface SessionServiceOptions {
+  refreshTokenTtlMs: number;
+  accessTokenTtlMs: number; // How long a revoked session's access tokens stay on the revocation list
+}
+
+/**
+ * Where sessions are kept
+ */
+export interface ISessionStore {
+  list(): Promise<SessionRecord[]>;
+  get(id: string): Promise<SessionRecord | null>;
+  create(session: SessionRecord): Promise<void>;
+  update(id: string, change: (session: SessionRecord) => SessionRecord): Promise<SessionRecord | null>;
+  delete(ids: string[]): Promise<number>;
+}
+
+/**
+ * Sessions whose access tokens must be refused before they expire. Entries
+ * only need to be kept until then.
+ */
+export interface IRevocationList {
+  revoke(sessionIds: string[], until: Date): Promise<void>;
+  isRevoked(sessionId: string): Promise<boolean>;
+}
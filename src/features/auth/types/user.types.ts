@@ -0,0 +1,50 @@
+import { LinkedIdentity } from './provider.types';
+
+export type UserStatus = 'active' | 'suspended' | 'deleted';
+
+/**
+ * A user account as stored, secrets included. Only the id, email and name
+ * ever leave the server as a `User`.
+ */
+export interface UserRecord {
+  id: string;
+  email: string; // Lower-cased, unique
+  name: string;
+  passwordHash: string; // Empty for accounts created through an identity provider
+  status: UserStatus;
+  roles: string[]; // Role ids, see ROLES
+  createdAt: Date;
+  updatedAt: Date;
+  lastLoginAt?: Date;
+  failedLoginAttempts: number;
+  lockedUntil?: Date;
+  passwordResetTokenHash?: string;
+  passwordResetExpiresAt?: Date;
+  identities?: LinkedIdentity[]; // Identity providers the user can also sign in with
+}
+
+// What admins get to see of an account
+export type UserAccount = Omit<UserRecord, 'passwordHash' | 'passwordResetTokenHash'>;
+
+export interface SignupRequest {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+export interface UserServiceOptions {
+  maxFailedLoginAttempts: number; // Consecutive failures before the account is locked
+  lockoutMs: number;
+  passwordResetTtlMs: number;
+}
+
+/**
+ * Where user accounts are kept
+ */
+export interface IUserStore {
+  list(): Promise<UserRecord[]>;
+  get(id: string): Promise<UserRecord | null>;
+  findByEmail(email: string): Promise<UserRecord | null>;
+  create(user: UserRecord): Promise<boolean>; // False when the email is already registered
+  update(id: string, change: (user: UserRecord) => UserRecord): Promise<UserRecord | null>;
+}
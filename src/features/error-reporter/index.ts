@@ -3,6 +3,12 @@ export * from './interfaces/logging.interface';
 export * from './interfaces/error-recovery.interface';
 // Export services with specific names to avoid conflicts with interfaces
 export { LoggingService } from './services/logging.service';
+export { InvalidLogCursorError, compareNewestFirst, encodeLogCursor, selectLogs, pageLogs } from './services/log.query';
+export { NdjsonLogStore, DEFAULT_LOG_RETENTION, getLogsDirectory } from './services/log.store';
+export { LoggingServiceTransport } from './services/logging.transport';
+export { fingerprintError, parseStackFrames } from './services/error.fingerprint';
+export { ErrorIssueTracker, ErrorIssueNotFoundError, ERROR_ISSUE_STATUSES } from './services/error.issue.tracker';
+export { MemoryErrorIssueStore, JsonFileErrorIssueStore, getErrorIssuesFile } from './services/error.issue.store';
 export { ErrorRecoveryService } from './services/error-recovery.service';
 
 // Legacy widget error handler (for backward compatibility)
@@ -104,6 +104,7 @@ export interface ErrorRecoveryConfiguration {
   componentFailureHandler: ComponentFailureHandler;
   fallbackLogger: FallbackLogger;
   developerNotificationService: DeveloperNotificationService;
+  getCorrelationId?: () => string | undefined; // Tags entries logged without one, fallback entries included
 }
 
 export interface ErrorRecoveryService {
@@ -1,10 +1,6 @@
-export enum LogLevel {
-  DEBUG = 'debug',
-  INFO = 'info',
-  WARNING = 'warning',
-  ERROR = 'error',
-  CRITICAL = 'critical'
-}
+import { LogLevel } from '../../../shared/types';
+
+export { LogLevel };
 
 export enum ErrorSeverity {
   LOW = 'low',
@@ -18,6 +14,7 @@ export interface LogContext {
   pluginId?: string;
   component?: string;
   action?: string;
+  correlationId?: string; // The request the entry was logged for
   metadata?: Record<string, any>;
 }
 
@@ -35,14 +32,41 @@ export interface LogEntry {
 
 export interface LogQuery {
   level?: LogLevel;
+  minLevel?: LogLevel; // This level and the more severe ones
   userId?: string;
   pluginId?: string;
   component?: string;
+  correlationId?: string;
   startDate?: Date;
   endDate?: Date;
   messageContains?: string;
   limit?: number;
   offset?: number;
+  cursor?: string; // nextCursor of the previous page
+}
+
+/**
+ * One page of a log search, newest first. `nextCursor` is set when older
+ * entries match too.
+ */
+export interface LogPage {
+  entries: LogEntry[];
+  nextCursor?: string;
+}
+
+export interface LogRetention {
+  maxAgeMs: number;
+  maxFileBytes: number; // The current file is rotated once it grows past this
+  maxTotalBytes: number; // The oldest files are deleted once all files together pass this
+}
+
+/**
+ * Where log entries are kept beyond the in-memory working set, so they
+ * survive restarts
+ */
+export interface ILogStore {
+  append(entries: LogEntry[]): Promise<void>;
+  query(query: LogQuery): Promise<LogPage>;
 }
 
 export interface ErrorContext {
@@ -86,6 +110,7 @@ export interface ErrorStatistics {
 }
 
 export interface AggregatedError {
+  fingerprint: string;
   message: string;
   count: number;
   affectedComponents: string[];
@@ -94,6 +119,52 @@ export interface AggregatedError {
   severity: ErrorSeverity;
 }
 
+export type ErrorIssueStatus = 'open' | 'resolved' | 'ignored';
+
+export interface ErrorOccurrenceBucket {
+  start: Date; // The start of the hour the count covers
+  count: number;
+}
+
+/**
+ * Every error with one fingerprint, tracked as a single problem. A resolved
+ * issue whose error is logged again is reopened as a regression; an ignored
+ * one keeps counting but stays ignored.
+ */
+export interface ErrorIssue {
+  fingerprint: string;
+  type: string;
+  message: string; // Of the latest occurrence
+  culprit?: string; // The innermost in-app stack frame
+  frames: string[];
+  component?: string;
+  pluginId?: string;
+  severity: ErrorSeverity;
+  status: ErrorIssueStatus;
+  count: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  occurrences: ErrorOccurrenceBucket[]; // Hourly counts for the last week, oldest first
+  lastEntryId: string; // The log entry of the latest occurrence
+  lastCorrelationId?: string;
+  resolvedAt?: Date;
+  regressed: boolean;
+  regressedAt?: Date;
+}
+
+export interface ErrorIssueQuery {
+  status?: ErrorIssueStatus;
+}
+
+/**
+ * Where error issues are kept, so their status and history survive restarts.
+ * `update` reads, changes and writes them as one step.
+ */
+export interface IErrorIssueStore {
+  load(): Promise<ErrorIssue[]>;
+  update(change: (issues: ErrorIssue[]) => ErrorIssue[]): Promise<ErrorIssue[]>;
+}
+
 export interface ErrorSuggestion {
   pattern: RegExp;
   suggestion: string;
@@ -105,13 +176,18 @@ export interface LoggingConfiguration {
   maxEntries: number;
   enableConsoleOutput: boolean;
   retentionDays?: number;
+  store?: ILogStore; // When set, entries are also written here and searches read from it
+  getCorrelationId?: () => string | undefined; // Tags entries logged without one, e.g. with the request being handled
 }
 
 export interface LoggingService {
   logError(error: Error, context: LogContext): void;
   logWarning(message: string, context: LogContext): void;
   logInfo(message: string, context: LogContext): void;
+  log(level: LogLevel, message: string, context: LogContext): LogEntry;
   searchLogs(query: LogQuery): Promise<LogEntry[]>;
+  queryLogs(query: LogQuery): Promise<LogPage>;
+  subscribe(listener: (entry: LogEntry) => void): () => void;
   getErrorStatistics(): Promise<ErrorStatistics>;
   getAggregatedErrors(): Promise<AggregatedError[]>;
   getErrorSuggestions(): Promise<ErrorSuggestion[]>;
@@ -16,12 +16,14 @@ export class ErrorRecoveryService implements IErrorRecoveryService {
   private fallbackLogger: FallbackLogger;
   private developerNotificationService: DeveloperNotificationService;
   private healthStatus: SystemHealthStatus;
+  private getCorrelationId: () => string | undefined;
 
   constructor(config: ErrorRecoveryConfiguration) {
     this.loggingService = config.loggingService;
     this.componentFailureHandler = config.componentFailureHandler;
     this.fallbackLogger = config.fallbackLogger;
     this.developerNotificationService = config.developerNotificationService;
+    this.getCorrelationId = config.getCorrelationId || (() => undefined);
     
     this.healthStatus = {
       status: 'healthy',
@@ -119,6 +121,10 @@ export class ErrorRecoveryService implements IErrorRecoveryService {
 
   safeLog(level: LogLevel, message: string, context: LogContext): void {
     try {
+      const correlationId = context.correlationId ? undefined : this.getCorrelationId();
+      if (correlationId) {
+        context = { ...context, correlationId };
+      }
       if (this.fallbackLogger.isMainLoggerWorking()) {
         // Use main logging service
         switch (level) {
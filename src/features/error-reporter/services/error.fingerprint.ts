@@ -0,0 +1,86 @@
+import { LogEntry } from '../interfaces/logging.interface';
+
+// Frames below these are the same for most errors, so they would not tell issues apart
+const MAX_FINGERPRINT_FRAMES = 3;
+
+export interface ErrorFingerprint {
+  hash: string;
+  type: string;
+  frames: string[]; // In-app frames as `function (file)`, innermost first
+}
+
+// Node and Chrome print `at fn (file:line:col)` or `at file:line:col`; Firefox and Safari print `fn@file:line:col`
+const V8_FRAME_PATTERN = /^\s*at (?:(.+?) \()?(.+?):\d+:\d+\)?$/;
+const GECKO_FRAME_PATTERN = /^(.*)@(.+?):\d+:\d+$/;
+
+// Library and runtime frames are skipped; they are shared by unrelated errors
+function isInAppFile(file: string): boolean {
+  return !file.includes('node_modules') && !file.startsWith('node:') && !file.startsWith('internal/') && file !== '<anonymous>';
+}
+
+// Paths differ between machines and builds, so only the part inside the project is kept
+function normalizeFile(file: string): string {
+  const withoutQuery = file.replace(/\\/g, '/').replace(/[?#].*$/, '');
+  const inProject = /\/(?:src|dist)\/(.+)$/.exec(withoutQuery);
+  const relative = inProject ? inProject[1]! : withoutQuery.substring(withoutQuery.lastIndexOf('/') + 1);
+  // Bundlers add a content hash to file names, e.g. index-3f9a1c2b.js
+  return relative.replace(/[-.][0-9a-f]{8,}(?=\.\w+$)/i, '');
+}
+
+/**
+ * The in-app frames of a stack trace, innermost first. Line and column
+ * numbers are left out so an issue keeps its fingerprint across edits.
+ */
+export function parseStackFrames(stackTrace: string): string[] {
+  const frames: string[] = [];
+  for (const line of stackTrace.split('\n')) {
+    const match = V8_FRAME_PATTERN.exec(line) || GECKO_FRAME_PATTERN.exec(line.trim());
+    if (!match || !isInAppFile(match[2]!)) {
+      continue;
+    }
+    frames.push(`${match[1] || '<anonymous>'} (${normalizeFile(match[2]!)})`);
+  }
+  return frames;
+}
+
+export function extractErrorType(message: string, stackTrace?: string): string {
+  const match = /^(\w+(?:Error|Exception)):/.exec(message) || (stackTrace ? /^(\w+):/.exec(stackTrace) : null);
+  return match?.[1] ?? 'Error';
+}
+
+export function normalizeErrorMessage(message: string): string {
+  // Remove specific details like line numbers, file paths, IDs
+  return message
+    .replace(/at line \d+/g, 'at line X')
+    .replace(/file:\/\/[^\s]+/g, 'file://PATH')
+    .replace(/id:\s*[a-zA-Z0-9-]+/g, 'id: ID')
+    .replace(/\d+/g, 'N');
+}
+
+// 64-bit FNV-1a; the same in Node and the browser, where node:crypto is missing
+function hashString(value: string): string {
+  let hash = 0xcbf29ce484222325n;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= BigInt(value.charCodeAt(i));
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * What makes two errors the same problem: the error type, the top in-app
+ * stack frames and the component and plugin that logged it. Errors without
+ * in-app frames, such as those logged by message only, are told apart by
+ * their message with the numbers and ids taken out instead.
+ */
+export function fingerprintError(entry: Pick<LogEntry, 'message' | 'stackTrace' | 'context'>): ErrorFingerprint {
+  const type = extractErrorType(entry.message, entry.stackTrace);
+  const frames = entry.stackTrace ? parseStackFrames(entry.stackTrace).slice(0, MAX_FINGERPRINT_FRAMES) : [];
+  const parts = [
+    type,
+    ...(frames.length > 0 ? frames : [normalizeErrorMessage(entry.message)]),
+    entry.context.component || '',
+    entry.context.pluginId || ''
+  ];
+  return { hash: hashString(parts.join('\n')), type, frames };
+}
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ErrorIssue, IErrorIssueStore } from '../interfaces/logging.interface';
+import { getDataDirectory } from '../../../shared/utils/data-directory';
+import { withFileLock, writeFileAtomic } from '../../../shared/utils/atomic-file';
+
+export function getErrorIssuesFile(): string {
+  return path.join(getDataDirectory(), 'error-issues.json');
+}
+
+// JSON has no dates, so they come back as strings
+function reviveIssue(issue: any): ErrorIssue {
+  return {
+    ...issue,
+    firstSeen: new Date(issue.firstSeen),
+    lastSeen: new Date(issue.lastSeen),
+    occurrences: (issue.occurrences || []).map((bucket: any) => ({ ...bucket, start: new Date(bucket.start) })),
+    ...(issue.resolvedAt ? { resolvedAt: new Date(issue.resolvedAt) } : {}),
+    ...(issue.regressedAt ? { regressedAt: new Date(issue.regressedAt) } : {})
+  };
+}
+
+/**
+ * Issues kept for as long as the process lives
+ */
+export class MemoryErrorIssueStore implements IErrorIssueStore {
+  private issues: ErrorIssue[] = [];
+
+  async load(): Promise<ErrorIssue[]> {
+    return this.issues;
+  }
+
+  async update(change: (issues: ErrorIssue[]) => ErrorIssue[]): Promise<ErrorIssue[]> {
+    this.issues = change(this.issues);
+    return this.issues;
+  }
+}
+
+/**
+ * Issues kept in one JSON file under the data directory. Updates hold a lock
+ * file from reading to writing, so server processes sharing the directory
+ * never lose each other's occurrences.
+ */
+export class JsonFileErrorIssueStore implements IErrorIssueStore {
+  private pendingWrite: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly resolveFile: () => string = getErrorIssuesFile) {}
+
+  async load(): Promise<ErrorIssue[]> {
+    return this.readAll(path.resolve(this.resolveFile()));
+  }
+
+  update(change: (issues: ErrorIssue[]) => ErrorIssue[]): Promise<ErrorIssue[]> {
+    const filePath = path.resolve(this.resolveFile());
+    const write = this.pendingWrite.then(() => withFileLock(filePath, async () => {
+      const issues = change(await this.readAll(filePath));
+      await writeFileAtomic(filePath, JSON.stringify(issues, null, 2));
+      return issues;
+    }));
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  private async readAll(filePath: string): Promise<ErrorIssue[]> {
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+      return Array.isArray(parsed) ? parsed.map(reviveIssue) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
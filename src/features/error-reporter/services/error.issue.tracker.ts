@@ -0,0 +1,193 @@
+import {
+  ErrorIssue,
+  ErrorIssueQuery,
+  ErrorIssueStatus,
+  ErrorOccurrenceBucket,
+  ErrorSeverity,
+  IErrorIssueStore,
+  LogEntry,
+  LogLevel
+} from '../interfaces/logging.interface';
+import { ErrorFingerprint, fingerprintError } from './error.fingerprint';
+import { JsonFileErrorIssueStore } from './error.issue.store';
+import { createLogger } from '../../../core/logger';
+
+export const ERROR_ISSUE_STATUSES: ErrorIssueStatus[] = ['open', 'resolved', 'ignored'];
+
+const OCCURRENCE_BUCKET_MS = 60 * 60 * 1000;
+const OCCURRENCE_HISTORY_MS = 7 * 24 * 60 * 60 * 1000;
+// The issues seen least recently are dropped past this many
+const MAX_ERROR_ISSUES = 1000;
+
+export class ErrorIssueNotFoundError extends Error {
+  constructor(fingerprint: string) {
+    super(`Error issue not found: ${fingerprint}`);
+    this.name = 'ErrorIssueNotFoundError';
+  }
+}
+
+function isErrorEntry(entry: LogEntry): boolean {
+  return entry.level === LogLevel.ERROR || entry.level === LogLevel.CRITICAL;
+}
+
+function countOccurrence(buckets: ErrorOccurrenceBucket[], at: Date, now: number): ErrorOccurrenceBucket[] {
+  const start = Math.floor(at.getTime() / OCCURRENCE_BUCKET_MS) * OCCURRENCE_BUCKET_MS;
+  const counted = buckets.some(bucket => bucket.start.getTime() === start)
+    ? buckets.map(bucket => bucket.start.getTime() === start ? { ...bucket, count: bucket.count + 1 } : bucket)
+    : [...buckets, { start: new Date(start), count: 1 }];
+  return counted
+    .filter(bucket => now - bucket.start.getTime() < OCCURRENCE_HISTORY_MS)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+function addOccurrence(issue: ErrorIssue | undefined, entry: LogEntry, { hash, type, frames }: ErrorFingerprint, now: number): ErrorIssue {
+  const severity = entry.level === LogLevel.CRITICAL ? ErrorSeverity.CRITICAL : ErrorSeverity.HIGH;
+  const latest: Pick<ErrorIssue, 'message' | 'lastSeen' | 'lastEntryId' | 'lastCorrelationId'> = {
+    message: entry.message,
+    lastSeen: entry.timestamp,
+    lastEntryId: entry.id,
+    ...(entry.context.correlationId ? { lastCorrelationId: entry.context.correlationId } : {})
+  };
+
+  if (!issue) {
+    return {
+      fingerprint: hash,
+      type,
+      ...(frames.length > 0 ? { culprit: frames[0] } : {}),
+      frames,
+      ...(entry.context.component ? { component: entry.context.component } : {}),
+      ...(entry.context.pluginId ? { pluginId: entry.context.pluginId } : {}),
+      severity,
+      status: 'open',
+      count: 1,
+      firstSeen: entry.timestamp,
+      occurrences: countOccurrence([], entry.timestamp, now),
+      regressed: false,
+      ...latest
+    };
+  }
+
+  const updated: ErrorIssue = {
+    ...issue,
+    severity: severity === ErrorSeverity.CRITICAL ? severity : issue.severity,
+    count: issue.count + 1,
+    firstSeen: entry.timestamp < issue.firstSeen ? entry.timestamp : issue.firstSeen,
+    occurrences: countOccurrence(issue.occurrences, entry.timestamp, now)
+  };
+  // The latest occurrence's details replace the previous ones, correlation id included
+  if (entry.timestamp >= issue.lastSeen) {
+    delete updated.lastCorrelationId;
+    Object.assign(updated, latest);
+  }
+
+  // Coming back after being resolved is a regression
+  if (issue.status === 'resolved' && (!issue.resolvedAt || entry.timestamp > issue.resolvedAt)) {
+    const reopened: ErrorIssue = { ...updated, status: 'open', regressed: true, regressedAt: entry.timestamp };
+    delete reopened.resolvedAt;
+    return reopened;
+  }
+  return updated;
+}
+
+function newestFirst(a: ErrorIssue, b: ErrorIssue): number {
+  return b.lastSeen.getTime() - a.lastSeen.getTime();
+}
+
+/**
+ * Groups error and critical log entries into issues by fingerprint, counting
+ * their occurrences over time, and keeps the status administrators give them
+ */
+export class ErrorIssueTracker {
+  private logger = createLogger('ErrorIssueTracker');
+  private queued: LogEntry[] = [];
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly store: IErrorIssueStore = new JsonFileErrorIssueStore()) {}
+
+  /**
+   * Count an entry towards its issue. Entries below error level are ignored.
+   */
+  record(entry: LogEntry): void {
+    if (!isErrorEntry(entry)) {
+      return;
+    }
+
+    // Entries recorded while a write is running are added together in the next one
+    this.queued.push(entry);
+    if (this.queued.length > 1) {
+      return;
+    }
+    this.pendingWrite = this.pendingWrite
+      .then(() => {
+        const entries = this.queued;
+        this.queued = [];
+        return this.store.update(issues => this.addOccurrences(issues, entries));
+      })
+      .then(() => undefined)
+      // A warning, as an error would be recorded here again
+      .catch(error => this.logger.warn('Failed to record error issues', {
+        error: error instanceof Error ? error.message : String(error)
+      }));
+  }
+
+  /**
+   * Wait until every entry recorded so far has been counted
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  /**
+   * Issues, the most recently seen first
+   */
+  async listIssues(query: ErrorIssueQuery = {}): Promise<ErrorIssue[]> {
+    await this.flush();
+    const issues = await this.store.load();
+    return issues
+      .filter(issue => !query.status || issue.status === query.status)
+      .sort(newestFirst);
+  }
+
+  async getIssue(fingerprint: string): Promise<ErrorIssue | undefined> {
+    await this.flush();
+    return (await this.store.load()).find(issue => issue.fingerprint === fingerprint);
+  }
+
+  /**
+   * Open, resolve or ignore an issue. Any change clears its regression flag,
+   * as someone has looked at it. Throws ErrorIssueNotFoundError for an
+   * unknown fingerprint.
+   */
+  async updateStatus(fingerprint: string, status: ErrorIssueStatus): Promise<ErrorIssue> {
+    await this.flush();
+    let updated: ErrorIssue | undefined;
+    await this.store.update(issues => issues.map(issue => {
+      if (issue.fingerprint !== fingerprint) {
+        return issue;
+      }
+      const changed: ErrorIssue = { ...issue, status, regressed: false };
+      delete changed.regressedAt;
+      delete changed.resolvedAt;
+      if (status === 'resolved') {
+        changed.resolvedAt = new Date();
+      }
+      updated = changed;
+      return changed;
+    }));
+
+    if (!updated) {
+      throw new ErrorIssueNotFoundError(fingerprint);
+    }
+    return updated;
+  }
+
+  private addOccurrences(issues: ErrorIssue[], entries: LogEntry[]): ErrorIssue[] {
+    const now = Date.now();
+    const byFingerprint = new Map(issues.map(issue => [issue.fingerprint, issue]));
+    for (const entry of entries) {
+      const fingerprint = fingerprintError(entry);
+      byFingerprint.set(fingerprint.hash, addOccurrence(byFingerprint.get(fingerprint.hash), entry, fingerprint, now));
+    }
+    return Array.from(byFingerprint.values()).sort(newestFirst).slice(0, MAX_ERROR_ISSUES);
+  }
+}
@@ -0,0 +1,99 @@
+import { LogEntry, LogLevel, LogPage, LogQuery } from '../interfaces/logging.interface';
+
+// Least to most severe
+const LOG_LEVEL_ORDER: LogLevel[] = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARNING, LogLevel.ERROR, LogLevel.CRITICAL];
+
+export class InvalidLogCursorError extends Error {
+  constructor() {
+    super('Invalid log cursor');
+    this.name = 'InvalidLogCursorError';
+  }
+}
+
+export interface LogCursor {
+  time: number;
+  id: string;
+}
+
+// Newest first; entries logged in the same millisecond are ordered by id so pages never overlap
+export function compareNewestFirst(a: LogEntry, b: LogEntry): number {
+  const byTime = b.timestamp.getTime() - a.timestamp.getTime();
+  if (byTime !== 0) {
+    return byTime;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+// Cursors name the last entry of a page, or the last event of a log stream: `<timestamp in base 36>.<entry id>`
+export function encodeLogCursor(entry: LogEntry): string {
+  return `${entry.timestamp.getTime().toString(36)}.${entry.id}`;
+}
+
+// Throws InvalidLogCursorError for a malformed cursor
+export function decodeLogCursor(cursor: string): LogCursor {
+  const separator = cursor.indexOf('.');
+  const time = separator > 0 ? parseInt(cursor.substring(0, separator), 36) : NaN;
+  const id = cursor.substring(separator + 1);
+  if (!Number.isFinite(time) || !/^[a-z0-9]+$/i.test(id)) {
+    throw new InvalidLogCursorError();
+  }
+  return { time, id };
+}
+
+// Whether an entry was logged after the one a cursor names, as a log tail resuming from it sees it
+export function isNewerThanCursor(entry: LogEntry, { time, id }: LogCursor): boolean {
+  const entryTime = entry.timestamp.getTime();
+  return entryTime > time || (entryTime === time && entry.id > id);
+}
+
+export function isAtLeastLevel(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVEL_ORDER.indexOf(level) >= LOG_LEVEL_ORDER.indexOf(threshold);
+}
+
+function isAfterCursor(entry: LogEntry, cursor: LogCursor): boolean {
+  const time = entry.timestamp.getTime();
+  return time < cursor.time || (time === cursor.time && entry.id < cursor.id);
+}
+
+function matchesLogQuery(log: LogEntry, query: LogQuery): boolean {
+  return (!query.level || log.level === query.level)
+    && (!query.minLevel || isAtLeastLevel(log.level, query.minLevel))
+    && (!query.userId || log.context.userId === query.userId)
+    && (!query.pluginId || log.context.pluginId === query.pluginId)
+    && (!query.component || log.context.component === query.component)
+    && (!query.correlationId || log.context.correlationId === query.correlationId)
+    && (!query.startDate || log.timestamp >= query.startDate)
+    && (!query.endDate || log.timestamp <= query.endDate)
+    && (!query.messageContains || log.message.includes(query.messageContains));
+}
+
+/**
+ * The entries that match a query's filters and come after its cursor, in
+ * no particular order. Throws InvalidLogCursorError for a malformed cursor.
+ */
+export function selectLogs(entries: Iterable<LogEntry>, query: LogQuery): LogEntry[] {
+  const cursor = query.cursor ? decodeLogCursor(query.cursor) : null;
+  const selected: LogEntry[] = [];
+  for (const entry of entries) {
+    if (matchesLogQuery(entry, query) && (!cursor || isAfterCursor(entry, cursor))) {
+      selected.push(entry);
+    }
+  }
+  return selected;
+}
+
+/**
+ * The page of entries a query asks for, newest first
+ */
+export function pageLogs(entries: Iterable<LogEntry>, query: LogQuery): LogPage {
+  let selected = selectLogs(entries, query).sort(compareNewestFirst);
+  if (query.offset) {
+    selected = selected.slice(query.offset);
+  }
+  if (!query.limit || selected.length <= query.limit) {
+    return { entries: selected };
+  }
+
+  const page = selected.slice(0, query.limit);
+  return { entries: page, nextCursor: encodeLogCursor(page[page.length - 1]!) };
+}
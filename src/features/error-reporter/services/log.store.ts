@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogStore, LogEntry, LogPage, LogQuery, LogRetention } from '../interfaces/logging.interface';
+import { pageLogs, selectLogs } from './log.query';
+import { getDataDirectory } from '../../../shared/utils/data-directory';
+import { withFileLock } from '../../../shared/utils/atomic-file';
+
+export const DEFAULT_LOG_RETENTION: LogRetention = {
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+  maxFileBytes: 5 * 1024 * 1024,
+  maxTotalBytes: 50 * 1024 * 1024
+};
+
+export function getLogsDirectory(): string {
+  return path.join(getDataDirectory(), 'logs');
+}
+
+// Files are named after when they were started, so sorting by name sorts by age
+const LOG_FILE_PATTERN = /^log-(\d{15})\.ndjson$/;
+
+interface LogFile {
+  filePath: string;
+  startedAt: number;
+  size: number;
+  modifiedAt: number;
+}
+
+function toLogFileName(startedAt: number): string {
+  return `log-${String(startedAt).padStart(15, '0')}.ndjson`;
+}
+
+// JSON has no dates, so timestamps come back as strings; a line cut short by a crash is skipped
+function parseLogLine(line: string): LogEntry | null {
+  try {
+    const entry = JSON.parse(line);
+    if (!entry || typeof entry.id !== 'string' || typeof entry.timestamp !== 'string') {
+      return null;
+    }
+    return { ...entry, timestamp: new Date(entry.timestamp), context: entry.context || {}, metadata: entry.metadata || {} };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Log entries appended as one JSON object per line to files under
+ * data/logs/. The newest file is rotated once it passes the size limit, and
+ * files past the retention limits are deleted whenever entries are written.
+ * Searches read the newest files first and stop once they have a full page.
+ */
+export class NdjsonLogStore implements ILogStore {
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private readonly retention: LogRetention;
+
+  constructor(
+    private readonly resolveDirectory: () => string = getLogsDirectory,
+    retention: Partial<LogRetention> = {}
+  ) {
+    this.retention = { ...DEFAULT_LOG_RETENTION, ...retention };
+  }
+
+  append(entries: LogEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return this.pendingWrite;
+    }
+
+    const directory = path.resolve(this.resolveDirectory());
+    const lines = entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+    // One lock for the directory, so two processes never rotate at once
+    const write = this.pendingWrite.then(() => withFileLock(path.join(directory, 'logs'), async () => {
+      const files = await this.listFiles(directory);
+      const current = files[files.length - 1];
+      const target = current && current.size < this.retention.maxFileBytes
+        ? current.filePath
+        : path.join(directory, toLogFileName(Date.now()));
+
+      await fs.promises.appendFile(target, lines, 'utf8');
+      await this.applyRetention(directory, target);
+    }));
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  async query(query: LogQuery): Promise<LogPage> {
+    const directory = path.resolve(this.resolveDirectory());
+    const oldestKept = Date.now() - this.retention.maxAgeMs;
+    const wanted = query.limit ? (query.offset || 0) + query.limit : Infinity;
+    const files = (await this.listFiles(directory)).reverse();
+
+    const selected: LogEntry[] = [];
+    for (const file of files) {
+      // A file was last written after its newest entry; older files only hold older entries
+      if (query.startDate && file.modifiedAt < query.startDate.getTime()) {
+        break;
+      }
+      if (query.endDate && file.startedAt > query.endDate.getTime()) {
+        continue;
+      }
+
+      const entries = (await this.readFile(file.filePath)).filter(entry => entry.timestamp.getTime() >= oldestKept);
+      selected.push(...selectLogs(entries, query));
+      // One more than the page, so the page knows whether there is a next one
+      if (selected.length > wanted) {
+        break;
+      }
+    }
+
+    return pageLogs(selected, query);
+  }
+
+  private async listFiles(directory: string): Promise<LogFile[]> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const files: LogFile[] = [];
+    for (const name of names.sort()) {
+      const match = LOG_FILE_PATTERN.exec(name);
+      if (!match) {
+        continue;
+      }
+      const filePath = path.join(directory, name);
+      try {
+        const stats = await fs.promises.stat(filePath);
+        files.push({ filePath, startedAt: Number(match[1]), size: stats.size, modifiedAt: stats.mtimeMs });
+      } catch {
+        // Deleted by retention in another process since the listing
+      }
+    }
+    return files;
+  }
+
+  private async readFile(filePath: string): Promise<LogEntry[]> {
+    let data: string;
+    try {
+      data = await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: LogEntry[] = [];
+    for (const line of data.split('\n')) {
+      const entry = line ? parseLogLine(line) : null;
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  // The file being written to is always kept, even when it alone is over the limits
+  private async applyRetention(directory: string, currentFile: string): Promise<void> {
+    const oldestKept = Date.now() - this.retention.maxAgeMs;
+    const files = (await this.listFiles(directory)).filter(file => file.filePath !== currentFile);
+    let totalBytes = files.reduce((total, file) => total + file.size, 0)
+      + (await fs.promises.stat(currentFile)).size;
+
+    for (const file of files) {
+      if (file.modifiedAt >= oldestKept && totalBytes <= this.retention.maxTotalBytes) {
+        break;
+      }
+      await fs.promises.rm(file.filePath, { force: true });
+      totalBytes -= file.size;
+    }
+  }
+}
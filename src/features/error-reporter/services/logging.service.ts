@@ -3,6 +3,8 @@ import {
   LogLevel, 
   LogEntry, 
   LogQuery,
+  LogPage,
+  ILogStore,
   ErrorContext,
   ErrorSeverity,
   ErrorAction,
@@ -14,11 +16,14 @@ import {
   LoggingConfiguration,
   ErrorHandler
 } from '../interfaces/logging.interface';
+import { pageLogs } from './log.query';
+import { extractErrorType, fingerprintError } from './error.fingerprint';
 
 export interface LogContext {
   userId?: string;
   pluginId?: string;
   component?: string;
+  correlationId?: string;
   metadata?: any;
 }
 
@@ -27,11 +32,18 @@ export class LoggingService implements ILoggingService {
   private maxEntries: number;
   private enableConsoleOutput: boolean;
   private errorHandler: ErrorHandlerImpl;
+  private store: ILogStore | undefined;
+  private unsaved: LogEntry[] = [];
+  private listeners: Set<(entry: LogEntry) => void> = new Set();
+  private getCorrelationId: () => string | undefined;
+  private pendingWrite: Promise<void> = Promise.resolve();
 
   constructor(config: LoggingConfiguration) {
     this.storage = config.storage;
     this.maxEntries = config.maxEntries;
     this.enableConsoleOutput = config.enableConsoleOutput;
+    this.store = config.store;
+    this.getCorrelationId = config.getCorrelationId || (() => undefined);
     this.errorHandler = new ErrorHandlerImpl(this);
   }
 
@@ -74,60 +86,52 @@ export class LoggingService implements ILoggingService {
     }
   }
 
-  async searchLogs(query: LogQuery): Promise<LogEntry[]> {
-    const allLogs = Array.from(this.storage.values());
-    
-    let filteredLogs = allLogs.filter(log => {
-      // Filter by level
-      if (query.level && log.level !== query.level) {
-        return false;
-      }
-      
-      // Filter by user ID
-      if (query.userId && log.context.userId !== query.userId) {
-        return false;
-      }
-      
-      // Filter by plugin ID
-      if (query.pluginId && log.context.pluginId !== query.pluginId) {
-        return false;
-      }
-      
-      // Filter by component
-      if (query.component && log.context.component !== query.component) {
-        return false;
-      }
-      
-      // Filter by date range
-      if (query.startDate && log.timestamp < query.startDate) {
-        return false;
-      }
-      
-      if (query.endDate && log.timestamp > query.endDate) {
-        return false;
-      }
-      
-      // Filter by message content
-      if (query.messageContains && !log.message.includes(query.messageContains)) {
-        return false;
-      }
-      
-      return true;
-    });
-    
-    // Sort by timestamp (newest first)
-    filteredLogs.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-    
-    // Apply pagination
-    if (query.offset) {
-      filteredLogs = filteredLogs.slice(query.offset);
+  /**
+   * Log a message at any level. Returns the stored entry.
+   */
+  log(level: LogLevel, message: string, context: LogContext): LogEntry {
+    const logEntry = this.createLogEntry(level, message, context);
+    try {
+      this.storeLogEntry(logEntry);
+    } catch (storageError) {
+      this.fallbackToConsole(new Error(message), storageError as Error);
     }
-    
-    if (query.limit) {
-      filteredLogs = filteredLogs.slice(0, query.limit);
+    return logEntry;
+  }
+
+  async searchLogs(query: LogQuery): Promise<LogEntry[]> {
+    return (await this.queryLogs(query)).entries;
+  }
+
+  /**
+   * Search logs a page at a time, newest first. With a store configured the
+   * search covers everything it kept, not only this process's entries.
+   */
+  async queryLogs(query: LogQuery): Promise<LogPage> {
+    if (!this.store) {
+      return pageLogs(this.storage.values(), query);
     }
-    
-    return filteredLogs;
+
+    // Entries logged before the search are part of it
+    await this.flush();
+    return this.store.query(query);
+  }
+
+  /**
+   * Receive every entry as it is logged. Returns a function that stops it.
+   */
+  subscribe(listener: (entry: LogEntry) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Wait until every entry logged so far has been written to the store
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrite;
   }
 
   async getErrorStatistics(): Promise<ErrorStatistics> {
@@ -149,7 +153,7 @@ export class LoggingService implements ILoggingService {
     
     allErrorLogs.forEach(log => {
       // Count by error type (try to extract from message)
-      const errorType = this.extractErrorType(log.message);
+      const errorType = extractErrorType(log.message, log.stackTrace);
       byType[errorType] = (byType[errorType] || 0) + 1;
       
               // Count by component
@@ -181,6 +185,9 @@ export class LoggingService implements ILoggingService {
     };
   }
 
+  /**
+   * Errors grouped by fingerprint, most frequent first
+   */
   async getAggregatedErrors(): Promise<AggregatedError[]> {
     const errorLogs = await this.searchLogs({ level: LogLevel.ERROR });
     const criticalLogs = await this.searchLogs({ level: LogLevel.CRITICAL });
@@ -189,10 +196,10 @@ export class LoggingService implements ILoggingService {
     const aggregated = new Map<string, AggregatedError>();
     
     allErrorLogs.forEach(log => {
-      const normalizedMessage = this.normalizeErrorMessage(log.message);
+      const fingerprint = fingerprintError(log).hash;
       
-      if (aggregated.has(normalizedMessage)) {
-        const existing = aggregated.get(normalizedMessage)!;
+      if (aggregated.has(fingerprint)) {
+        const existing = aggregated.get(fingerprint)!;
         existing.count++;
         
         const component = log.context.component || log.context.pluginId || 'Unknown';
@@ -209,8 +216,9 @@ export class LoggingService implements ILoggingService {
         }
       } else {
         const component = log.context.component || log.context.pluginId || 'Unknown';
-        aggregated.set(normalizedMessage, {
-          message: normalizedMessage,
+        aggregated.set(fingerprint, {
+          fingerprint,
+          message: log.message,
           count: 1,
           affectedComponents: [component],
           firstOccurrence: log.timestamp,
@@ -261,6 +269,10 @@ export class LoggingService implements ILoggingService {
   private createLogEntry(level: LogLevel, message: string, context: LogContext, stackTrace?: string): LogEntry {
     const id = this.generateId();
     const timestamp = new Date();
+    const correlationId = context.correlationId ? undefined : this.getCorrelationId();
+    if (correlationId) {
+      context = { ...context, correlationId };
+    }
     
     // Safe JSON serialization to handle circular references
     const safeMetadata = this.safeStringify(context.metadata || {});
@@ -288,6 +300,38 @@ export class LoggingService implements ILoggingService {
     }
     
     this.storage.set(logEntry.id, logEntry);
+    this.queueForStore(logEntry);
+    this.notifyListeners(logEntry);
+  }
+
+  private notifyListeners(logEntry: LogEntry): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(logEntry);
+      } catch (error) {
+        this.fallbackToConsole(new Error('Log listener failed'), error as Error);
+      }
+    });
+  }
+
+  // Entries logged while a write is running go to the store together in the next one
+  private queueForStore(logEntry: LogEntry): void {
+    if (!this.store) {
+      return;
+    }
+
+    this.unsaved.push(logEntry);
+    if (this.unsaved.length > 1) {
+      return;
+    }
+    const store = this.store;
+    this.pendingWrite = this.pendingWrite
+      .then(() => {
+        const entries = this.unsaved;
+        this.unsaved = [];
+        return store.append(entries);
+      })
+      .catch(error => this.fallbackToConsole(new Error('Failed to write log entries'), error as Error));
   }
 
   private findOldestEntry(): LogEntry | null {
@@ -306,20 +350,6 @@ export class LoggingService implements ILoggingService {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
 
-  private extractErrorType(message: string): string {
-    const match = message.match(/^(\w+Error?):/);
-    return match?.[1] ?? 'Error';
-  }
-
-  private normalizeErrorMessage(message: string): string {
-    // Remove specific details like line numbers, file paths, IDs
-    return message
-      .replace(/at line \d+/g, 'at line X')
-      .replace(/file:\/\/[^\s]+/g, 'file://PATH')
-      .replace(/id:\s*[a-zA-Z0-9-]+/g, 'id: ID')
-      .replace(/\d+/g, 'N');
-  }
-
   private safeStringify(obj: any): any {
     try {
       const seen = new WeakSet();
@@ -0,0 +1,18 @@
+import { LogEntry as CoreLogEntry, LogTransport } from '../../../core/logger';
+import { LoggingService } from './logging.service';
+
+/**
+ * Keeps the entries of createLogger loggers in a LoggingService, so server
+ * components' logs are searched and streamed with everything else
+ */
+export class LoggingServiceTransport implements LogTransport {
+  constructor(private readonly loggingService: LoggingService) {}
+
+  write(entry: CoreLogEntry): void {
+    this.loggingService.log(entry.level, entry.message, {
+      component: entry.context,
+      ...(entry.data ? { metadata: entry.data } : {}),
+      ...(entry.correlationId ? { correlationId: entry.correlationId } : {})
+    });
+  }
+}
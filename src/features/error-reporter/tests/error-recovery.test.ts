@@ -174,6 +174,24 @@ describe('ErrorRecoveryService', () => {
       );
     });
 
+    it('should tag fallback entries with the current correlation id', () => {
+      const correlatedService = new ErrorRecoveryService({
+        loggingService: mockLoggingService,
+        componentFailureHandler: mockComponentFailureHandler,
+        fallbackLogger: mockFallbackLogger,
+        developerNotificationService: mockDeveloperNotificationService,
+        getCorrelationId: () => 'request-7'
+      });
+      mockFallbackLogger.isMainLoggerWorking.mockReturnValue(false);
+
+      correlatedService.safeLog(LogLevel.ERROR, 'Library scan failed', { component: 'Library' });
+
+      expect(mockFallbackLogger.logError).toHaveBeenCalledWith(
+        'Library scan failed',
+        { component: 'Library', correlationId: 'request-7' }
+      );
+    });
+
     it('should automatically restore main logging when it becomes available', async () => {
       mockFallbackLogger.isMainLoggerWorking.mockResolvedValue(true);
 
@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fingerprintError, parseStackFrames } from '../services/error.fingerprint';
+import { ErrorIssueNotFoundError, ErrorIssueTracker } from '../services/error.issue.tracker';
+import { JsonFileErrorIssueStore, MemoryErrorIssueStore } from '../services/error.issue.store';
+import { ErrorSeverity, LogEntry, LogLevel } from '../interfaces/logging.interface';
+
+const stack = (message: string, frames: string[]) => [message, ...frames.map(frame => `    at ${frame}`)].join('\n');
+
+const READER_STACK = stack('TypeError: Cannot read properties of undefined (reading \'page\')', [
+  'BookReader.turnPage (/srv/neutral/src/plugins/reading-core/reader.ts:42:17)',
+  'Library.open (/srv/neutral/src/features/library/library.ts:88:5)',
+  'processTicksAndRejections (node:internal/process/task_queues:95:5)'
+]);
+
+let nextId = 0;
+const errorEntry = (timestamp: Date, overrides: Partial<LogEntry> = {}): LogEntry => ({
+  id: `e${nextId++}`,
+  timestamp,
+  level: LogLevel.ERROR,
+  message: 'Cannot read properties of undefined (reading \'page\')',
+  context: { pluginId: 'reading-core' },
+  stackTrace: READER_STACK,
+  metadata: {},
+  ...overrides
+});
+
+describe('fingerprintError', () => {
+  it('should keep in-app frames without line numbers, library and runtime frames left out', () => {
+    const frames = parseStackFrames(stack('Error: Failed', [
+      'render (/srv/neutral/node_modules/react-dom/cjs/react-dom.development.js:100:3)',
+      'Dashboard.load (/srv/neutral/src/features/ui-shell/dashboard.ts:12:9)',
+      '/srv/neutral/dist/web/client/assets/index-3f9a1c2b.js:1:2000'
+    ]) + '\n    loadWidgets@http://localhost:3000/src/features/ui-shell/widgets.ts?t=1700000000:7:11');
+
+    expect(frames).toEqual([
+      'Dashboard.load (features/ui-shell/dashboard.ts)',
+      '<anonymous> (web/client/assets/index.js)',
+      'loadWidgets (features/ui-shell/widgets.ts)'
+    ]);
+  });
+
+  it('should give the same error the same fingerprint after the code around it moves', () => {
+    const moved = READER_STACK.replace(':42:17', ':57:3').replace('/srv/neutral', '/home/ci/build');
+
+    const first = fingerprintError(errorEntry(new Date()));
+    expect(fingerprintError(errorEntry(new Date(), { stackTrace: moved, message: 'Different wording' })).hash).toBe(first.hash);
+    expect(first).toMatchObject({ type: 'TypeError', frames: ['BookReader.turnPage (plugins/reading-core/reader.ts)', 'Library.open (features/library/library.ts)'] });
+  });
+
+  it('should tell errors apart by type, frames, component and plugin', () => {
+    const base = fingerprintError(errorEntry(new Date())).hash;
+
+    expect(fingerprintError(errorEntry(new Date(), { stackTrace: READER_STACK.replace('TypeError', 'RangeError') })).hash).not.toBe(base);
+    expect(fingerprintError(errorEntry(new Date(), { stackTrace: READER_STACK.replace('turnPage', 'closeBook') })).hash).not.toBe(base);
+    expect(fingerprintError(errorEntry(new Date(), { context: { pluginId: 'annotations' } })).hash).not.toBe(base);
+  });
+
+  it('should group errors without a stack trace by their message with numbers taken out', () => {
+    const withoutStack = (message: string) => fingerprintError({ message, context: { component: 'Library' } }).hash;
+
+    expect(withoutStack('Scan failed after 3 retries')).toBe(withoutStack('Scan failed after 5 retries'));
+    expect(withoutStack('Scan failed after 3 retries')).not.toBe(withoutStack('Import failed after 3 retries'));
+  });
+});
+
+describe('ErrorIssueTracker', () => {
+  let tracker: ErrorIssueTracker;
+
+  beforeEach(() => {
+    tracker = new ErrorIssueTracker(new MemoryErrorIssueStore());
+  });
+
+  it('should group occurrences into one issue with first and last seen and hourly counts', async () => {
+    const now = Date.now();
+    const hourAgo = new Date(now - 60 * 60 * 1000);
+    tracker.record(errorEntry(hourAgo));
+    tracker.record(errorEntry(new Date(now - 1000), { context: { pluginId: 'reading-core', correlationId: 'req-1' } }));
+    tracker.record(errorEntry(new Date(now), { level: LogLevel.CRITICAL, message: 'Latest', context: { pluginId: 'reading-core' } }));
+    tracker.record(errorEntry(new Date(now), { level: LogLevel.WARNING }));
+
+    const [issue, ...others] = await tracker.listIssues();
+    expect(others).toEqual([]);
+    expect(issue).toMatchObject({
+      type: 'TypeError',
+      message: 'Latest',
+      culprit: 'BookReader.turnPage (plugins/reading-core/reader.ts)',
+      pluginId: 'reading-core',
+      severity: ErrorSeverity.CRITICAL,
+      status: 'open',
+      count: 3,
+      firstSeen: hourAgo,
+      lastSeen: new Date(now),
+      regressed: false
+    });
+    // The latest occurrence was logged outside a request
+    expect(issue!.lastCorrelationId).toBeUndefined();
+    expect(issue!.occurrences.reduce((total, bucket) => total + bucket.count, 0)).toBe(3);
+    expect(issue!.occurrences.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should reopen a resolved issue as a regression when it occurs again', async () => {
+    tracker.record(errorEntry(new Date(Date.now() - 1000)));
+    const [issue] = await tracker.listIssues();
+
+    const resolved = await tracker.updateStatus(issue!.fingerprint, 'resolved');
+    expect(resolved).toMatchObject({ status: 'resolved', resolvedAt: expect.any(Date) });
+    expect(await tracker.listIssues({ status: 'open' })).toEqual([]);
+
+    tracker.record(errorEntry(new Date(Date.now() + 1000)));
+    expect(await tracker.getIssue(issue!.fingerprint)).toMatchObject({ status: 'open', regressed: true, regressedAt: expect.any(Date), count: 2 });
+    expect((await tracker.getIssue(issue!.fingerprint))!.resolvedAt).toBeUndefined();
+
+    // Ignored issues keep counting without coming back
+    const ignored = await tracker.updateStatus(issue!.fingerprint, 'ignored');
+    expect(ignored.regressed).toBe(false);
+    tracker.record(errorEntry(new Date(Date.now() + 2000)));
+    expect(await tracker.getIssue(issue!.fingerprint)).toMatchObject({ status: 'ignored', count: 3 });
+  });
+
+  it('should refuse to change an unknown issue', async () => {
+    await expect(tracker.updateStatus('missing', 'resolved')).rejects.toThrow(ErrorIssueNotFoundError);
+  });
+
+  it('should keep issues in a JSON file across instances', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-issues-'));
+    try {
+      const file = () => path.join(directory, 'error-issues.json');
+      const first = new ErrorIssueTracker(new JsonFileErrorIssueStore(file));
+      first.record(errorEntry(new Date()));
+      const [issue] = await first.listIssues();
+      await first.updateStatus(issue!.fingerprint, 'resolved');
+
+      const restarted = new ErrorIssueTracker(new JsonFileErrorIssueStore(file));
+      expect(await restarted.getIssue(issue!.fingerprint)).toMatchObject({
+        status: 'resolved',
+        resolvedAt: expect.any(Date),
+        firstSeen: issue!.firstSeen,
+        occurrences: [{ start: expect.any(Date), count: 1 }]
+      });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LoggingService } from '../services/logging.service';
+import { NdjsonLogStore } from '../services/log.store';
+import { InvalidLogCursorError, pageLogs } from '../services/log.query';
+import { LogEntry, LogLevel } from '../interfaces/logging.interface';
+
+const entry = (id: string, timestamp: Date, overrides: Partial<LogEntry> = {}): LogEntry => ({
+  id,
+  timestamp,
+  level: LogLevel.INFO,
+  message: `Message ${id}`,
+  context: {},
+  metadata: {},
+  ...overrides
+});
+
+describe('pageLogs', () => {
+  const at = new Date('2024-01-01T00:00:00.000Z');
+  const entries = [
+    entry('a', at),
+    entry('b', at),
+    entry('c', new Date(at.getTime() + 1000)),
+    entry('d', new Date(at.getTime() + 2000))
+  ];
+
+  it('should page newest first with a cursor, never repeating entries logged in the same millisecond', () => {
+    const first = pageLogs(entries, { limit: 3 });
+    expect(first.entries.map(log => log.id)).toEqual(['d', 'c', 'b']);
+
+    const second = pageLogs(entries, { limit: 3, cursor: first.nextCursor! });
+    expect(second.entries.map(log => log.id)).toEqual(['a']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should refuse malformed cursors', () => {
+    expect(() => pageLogs(entries, { cursor: 'not a cursor' })).toThrow(InvalidLogCursorError);
+  });
+});
+
+describe('NdjsonLogStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-logs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep entries across instances and search them with the full query', async () => {
+    const service = new LoggingService({ storage: new Map(), maxEntries: 10, enableConsoleOutput: false, store: new NdjsonLogStore(() => directory) });
+    service.logInfo('Library opened', { userId: 'alice', component: 'Library' });
+    service.logWarning('Slow plugin', { pluginId: 'reader', component: 'Loader' });
+    service.logError(new Error('Plugin crashed'), { pluginId: 'reader', userId: 'bob' });
+    await service.flush();
+
+    // A new process starts with an empty working set
+    const restarted = new LoggingService({ storage: new Map(), maxEntries: 10, enableConsoleOutput: false, store: new NdjsonLogStore(() => directory) });
+    expect((await restarted.searchLogs({})).map(log => log.message).sort()).toEqual(['Library opened', 'Plugin crashed', 'Slow plugin']);
+    expect((await restarted.searchLogs({ pluginId: 'reader', level: LogLevel.ERROR }))[0]).toMatchObject({
+      message: 'Plugin crashed',
+      timestamp: expect.any(Date),
+      context: { userId: 'bob' }
+    });
+    expect(await restarted.searchLogs({ component: 'Library', messageContains: 'opened' })).toHaveLength(1);
+    expect(await restarted.searchLogs({ endDate: new Date(0) })).toEqual([]);
+    expect((await restarted.getErrorStatistics()).totalErrors).toBe(1);
+  });
+
+  it('should rotate files and page across them', async () => {
+    const store = new NdjsonLogStore(() => directory, { maxFileBytes: 1 });
+    const start = Date.now();
+    for (let i = 0; i < 5; i++) {
+      await store.append([entry(`e${i}`, new Date(start + i))]);
+      // Rotated files are named by the millisecond they were started in
+      await new Promise(resolve => setTimeout(resolve, 2));
+    }
+    expect(fs.readdirSync(directory).filter(name => name.endsWith('.ndjson')).length).toBe(5);
+
+    const first = await store.query({ limit: 2 });
+    const second = await store.query({ limit: 2, cursor: first.nextCursor! });
+    const third = await store.query({ limit: 2, cursor: second.nextCursor! });
+    expect([...first.entries, ...second.entries, ...third.entries].map(log => log.id)).toEqual(['e4', 'e3', 'e2', 'e1', 'e0']);
+    expect(third.nextCursor).toBeUndefined();
+  });
+
+  it('should delete the oldest files past the size and age limits', async () => {
+    const store = new NdjsonLogStore(() => directory, { maxFileBytes: 1, maxTotalBytes: 600 });
+    for (let i = 0; i < 6; i++) {
+      await store.append([entry(`e${i}`, new Date())]);
+      await new Promise(resolve => setTimeout(resolve, 2));
+    }
+
+    const kept = (await store.query({})).entries.map(log => log.id);
+    expect(kept.length).toBeLessThan(6);
+    expect(kept[0]).toBe('e5');
+
+    const aged = new NdjsonLogStore(() => directory, { maxFileBytes: 1, maxAgeMs: 60 * 1000 });
+    const old = fs.readdirSync(directory).filter(name => name.endsWith('.ndjson')).sort()[0]!;
+    const past = new Date(Date.now() - 2 * 60 * 1000);
+    fs.utimesSync(path.join(directory, old), past, past);
+    await aged.append([entry('new', new Date())]);
+    expect(fs.existsSync(path.join(directory, old))).toBe(false);
+  });
+
+  it('should skip a line cut short by a crash', async () => {
+    const store = new NdjsonLogStore(() => directory);
+    await store.append([entry('kept', new Date())]);
+    const [file] = fs.readdirSync(directory).filter(name => name.endsWith('.ndjson'));
+    fs.appendFileSync(path.join(directory, file!), '{"id":"cut","timest');
+
+    expect((await store.query({})).entries.map(log => log.id)).toEqual(['kept']);
+  });
+});
@@ -110,18 +110,19 @@ describe('LoggingService', () => {
       expect(errorStats.byType['ReferenceError']).toBe(1);
     });
 
-    it('should aggregate similar error messages', async () => {
+    it('should aggregate errors by fingerprint, separately for each component', async () => {
       loggingService.logError(new Error('Connection failed'), { component: 'NetworkService' });
       loggingService.logError(new Error('Connection failed'), { component: 'NetworkService' });
       loggingService.logError(new Error('Connection failed'), { component: 'APIService' });
 
       const aggregatedErrors = await loggingService.getAggregatedErrors();
-      const connectionErrors = aggregatedErrors.find(err => err.message.includes('Connection failed'));
+      const connectionErrors = aggregatedErrors.filter(err => err.message.includes('Connection failed'));
       
-      expect(connectionErrors).toBeDefined();
-      expect(connectionErrors!.count).toBe(3);
-      expect(connectionErrors!.affectedComponents).toContain('NetworkService');
-      expect(connectionErrors!.affectedComponents).toContain('APIService');
+      expect(connectionErrors.map(err => [err.affectedComponents, err.count])).toEqual([
+        [['NetworkService'], 2],
+        [['APIService'], 1]
+      ]);
+      expect(connectionErrors[0]!.fingerprint).toMatch(/^[0-9a-f]{16}$/);
     });
 
     it('should categorize errors by component', async () => {
@@ -162,6 +163,11 @@ describe('LoggingService', () => {
       expect(errorLogs.every(log => log.level === LogLevel.ERROR)).toBe(true);
     });
 
+    it('should search logs at or above a level', async () => {
+      const logs = await loggingService.searchLogs({ minLevel: LogLevel.WARNING });
+      expect(logs.map(log => log.level).sort()).toEqual([LogLevel.ERROR, LogLevel.ERROR, LogLevel.WARNING]);
+    });
+
     it('should search logs by user ID', async () => {
       const user1Logs = await loggingService.searchLogs({ userId: 'user1' });
       expect(user1Logs).toHaveLength(2);
@@ -204,6 +210,52 @@ describe('LoggingService', () => {
     });
   });
 
+  describe('Subscriptions', () => {
+    it('should notify subscribers of each new entry until they unsubscribe', () => {
+      const received: LogEntry[] = [];
+      const unsubscribe = loggingService.subscribe(entry => received.push(entry));
+
+      loggingService.logWarning('Slow plugin', { pluginId: 'reader' });
+      unsubscribe();
+      loggingService.logInfo('Not received', {});
+
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({ level: LogLevel.WARNING, message: 'Slow plugin', context: { pluginId: 'reader' } });
+    });
+
+    it('should keep logging when a subscriber throws', async () => {
+      loggingService.subscribe(() => {
+        throw new Error('Subscriber failed');
+      });
+
+      loggingService.logInfo('Still stored', {});
+
+      expect(await loggingService.searchLogs({ messageContains: 'Still stored' })).toHaveLength(1);
+    });
+  });
+
+  describe('Correlation Ids', () => {
+    it('should tag entries logged without a correlation id with the current one', () => {
+      const correlatedService = new LoggingService({
+        storage: new Map(),
+        maxEntries: 1000,
+        enableConsoleOutput: false,
+        getCorrelationId: () => 'request-7'
+      });
+
+      const received: LogEntry[] = [];
+      correlatedService.subscribe(entry => received.push(entry));
+
+      correlatedService.logInfo('Opened book', { component: 'reader' });
+      correlatedService.logInfo('Imported books', { component: 'importer', correlationId: 'import-42' });
+
+      expect(received.map(entry => entry.context)).toEqual([
+        { component: 'reader', correlationId: 'request-7' },
+        { component: 'importer', correlationId: 'import-42' }
+      ]);
+    });
+  });
+
   describe('User-Friendly Error Display', () => {
     it('should display user-friendly error with suggested actions', () => {
       const errorHandler = loggingService.getErrorHandler();
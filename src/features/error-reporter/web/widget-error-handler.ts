@@ -6,6 +6,7 @@ import {
   ErrorRecoveryConfig,
   PluginId
 } from '../../../shared';
+import { eventBus } from '../../../core/event-bus';
 
 interface FallbackCallbacks {
   onRetry?: (widgetId: string) => void;
@@ -81,6 +82,9 @@ export class WidgetErrorHandler {
 
     this.widgetErrors.set(widgetId, widgetError);
 
+    // Counted against the plugin by the plugin health monitor
+    eventBus.publish('plugin.widget.error', { widgetId, pluginId, error: error.message, retryCount });
+
     // Check for auto-remove threshold (retryCount starts at 0, so add 1 for total attempts)
     if (retryCount + 1 >= this.config.autoRemoveAfterFailures) {
       this.handleAutoRemove(widgetId, pluginId);
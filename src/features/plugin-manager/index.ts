@@ -5,8 +5,13 @@ export * from './services/plugin.manager';
 export * from './services/dependency.resolver';
 export * from './services/plugin.event.bus';
 export * from './services/plugin.storage.manager';
+export * from './services/plugin.storage.driver';
 export * from './services/plugin.health.monitor';
 export * from './services/plugin.verifier';
+export * from './services/trusted-key.store';
+export * from './services/plugin.version.store';
+export * from './services/plugin.persistence';
+export * from './services/plugin.sandbox';
 // Export services with specific names to avoid conflicts with interfaces
 export { PluginTestManager } from './services/plugin-test-manager.service';
 export { TestRunner } from './services/test-runner.service';
@@ -2,6 +2,8 @@ import {
   PluginInfo, 
   PluginPackage, 
   InstallResult, 
+  UpdateResult,
+  PluginUpdateInfo,
   PluginDependency, 
   PluginEvent, 
   EventHandler, 
@@ -9,8 +11,7 @@ import {
   SecurityViolation,
   UIComponent,
   SettingsSchema,
-  DashboardWidget,
-  PluginInstance
+  DashboardWidget
 } from '../../../shared';
 
 export interface IPluginManager {
@@ -18,10 +19,13 @@ export interface IPluginManager {
   installPlugin(pluginPackage: PluginPackage): Promise<InstallResult>;
   enablePlugin(pluginId: string): Promise<void>;
   disablePlugin(pluginId: string): Promise<void>;
-  uninstallPlugin(pluginId: string, cleanupData?: boolean): Promise<void>;
+  uninstallPlugin(pluginId: string, cleanupData?: boolean, cascade?: boolean): Promise<void>;
   getInstalledPlugins(): Promise<PluginInfo[]>;
   resolveDependencies(pluginId: string): Promise<PluginDependency[]>;
   downloadAndVerifyPlugin(pluginId: string): Promise<PluginPackage>;
+  checkForUpdates(): Promise<PluginUpdateInfo[]>;
+  updatePlugin(pluginId: string): Promise<UpdateResult>;
+  rollbackPlugin(pluginId: string): Promise<UpdateResult>;
   handlePluginFailure(pluginId: string, error: Error): void;
 }
 
@@ -36,9 +40,9 @@ export interface IPluginAPI {
 }
 
 export interface IPluginSandbox {
-  loadPlugin(pluginId: string, pluginCode: string): Promise<PluginInstance>;
+  loadPlugin(pluginId: string, pluginCode: string, filename?: string): Promise<any>; // Resolves to the plugin's module exports
   unloadPlugin(pluginId: string): Promise<void>;
-  executeInSandbox(pluginId: string, operation: () => any): Promise<any>;
+  executeInSandbox(pluginId: string, operation: () => any, operationName?: string): Promise<any>;
   restrictAPI(pluginId: string, allowedAPIs: string[]): void;
 }
 
@@ -61,4 +65,15 @@ export interface IPluginStorageManager {
   clearPluginStorage(pluginId: string): Promise<void>;
   enforceStorageQuota(pluginId: string, quota: number): void;
   isolatePluginData(pluginId: string): void;
-} 
\ No newline at end of file
+}
+
+export interface IPluginStorageDriver {
+  read(pluginId: string): Promise<Record<string, unknown>>; // Every entry stored for the plugin
+  write(pluginId: string, entries: Record<string, unknown>): Promise<void>; // Replaces all entries at once
+  remove(pluginId: string): Promise<void>;
+}
+
+export interface IPluginPersistence {
+  load(): Promise<PluginInfo[]>; // Installed plugins recorded by the last save
+  save(plugins: PluginInfo[]): Promise<void>;
+}
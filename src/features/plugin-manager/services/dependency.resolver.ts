@@ -1,92 +1,145 @@
-import { PluginDependency } from '../../../shared';
+import { PluginDependency, PluginInfo } from '../../../shared';
 import { createLogger } from '../../../core/logger';
-import { getPluginInfo, validatePlugin } from '../../../plugins';
+import { getPluginDependencies, getPluginInfo, validatePlugin } from '../../../plugins';
+import { isValidRange, satisfies } from '../../../shared/utils/semver';
+
+export class DependencyCycleError extends Error {
+  readonly cycle: string[];
+
+  constructor(cycle: string[]) {
+    super(`Circular dependency detected: ${cycle.join(' -> ')}`);
+    this.name = 'DependencyCycleError';
+    this.cycle = cycle;
+  }
+}
+
+export class DependentPluginsError extends Error {
+  readonly pluginId: string;
+  readonly dependents: string[];
+
+  constructor(pluginId: string, dependents: string[]) {
+    super(`Cannot uninstall plugin ${pluginId}: Required by ${dependents.join(', ')}`);
+    this.name = 'DependentPluginsError';
+    this.pluginId = pluginId;
+    this.dependents = dependents;
+  }
+}
+
+interface DependencyWalk {
+  requirements: PluginDependency[]; // Every dependency edge found, including repeats with different ranges
+  order: string[]; // Dependency ids, each listed after everything it depends on
+}
 
 export class DependencyResolver {
   private logger = createLogger('DependencyResolver');
   private resolvedCache = new Map<string, PluginDependency[]>();
 
-  async resolveDependencies(pluginId: string): Promise<PluginDependency[]> {
+  constructor(private readonly getInstalledPlugins: () => Promise<PluginInfo[]> = async () => []) {}
+
+  /**
+   * Resolve the transitive dependencies of a plugin, ordered so each dependency
+   * comes after the ones it needs. `declaredDependencies` overrides the registry
+   * manifest, e.g. for a package that is being installed.
+   */
+  async resolveDependencies(pluginId: string, declaredDependencies?: PluginDependency[]): Promise<PluginDependency[]> {
     try {
       // Check cache first
-      if (this.resolvedCache.has(pluginId)) {
+      if (!declaredDependencies && this.resolvedCache.has(pluginId)) {
         this.logger.debug(`Using cached dependencies for plugin`, { pluginId });
         return this.resolvedCache.get(pluginId)!;
       }
-      
+
       this.logger.info(`Resolving dependencies for plugin`, { pluginId });
-      
+
       // Validate plugin exists
-      if (!validatePlugin(pluginId)) {
+      if (!declaredDependencies && !validatePlugin(pluginId)) {
         this.logger.warn(`Plugin not found in registry`, { pluginId });
         return [];
       }
-      
-      // Get plugin info from registry
-      const pluginInfo = getPluginInfo(pluginId);
-      if (!pluginInfo) {
-        this.logger.debug(`No plugin info found`, { pluginId });
-        return [];
-      }
-      
-      // For now, return empty dependencies since PluginRegistryInfo doesn't have dependencies field
-      // In a full implementation, this would be extended to include dependency information
-      this.logger.debug(`No dependencies configured for plugin`, { pluginId });
-      
-      const dependencies: PluginDependency[] = [];
-      
+
+      const installedPlugins = await this.getInstalledPlugins();
+      const walk = this.walkDependencies(pluginId, declaredDependencies ?? getPluginDependencies(pluginId), installedPlugins);
+      const position = new Map(walk.order.map((id, index) => [id, index]));
+      const dependencies = [...walk.requirements]
+        .sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+
       // Cache the result
-      this.resolvedCache.set(pluginId, dependencies);
-      
-      this.logger.info(`Resolved dependencies`, { 
-        pluginId, 
+      if (!declaredDependencies) {
+        this.resolvedCache.set(pluginId, dependencies);
+      }
+
+      this.logger.info(`Resolved dependencies`, {
+        pluginId,
         dependencyCount: dependencies.length
       });
-      
+
       return dependencies;
     } catch (error) {
+      if (error instanceof DependencyCycleError) {
+        this.logger.warn(`Circular dependency detected`, { pluginId, cycle: error.cycle });
+        throw error;
+      }
       this.logger.error(`Error resolving dependencies`, { pluginId, error });
       return [];
     }
   }
 
+  /**
+   * Report dependencies that are missing or whose version ranges are not met by
+   * the installed version (or, when not installed, the version in the registry)
+   */
   async checkDependencyConflicts(dependencies: PluginDependency[]): Promise<string[]> {
     const conflicts: string[] = [];
-    
+
     try {
       this.logger.debug(`Checking dependency conflicts`, { dependencyCount: dependencies.length });
-      
-      // Group dependencies by ID to check for version conflicts
+
+      const installedPlugins = new Map((await this.getInstalledPlugins()).map(plugin => [plugin.id, plugin]));
+
+      // Group dependencies by ID to check every required range against one version
       const dependencyGroups = new Map<string, PluginDependency[]>();
-      
+
       for (const dep of dependencies) {
         if (!dependencyGroups.has(dep.id)) {
           dependencyGroups.set(dep.id, []);
         }
         dependencyGroups.get(dep.id)!.push(dep);
       }
-      
+
       // Check each group for conflicts
       for (const [depId, depVersions] of dependencyGroups) {
-        if (depVersions.length > 1) {
-          // Multiple versions of the same dependency
-          const versions = depVersions.map(d => d.version).filter(v => v);
-          const uniqueVersions = [...new Set(versions)];
-          
-          if (uniqueVersions.length > 1) {
-            conflicts.push(
-              `Version conflict for dependency '${depId}': requires versions ${uniqueVersions.join(', ')}`
-            );
-            this.logger.warn(`Version conflict detected`, { depId, versions: uniqueVersions });
+        const ranges = [...new Set(depVersions.map(d => d.version || '*'))];
+        const installed = installedPlugins.get(depId);
+        const version = installed?.version ?? getPluginInfo(depId)?.version;
+
+        const invalidRanges = ranges.filter(range => !isValidRange(range));
+        if (invalidRanges.length > 0) {
+          conflicts.push(`Invalid version range for dependency '${depId}': ${invalidRanges.join(', ')}`);
+          continue;
+        }
+
+        if (!version) {
+          if (depVersions.some(d => d.required)) {
+            conflicts.push(`Missing dependency '${depId}': requires ${ranges.join(', ')} but it is not available`);
+            this.logger.warn(`Missing dependency`, { depId, ranges });
           }
+          continue;
+        }
+
+        const unmet = ranges.filter(range => !satisfies(version, range));
+        if (unmet.length > 0) {
+          conflicts.push(
+            `Version conflict for dependency '${depId}': requires ${unmet.join(', ')} but ${version} is ${installed ? 'installed' : 'available'}`
+          );
+          this.logger.warn(`Version conflict detected`, { depId, ranges: unmet, version });
         }
       }
-      
-      this.logger.info(`Dependency conflict check completed`, { 
+
+      this.logger.info(`Dependency conflict check completed`, {
         conflictCount: conflicts.length,
         conflicts
       });
-      
+
       return conflicts;
     } catch (error) {
       this.logger.error(`Error checking dependency conflicts`, { error });
@@ -94,33 +147,67 @@ export class DependencyResolver {
     }
   }
 
+  /**
+   * Topologically order the given dependencies (and anything they pull in) so
+   * that every plugin is installed after the plugins it depends on
+   */
   async getInstallOrder(dependencies: PluginDependency[]): Promise<string[]> {
-    try {
-      this.logger.debug(`Computing install order`, { dependencyCount: dependencies.length });
-      
-      if (dependencies.length === 0) {
-        return [];
-      }
-      
-      // For now, return simple ordering by dependency ID
-      // In a full implementation, this would use topological sort for proper dependency ordering
-      const result = dependencies.map(dep => dep.id);
-      
-      this.logger.info(`Install order computed`, { 
-        order: result,
-        dependencyCount: result.length
-      });
-      
-      return result;
-    } catch (error) {
-      this.logger.error(`Error computing install order`, { error });
-      // Fall back to simple ordering
-      return dependencies.map(dep => dep.id);
+    this.logger.debug(`Computing install order`, { dependencyCount: dependencies.length });
+
+    if (dependencies.length === 0) {
+      return [];
     }
+
+    const installedPlugins = await this.getInstalledPlugins();
+    const { order } = this.walkDependencies(null, dependencies, installedPlugins);
+
+    this.logger.info(`Install order computed`, {
+      order,
+      dependencyCount: order.length
+    });
+
+    return order;
   }
-  
+
   public clearCache(): void {
     this.resolvedCache.clear();
     this.logger.debug(`Dependency resolution cache cleared`);
   }
-} 
\ No newline at end of file
+
+  /**
+   * Depth-first walk of the dependency graph. Dependencies are read from the
+   * registry manifest, falling back to what an installed plugin recorded.
+   * Throws DependencyCycleError with the offending path when a cycle is found.
+   */
+  private walkDependencies(rootId: string | null, rootDependencies: PluginDependency[], installedPlugins: PluginInfo[]): DependencyWalk {
+    const installed = new Map(installedPlugins.map(plugin => [plugin.id, plugin]));
+    const requirements: PluginDependency[] = [];
+    const order: string[] = [];
+    const visited = new Set<string>();
+
+    const dependenciesOf = (pluginId: string): PluginDependency[] =>
+      validatePlugin(pluginId) ? getPluginDependencies(pluginId) : installed.get(pluginId)?.dependencies || [];
+
+    const visit = (dependencies: PluginDependency[], path: string[]) => {
+      for (const dependency of dependencies) {
+        requirements.push(dependency);
+
+        const cycleStart = path.indexOf(dependency.id);
+        if (cycleStart !== -1) {
+          throw new DependencyCycleError([...path.slice(cycleStart), dependency.id]);
+        }
+
+        if (visited.has(dependency.id)) {
+          continue;
+        }
+        visited.add(dependency.id);
+
+        visit(dependenciesOf(dependency.id), [...path, dependency.id]);
+        order.push(dependency.id);
+      }
+    };
+
+    visit(rootDependencies, rootId ? [rootId] : []);
+    return { requirements, order };
+  }
+}
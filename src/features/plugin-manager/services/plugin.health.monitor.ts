@@ -2,114 +2,109 @@ import {
   PluginHealthStatus,
   PluginStatus,
   SystemAlert,
-  AlertSeverity,
-  LogEntry,
-  LogLevel
+  AlertSeverity
 } from '../../../shared';
+import { eventBus, EventSubscription } from '../../../core/event-bus';
+import { EventStatistics } from './plugin.event.bus';
 
 export interface PluginHealthMetrics {
   pluginId: string;
   status: PluginStatus;
   version: string;
   errors: number;
-  performance: number;
+  performance: number; // Share of recent activations that finished within maxResponseTime
   memoryUsage: number;
+  storageUsage: number; // MB
+  eventThroughput: number; // Events published per minute
   lastUpdated: Date;
   healthScore: number;
   uptime: number;
   crashCount: number;
-  averageResponseTime: number;
+  averageResponseTime: number; // Average activation time in ms
 }
 
 export interface PluginHealthThresholds {
   maxErrors: number;
   minPerformance: number;
   maxMemoryUsage: number;
+  maxStorageUsage: number;
+  maxEventThroughput: number;
   minHealthScore: number;
   maxResponseTime: number;
   maxCrashCount: number;
 }
 
+/**
+ * Where runtime metrics come from besides the events the monitor records directly
+ */
+export interface PluginHealthSources {
+  eventBus?: { getEventStatistics(): EventStatistics };
+  storageManager?: { getStorageUsage(pluginId: string): { used: number } };
+}
+
+export type AutoDisableHandler = (pluginId: string, reasons: string[]) => void | Promise<void>;
+
+interface HealthIssue {
+  severity: AlertSeverity;
+  message: string;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+const RESPONSE_SAMPLE_SIZE = 20;
+
+/**
+ * Tracks the health of installed plugins from what they actually do: activation
+ * times reported by the PluginManager, failures from handlePluginFailure and
+ * widget errors (both via the core event bus), event throughput from the plugin
+ * event bus and storage usage from the storage manager. Enabled plugins that
+ * cross a threshold are disabled through the auto-disable handler and an alert
+ * is raised.
+ */
 export class PluginHealthMonitor {
   private pluginMetrics: Map<string, PluginHealthMetrics> = new Map();
   private healthThresholds: PluginHealthThresholds;
   private alertCallbacks: ((alert: SystemAlert) => void)[] = [];
   private monitoringInterval?: NodeJS.Timeout;
   private isMonitoring: boolean = false;
-
-  constructor(thresholds?: Partial<PluginHealthThresholds>) {
+  private sources: PluginHealthSources;
+  private autoDisableHandler?: AutoDisableHandler;
+  private subscriptions: EventSubscription[] = [];
+  private responseSamples: Map<string, number[]> = new Map();
+  private enabledAt: Map<string, number> = new Map();
+  private eventSamples: Map<string, { total: number; sampledAt: number }> = new Map();
+  private activeIssues: Map<string, Set<string>> = new Map(); // Issues already alerted, per plugin
+
+  constructor(thresholds?: Partial<PluginHealthThresholds>, sources: PluginHealthSources = {}) {
     this.healthThresholds = {
       maxErrors: 10,
       minPerformance: 0.7,
       maxMemoryUsage: 100, // MB
+      maxStorageUsage: 50, // MB
+      maxEventThroughput: 600, // events per minute
       minHealthScore: 0.6,
       maxResponseTime: 1000, // ms
       maxCrashCount: 3,
       ...thresholds
     };
+    this.sources = sources;
 
-    this.initializeMockPlugins();
+    this.subscribeToRuntimeEvents();
     this.startMonitoring();
   }
 
-  private initializeMockPlugins(): void {
-    const mockPlugins = [
-      {
-        pluginId: 'auth-plugin',
-        status: PluginStatus.ENABLED,
-        version: '1.2.3',
-        errors: 1,
-        performance: 0.95,
-        memoryUsage: 45,
-        healthScore: 0.92,
-        uptime: 86400, // 24 hours in seconds
-        crashCount: 0,
-        averageResponseTime: 120
-      },
-      {
-        pluginId: 'dashboard-widget',
-        status: PluginStatus.ENABLED,
-        version: '2.1.0',
-        errors: 3,
-        performance: 0.88,
-        memoryUsage: 65,
-        healthScore: 0.85,
-        uptime: 72000, // 20 hours
-        crashCount: 1,
-        averageResponseTime: 180
-      },
-      {
-        pluginId: 'file-manager',
-        status: PluginStatus.DISABLED,
-        version: '0.9.1',
-        errors: 8,
-        performance: 0.65,
-        memoryUsage: 120,
-        healthScore: 0.55,
-        uptime: 3600, // 1 hour
-        crashCount: 2,
-        averageResponseTime: 850
-      },
-      {
-        pluginId: 'notification-service',
-        status: PluginStatus.ERROR,
-        version: '1.0.5',
-        errors: 15,
-        performance: 0.40,
-        memoryUsage: 200,
-        healthScore: 0.25,
-        uptime: 1800, // 30 minutes
-        crashCount: 5,
-        averageResponseTime: 1200
-      }
-    ];
+  private subscribeToRuntimeEvents(): void {
+    this.subscriptions.push(
+      eventBus.subscribe<{ pluginId: string }>('admin.plugin.failure', event => this.recordError(event.pluginId)),
+      eventBus.subscribe<{ pluginId: string }>('plugin.widget.error', event => this.recordError(event.pluginId))
+    );
+  }
 
-    mockPlugins.forEach(plugin => {
-      this.pluginMetrics.set(plugin.pluginId, {
-        ...plugin,
-        lastUpdated: new Date()
-      });
-    });
+  attachSources(sources: PluginHealthSources): void {
+    this.sources = { ...this.sources, ...sources };
+  }
+
+  setAutoDisableHandler(handler: AutoDisableHandler): void {
+    this.autoDisableHandler = handler;
   }
 
   startMonitoring(): void {
@@ -119,6 +114,8 @@ export class PluginHealthMonitor {
     this.monitoringInterval = setInterval(() => {
       this.performHealthCheck();
     }, 30000); // Check every 30 seconds
+    // Don't keep a Node process alive just for health checks
+    this.monitoringInterval.unref?.();
 
     console.log('PluginHealthMonitor: Monitoring started');
   }
@@ -132,47 +129,104 @@ export class PluginHealthMonitor {
     console.log('PluginHealthMonitor: Monitoring stopped');
   }
 
-  private performHealthCheck(): void {
-    for (const [pluginId, metrics] of this.pluginMetrics) {
-      this.updatePluginMetrics(pluginId);
-      this.checkPluginHealth(pluginId, metrics);
+  /**
+   * Sample storage usage and event throughput for every plugin and check them
+   * against the thresholds
+   */
+  performHealthCheck(): void {
+    for (const pluginId of Array.from(this.pluginMetrics.keys())) {
+      const metrics = this.pluginMetrics.get(pluginId);
+      if (metrics) {
+        this.sampleRuntimeMetrics(pluginId, metrics);
+        this.checkPluginHealth(pluginId, metrics);
+      }
     }
   }
 
-  private updatePluginMetrics(pluginId: string): void {
-    const metrics = this.pluginMetrics.get(pluginId);
-    if (!metrics) return;
-
-    // Simulate metric fluctuations
-    const variance = 0.1; // ±10% variance
-    
-    // Update performance with some variance
-    const performanceChange = (Math.random() - 0.5) * variance;
-    metrics.performance = Math.max(0, Math.min(1, metrics.performance + performanceChange));
-
-    // Potentially increase errors occasionally
-    if (Math.random() < 0.05) { // 5% chance
-      metrics.errors += 1;
+  // Runtime events
+
+  /**
+   * A plugin finished activating; `durationMs` is how long loading and its
+   * lifecycle took
+   */
+  recordActivation(pluginId: string, durationMs: number, version?: string): void {
+    const metrics = this.ensurePlugin(pluginId, version);
+    this.markEnabled(pluginId, metrics);
+
+    const samples = [...(this.responseSamples.get(pluginId) || []), durationMs].slice(-RESPONSE_SAMPLE_SIZE);
+    this.responseSamples.set(pluginId, samples);
+    metrics.averageResponseTime = Math.round(samples.reduce((sum, sample) => sum + sample, 0) / samples.length);
+    metrics.performance = samples.filter(sample => sample <= this.healthThresholds.maxResponseTime).length / samples.length;
+
+    this.checkPluginHealth(pluginId, metrics);
+  }
+
+  /**
+   * An enabled plugin could not be loaded or its activation threw
+   */
+  recordActivationFailure(pluginId: string, version?: string): void {
+    const metrics = this.ensurePlugin(pluginId, version);
+    this.markEnabled(pluginId, metrics);
+    metrics.crashCount += 1;
+    metrics.uptime = 0;
+    this.enabledAt.delete(pluginId);
+
+    this.checkPluginHealth(pluginId, metrics);
+  }
+
+  recordError(pluginId: string): void {
+    if (!pluginId) return;
+
+    const metrics = this.ensurePlugin(pluginId);
+    metrics.errors += 1;
+
+    this.checkPluginHealth(pluginId, metrics);
+  }
+
+  private ensurePlugin(pluginId: string, version?: string): PluginHealthMetrics {
+    let metrics = this.pluginMetrics.get(pluginId);
+    if (!metrics) {
+      this.registerPlugin(pluginId, version ? { version } : undefined);
+      metrics = this.pluginMetrics.get(pluginId)!;
+    } else if (version) {
+      metrics.version = version;
     }
+    return metrics;
+  }
 
-    // Update memory usage
-    const memoryChange = (Math.random() - 0.5) * 10; // ±5MB variance
-    metrics.memoryUsage = Math.max(0, metrics.memoryUsage + memoryChange);
+  // Enabling a plugin again starts its error and crash counts afresh
+  private markEnabled(pluginId: string, metrics: PluginHealthMetrics): void {
+    if (metrics.status !== PluginStatus.ENABLED) {
+      metrics.status = PluginStatus.ENABLED;
+      metrics.errors = 0;
+      metrics.crashCount = 0;
+      this.activeIssues.delete(pluginId);
+    }
+    if (!this.enabledAt.has(pluginId)) {
+      this.enabledAt.set(pluginId, Date.now());
+    }
+  }
 
-    // Update response time
-    const responseTimeChange = (Math.random() - 0.5) * 100; // ±50ms variance
-    metrics.averageResponseTime = Math.max(50, metrics.averageResponseTime + responseTimeChange);
+  private sampleRuntimeMetrics(pluginId: string, metrics: PluginHealthMetrics): void {
+    const now = Date.now();
 
-    // Recalculate health score
-    metrics.healthScore = this.calculateHealthScore(metrics);
-    metrics.lastUpdated = new Date();
+    if (this.sources.storageManager) {
+      const { used } = this.sources.storageManager.getStorageUsage(pluginId);
+      metrics.storageUsage = Math.round((used / BYTES_PER_MB) * 100) / 100;
+    }
 
-    // Update uptime (if plugin is running)
-    if (metrics.status === PluginStatus.ENABLED) {
-      metrics.uptime += 30; // Add 30 seconds
+    if (this.sources.eventBus) {
+      const total = this.sources.eventBus.getEventStatistics().publisherStats[pluginId] || 0;
+      const previous = this.eventSamples.get(pluginId);
+      if (previous && now > previous.sampledAt) {
+        const minutes = (now - previous.sampledAt) / 60000;
+        metrics.eventThroughput = Math.round(Math.max(0, total - previous.total) / minutes);
+      }
+      this.eventSamples.set(pluginId, { total, sampledAt: now });
     }
 
-    this.pluginMetrics.set(pluginId, metrics);
+    const enabledAt = this.enabledAt.get(pluginId);
+    metrics.uptime = metrics.status === PluginStatus.ENABLED && enabledAt ? Math.floor((now - enabledAt) / 1000) : 0;
   }
 
   private calculateHealthScore(metrics: PluginHealthMetrics): number {
@@ -193,6 +247,14 @@ export class PluginHealthMonitor {
       score -= memoryPenalty;
     }
 
+    // Deduct points for storage and event volume over their limits
+    if (metrics.storageUsage > this.healthThresholds.maxStorageUsage) {
+      score -= 0.1;
+    }
+    if (metrics.eventThroughput > this.healthThresholds.maxEventThroughput) {
+      score -= 0.1;
+    }
+
     // Deduct points for slow response times
     if (metrics.averageResponseTime > this.healthThresholds.maxResponseTime) {
       const responsePenalty = Math.min(0.2, (metrics.averageResponseTime - this.healthThresholds.maxResponseTime) / 1000 * 0.2);
@@ -206,43 +268,85 @@ export class PluginHealthMonitor {
     return Math.max(0, Math.round(score * 100) / 100);
   }
 
-  private checkPluginHealth(pluginId: string, metrics: PluginHealthMetrics): void {
-    const issues: string[] = [];
+  private findHealthIssues(pluginId: string, metrics: PluginHealthMetrics): Map<string, HealthIssue> {
+    const thresholds = this.healthThresholds;
+    const issues = new Map<string, HealthIssue>();
 
-    // Check various health thresholds
-    if (metrics.errors >= this.healthThresholds.maxErrors) {
-      issues.push(`High error count: ${metrics.errors}`);
-      this.triggerAlert(pluginId, AlertSeverity.ERROR, `Plugin ${pluginId} has high error count: ${metrics.errors}`);
+    if (metrics.errors >= thresholds.maxErrors) {
+      issues.set('errors', { severity: AlertSeverity.ERROR, message: `Plugin ${pluginId} has high error count: ${metrics.errors}` });
     }
 
-    if (metrics.performance < this.healthThresholds.minPerformance) {
-      issues.push(`Low performance: ${Math.round(metrics.performance * 100)}%`);
-      this.triggerAlert(pluginId, AlertSeverity.WARNING, `Plugin ${pluginId} performance below threshold: ${Math.round(metrics.performance * 100)}%`);
+    if (metrics.performance < thresholds.minPerformance) {
+      issues.set('performance', {
+        severity: AlertSeverity.WARNING,
+        message: `Plugin ${pluginId} performance below threshold: ${Math.round(metrics.performance * 100)}%`
+      });
     }
 
-    if (metrics.memoryUsage > this.healthThresholds.maxMemoryUsage) {
-      issues.push(`High memory usage: ${metrics.memoryUsage}MB`);
-      this.triggerAlert(pluginId, AlertSeverity.WARNING, `Plugin ${pluginId} using excessive memory: ${metrics.memoryUsage}MB`);
+    if (metrics.averageResponseTime > thresholds.maxResponseTime) {
+      issues.set('responseTime', {
+        severity: AlertSeverity.WARNING,
+        message: `Plugin ${pluginId} activation is slow: ${metrics.averageResponseTime}ms`
+      });
+    }
+
+    if (metrics.memoryUsage > thresholds.maxMemoryUsage) {
+      issues.set('memory', { severity: AlertSeverity.WARNING, message: `Plugin ${pluginId} using excessive memory: ${metrics.memoryUsage}MB` });
     }
 
-    if (metrics.healthScore < this.healthThresholds.minHealthScore) {
-      issues.push(`Low health score: ${metrics.healthScore}`);
-      this.triggerAlert(pluginId, AlertSeverity.CRITICAL, `Plugin ${pluginId} health score critical: ${metrics.healthScore}`);
+    if (metrics.storageUsage > thresholds.maxStorageUsage) {
+      issues.set('storage', { severity: AlertSeverity.WARNING, message: `Plugin ${pluginId} using excessive storage: ${metrics.storageUsage}MB` });
     }
 
-    if (metrics.crashCount >= this.healthThresholds.maxCrashCount) {
-      issues.push(`High crash count: ${metrics.crashCount}`);
-      this.triggerAlert(pluginId, AlertSeverity.CRITICAL, `Plugin ${pluginId} has crashed ${metrics.crashCount} times`);
+    if (metrics.eventThroughput > thresholds.maxEventThroughput) {
+      issues.set('events', {
+        severity: AlertSeverity.WARNING,
+        message: `Plugin ${pluginId} is publishing too many events: ${metrics.eventThroughput}/min`
+      });
+    }
+
+    if (metrics.healthScore < thresholds.minHealthScore) {
+      issues.set('healthScore', { severity: AlertSeverity.CRITICAL, message: `Plugin ${pluginId} health score critical: ${metrics.healthScore}` });
+    }
+
+    if (metrics.crashCount >= thresholds.maxCrashCount) {
+      issues.set('crashes', { severity: AlertSeverity.CRITICAL, message: `Plugin ${pluginId} has crashed ${metrics.crashCount} times` });
     }
 
-    // Update plugin status based on health
-    if (issues.length > 0) {
-      if (metrics.healthScore < 0.3 || metrics.crashCount >= this.healthThresholds.maxCrashCount) {
-        metrics.status = PluginStatus.ERROR;
-      } else if (metrics.status === PluginStatus.ENABLED && metrics.healthScore < 0.5) {
-        metrics.status = PluginStatus.DISABLED;
+    return issues;
+  }
+
+  private checkPluginHealth(pluginId: string, metrics: PluginHealthMetrics): void {
+    metrics.healthScore = this.calculateHealthScore(metrics);
+    metrics.lastUpdated = new Date();
+
+    // Alert once when an issue appears rather than on every check
+    const issues = this.findHealthIssues(pluginId, metrics);
+    const alerted = this.activeIssues.get(pluginId) || new Set<string>();
+    for (const [key, issue] of issues) {
+      if (!alerted.has(key)) {
+        this.triggerAlert(pluginId, issue.severity, issue.message);
       }
     }
+    this.activeIssues.set(pluginId, new Set(issues.keys()));
+
+    if (issues.size > 0 && metrics.status === PluginStatus.ENABLED) {
+      this.autoDisablePlugin(pluginId, metrics, Array.from(issues.values()).map(issue => issue.message));
+    }
+  }
+
+  private autoDisablePlugin(pluginId: string, metrics: PluginHealthMetrics, reasons: string[]): void {
+    metrics.status = PluginStatus.DISABLED;
+    metrics.uptime = 0;
+    this.enabledAt.delete(pluginId);
+
+    this.triggerAlert(pluginId, AlertSeverity.CRITICAL, `Plugin ${pluginId} was disabled automatically: ${reasons.join('; ')}`);
+
+    if (this.autoDisableHandler) {
+      Promise.resolve()
+        .then(() => this.autoDisableHandler!(pluginId, reasons))
+        .catch(error => console.error(`Failed to auto-disable plugin ${pluginId}:`, error));
+    }
   }
 
   private triggerAlert(pluginId: string, severity: AlertSeverity, message: string): void {
@@ -266,7 +370,7 @@ export class PluginHealthMonitor {
 
   // Public interface methods
   getPluginHealth(pluginId?: string): PluginHealthStatus[] {
-    const plugins = pluginId 
+    const plugins = pluginId
       ? [this.pluginMetrics.get(pluginId)].filter(Boolean) as PluginHealthMetrics[]
       : Array.from(this.pluginMetrics.values());
 
@@ -299,7 +403,7 @@ export class PluginHealthMonitor {
 
   subscribeToAlerts(callback: (alert: SystemAlert) => void): () => void {
     this.alertCallbacks.push(callback);
-    
+
     return () => {
       const index = this.alertCallbacks.indexOf(callback);
       if (index > -1) {
@@ -316,12 +420,14 @@ export class PluginHealthMonitor {
       version: '1.0.0',
       errors: 0,
       performance: 1.0,
-      memoryUsage: 20,
+      memoryUsage: 0,
+      storageUsage: 0,
+      eventThroughput: 0,
       lastUpdated: new Date(),
       healthScore: 1.0,
       uptime: 0,
       crashCount: 0,
-      averageResponseTime: 100,
+      averageResponseTime: 0,
       ...initialMetrics
     };
 
@@ -330,6 +436,10 @@ export class PluginHealthMonitor {
   }
 
   unregisterPlugin(pluginId: string): void {
+    this.responseSamples.delete(pluginId);
+    this.enabledAt.delete(pluginId);
+    this.eventSamples.delete(pluginId);
+    this.activeIssues.delete(pluginId);
     if (this.pluginMetrics.delete(pluginId)) {
       console.log(`Plugin ${pluginId} unregistered from health monitoring`);
     }
@@ -340,11 +450,14 @@ export class PluginHealthMonitor {
     if (metrics) {
       metrics.status = status;
       metrics.lastUpdated = new Date();
-      
+
       if (status === PluginStatus.ENABLED) {
         metrics.uptime = 0; // Reset uptime when enabling
+        this.enabledAt.set(pluginId, Date.now());
+      } else {
+        this.enabledAt.delete(pluginId);
       }
-      
+
       this.pluginMetrics.set(pluginId, metrics);
     }
   }
@@ -357,7 +470,7 @@ export class PluginHealthMonitor {
       metrics.uptime = 0; // Reset uptime after crash
       metrics.healthScore = this.calculateHealthScore(metrics);
       metrics.lastUpdated = new Date();
-      
+
       this.triggerAlert(pluginId, AlertSeverity.CRITICAL, `Plugin ${pluginId} has crashed`);
       this.pluginMetrics.set(pluginId, metrics);
     }
@@ -375,11 +488,11 @@ export class PluginHealthMonitor {
     const healthyPlugins = plugins.filter(p => p.healthScore >= 0.7).length;
     const unhealthyPlugins = plugins.filter(p => p.healthScore < 0.7 && p.status !== PluginStatus.ERROR).length;
     const errorPlugins = plugins.filter(p => p.status === PluginStatus.ERROR).length;
-    
-    const averageHealthScore = plugins.length > 0 
-      ? plugins.reduce((sum, p) => sum + p.healthScore, 0) / plugins.length 
+
+    const averageHealthScore = plugins.length > 0
+      ? plugins.reduce((sum, p) => sum + p.healthScore, 0) / plugins.length
       : 1.0;
-      
+
     const averagePerformance = plugins.length > 0
       ? plugins.reduce((sum, p) => sum + p.performance, 0) / plugins.length
       : 1.0;
@@ -405,11 +518,17 @@ export class PluginHealthMonitor {
 
   clearAllPlugins(): void {
     this.pluginMetrics.clear();
+    this.responseSamples.clear();
+    this.enabledAt.clear();
+    this.eventSamples.clear();
+    this.activeIssues.clear();
   }
 
   destroy(): void {
     this.stopMonitoring();
-    this.pluginMetrics.clear();
+    this.clearAllPlugins();
+    this.subscriptions.forEach(subscription => subscription.unsubscribe());
+    this.subscriptions = [];
     this.alertCallbacks = [];
   }
-} 
\ No newline at end of file
+}
@@ -1,10 +1,19 @@
-import { IPluginManager } from '../interfaces/plugin.interface';
-import { PluginInfo, PluginPackage, InstallResult, PluginDependency, PluginStatus, DashboardWidget } from '../../../shared';
-import { PLUGIN_REGISTRY, discoverPlugins, getPluginInfo, validatePlugin } from '../../../plugins';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IPluginManager, IPluginPersistence } from '../interfaces/plugin.interface';
+import { PluginInfo, PluginPackage, InstallResult, UpdateResult, PluginUpdateInfo, PluginDependency, PluginStatus, DashboardWidget, SettingsSchema } from '../../../shared';
+import { discoverPlugins, getPluginInfo, getPluginPackage, getPluginsDirectory, validatePlugin } from '../../../plugins';
 import { createLogger } from '../../../core/logger';
 import { SettingsService } from '../../settings/services/settings.service';
 import { eventBus } from '../../../core/event-bus';
-// Browser-compatible storage for plugin persistence
+import { PluginSandbox } from './plugin.sandbox';
+import { PluginStorageManager, PluginStorageTransaction } from './plugin.storage.manager';
+import { DependencyResolver, DependentPluginsError } from './dependency.resolver';
+import { PluginVerifier, PluginSignatureError } from './plugin.verifier';
+import { PluginVersionStore } from './plugin.version.store';
+import { createPluginPersistence } from './plugin.persistence';
+import { PluginHealthMonitor } from './plugin.health.monitor';
+import { compareVersions, isValidVersion } from '../../../shared/utils/semver';
 
 // Define interfaces for dependency injection
 interface IPluginRegistry {
@@ -22,7 +31,7 @@ interface IPluginVerifier {
 }
 
 interface IDependencyResolver {
-  resolveDependencies(pluginId: string): Promise<PluginDependency[]>;
+  resolveDependencies(pluginId: string, declaredDependencies?: PluginDependency[]): Promise<PluginDependency[]>;
   checkDependencyConflicts(dependencies: PluginDependency[]): Promise<string[]>;
   getInstallOrder(dependencies: PluginDependency[]): Promise<string[]>;
 }
@@ -37,12 +46,18 @@ export class PluginManager implements IPluginManager {
   private dependencyResolver: IDependencyResolver;
   private pluginVerifier: IPluginVerifier;
   private pluginRegistry: IPluginRegistry;
-  private pluginSandbox: any;
+  private pluginSandbox: PluginSandbox;
+  private storageManager?: PluginStorageManager;
+  private versionStore: PluginVersionStore;
   private installedPlugins: Map<string, PluginInfo> = new Map();
-  private readonly persistenceFile: string;
+  private persistence: IPluginPersistence;
+  private persistedPluginsLoaded: Promise<void>;
+  private healthMonitor?: PluginHealthMonitor;
   private dashboardManager?: IDashboardManager;
   private settingsService: SettingsService;
   private registeredWidgets: Set<string> = new Set(); // Track plugins with registered widgets
+  private activePlugins: Map<string, any> = new Map(); // Loaded plugin module handles, keyed by plugin id
+  private pluginsDirectory: string = getPluginsDirectory();
   private logger = createLogger('PluginManager');
 
   constructor(
@@ -50,31 +65,52 @@ export class PluginManager implements IPluginManager {
     pluginVerifier?: IPluginVerifier,
     dependencyResolver?: IDependencyResolver,
     dashboardManager?: IDashboardManager,
-    settingsService?: SettingsService
+    settingsService?: SettingsService,
+    pluginSandbox?: PluginSandbox,
+    storageManager?: PluginStorageManager,
+    versionStore?: PluginVersionStore,
+    persistence?: IPluginPersistence,
+    healthMonitor?: PluginHealthMonitor
   ) {
-    // Initialize persistence file path
-    this.persistenceFile = 'installed-plugins'; // Browser localStorage key
-    
     // Inject dependencies or use defaults
     this.pluginRegistry = pluginRegistry || this.createDefaultPluginRegistry();
     this.pluginVerifier = pluginVerifier || this.createDefaultPluginVerifier();
     this.dependencyResolver = dependencyResolver || this.createDefaultDependencyResolver();
     this.dashboardManager = dashboardManager;
     this.settingsService = settingsService || new SettingsService();
+    this.pluginSandbox = pluginSandbox || new PluginSandbox();
+    this.storageManager = storageManager;
+    this.versionStore = versionStore || new PluginVersionStore();
+    this.persistence = persistence || createPluginPersistence();
+    this.healthMonitor = healthMonitor;
+
+    // Feed the health monitor storage usage and let it disable unhealthy plugins
+    if (this.healthMonitor) {
+      this.healthMonitor.attachSources({
+        storageManager: { getStorageUsage: (pluginId: string) => this.getStorageManager().getStorageUsage(pluginId) }
+      });
+      this.healthMonitor.setAutoDisableHandler(pluginId => this.disablePlugin(pluginId));
+    }
     
     // Load persisted plugins on startup
-    this.loadPersistedPlugins();
+    this.persistedPluginsLoaded = this.loadPersistedPlugins();
   }
 
   private createDefaultPluginRegistry(): IPluginRegistry {
+    // Every operation waits for the persisted plugins so a save never drops them
     return {
       getAvailablePlugins: async () => [],
-      getInstalledPlugins: async () => Array.from(this.installedPlugins.values()),
+      getInstalledPlugins: async () => {
+        await this.persistedPluginsLoaded;
+        return Array.from(this.installedPlugins.values());
+      },
       addInstalledPlugin: async (plugin: PluginInfo) => {
+        await this.persistedPluginsLoaded;
         this.installedPlugins.set(plugin.id, plugin);
         await this.savePersistedPlugins();
       },
       removeInstalledPlugin: async (pluginId: string, cleanupData?: boolean) => {
+        await this.persistedPluginsLoaded;
         this.logger.info(`Removing plugin from registry`, { pluginId });
         this.logger.debug(`Installed plugins before removal`, { plugins: Array.from(this.installedPlugins.keys()) });
         this.installedPlugins.delete(pluginId);
@@ -83,6 +119,7 @@ export class PluginManager implements IPluginManager {
         this.logger.info(`Plugin removed from registry and persisted`, { pluginId });
       },
       updatePluginStatus: async (pluginId: string, status: PluginStatus) => {
+        await this.persistedPluginsLoaded;
         const plugin = this.installedPlugins.get(pluginId);
         if (plugin) {
           plugin.status = status;
@@ -94,19 +131,18 @@ export class PluginManager implements IPluginManager {
   }
 
   private createDefaultPluginVerifier(): IPluginVerifier {
+    // Signatures are checked against the trusted keys store (see PluginVerifier)
+    const signatureVerifier = new PluginVerifier();
+
     return {
-      verifyPluginSignature: async (pluginPackage: PluginPackage) => true,
+      verifyPluginSignature: (pluginPackage: PluginPackage) => signatureVerifier.verifyPluginSignature(pluginPackage),
       validatePluginManifest: async (manifest: any) => ({ isValid: true, errors: [] }),
       checkSecurityCompliance: async (pluginPackage: PluginPackage) => ({ isCompliant: true, violations: [] })
     };
   }
 
   private createDefaultDependencyResolver(): IDependencyResolver {
-    return {
-      resolveDependencies: async (pluginId: string) => [],
-      checkDependencyConflicts: async (dependencies: PluginDependency[]) => [],
-      getInstallOrder: async (dependencies: PluginDependency[]) => []
-    };
+    return new DependencyResolver(() => this.getInstalledPlugins());
   }
 
   async getAvailablePlugins(): Promise<PluginInfo[]> {
@@ -150,58 +186,25 @@ export class PluginManager implements IPluginManager {
 
   async installPlugin(pluginPackage: PluginPackage): Promise<InstallResult> {
     try {
-      // Step 1: Verify plugin signature
-      const signatureValid = await this.pluginVerifier.verifyPluginSignature(pluginPackage);
-      if (!signatureValid) {
-        return {
-          success: false,
-          pluginId: pluginPackage.id,
-          error: 'Invalid plugin signature'
-        };
-      }
-
-      // Step 2: Validate plugin manifest
-      const manifestValidation = await this.pluginVerifier.validatePluginManifest(pluginPackage.manifest);
-      if (!manifestValidation.isValid) {
+      // Steps 1-3: Verify signature, manifest and security compliance
+      const verificationError = await this.verifyPluginPackage(pluginPackage);
+      if (verificationError) {
         return {
           success: false,
           pluginId: pluginPackage.id,
-          error: `Invalid plugin manifest: ${manifestValidation.errors.join(', ')}`
+          error: verificationError
         };
       }
 
-      // Step 3: Check security compliance
-      const securityCheck = await this.pluginVerifier.checkSecurityCompliance(pluginPackage);
-      if (!securityCheck.isCompliant) {
-        return {
-          success: false,
-          pluginId: pluginPackage.id,
-          error: `Security compliance violations: ${securityCheck.violations.join(', ')}`
-        };
-      }
-
-      // Step 4: Resolve and install dependencies
-      const dependencies = await this.dependencyResolver.resolveDependencies(pluginPackage.id);
-      const dependencyIds = dependencies.map((dep: PluginDependency) => dep.id);
+      // Step 4: Resolve dependencies and install any missing ones, dependencies first
+      const dependencies = await this.dependencyResolver.resolveDependencies(
+        pluginPackage.id,
+        pluginPackage.manifest.dependencies
+      );
+      const dependencyIds = await this.installMissingDependencies(dependencies);
 
       // Step 5: Register plugin as installed
-      const pluginInfo: PluginInfo = {
-        id: pluginPackage.id,
-        name: pluginPackage.manifest.name,
-        version: pluginPackage.version,
-        description: pluginPackage.manifest.description,
-        author: pluginPackage.manifest.author,
-        rating: 0, // Will be set by registry
-        downloads: 0, // Will be set by registry
-        dependencies: dependencies,
-        permissions: pluginPackage.manifest.permissions,
-        status: PluginStatus.INSTALLED
-      };
-
-      await this.pluginRegistry.addInstalledPlugin(pluginInfo);
-
-      // Register widgets for the newly installed plugin
-      this.registerPluginWidgets(pluginInfo);
+      await this.registerInstalledPlugin(pluginPackage);
 
       return {
         success: true,
@@ -217,6 +220,107 @@ export class PluginManager implements IPluginManager {
     }
   }
 
+  /**
+   * Run the signature, manifest and security checks, returning the first failure
+   */
+  private async verifyPluginPackage(pluginPackage: PluginPackage): Promise<string | undefined> {
+    const signatureValid = await this.pluginVerifier.verifyPluginSignature(pluginPackage);
+    if (!signatureValid) {
+      return 'Invalid plugin signature';
+    }
+
+    const manifestValidation = await this.pluginVerifier.validatePluginManifest(pluginPackage.manifest);
+    if (!manifestValidation.isValid) {
+      return `Invalid plugin manifest: ${manifestValidation.errors.join(', ')}`;
+    }
+
+    const securityCheck = await this.pluginVerifier.checkSecurityCompliance(pluginPackage);
+    if (!securityCheck.isCompliant) {
+      return `Security compliance violations: ${securityCheck.violations.join(', ')}`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Install dependencies that are not installed yet in topological order.
+   * Returns the ids that were installed; throws when a dependency conflicts or
+   * a required one cannot be installed.
+   */
+  private async installMissingDependencies(dependencies: PluginDependency[]): Promise<string[]> {
+    if (dependencies.length === 0) {
+      return [];
+    }
+
+    const conflicts = await this.dependencyResolver.checkDependencyConflicts(dependencies);
+    if (conflicts.length > 0) {
+      throw new Error(`Dependency conflicts: ${conflicts.join('; ')}`);
+    }
+
+    const installOrder = await this.dependencyResolver.getInstallOrder(dependencies);
+    const installedIds = new Set((await this.getInstalledPlugins()).map(plugin => plugin.id));
+    const installed: string[] = [];
+
+    for (const dependencyId of installOrder) {
+      if (installedIds.has(dependencyId)) {
+        continue;
+      }
+
+      const required = dependencies.some(dep => dep.id === dependencyId && dep.required);
+      if (!validatePlugin(dependencyId)) {
+        if (required) {
+          throw new Error(`Dependency ${dependencyId} is not available`);
+        }
+        this.logger.info(`Skipping unavailable optional dependency`, { dependencyId });
+        continue;
+      }
+
+      const dependencyPackage = await this.downloadAndVerifyPlugin(dependencyId);
+      const verificationError = await this.verifyPluginPackage(dependencyPackage);
+      if (verificationError) {
+        throw new Error(`Dependency ${dependencyId} failed verification: ${verificationError}`);
+      }
+
+      await this.registerInstalledPlugin(dependencyPackage);
+      installedIds.add(dependencyId);
+      installed.push(dependencyId);
+      this.logger.info(`Installed dependency`, { dependencyId, version: dependencyPackage.version });
+    }
+
+    return installed;
+  }
+
+  private async registerInstalledPlugin(pluginPackage: PluginPackage, status: PluginStatus = PluginStatus.INSTALLED): Promise<void> {
+    // Keep the installed code and manifest so this exact version is what gets activated
+    try {
+      await this.versionStore.saveVersion(pluginPackage);
+    } catch (error) {
+      this.logger.warn(`Could not save plugin version snapshot`, {
+        pluginId: pluginPackage.id,
+        version: pluginPackage.version,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const pluginInfo: PluginInfo = {
+      id: pluginPackage.id,
+      name: pluginPackage.manifest.name,
+      version: pluginPackage.version,
+      description: pluginPackage.manifest.description,
+      author: pluginPackage.manifest.author,
+      rating: 0, // Will be set by registry
+      downloads: 0, // Will be set by registry
+      dependencies: pluginPackage.manifest.dependencies || [],
+      permissions: pluginPackage.manifest.permissions,
+      status
+    };
+
+    await this.pluginRegistry.addInstalledPlugin(pluginInfo);
+
+    // Register widgets for the newly installed plugin
+    this.registerPluginWidgets(pluginInfo);
+  }
+
   async enablePlugin(pluginId: string): Promise<void> {
     try {
       // Check if plugin is already enabled to prevent duplicate operations
@@ -255,8 +359,9 @@ export class PluginManager implements IPluginManager {
       
       await this.pluginRegistry.updatePluginStatus(pluginId, PluginStatus.DISABLED);
       
-      // Unload plugin from sandbox if loaded
-      // Currently using simple in-memory plugins, no sandbox cleanup needed
+      // Deactivate the running plugin module if loaded
+      await this.deactivatePlugin(pluginId);
+      this.healthMonitor?.updatePluginStatus(pluginId, PluginStatus.DISABLED);
       this.logger.info(`Plugin disabled successfully`, { pluginId });
     } catch (error) {
       console.error(`Failed to disable plugin ${pluginId}:`, error);
@@ -264,9 +369,13 @@ export class PluginManager implements IPluginManager {
     }
   }
 
-  async uninstallPlugin(pluginId: string, cleanupData?: boolean): Promise<void> {
+  /**
+   * Uninstall a plugin. Refuses while other installed plugins depend on it,
+   * unless `cascade` is set, in which case those dependents are uninstalled first.
+   */
+  async uninstallPlugin(pluginId: string, cleanupData?: boolean, cascade: boolean = false): Promise<void> {
     try {
-      this.logger.info(`Starting uninstall process`, { pluginId });
+      this.logger.info(`Starting uninstall process`, { pluginId, cascade });
       this.logger.debug(`Current installed plugins before uninstall`, { plugins: Array.from(this.installedPlugins.keys()) });
       
       // Check for dependent plugins that may need this plugin
@@ -276,12 +385,21 @@ export class PluginManager implements IPluginManager {
       );
       
       if (dependentPlugins.length > 0) {
-        throw new Error(`Cannot uninstall plugin ${pluginId}: Required by ${dependentPlugins.map(p => p.id).join(', ')}`);
+        if (!cascade) {
+          throw new DependentPluginsError(pluginId, dependentPlugins.map(p => p.id));
+        }
+
+        // Each dependent cascades to its own dependents before being removed
+        for (const dependent of dependentPlugins) {
+          const stillInstalled = (await this.getInstalledPlugins()).some(plugin => plugin.id === dependent.id);
+          if (stillInstalled) {
+            await this.uninstallPlugin(dependent.id, cleanupData, true);
+          }
+        }
       }
       
-      // Remove from sandbox if loaded
-      // Unload from sandbox if loaded
-      // Currently using simple in-memory plugins, no sandbox cleanup needed
+      // Deactivate the running plugin module if loaded
+      await this.deactivatePlugin(pluginId);
       
       // Unregister widgets for the plugin before removing from registry
       if (this.dashboardManager) {
@@ -293,6 +411,9 @@ export class PluginManager implements IPluginManager {
       
       // Remove from registry
       await this.pluginRegistry.removeInstalledPlugin(pluginId, cleanupData || false);
+      await this.versionStore.removePlugin(pluginId);
+      this.settingsService.unregisterPluginSettings(pluginId);
+      this.healthMonitor?.unregisterPlugin(pluginId);
       
       this.logger.debug(`Current installed plugins after uninstall`, { plugins: Array.from(this.installedPlugins.keys()) });
       this.logger.info(`Plugin uninstalled successfully`, { pluginId });
@@ -327,35 +448,13 @@ export class PluginManager implements IPluginManager {
         throw new Error(`Plugin ${pluginId} not found in registry`);
       }
 
-      // Get plugin info from modular registry
-      const pluginInfo = getPluginInfo(pluginId);
-      if (!pluginInfo) {
-        throw new Error(`Plugin ${pluginId} information not available`);
-      }
-
-      // Create plugin package from modular registry
-      const pluginPackage: PluginPackage = {
-        id: pluginInfo.id,
-        version: pluginInfo.version,
-        code: `// Plugin loaded from modular registry: ${pluginId}`,
-        manifest: {
-          id: pluginInfo.id,
-          name: pluginInfo.name,
-          version: pluginInfo.version,
-          description: pluginInfo.description,
-          author: pluginInfo.author,
-          main: pluginInfo.entryPoint,
-          dependencies: [],
-          permissions: [],
-          api: []
-        },
-        signature: `modular-registry-${pluginId}`
-      };
+      // Build the package from the plugin's manifest and code on disk
+      const pluginPackage = await this.downloadFromRegistry(pluginId);
 
       // Verify the plugin package
       const signatureValid = await this.pluginVerifier.verifyPluginSignature(pluginPackage);
       if (!signatureValid) {
-        throw new Error('Plugin verification failed: Invalid signature');
+        throw new PluginSignatureError(pluginId);
       }
 
       return pluginPackage;
@@ -365,6 +464,142 @@ export class PluginManager implements IPluginManager {
     }
   }
 
+  /**
+   * Installed plugins whose registry version is newer than the installed one
+   */
+  async checkForUpdates(): Promise<PluginUpdateInfo[]> {
+    // Rescan so versions dropped into the plugins directory are picked up
+    discoverPlugins();
+    const installedPlugins = await this.getInstalledPlugins();
+
+    return installedPlugins.flatMap(plugin => {
+      const available = getPluginInfo(plugin.id);
+      if (!available || !this.isNewerVersion(available.version, plugin.version)) {
+        return [];
+      }
+      return [{
+        pluginId: plugin.id,
+        name: plugin.name,
+        installedVersion: plugin.version,
+        availableVersion: available.version
+      }];
+    });
+  }
+
+  /**
+   * Upgrade an installed plugin to the version in the registry. Migration hooks
+   * declared in the new manifest run against the plugin's storage and settings
+   * before it is re-activated. If a migration or activation fails, the previous
+   * version, its data and its status are restored.
+   */
+  async updatePlugin(pluginId: string): Promise<UpdateResult> {
+    discoverPlugins();
+    const current = (await this.getInstalledPlugins()).find(p => p.id === pluginId);
+    if (!current) {
+      throw new Error(`Plugin ${pluginId} is not installed`);
+    }
+
+    // Copy before the registry entry is replaced by the new version
+    const installed: PluginInfo = { ...current };
+    const fromVersion = installed.version;
+    const available = getPluginInfo(pluginId);
+    if (!available || !this.isNewerVersion(available.version, fromVersion)) {
+      return { success: true, pluginId, updated: false, fromVersion, toVersion: fromVersion };
+    }
+
+    const pluginPackage = await this.downloadAndVerifyPlugin(pluginId);
+    const toVersion = pluginPackage.version;
+    const failed = (error: string, rolledBack?: boolean): UpdateResult => ({
+      success: false,
+      pluginId,
+      updated: false,
+      fromVersion,
+      toVersion,
+      ...(rolledBack ? { rolledBack } : {}),
+      error
+    });
+
+    const verificationError = await this.verifyPluginPackage(pluginPackage);
+    if (verificationError) {
+      return failed(verificationError);
+    }
+
+    let dependenciesInstalled: string[];
+    try {
+      const dependencies = await this.dependencyResolver.resolveDependencies(pluginId, pluginPackage.manifest.dependencies);
+      dependenciesInstalled = await this.installMissingDependencies(dependencies);
+    } catch (error) {
+      return failed(error instanceof Error ? error.message : String(error));
+    }
+
+    const previousPackage = await this.versionStore.getVersion(pluginId, fromVersion);
+    const dataSnapshot = await this.snapshotPluginData(pluginId);
+    const reactivate = installed.status === PluginStatus.ENABLED;
+
+    this.logger.info(`Updating plugin`, { pluginId, fromVersion, toVersion });
+    await this.deactivatePlugin(pluginId);
+
+    try {
+      const migrationsRun = await this.runMigrations(pluginPackage, fromVersion);
+      await this.registerInstalledPlugin(pluginPackage, installed.status);
+      if (reactivate) {
+        await this.activatePlugin(pluginId);
+        await this.createWidgetsForActivatedPlugin(pluginId);
+      }
+
+      // Keep the previous version around so the upgrade can be rolled back
+      await this.versionStore.pruneVersions(pluginId, [fromVersion, toVersion]);
+
+      this.logger.info(`Plugin updated`, { pluginId, fromVersion, toVersion, migrationsRun });
+      return { success: true, pluginId, updated: true, fromVersion, toVersion, migrationsRun, dependenciesInstalled };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Plugin update failed, rolling back`, { pluginId, fromVersion, toVersion, error: message });
+
+      await this.restorePreviousVersion(installed, previousPackage, dataSnapshot, reactivate);
+      await this.versionStore.pruneVersions(pluginId, [fromVersion]);
+      return failed(`Update to ${toVersion} failed: ${message}`, true);
+    }
+  }
+
+  /**
+   * Switch an installed plugin back to the version it was upgraded from. Data
+   * changed by the upgrade's migrations is left as it is.
+   */
+  async rollbackPlugin(pluginId: string): Promise<UpdateResult> {
+    const installed = (await this.getInstalledPlugins()).find(p => p.id === pluginId);
+    if (!installed) {
+      throw new Error(`Plugin ${pluginId} is not installed`);
+    }
+
+    const fromVersion = installed.version;
+    const previousVersion = (await this.versionStore.listVersions(pluginId))
+      .filter(version => this.isNewerVersion(fromVersion, version))
+      .pop();
+    const previousPackage = previousVersion ? await this.versionStore.getVersion(pluginId, previousVersion) : undefined;
+    if (!previousPackage) {
+      return {
+        success: false,
+        pluginId,
+        updated: false,
+        fromVersion,
+        toVersion: fromVersion,
+        error: `No previous version of plugin ${pluginId} to roll back to`
+      };
+    }
+
+    const status = installed.status;
+    await this.deactivatePlugin(pluginId);
+    await this.registerInstalledPlugin(previousPackage, status);
+    if (status === PluginStatus.ENABLED) {
+      await this.loadAndActivatePlugin(pluginId);
+    }
+    await this.versionStore.pruneVersions(pluginId, [previousPackage.version]);
+
+    this.logger.info(`Plugin rolled back`, { pluginId, fromVersion, toVersion: previousPackage.version });
+    return { success: true, pluginId, updated: true, fromVersion, toVersion: previousPackage.version };
+  }
+
   handlePluginFailure(pluginId: string, error: Error): void {
     this.logger.error(`Plugin failed`, { pluginId, error: error.message, stack: error.stack });
     
@@ -397,50 +632,33 @@ export class PluginManager implements IPluginManager {
   }
 
   private async downloadFromRegistry(pluginId: string): Promise<PluginPackage> {
-    // This method downloads plugins from the modular registry
-    // For now, we use the modular registry system
-    return {
-      id: pluginId,
-      version: '1.0.0',
-      code: 'mock plugin code',
-      manifest: {
-        id: pluginId,
-        name: 'Mock Plugin',
-        version: '1.0.0',
-        description: 'A mock plugin for testing',
-        author: 'Mock Author',
-        main: 'index.js',
-        dependencies: [],
-        permissions: [],
-        api: []
-      },
-      signature: 'mock-signature'
-    };
+    const pluginPackage = getPluginPackage(pluginId);
+    if (!pluginPackage) {
+      throw new Error(`Plugin ${pluginId} information not available`);
+    }
+    return pluginPackage;
   }
 
+  /**
+   * Restore installed plugins saved by a previous run into the built-in registry
+   */
   private async loadPersistedPlugins(): Promise<void> {
     try {
-      // Check if we're in a browser environment
-      if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-        this.logger.info('localStorage not available (server-side), skipping plugin persistence load');
+      const persistedPlugins = await this.persistence.load();
+      if (persistedPlugins.length === 0) {
+        this.logger.info('No persisted plugins found');
         return;
       }
 
-      const data = localStorage.getItem(this.persistenceFile);
-      if (data) {
-        const persistedPlugins: PluginInfo[] = JSON.parse(data);
-        for (const plugin of persistedPlugins) {
-          await this.pluginRegistry.addInstalledPlugin(plugin);
-          // Register widgets for persisted plugins if dashboard manager is available
-          if (this.dashboardManager && plugin.status === PluginStatus.ENABLED) {
-            this.logger.info(`Loading persisted ENABLED plugin, registering widget`, { pluginId: plugin.id });
-            this.registerPluginWidgets(plugin);
-          }
+      for (const plugin of persistedPlugins) {
+        this.installedPlugins.set(plugin.id, plugin);
+        // Register widgets for persisted plugins if dashboard manager is available
+        if (this.dashboardManager && plugin.status === PluginStatus.ENABLED) {
+          this.logger.info(`Loading persisted ENABLED plugin, registering widget`, { pluginId: plugin.id });
+          this.registerPluginWidgets(plugin);
         }
-        this.logger.info(`Loaded persisted plugins`, { count: persistedPlugins.length });
-      } else {
-        this.logger.info('No persisted plugins found');
       }
+      this.logger.info(`Loaded persisted plugins`, { count: persistedPlugins.length });
     } catch (error) {
       console.error('Error loading persisted plugins:', error);
     }
@@ -448,15 +666,7 @@ export class PluginManager implements IPluginManager {
 
   private async savePersistedPlugins(): Promise<void> {
     try {
-      // Check if we're in a browser environment
-      if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-        this.logger.debug('localStorage not available (server-side), skipping plugin persistence save');
-        return;
-      }
-
-      const data = JSON.stringify(Array.from(this.installedPlugins.values()), null, 2);
-      localStorage.setItem(this.persistenceFile, data);
-      this.logger.debug('Persisted installed plugins', { key: this.persistenceFile });
+      await this.persistence.save(Array.from(this.installedPlugins.values()));
     } catch (error) {
       console.error('Error saving persisted plugins:', error);
     }
@@ -519,33 +729,245 @@ export class PluginManager implements IPluginManager {
 
   private async loadAndActivatePlugin(pluginId: string): Promise<void> {
     try {
-      // Get plugin info from registry
-      const pluginInfo = getPluginInfo(pluginId);
-      if (!pluginInfo) {
-        throw new Error(`Plugin ${pluginId} not found in registry`);
+      await this.activatePlugin(pluginId);
+    } catch (error) {
+      console.error(`Failed to load and activate plugin ${pluginId}:`, error);
+      // Don't throw error to prevent plugin activation failure
+      // This allows the plugin to be enabled even if activation fails
+    }
+  }
+
+  /**
+   * Load the installed version of a plugin into the sandbox and activate it.
+   * Throws when the plugin cannot be loaded or its lifecycle fails.
+   */
+  private async activatePlugin(pluginId: string): Promise<void> {
+    const startedAt = Date.now();
+    let version: string | undefined;
+    try {
+      const source = await this.resolvePluginSource(pluginId);
+      version = source.manifest?.version;
+      await this.registerPluginSettingsSchema(pluginId, source.manifest);
+
+      // Only expose the API capabilities the plugin's manifest declares
+      const permissions = await this.getDeclaredPermissions(pluginId, source.manifest);
+      this.pluginSandbox.restrictAPI(pluginId, permissions);
+      const pluginAPI = this.pluginSandbox.createScopedAPI(pluginId, this.createPluginAPI(pluginId));
+
+      // Load the plugin module into the sandbox
+      const pluginModule = await this.loadPluginModule(pluginId, source.code, source.filename);
+
+      // Initialize and activate the plugin, keeping the handle for deactivation
+      const pluginHandle = await this.activatePluginModule(pluginId, pluginModule, pluginAPI);
+      this.activePlugins.set(pluginId, pluginHandle);
+      this.healthMonitor?.recordActivation(pluginId, Date.now() - startedAt, version);
+
+      this.logger.info(`Plugin loaded and activated successfully`, { pluginId, permissions });
+    } catch (error) {
+      await this.pluginSandbox.unloadPlugin(pluginId);
+      this.healthMonitor?.recordActivationFailure(pluginId, version);
+      throw error;
+    }
+  }
+
+  /**
+   * Register the settings a plugin's manifest declares so its values are
+   * validated against them. A broken schema is logged rather than stopping activation.
+   */
+  private async registerPluginSettingsSchema(pluginId: string, manifest?: any): Promise<void> {
+    if (!manifest?.settings) {
+      return;
+    }
+
+    try {
+      await this.settingsService.registerPluginSettings({ id: pluginId, name: manifest.name || pluginId, settings: manifest.settings });
+    } catch (error) {
+      this.logger.error(`Invalid plugin settings schema`, {
+        pluginId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Run the plugin lifecycle against the loaded module. Supports class exports
+   * (instantiated with the plugin API), plain lifecycle objects, and factory-style
+   * modules whose `activate(api)` returns the plugin instance. Every call into
+   * plugin code goes through the sandbox so CPU and time limits apply.
+   */
+  private async activatePluginModule(pluginId: string, pluginModule: any, pluginAPI: any): Promise<any> {
+    if (typeof pluginModule === 'function') {
+      const instance = await this.pluginSandbox.executeInSandbox(pluginId, () => new pluginModule(pluginAPI), 'construct');
+      await this.runPluginLifecycle(pluginId, instance, pluginAPI);
+      return instance;
+    }
+
+    if (typeof pluginModule.initialize === 'function') {
+      await this.pluginSandbox.executeInSandbox(pluginId, () => pluginModule.initialize(pluginAPI), 'initialize');
+    }
+
+    const activated = typeof pluginModule.activate === 'function'
+      ? await this.pluginSandbox.executeInSandbox(pluginId, () => pluginModule.activate(pluginAPI), 'activate')
+      : undefined;
+
+    if (activated && typeof activated === 'object' &&
+        (typeof activated.initialize === 'function' || typeof activated.activate === 'function')) {
+      await this.runPluginLifecycle(pluginId, activated, pluginAPI);
+      return activated;
+    }
+
+    return pluginModule;
+  }
+
+  private async runPluginLifecycle(pluginId: string, instance: any, pluginAPI: any): Promise<void> {
+    if (typeof instance.initialize === 'function') {
+      await this.pluginSandbox.executeInSandbox(pluginId, () => instance.initialize(pluginAPI), 'initialize');
+    }
+
+    if (typeof instance.activate === 'function') {
+      await this.pluginSandbox.executeInSandbox(pluginId, () => instance.activate(pluginAPI), 'activate');
+    }
+  }
+
+  private async deactivatePlugin(pluginId: string): Promise<void> {
+    const pluginHandle = this.activePlugins.get(pluginId);
+    if (!pluginHandle) {
+      return;
+    }
+
+    this.activePlugins.delete(pluginId);
+
+    try {
+      if (typeof pluginHandle.deactivate === 'function') {
+        await this.pluginSandbox.executeInSandbox(pluginId, () => pluginHandle.deactivate(), 'deactivate');
       }
+      this.logger.info(`Plugin deactivated`, { pluginId });
+    } catch (error) {
+      this.logger.error(`Error deactivating plugin`, { 
+        pluginId, 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    } finally {
+      // Tear down the plugin context and any timers it left running
+      await this.pluginSandbox.unloadPlugin(pluginId);
+    }
+  }
+
+  private isNewerVersion(candidate: string, current: string): boolean {
+    if (!isValidVersion(candidate)) {
+      return false;
+    }
+    return !isValidVersion(current) || compareVersions(candidate, current) > 0;
+  }
 
-      // Create plugin API for the plugin
-      const pluginAPI = this.createPluginAPI(pluginId);
+  /**
+   * Run the migration hooks the new manifest declares for versions after
+   * `fromVersion`, lowest first. Hooks are exports of the new plugin code and
+   * receive the plugin's storage and settings.
+   */
+  private async runMigrations(pluginPackage: PluginPackage, fromVersion: string): Promise<string[]> {
+    const migrations = pluginPackage.manifest.migrations || {};
+    const versions = Object.keys(migrations)
+      .filter(version => isValidVersion(version) &&
+        this.isNewerVersion(version, fromVersion) &&
+        !this.isNewerVersion(version, pluginPackage.version))
+      .sort(compareVersions);
 
-      // Load the plugin module
-      const pluginModule = await this.loadPluginModule(pluginId);
+    if (versions.length === 0) {
+      return [];
+    }
 
-      // Initialize the plugin
-      if (pluginModule.initialize) {
-        await pluginModule.initialize();
+    const pluginId = pluginPackage.id;
+    try {
+      const pluginModule = await this.loadPluginModule(pluginId, pluginPackage.code, this.getSnapshotFilename(pluginPackage));
+      const context = this.createMigrationContext(pluginId);
+
+      for (const version of versions) {
+        const hookName = migrations[version]!;
+        const hook = pluginModule[hookName];
+        if (typeof hook !== 'function') {
+          throw new Error(`Plugin ${pluginId} does not export migration hook ${hookName} for version ${version}`);
+        }
+
+        this.logger.info(`Running plugin migration`, { pluginId, version, hook: hookName });
+        await this.pluginSandbox.executeInSandbox(
+          pluginId,
+          () => hook.call(pluginModule, { ...context, fromVersion, toVersion: version }),
+          `migrate:${version}`
+        );
       }
 
-      // Activate the plugin
-      if (pluginModule.activate) {
-        await pluginModule.activate();
+      return versions;
+    } finally {
+      await this.pluginSandbox.unloadPlugin(pluginId);
+    }
+  }
+
+  private createMigrationContext(pluginId: string) {
+    return {
+      storage: this.getStorageManager().getPluginStorage(pluginId),
+      settings: {
+        get: async (key: string) => (await this.settingsService.getPluginSettings(pluginId))[key] ?? null,
+        getAll: () => this.settingsService.getPluginSettings(pluginId),
+        set: (key: string, value: any) => this.settingsService.setPluginSetting(pluginId, key, value, undefined, true)
       }
+    };
+  }
+
+  private async snapshotPluginData(pluginId: string): Promise<{ storage: Record<string, unknown>; settings: Record<string, any> }> {
+    const pluginStorage = this.getStorageManager().getPluginStorage(pluginId);
+    const storage: Record<string, unknown> = {};
+    for (const key of await pluginStorage.keys()) {
+      storage[key] = await pluginStorage.get(key);
+    }
+
+    return { storage, settings: await this.settingsService.getPluginSettings(pluginId) };
+  }
+
+  private async restorePluginData(
+    pluginId: string,
+    snapshot: { storage: Record<string, unknown>; settings: Record<string, any> }
+  ): Promise<void> {
+    await this.getStorageManager().importPluginData(pluginId, snapshot.storage, { replace: true });
 
-      this.logger.info(`Plugin loaded and activated successfully`, { pluginId });
+    await this.settingsService.removePluginSettings(pluginId);
+    for (const [key, value] of Object.entries(snapshot.settings)) {
+      await this.settingsService.setPluginSetting(pluginId, key, value, undefined, true);
+    }
+  }
+
+  /**
+   * Put back the version, data and status a plugin had before a failed update.
+   * Without a snapshot of the previous code the plugin is marked as errored
+   * instead of being re-activated.
+   */
+  private async restorePreviousVersion(
+    previous: PluginInfo,
+    previousPackage: PluginPackage | undefined,
+    dataSnapshot: { storage: Record<string, unknown>; settings: Record<string, any> },
+    reactivate: boolean
+  ): Promise<void> {
+    const pluginId = previous.id;
+    await this.deactivatePlugin(pluginId);
+
+    try {
+      await this.restorePluginData(pluginId, dataSnapshot);
     } catch (error) {
-      console.error(`Failed to load and activate plugin ${pluginId}:`, error);
-      // Don't throw error to prevent plugin activation failure
-      // This allows the plugin to be enabled even if activation fails
+      this.logger.error(`Failed to restore plugin data`, {
+        pluginId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    if (!previousPackage) {
+      this.logger.warn(`Previous plugin version is not available, leaving plugin in error state`, { pluginId, version: previous.version });
+      await this.pluginRegistry.addInstalledPlugin({ ...previous, status: PluginStatus.ERROR });
+      return;
+    }
+
+    await this.pluginRegistry.addInstalledPlugin(previous);
+    if (reactivate) {
+      await this.loadAndActivatePlugin(pluginId);
     }
   }
 
@@ -568,6 +990,8 @@ export class PluginManager implements IPluginManager {
             throw error;
           }
         },
+        registerSchema: (schema: SettingsSchema) =>
+          this.settingsService.registerPluginSettings({ id: pluginId, name: pluginId, settings: schema }),
         subscribe: (key: string, callback: (key: string, value: any) => void) => {
           try {
             const settingsKey = `${pluginId}.${key}`;
@@ -634,43 +1058,124 @@ export class PluginManager implements IPluginManager {
             return () => {}; // Return no-op unsubscribe function
           }
         }
+      },
+      storage: {
+        get: (key: string) => this.getStorageManager().getPluginStorage(pluginId).get(key),
+        set: (key: string, value: any) => this.getStorageManager().getPluginStorage(pluginId).set(key, value),
+        delete: (key: string) => this.getStorageManager().getPluginStorage(pluginId).delete(key),
+        clear: () => this.getStorageManager().getPluginStorage(pluginId).clear(),
+        keys: () => this.getStorageManager().getPluginStorage(pluginId).keys(),
+        transaction: (work: (transaction: PluginStorageTransaction) => Promise<any>) =>
+          this.getStorageManager().transaction(pluginId, work)
       }
     };
   }
 
-  private async loadPluginModule(pluginId: string): Promise<any> {
+  private getStorageManager(): PluginStorageManager {
+    if (!this.storageManager) {
+      this.storageManager = new PluginStorageManager();
+    }
+    return this.storageManager;
+  }
+
+  /**
+   * Permissions come from the manifest shipped next to the plugin code, falling
+   * back to the permissions recorded when the plugin was installed. Manifests may
+   * list permissions as plain names or as `{ name }` objects.
+   */
+  private async getDeclaredPermissions(pluginId: string, manifest?: any): Promise<string[]> {
+    let declared: any[] | undefined = Array.isArray(manifest?.permissions) ? manifest.permissions : undefined;
+
+    if (!declared) {
+      const installedPlugins = await this.getInstalledPlugins();
+      declared = installedPlugins.find(p => p.id === pluginId)?.permissions || [];
+    }
+
+    return declared
+      .map(permission => typeof permission === 'string' ? permission : permission?.name)
+      .filter((name): name is string => typeof name === 'string');
+  }
+
+  private async loadPluginModule(pluginId: string, pluginCode: string, filename: string): Promise<any> {
     try {
-      // For now, load the demo plugin directly
-      if (pluginId === 'demo-hello-world') {
-        const { createDemoPlugin } = await import('../../../plugins/demo-hello-world');
-        const pluginAPI = this.createPluginAPI(pluginId);
-        return createDemoPlugin(pluginAPI);
-      }
+      const loaded = await this.pluginSandbox.loadPlugin(pluginId, pluginCode, filename);
+      const pluginModule = loaded && loaded.__esModule && loaded.default ? loaded.default : loaded;
 
-      // For test plugins, return a mock plugin that doesn't throw errors
-      if (pluginId.startsWith('test-') || pluginId.startsWith('plugin-') || pluginId.includes('widget')) {
-        return {
-          initialize: async () => {
-            this.logger.debug(`Mock plugin initialized`, { pluginId });
-            return true;
-          },
-          activate: async () => {
-            this.logger.debug(`Mock plugin activated`, { pluginId });
-            return true;
-          },
-          deactivate: async () => {
-            this.logger.debug(`Mock plugin deactivated`, { pluginId });
-            return true;
-          }
-        };
+      if (!pluginModule || (typeof pluginModule !== 'function' && typeof pluginModule !== 'object')) {
+        throw new Error(`Plugin ${pluginId} entry point does not export a plugin`);
       }
 
-      // For other plugins, we would load them dynamically
-      // This is a simplified implementation for the demo plugin
-      throw new Error(`Plugin ${pluginId} not implemented yet`);
+      this.logger.debug(`Plugin module loaded`, { pluginId, filename });
+      return pluginModule;
     } catch (error) {
       console.error(`Failed to load plugin module ${pluginId}:`, error);
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Code and manifest of the installed version of a plugin. Versions installed
+   * through the manager run from the snapshot kept at install time; anything
+   * else runs the current code on disk.
+   */
+  private async resolvePluginSource(pluginId: string): Promise<{ code: string; filename: string; manifest?: any }> {
+    const installed = (await this.getInstalledPlugins()).find(p => p.id === pluginId);
+    const snapshot = installed ? await this.versionStore.getVersion(pluginId, installed.version) : undefined;
+    if (snapshot) {
+      return {
+        code: snapshot.code,
+        filename: this.getSnapshotFilename(snapshot),
+        manifest: snapshot.manifest
+      };
+    }
+
+    const { entryPoint, manifest } = this.resolvePluginEntryPoint(pluginId);
+    return { code: fs.readFileSync(entryPoint, 'utf8'), filename: entryPoint, manifest };
+  }
+
+  private getSnapshotFilename(pluginPackage: PluginPackage): string {
+    return path.join(path.resolve(this.pluginsDirectory), pluginPackage.id, pluginPackage.manifest.main || 'index.js');
+  }
+
+  /**
+   * Resolve the absolute path of a plugin's entry point, preferring the registry
+   * `entryPoint` and falling back to `main`/`entryPoint` in the plugin's manifest.json
+   */
+  private resolvePluginEntryPoint(pluginId: string): { entryPoint: string; manifest?: any } {
+    const pluginsRoot = path.resolve(this.pluginsDirectory);
+    const candidates: string[] = [];
+
+    const pluginInfo = getPluginInfo(pluginId);
+    if (pluginInfo?.entryPoint) {
+      candidates.push(path.resolve(pluginsRoot, pluginInfo.entryPoint));
+    }
+
+    const pluginDirectory = path.resolve(pluginsRoot, pluginId);
+    const manifestPath = path.join(pluginDirectory, 'manifest.json');
+    let manifest: any;
+    if (fs.existsSync(manifestPath)) {
+      manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      const main = manifest.main || manifest.entryPoint;
+      if (typeof main === 'string') {
+        candidates.push(path.resolve(pluginDirectory, main));
+      }
+    }
+
+    if (candidates.length === 0) {
+      throw new Error(`Plugin ${pluginId} not found in registry`);
+    }
+
+    for (const candidate of candidates) {
+      // Never load code from outside the plugins directory
+      if (!candidate.startsWith(pluginsRoot + path.sep)) {
+        throw new Error(`Plugin ${pluginId} entry point resolves outside the plugins directory`);
+      }
+
+      if (fs.existsSync(candidate)) {
+        return { entryPoint: candidate, manifest };
+      }
+    }
+
+    throw new Error(`Plugin ${pluginId} entry point not found: ${candidates.join(', ')}`);
+  }
+}
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IPluginPersistence } from '../interfaces/plugin.interface';
+import { PluginInfo } from '../../../shared';
+import { createLogger } from '../../../core/logger';
+import { getDataDirectory } from '../../../shared/utils/data-directory';
+import { withFileLock, writeFileAtomic } from '../../../shared/utils/atomic-file';
+
+export function getInstalledPluginsFile(): string {
+  return path.join(getDataDirectory(), 'installed-plugins.json');
+}
+
+// Entries without an id cannot be managed, so they are dropped on load
+function parseInstalledPlugins(data: string): PluginInfo[] {
+  const parsed = JSON.parse(data);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Installed plugins data is not an array');
+  }
+  return parsed.filter((plugin): plugin is PluginInfo => !!plugin && typeof plugin.id === 'string');
+}
+
+/**
+ * Installed plugins kept in a JSON file under the data directory. Saves are
+ * written atomically while holding a lock file, so concurrent server
+ * processes never interleave writes or read a half-written file.
+ */
+export class JsonFilePluginPersistence implements IPluginPersistence {
+  private logger = createLogger('JsonFilePluginPersistence');
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(private readonly resolveFile: () => string = getInstalledPluginsFile) {}
+
+  async load(): Promise<PluginInfo[]> {
+    const filePath = path.resolve(this.resolveFile());
+
+    let data: string;
+    try {
+      data = await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    try {
+      return parseInstalledPlugins(data);
+    } catch (error) {
+      this.logger.error('Ignoring unreadable installed plugins file', {
+        filePath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return [];
+    }
+  }
+
+  async save(plugins: PluginInfo[]): Promise<void> {
+    const filePath = path.resolve(this.resolveFile());
+    const data = JSON.stringify(plugins, null, 2);
+
+    // Saves from this process are applied in the order they were made
+    const save = this.pendingSave.then(() => withFileLock(filePath, () => writeFileAtomic(filePath, data)));
+    this.pendingSave = save.catch(() => undefined);
+    await save;
+
+    this.logger.debug('Persisted installed plugins', { filePath, count: plugins.length });
+  }
+}
+
+/**
+ * Installed plugins kept in the browser's localStorage
+ */
+export class LocalStoragePluginPersistence implements IPluginPersistence {
+  private logger = createLogger('LocalStoragePluginPersistence');
+
+  constructor(private readonly key: string = 'installed-plugins') {}
+
+  async load(): Promise<PluginInfo[]> {
+    if (!this.isAvailable()) {
+      this.logger.info('localStorage not available, skipping plugin persistence load');
+      return [];
+    }
+
+    const data = localStorage.getItem(this.key);
+    return data ? parseInstalledPlugins(data) : [];
+  }
+
+  async save(plugins: PluginInfo[]): Promise<void> {
+    if (!this.isAvailable()) {
+      this.logger.debug('localStorage not available, skipping plugin persistence save');
+      return;
+    }
+
+    localStorage.setItem(this.key, JSON.stringify(plugins, null, 2));
+    this.logger.debug('Persisted installed plugins', { key: this.key });
+  }
+
+  private isAvailable(): boolean {
+    return typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+  }
+}
+
+/**
+ * localStorage in the browser, the JSON file under the data directory on the server
+ */
+export function createPluginPersistence(): IPluginPersistence {
+  return typeof window !== 'undefined' && typeof localStorage !== 'undefined'
+    ? new LocalStoragePluginPersistence()
+    : new JsonFilePluginPersistence();
+}
@@ -0,0 +1,651 @@
+import * as util from 'util';
+import * as vm from 'vm';
+import { IPluginSandbox } from '../interfaces/plugin.interface';
+import { SecurityViolation, SecuritySeverity } from '../../../shared';
+import { createLogger } from '../../../core/logger';
+
+export interface PluginSandboxLimits {
+  cpuTimeMs: number; // Max synchronous execution per call into plugin code
+  operationTimeoutMs: number; // Max wall-clock time for an async lifecycle call
+}
+
+/**
+ * Maps each plugin API method to the manifest permission it requires.
+ * Methods missing from this map are never exposed to plugins.
+ */
+export const PLUGIN_API_PERMISSIONS: Record<string, string> = {
+  'settings.get': 'settings:read',
+  'settings.subscribe': 'settings:read',
+  'settings.set': 'settings:write',
+  'settings.registerSchema': 'settings:write',
+  'ui.createWidget': 'ui:widget:create',
+  'ui.updateWidget': 'ui:widget:update',
+  'events.emit': 'events:publish',
+  'events.on': 'events:subscribe',
+  'storage.get': 'storage:local',
+  'storage.set': 'storage:local',
+  'storage.delete': 'storage:local',
+  'storage.clear': 'storage:local',
+  'storage.keys': 'storage:local',
+  'storage.transaction': 'storage:local'
+};
+
+export class PluginPermissionError extends Error {
+  readonly pluginId: string;
+  readonly permission: string;
+  readonly apiMethod: string;
+
+  constructor(pluginId: string, apiMethod: string, permission: string) {
+    super(`Permission denied: plugin '${pluginId}' called ${apiMethod} without the '${permission}' permission`);
+    this.name = 'PluginPermissionError';
+    this.pluginId = pluginId;
+    this.permission = permission;
+    this.apiMethod = apiMethod;
+  }
+}
+
+export class PluginTimeoutError extends Error {
+  readonly pluginId: string;
+  readonly timeoutMs: number;
+
+  constructor(pluginId: string, operation: string, timeoutMs: number) {
+    super(`Plugin '${pluginId}' exceeded the ${timeoutMs}ms limit during ${operation}`);
+    this.name = 'PluginTimeoutError';
+    this.pluginId = pluginId;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Helpers created inside each plugin context. Plugin code only ever meets
+ * objects made by its own context, so nothing it is given leads back to the
+ * host's `Function` constructor. Calls into the host go through the single
+ * `bridge` function, which stays in this closure.
+ */
+const REALM_BOOTSTRAP = new vm.Script(`(function (bridge) {
+  'use strict';
+  const { apply, construct } = Reflect;
+  const defineProperty = Object.defineProperty;
+  const NativeError = Error;
+  const NativePromise = Promise;
+  const NativeDate = Date;
+  const then = Promise.prototype.then;
+
+  // A custom prepareStackTrace would receive call sites of host frames
+  defineProperty(NativeError, 'prepareStackTrace', { value: undefined, writable: false, configurable: false });
+  defineProperty(globalThis, 'Error', { value: NativeError, writable: false, configurable: false });
+  defineProperty(globalThis, '__sandboxRun', { value: () => { bridge(0, []); }, writable: false, configurable: false });
+
+  return {
+    hostFunction: (id) => (...args) => bridge(id, args),
+    call: (fn, self, args) => apply(fn, self, args),
+    construct: (fn, args) => construct(fn, args),
+    createError: (name, message) => {
+      const error = new NativeError(message);
+      defineProperty(error, 'name', { value: name, writable: true, configurable: true });
+      return error;
+    },
+    deferred: () => {
+      const deferred = {};
+      deferred.promise = new NativePromise((resolve, reject) => {
+        deferred.resolve = resolve;
+        deferred.reject = reject;
+      });
+      return deferred;
+    },
+    observe: (promise, onFulfilled, onRejected) => { apply(then, promise, [onFulfilled, onRejected]); },
+    createObject: () => ({}),
+    createArray: () => [],
+    createDate: (time) => new NativeDate(time)
+  };
+})`, { filename: 'plugin-sandbox-realm.js' });
+
+// Runs the pending host operation from inside the context, so the CPU limit covers it
+const RUN_OPERATION = new vm.Script('__sandboxRun()');
+
+interface SandboxRealm {
+  hostFunction(id: number): unknown;
+  call(fn: unknown, self: unknown, args: unknown[]): unknown;
+  construct(fn: unknown, args: unknown[]): object;
+  createError(name: string, message: string): object;
+  deferred(): { promise: object; resolve(value: unknown): void; reject(reason: unknown): void };
+  observe(promise: object, onFulfilled: unknown, onRejected: unknown): void;
+  createObject(): Record<string, unknown>;
+  createArray(): unknown[];
+  createDate(time: number): object;
+}
+
+interface PendingCall {
+  operation: () => unknown;
+  result?: unknown;
+  error?: unknown;
+  failed?: boolean;
+}
+
+interface SandboxedPlugin {
+  pluginId: string;
+  context: vm.Context;
+  realm: SandboxRealm;
+  hostFunctions: Array<(...args: unknown[]) => unknown>;
+  toHost: WeakMap<object, unknown>; // Context values and the host views made for them
+  toContext: WeakMap<object, unknown>; // Host values and the context values made for them
+  pendingCall?: PendingCall;
+  depth: number; // Nested calls while plugin code is running share the outer call's CPU limit
+  timers: Map<number, { handle: ReturnType<typeof setTimeout>; repeat: boolean }>;
+  nextTimerId: number;
+}
+
+/**
+ * Runs plugin code in its own V8 context with no access to `require`, `process`
+ * or host globals. The plugin only sees the API object handed to it, scoped to
+ * the permissions its manifest declares. Values crossing between the host and a
+ * plugin are copied or wrapped: host functions become context functions that
+ * call back through a bridge, and plugin objects reach the host as proxies.
+ * The CPU limit covers each call into plugin code. Promise continuations run
+ * in the server's microtask queue outside it, as stopping a promise job
+ * breaks Node's async context tracking; the operation timeout bounds how long
+ * asynchronous plugin work is waited for.
+ */
+export class PluginSandbox implements IPluginSandbox {
+  private plugins: Map<string, SandboxedPlugin> = new Map();
+  private grantedPermissions: Map<string, Set<string>> = new Map();
+  private securityViolations: SecurityViolation[] = [];
+  private readonly limits: PluginSandboxLimits;
+  private logger = createLogger('PluginSandbox');
+
+  constructor(limits?: Partial<PluginSandboxLimits>) {
+    this.limits = {
+      cpuTimeMs: 1000,
+      operationTimeoutMs: 10000,
+      ...limits
+    };
+  }
+
+  /**
+   * Evaluate CommonJS-style plugin code inside a fresh context and return its exports
+   */
+  async loadPlugin(pluginId: string, pluginCode: string, filename?: string): Promise<any> {
+    if (this.plugins.has(pluginId)) {
+      await this.unloadPlugin(pluginId);
+    }
+
+    const sandboxed = this.createSandbox(pluginId);
+    this.plugins.set(pluginId, sandboxed);
+
+    try {
+      const wrapper = new vm.Script(
+        `(function (module, exports, require) {\n${pluginCode}\n})`,
+        { filename: filename || `${pluginId}.js` }
+      );
+      const moduleFactory = wrapper.runInContext(sandboxed.context, { timeout: this.limits.cpuTimeMs });
+      const sandboxRequire = (moduleName: unknown) => {
+        throw new Error(`Plugin '${pluginId}' cannot require '${String(moduleName)}': modules are not available in the plugin sandbox`);
+      };
+
+      const pluginExports = this.enter(sandboxed, 'load', () => this.fromContext(sandboxed, () => {
+        const { realm } = sandboxed;
+        const pluginModule = realm.createObject();
+        const moduleExports = realm.createObject();
+        defineValue(pluginModule, 'exports', moduleExports);
+        const args = realm.createArray();
+        [pluginModule, moduleExports, this.toContext(sandboxed, sandboxRequire)]
+          .forEach((value, index) => defineValue(args, String(index), value));
+
+        realm.call(moduleFactory, moduleExports, args);
+        return this.toHost(sandboxed, Reflect.get(pluginModule, 'exports'));
+      }));
+
+      this.logger.debug('Plugin code loaded into sandbox', { pluginId });
+      return pluginExports;
+    } catch (error) {
+      await this.unloadPlugin(pluginId);
+      throw error;
+    }
+  }
+
+  async unloadPlugin(pluginId: string): Promise<void> {
+    const sandboxed = this.plugins.get(pluginId);
+    if (!sandboxed) {
+      return;
+    }
+
+    sandboxed.timers.forEach((_, id) => this.stopTimer(sandboxed, id));
+    this.plugins.delete(pluginId);
+    this.grantedPermissions.delete(pluginId);
+    this.logger.debug('Plugin unloaded from sandbox', { pluginId });
+  }
+
+  /**
+   * Call into plugin code with the CPU limit applied to its synchronous part
+   * and the operation timeout applied to any promise it returns
+   */
+  async executeInSandbox(pluginId: string, operation: () => any, operationName: string = 'operation'): Promise<any> {
+    const sandboxed = this.plugins.get(pluginId);
+    if (!sandboxed) {
+      throw new Error(`Plugin '${pluginId}' is not loaded in the sandbox`);
+    }
+
+    const result = this.enter(sandboxed, operationName, operation);
+    return this.withOperationTimeout(pluginId, operationName, Promise.resolve(result));
+  }
+
+  restrictAPI(pluginId: string, allowedAPIs: string[]): void {
+    this.grantedPermissions.set(pluginId, new Set(allowedAPIs));
+  }
+
+  /**
+   * Wrap a full plugin API so each method checks the plugin's granted permissions
+   * before delegating. Denied calls throw a PluginPermissionError and are recorded
+   * as security violations.
+   */
+  createScopedAPI(pluginId: string, api: Record<string, Record<string, any>>): any {
+    const scopedAPI: Record<string, Record<string, (...args: any[]) => any>> = {};
+
+    for (const [namespace, methods] of Object.entries(api)) {
+      const scopedNamespace: Record<string, (...args: any[]) => any> = {};
+
+      for (const [methodName, method] of Object.entries(methods)) {
+        const apiMethod = `${namespace}.${methodName}`;
+        const permission = PLUGIN_API_PERMISSIONS[apiMethod];
+        if (!permission || typeof method !== 'function') {
+          continue;
+        }
+
+        scopedNamespace[methodName] = (...args: any[]) => {
+          if (!this.hasPermission(pluginId, permission)) {
+            this.recordViolation(pluginId, apiMethod, permission);
+            throw new PluginPermissionError(pluginId, apiMethod, permission);
+          }
+          return method(...args);
+        };
+      }
+
+      scopedAPI[namespace] = Object.freeze(scopedNamespace);
+    }
+
+    return Object.freeze(scopedAPI);
+  }
+
+  hasPermission(pluginId: string, permission: string): boolean {
+    return this.grantedPermissions.get(pluginId)?.has(permission) ?? false;
+  }
+
+  isLoaded(pluginId: string): boolean {
+    return this.plugins.has(pluginId);
+  }
+
+  getSecurityViolations(pluginId?: string): SecurityViolation[] {
+    return pluginId
+      ? this.securityViolations.filter(violation => violation.pluginId === pluginId)
+      : [...this.securityViolations];
+  }
+
+  /**
+   * A context whose global object has no host prototype, with the realm
+   * helpers and the console and timer shims installed
+   */
+  private createSandbox(pluginId: string): SandboxedPlugin {
+    const context = vm.createContext(Object.create(null));
+    const bridge = (id: number, args: unknown[]) => {
+      try {
+        const hostArgs: unknown[] = [];
+        for (let index = 0; index < args.length; index++) {
+          hostArgs.push(this.toHost(sandboxed, args[index]));
+        }
+        return this.toContext(sandboxed, sandboxed.hostFunctions[id]!(...hostArgs));
+      } catch (error) {
+        throw this.toContext(sandboxed, error);
+      }
+    };
+    // Copied out now, before plugin code can touch the helpers object
+    const { hostFunction, call, construct, createError, deferred, observe, createObject, createArray, createDate } =
+      REALM_BOOTSTRAP.runInContext(context)(bridge);
+    const sandboxed: SandboxedPlugin = {
+      pluginId,
+      context,
+      realm: { hostFunction, call, construct, createError, deferred, observe, createObject, createArray, createDate },
+      hostFunctions: [() => this.runPendingCall(sandboxed)],
+      toHost: new WeakMap(),
+      toContext: new WeakMap(),
+      depth: 0,
+      timers: new Map(),
+      nextTimerId: 1
+    };
+
+    for (const [name, value] of Object.entries(this.createGlobals(sandboxed))) {
+      context[name] = this.toContext(sandboxed, value);
+    }
+    return sandboxed;
+  }
+
+  private createGlobals(sandboxed: SandboxedPlugin): Record<string, unknown> {
+    const prefix = `[Plugin:${sandboxed.pluginId}]`;
+    const startTimer = (repeat: boolean, callback: unknown, delay?: unknown, ...args: unknown[]) => {
+      if (typeof callback !== 'function') {
+        throw new TypeError('The timer callback must be a function');
+      }
+
+      const id = sandboxed.nextTimerId++;
+      const run = () => {
+        if (!repeat) {
+          sandboxed.timers.delete(id);
+        }
+        this.runTimerCallback(sandboxed, () => callback(...args));
+      };
+      const handle = repeat ? setInterval(run, Number(delay) || 0) : setTimeout(run, Number(delay) || 0);
+      sandboxed.timers.set(id, { handle, repeat });
+      return id;
+    };
+    const stopTimer = (id: unknown) => this.stopTimer(sandboxed, id);
+
+    return {
+      console: {
+        log: (...args: unknown[]) => console.log(prefix, ...args),
+        info: (...args: unknown[]) => console.info(prefix, ...args),
+        warn: (...args: unknown[]) => console.warn(prefix, ...args),
+        error: (...args: unknown[]) => console.error(prefix, ...args),
+        debug: (...args: unknown[]) => console.debug(prefix, ...args)
+      },
+      setTimeout: (callback: unknown, delay?: unknown, ...args: unknown[]) => startTimer(false, callback, delay, ...args),
+      clearTimeout: stopTimer,
+      setInterval: (callback: unknown, delay?: unknown, ...args: unknown[]) => startTimer(true, callback, delay, ...args),
+      clearInterval: stopTimer
+    };
+  }
+
+  private stopTimer(sandboxed: SandboxedPlugin, id: unknown): void {
+    const timer = sandboxed.timers.get(id as number);
+    if (!timer) {
+      return;
+    }
+
+    sandboxed.timers.delete(id as number);
+    if (timer.repeat) {
+      clearInterval(timer.handle);
+    } else {
+      clearTimeout(timer.handle);
+    }
+  }
+
+  private runTimerCallback(sandboxed: SandboxedPlugin, callback: () => unknown): void {
+    const { pluginId } = sandboxed;
+    if (this.plugins.get(pluginId) !== sandboxed) {
+      return;
+    }
+
+    try {
+      const result = this.enter(sandboxed, 'timer callback', callback);
+      Promise.resolve(result).catch(error => {
+        this.logger.error('Plugin timer callback failed', { pluginId, error: error instanceof Error ? error.message : String(error) });
+      });
+    } catch (error) {
+      this.logger.error('Plugin timer callback failed', { pluginId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Run a host operation that calls into plugin code. The operation runs from
+   * inside the context so the CPU limit covers it.
+   */
+  private enter<T>(sandboxed: SandboxedPlugin, operationName: string, operation: () => T): T {
+    if (sandboxed.depth > 0) {
+      return operation();
+    }
+
+    const call: PendingCall = { operation };
+    sandboxed.pendingCall = call;
+    sandboxed.depth++;
+    try {
+      RUN_OPERATION.runInContext(sandboxed.context, { timeout: this.limits.cpuTimeMs });
+    } catch (error) {
+      if ((error as { code?: string })?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+        throw new PluginTimeoutError(sandboxed.pluginId, operationName, this.limits.cpuTimeMs);
+      }
+      throw error;
+    } finally {
+      sandboxed.depth--;
+      sandboxed.pendingCall = undefined;
+    }
+
+    if (call.failed) {
+      throw call.error;
+    }
+    return call.result as T;
+  }
+
+  private runPendingCall(sandboxed: SandboxedPlugin): void {
+    const call = sandboxed.pendingCall;
+    sandboxed.pendingCall = undefined;
+    if (!call) {
+      return;
+    }
+
+    try {
+      call.result = call.operation();
+    } catch (error) {
+      call.failed = true;
+      call.error = error;
+    }
+  }
+
+  // Whatever plugin code throws is a context value and is converted before the host sees it
+  private fromContext<T>(sandboxed: SandboxedPlugin, operation: () => T): T {
+    try {
+      return operation();
+    } catch (error) {
+      throw this.toHost(sandboxed, error);
+    }
+  }
+
+  /**
+   * The context value standing for a host value. Functions become context
+   * functions calling back through the bridge, promises and errors are
+   * recreated, and other objects are copied. Frozen objects such as the scoped
+   * API keep one copy, so the plugin sees the same object on every call.
+   */
+  private toContext(sandboxed: SandboxedPlugin, value: unknown, copies: Map<object, unknown> = new Map()): unknown {
+    if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+      return value;
+    }
+    if (sandboxed.toContext.has(value)) {
+      return sandboxed.toContext.get(value);
+    }
+    if (copies.has(value)) {
+      return copies.get(value);
+    }
+
+    const { realm } = sandboxed;
+    if (typeof value === 'function' || util.types.isPromise(value) || value instanceof Error || util.types.isNativeError(value)) {
+      let contextValue: unknown;
+      if (typeof value === 'function') {
+        contextValue = realm.hostFunction(sandboxed.hostFunctions.push(value as (...args: unknown[]) => unknown) - 1);
+      } else if (util.types.isPromise(value)) {
+        contextValue = this.toContextPromise(sandboxed, value);
+      } else {
+        const { name, message } = value as Error;
+        contextValue = realm.createError(String(name), String(message));
+      }
+      this.remember(sandboxed, value, contextValue as object);
+      return contextValue;
+    }
+    if (value instanceof Date) {
+      return realm.createDate(value.getTime());
+    }
+
+    const copy = Array.isArray(value) ? realm.createArray() : realm.createObject();
+    copies.set(value, copy);
+    for (const key of Object.keys(value)) {
+      defineValue(copy, key, this.toContext(sandboxed, (value as Record<string, unknown>)[key], copies));
+    }
+    // Class instances, such as storage handles, keep their methods bound to the instance
+    const ownPrototype = Array.isArray(value) ? null : Object.getPrototypeOf(value);
+    for (let proto = ownPrototype; proto && Object.getPrototypeOf(proto); proto = Object.getPrototypeOf(proto)) {
+      for (const key of Object.getOwnPropertyNames(proto)) {
+        const method = Object.getOwnPropertyDescriptor(proto, key)?.value;
+        if (key !== 'constructor' && typeof method === 'function' && !Object.prototype.hasOwnProperty.call(copy, key)) {
+          defineValue(copy, key, this.toContext(sandboxed, method.bind(value), copies));
+        }
+      }
+    }
+
+    if (Object.isFrozen(value)) {
+      Object.freeze(copy);
+      sandboxed.toContext.set(value, copy);
+    }
+    return copy;
+  }
+
+  private toContextArray(sandboxed: SandboxedPlugin, values: unknown[]): unknown[] {
+    const array = sandboxed.realm.createArray();
+    values.forEach((value, index) => defineValue(array, String(index), this.toContext(sandboxed, value)));
+    return array;
+  }
+
+  private toContextPromise(sandboxed: SandboxedPlugin, promise: Promise<unknown>): object {
+    const deferred = sandboxed.realm.deferred();
+    const settle = (settleInContext: (value: unknown) => void, value: unknown) => {
+      // The plugin may have been unloaded while the host was working
+      if (this.plugins.get(sandboxed.pluginId) !== sandboxed) {
+        return;
+      }
+      try {
+        this.enter(sandboxed, 'promise callback', () => settleInContext(this.toContext(sandboxed, value)));
+      } catch (error) {
+        this.logger.error('Plugin promise callback failed', {
+          pluginId: sandboxed.pluginId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    };
+
+    promise.then(value => settle(deferred.resolve, value), error => settle(deferred.reject, error));
+    return deferred.promise;
+  }
+
+  /**
+   * The host view of a context value. Promises and errors are recreated in
+   * the host, and other objects and functions are wrapped in proxies that
+   * convert whatever passes through them.
+   */
+  private toHost(sandboxed: SandboxedPlugin, value: unknown): unknown {
+    if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+      return value;
+    }
+    if (sandboxed.toHost.has(value)) {
+      return sandboxed.toHost.get(value);
+    }
+
+    let hostValue: object;
+    if (util.types.isPromise(value)) {
+      hostValue = new Promise((resolve, reject) => {
+        const onFulfilled = this.toContext(sandboxed, (result: unknown) => resolve(result));
+        const onRejected = this.toContext(sandboxed, (error: unknown) => reject(error));
+        this.enter(sandboxed, 'promise callback', () => sandboxed.realm.observe(value, onFulfilled, onRejected));
+      });
+    } else if (util.types.isNativeError(value)) {
+      hostValue = toHostError(value);
+    } else {
+      hostValue = this.createHostProxy(sandboxed, value);
+    }
+    this.remember(sandboxed, hostValue, value);
+    return hostValue;
+  }
+
+  /**
+   * A proxy over a shadow target, so the proxy invariants never tie the host
+   * view to the plugin object's own non-configurable properties. Every trap
+   * runs plugin code through the CPU limit.
+   */
+  private createHostProxy(sandboxed: SandboxedPlugin, target: object): object {
+    const { realm } = sandboxed;
+    const shadow = typeof target === 'function' ? function () { /* shadow target */ } : Array.isArray(target) ? [] : {};
+    const isPinned = (key: PropertyKey) => Reflect.getOwnPropertyDescriptor(shadow, key)?.configurable === false;
+    const access = <T>(operation: () => T): T => this.enter(sandboxed, 'property access', () => this.fromContext(sandboxed, operation));
+    const toHost = (value: unknown) => this.toHost(sandboxed, value);
+
+    return new Proxy(shadow, {
+      get: (_, key) => access(() => toHost(Reflect.get(target, key))),
+      set: (_, key, value) => access(() => Reflect.set(target, key, this.toContext(sandboxed, value))),
+      has: (_, key) => isPinned(key) || access(() => Reflect.has(target, key)),
+      deleteProperty: (_, key) => !isPinned(key) && access(() => Reflect.deleteProperty(target, key)),
+      defineProperty: () => false,
+      ownKeys: () => {
+        const keys = access(() => Reflect.ownKeys(target));
+        return [...keys, ...Reflect.ownKeys(shadow).filter(key => isPinned(key) && !keys.includes(key))];
+      },
+      getOwnPropertyDescriptor: (_, key) => {
+        const descriptor = access(() => Reflect.getOwnPropertyDescriptor(target, key));
+        const pinned = Reflect.getOwnPropertyDescriptor(shadow, key);
+        if (pinned && !pinned.configurable) {
+          return { ...pinned, value: descriptor && 'value' in descriptor ? toHost(descriptor.value) : pinned.value };
+        }
+        if (!descriptor) {
+          return undefined;
+        }
+        return 'value' in descriptor
+          ? { value: toHost(descriptor.value), writable: descriptor.writable, enumerable: descriptor.enumerable, configurable: true }
+          : { get: toHost(descriptor.get) as () => unknown, set: toHost(descriptor.set) as (value: unknown) => void, enumerable: descriptor.enumerable, configurable: true };
+      },
+      apply: (_, thisArg, args) => this.enter(sandboxed, 'call', () => this.fromContext(sandboxed, () =>
+        toHost(realm.call(target, this.toContext(sandboxed, thisArg), this.toContextArray(sandboxed, args))))),
+      construct: (_, args) => this.enter(sandboxed, 'call', () => this.fromContext(sandboxed, () =>
+        toHost(realm.construct(target, this.toContextArray(sandboxed, args))) as object))
+    });
+  }
+
+  // Passing a value back the way it came returns the original
+  private remember(sandboxed: SandboxedPlugin, hostValue: object, contextValue: object): void {
+    sandboxed.toContext.set(hostValue, contextValue);
+    sandboxed.toHost.set(contextValue, hostValue);
+  }
+
+  private withOperationTimeout<T>(pluginId: string, operationName: string, operation: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new PluginTimeoutError(pluginId, operationName, this.limits.operationTimeoutMs));
+      }, this.limits.operationTimeoutMs);
+    });
+
+    return Promise.race([operation, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private recordViolation(pluginId: string, apiMethod: string, permission: string): void {
+    const violation: SecurityViolation = {
+      pluginId,
+      type: 'permission_denied',
+      description: `Called ${apiMethod} without the '${permission}' permission`,
+      timestamp: new Date(),
+      severity: SecuritySeverity.MEDIUM
+    };
+
+    this.securityViolations.push(violation);
+    this.logger.warn('Plugin permission denied', { pluginId, apiMethod, permission });
+  }
+}
+
+function defineValue(target: object, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+// Reads data properties only, so no plugin getter runs outside the CPU limit
+function readString(object: object, key: string): string | undefined {
+  for (let current: object | null = object; current && !util.types.isProxy(current); current = Object.getPrototypeOf(current)) {
+    const descriptor = Object.getOwnPropertyDescriptor(current, key);
+    if (descriptor) {
+      return typeof descriptor.value === 'string' ? descriptor.value : undefined;
+    }
+  }
+  return undefined;
+}
+
+function toHostError(error: object): Error {
+  const hostError = new Error(readString(error, 'message') ?? '');
+  hostError.name = readString(error, 'name') || 'Error';
+  const stack = readString(error, 'stack');
+  if (stack) {
+    hostError.stack = stack;
+  }
+  return hostError;
+}
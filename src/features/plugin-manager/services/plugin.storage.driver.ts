@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IPluginStorageDriver } from '../interfaces/plugin.interface';
+import { createLogger } from '../../../core/logger';
+import { getDataDirectory } from '../../../shared/utils/data-directory';
+import { withFileLock, writeFileAtomic } from '../../../shared/utils/atomic-file';
+
+const PLUGIN_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export function getPluginStorageDirectory(): string {
+  return path.join(getDataDirectory(), 'plugin-storage');
+}
+
+/**
+ * Plugin storage kept in memory, lost when the process exits
+ */
+export class MemoryPluginStorageDriver implements IPluginStorageDriver {
+  private plugins: Map<string, Record<string, unknown>> = new Map();
+
+  async read(pluginId: string): Promise<Record<string, unknown>> {
+    return { ...this.plugins.get(pluginId) };
+  }
+
+  async write(pluginId: string, entries: Record<string, unknown>): Promise<void> {
+    this.plugins.set(pluginId, { ...entries });
+  }
+
+  async remove(pluginId: string): Promise<void> {
+    this.plugins.delete(pluginId);
+  }
+}
+
+/**
+ * Plugin storage kept as one JSON file per plugin under the data directory.
+ * Every write replaces the whole file atomically, so a multi-key transaction
+ * is either on disk in full or not at all.
+ */
+export class JsonFilePluginStorageDriver implements IPluginStorageDriver {
+  private logger = createLogger('JsonFilePluginStorageDriver');
+
+  constructor(private readonly resolveDirectory: () => string = getPluginStorageDirectory) {}
+
+  async read(pluginId: string): Promise<Record<string, unknown>> {
+    const filePath = this.getPluginFile(pluginId);
+
+    let data: string;
+    try {
+      data = await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    const entries = JSON.parse(data);
+    if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+      throw new Error(`Storage file for plugin ${pluginId} does not contain an object`);
+    }
+    return entries;
+  }
+
+  async write(pluginId: string, entries: Record<string, unknown>): Promise<void> {
+    const filePath = this.getPluginFile(pluginId);
+    await withFileLock(filePath, () => writeFileAtomic(filePath, JSON.stringify(entries)));
+
+    this.logger.debug('Plugin storage written', { pluginId, keys: Object.keys(entries).length });
+  }
+
+  async remove(pluginId: string): Promise<void> {
+    const filePath = this.getPluginFile(pluginId);
+    await withFileLock(filePath, () => fs.promises.rm(filePath, { force: true }));
+  }
+
+  private getPluginFile(pluginId: string): string {
+    if (!PLUGIN_ID_PATTERN.test(pluginId)) {
+      throw new Error(`Invalid plugin id: ${pluginId}`);
+    }
+    return path.join(path.resolve(this.resolveDirectory()), `${pluginId}.json`);
+  }
+}
+
+/**
+ * In memory in the browser, JSON files under the data directory on the server
+ */
+export function createPluginStorageDriver(): IPluginStorageDriver {
+  return typeof window !== 'undefined'
+    ? new MemoryPluginStorageDriver()
+    : new JsonFilePluginStorageDriver();
+}
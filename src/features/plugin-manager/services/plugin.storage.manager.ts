@@ -1,5 +1,6 @@
-import { IPluginStorageManager } from '../interfaces/plugin.interface';
+import { IPluginStorageManager, IPluginStorageDriver } from '../interfaces/plugin.interface';
 import { PluginStorage } from '../../../shared';
+import { createPluginStorageDriver } from './plugin.storage.driver';
 
 export interface StorageQuota {
   pluginId: string;
@@ -17,20 +18,56 @@ export interface StorageStatistics {
   quotaViolations: number;
 }
 
+export interface PluginStorageTransaction {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  usage(keyPrefix?: string): Promise<number>; // Bytes the entries take up, only those whose keys start with keyPrefix when given
+}
+
+export class StorageQuotaExceededError extends Error {
+  readonly pluginId: string;
+  readonly used: number;
+  readonly quota: number;
+
+  constructor(pluginId: string, used: number, quota: number) {
+    super(`Storage quota exceeded for plugin ${pluginId}. Used: ${used} bytes, Quota: ${quota} bytes`);
+    this.name = 'StorageQuotaExceededError';
+    this.pluginId = pluginId;
+    this.used = used;
+    this.quota = quota;
+  }
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * A plugin's view of the storage driver. Entries are cached after the first
+ * read; every change goes through a queue and is written to the driver before
+ * the cache is updated, so a failed write leaves both unchanged.
+ */
 class IsolatedPluginStorage implements PluginStorage {
-  private storage: Map<string, any> = new Map();
+  private storage: Map<string, any> = new Map(); // Serialized values, keyed by internal key
   private quota: number = Infinity;
   private used: number = 0;
+  private loaded?: Promise<void>;
+  private queue: Promise<unknown> = Promise.resolve();
   private readonly pluginId: string;
   private readonly manager: PluginStorageManager;
+  private readonly driver: IPluginStorageDriver;
 
-  constructor(pluginId: string, manager: PluginStorageManager) {
+  constructor(pluginId: string, manager: PluginStorageManager, driver: IPluginStorageDriver) {
     this.pluginId = pluginId;
     this.manager = manager;
+    this.driver = driver;
   }
 
   async get<T>(key: string): Promise<T | null> {
     try {
+      await this.load();
       const value = this.storage.get(this.getInternalKey(key));
       return value !== undefined ? this.deserializeValue(value) : null;
     } catch (error) {
@@ -41,28 +78,7 @@ class IsolatedPluginStorage implements PluginStorage {
 
   async set<T>(key: string, value: T): Promise<void> {
     try {
-      const internalKey = this.getInternalKey(key);
-      const serializedValue = this.serializeValue(value);
-      const newSize = this.calculateSize(serializedValue);
-      const existingSize = this.storage.has(internalKey) 
-        ? this.calculateSize(this.storage.get(internalKey)) 
-        : 0;
-      
-      const sizeChange = newSize - existingSize;
-      
-      // Check quota before writing
-      if (this.used + sizeChange > this.quota) {
-        throw new Error(`Storage quota exceeded for plugin ${this.pluginId}. ` +
-                       `Used: ${this.used + sizeChange} bytes, Quota: ${this.quota} bytes`);
-      }
-
-      // Store the value
-      this.storage.set(internalKey, serializedValue);
-      this.used += sizeChange;
-      
-      // Update manager statistics
-      this.manager.updatePluginUsage(this.pluginId, this.used);
-      
+      await this.transaction(async transaction => transaction.set(key, value));
     } catch (error) {
       console.error(`Storage set error for plugin ${this.pluginId}:`, error);
       throw error;
@@ -71,15 +87,7 @@ class IsolatedPluginStorage implements PluginStorage {
 
   async delete(key: string): Promise<void> {
     try {
-      const internalKey = this.getInternalKey(key);
-      if (this.storage.has(internalKey)) {
-        const size = this.calculateSize(this.storage.get(internalKey));
-        this.storage.delete(internalKey);
-        this.used -= size;
-        
-        // Update manager statistics
-        this.manager.updatePluginUsage(this.pluginId, this.used);
-      }
+      await this.transaction(async transaction => transaction.delete(key));
     } catch (error) {
       console.error(`Storage delete error for plugin ${this.pluginId}:`, error);
     }
@@ -87,11 +95,16 @@ class IsolatedPluginStorage implements PluginStorage {
 
   async clear(): Promise<void> {
     try {
-      this.storage.clear();
-      this.used = 0;
-      
-      // Update manager statistics
-      this.manager.updatePluginUsage(this.pluginId, 0);
+      // Clearing doesn't need the old entries, so it also recovers unreadable storage
+      await this.enqueue(async () => {
+        await this.driver.remove(this.pluginId);
+        this.storage.clear();
+        this.used = 0;
+        this.loaded = Promise.resolve();
+
+        // Update manager statistics
+        this.manager.updatePluginUsage(this.pluginId, 0);
+      }, false);
     } catch (error) {
       console.error(`Storage clear error for plugin ${this.pluginId}:`, error);
     }
@@ -99,23 +112,103 @@ class IsolatedPluginStorage implements PluginStorage {
 
   async keys(): Promise<string[]> {
     try {
-      const prefix = this.getKeyPrefix();
-      const keys: string[] = [];
-      
-      for (const internalKey of this.storage.keys()) {
-        if (internalKey.startsWith(prefix)) {
-          keys.push(internalKey.substring(prefix.length));
-        }
-      }
-      
-      return keys;
+      await this.load();
+      return this.getInternalKeys().map(internalKey => internalKey.substring(this.getKeyPrefix().length));
     } catch (error) {
       console.error(`Storage keys error for plugin ${this.pluginId}:`, error);
       return [];
     }
   }
 
+  /**
+   * Apply several changes as one write. Nothing is stored when `work` throws
+   * or the result would exceed the quota.
+   */
+  async transaction<R>(work: (transaction: PluginStorageTransaction) => Promise<R>): Promise<R> {
+    return this.enqueue(async () => {
+      const staged = new Map(this.storage);
+      const transaction: PluginStorageTransaction = {
+        get: async <T>(key: string): Promise<T | null> => {
+          const value = staged.get(this.getInternalKey(key));
+          return value !== undefined ? this.deserializeValue(value) : null;
+        },
+        set: async <T>(key: string, value: T): Promise<void> => {
+          staged.set(this.getInternalKey(key), this.serializeValue(value));
+        },
+        delete: async (key: string): Promise<void> => {
+          staged.delete(this.getInternalKey(key));
+        },
+        keys: async (): Promise<string[]> => {
+          const prefix = this.getKeyPrefix();
+          return Array.from(staged.keys()).map(internalKey => internalKey.substring(prefix.length));
+        },
+        usage: async (keyPrefix: string = ''): Promise<number> => {
+          const internalPrefix = this.getInternalKey(keyPrefix);
+          return this.calculateUsage(new Map(Array.from(staged).filter(([internalKey]) => internalKey.startsWith(internalPrefix))));
+        }
+      };
+
+      const result = await work(transaction);
+      await this.commit(staged);
+      return result;
+    });
+  }
+
+  getInternalKeys(): string[] {
+    return Array.from(this.storage.keys());
+  }
+
   // Internal methods
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.driver.read(this.pluginId).then(entries => {
+        this.storage = new Map(Object.entries(entries).map(([key, value]) => [this.getInternalKey(key), value]));
+        this.used = this.calculateUsage(this.storage);
+        this.manager.updatePluginUsage(this.pluginId, this.used);
+      });
+      // Let the next operation retry a failed read
+      this.loaded.catch(() => {
+        this.loaded = undefined;
+      });
+    }
+    return this.loaded;
+  }
+
+  // Changes run one at a time, in the order they were made
+  private enqueue<R>(operation: () => Promise<R>, requiresEntries: boolean = true): Promise<R> {
+    const result = this.queue.then(async () => {
+      if (requiresEntries) {
+        await this.load();
+      }
+      return operation();
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async commit(staged: Map<string, any>): Promise<void> {
+    const used = this.calculateUsage(staged);
+
+    // Writes that shrink the storage are allowed even over the quota
+    if (used > this.quota && used > this.used) {
+      this.manager.recordQuotaViolation(this.pluginId);
+      throw new StorageQuotaExceededError(this.pluginId, used, this.quota);
+    }
+
+    const prefix = this.getKeyPrefix();
+    const entries: Record<string, unknown> = {};
+    for (const [internalKey, value] of staged) {
+      entries[internalKey.substring(prefix.length)] = value;
+    }
+    await this.driver.write(this.pluginId, entries);
+
+    this.storage = staged;
+    this.used = used;
+
+    // Update manager statistics
+    this.manager.updatePluginUsage(this.pluginId, this.used);
+  }
+
   private getKeyPrefix(): string {
     return `plugin:${this.pluginId}:`;
   }
@@ -164,9 +257,19 @@ class IsolatedPluginStorage implements PluginStorage {
     }
   }
 
+  // Bytes of UTF-8 JSON each entry takes up, key included
+  private calculateUsage(entries: Map<string, any>): number {
+    const prefixLength = this.getKeyPrefix().length;
+    let used = 0;
+    for (const [internalKey, value] of entries) {
+      used += byteLength(internalKey.substring(prefixLength)) + this.calculateSize(value);
+    }
+    return used;
+  }
+
   private calculateSize(value: any): number {
     try {
-      return JSON.stringify(value).length;
+      return byteLength(JSON.stringify(value) ?? 'null');
     } catch (error) {
       console.error('Size calculation error:', error);
       return 0;
@@ -186,7 +289,12 @@ class IsolatedPluginStorage implements PluginStorage {
   }
 }
 
+/**
+ * Hands out isolated, quota-limited storage per plugin on top of a storage
+ * driver; by default JSON files under data/plugin-storage/ on the server
+ */
 export class PluginStorageManager implements IPluginStorageManager {
+  private driver: IPluginStorageDriver;
   private pluginStorages: Map<string, IsolatedPluginStorage> = new Map();
   private quotas: Map<string, number> = new Map();
   private usageStats: Map<string, number> = new Map();
@@ -195,7 +303,8 @@ export class PluginStorageManager implements IPluginStorageManager {
   private corruptedPlugins: Set<string> = new Set();
   private failedPlugins: Set<string> = new Set();
 
-  constructor() {
+  constructor(driver?: IPluginStorageDriver) {
+    this.driver = driver || createPluginStorageDriver();
     this.initializeManager();
   }
 
@@ -204,8 +313,19 @@ export class PluginStorageManager implements IPluginStorageManager {
   }
 
   getPluginStorage(pluginId: string): PluginStorage {
+    const storage = this.getIsolatedStorage(pluginId);
+    
+    // Return fallback storage if plugin is corrupted
+    if (this.corruptedPlugins.has(pluginId)) {
+      return this.createFallbackStorage(pluginId);
+    }
+    
+    return storage;
+  }
+
+  private getIsolatedStorage(pluginId: string): IsolatedPluginStorage {
     if (!this.pluginStorages.has(pluginId)) {
-      const storage = new IsolatedPluginStorage(pluginId, this);
+      const storage = new IsolatedPluginStorage(pluginId, this, this.driver);
       
       // Apply existing quota if any
       const quota = this.quotas.get(pluginId);
@@ -217,14 +337,7 @@ export class PluginStorageManager implements IPluginStorageManager {
       this.usageStats.set(pluginId, 0);
     }
 
-    const storage = this.pluginStorages.get(pluginId)!;
-    
-    // Return fallback storage if plugin is corrupted
-    if (this.corruptedPlugins.has(pluginId)) {
-      return this.createFallbackStorage(pluginId);
-    }
-    
-    return storage;
+    return this.pluginStorages.get(pluginId)!;
   }
 
   async clearPluginStorage(pluginId: string): Promise<void> {
@@ -232,6 +345,8 @@ export class PluginStorageManager implements IPluginStorageManager {
       const storage = this.pluginStorages.get(pluginId);
       if (storage) {
         await storage.clear();
+      } else {
+        await this.driver.remove(pluginId);
       }
       
       // Clean up related data
@@ -267,11 +382,24 @@ export class PluginStorageManager implements IPluginStorageManager {
     }
   }
 
-  // Internal method called by IsolatedPluginStorage
+  // Internal methods called by IsolatedPluginStorage
   updatePluginUsage(pluginId: string, usage: number): void {
     this.usageStats.set(pluginId, usage);
   }
 
+  recordQuotaViolation(pluginId: string): void {
+    this.quotaViolations++;
+    console.warn(`Storage quota exceeded for plugin: ${pluginId}`);
+  }
+
+  /**
+   * Run several reads and writes against a plugin's storage and store the
+   * result in a single write
+   */
+  transaction<R>(pluginId: string, work: (transaction: PluginStorageTransaction) => Promise<R>): Promise<R> {
+    return this.getIsolatedStorage(pluginId).transaction(work);
+  }
+
   // Administrative and utility methods
   getStorageUsage(pluginId: string): { used: number; quota: number; percentage: number } {
     const storage = this.pluginStorages.get(pluginId);
@@ -320,13 +448,7 @@ export class PluginStorageManager implements IPluginStorageManager {
     const allKeys: string[] = [];
     
     for (const storage of this.pluginStorages.values()) {
-      try {
-        // Access internal storage keys
-        const internalKeys = Array.from((storage as any).storage.keys());
-        allKeys.push(...(internalKeys as string[]));
-      } catch (error) {
-        console.error('Error accessing storage keys:', error);
-      }
+      allKeys.push(...storage.getInternalKeys());
     }
     
     return allKeys;
@@ -428,41 +550,44 @@ export class PluginStorageManager implements IPluginStorageManager {
     });
   }
 
-  exportPluginData(pluginId: string): Promise<Record<string, any>> {
-    return new Promise(async (resolve) => {
-      try {
-        const storage = this.getPluginStorage(pluginId);
-        const keys = await storage.keys();
+  async exportPluginData(pluginId: string): Promise<Record<string, any>> {
+    try {
+      // Read through a transaction so the export sees a consistent set of keys
+      return await this.transaction(pluginId, async transaction => {
         const data: Record<string, any> = {};
-        
-        for (const key of keys) {
-          data[key] = await storage.get(key);
+        for (const key of await transaction.keys()) {
+          data[key] = await transaction.get(key);
         }
-        
-        resolve(data);
-      } catch (error) {
-        console.error(`Error exporting data for plugin ${pluginId}:`, error);
-        resolve({});
-      }
-    });
+        return data;
+      });
+    } catch (error) {
+      console.error(`Error exporting data for plugin ${pluginId}:`, error);
+      return {};
+    }
   }
 
-  importPluginData(pluginId: string, data: Record<string, any>): Promise<void> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        const storage = this.getPluginStorage(pluginId);
-        
+  /**
+   * Store exported data in one write, merged into the existing entries or,
+   * with `replace`, instead of them
+   */
+  async importPluginData(pluginId: string, data: Record<string, any>, options: { replace?: boolean } = {}): Promise<void> {
+    try {
+      await this.transaction(pluginId, async transaction => {
+        if (options.replace) {
+          for (const key of await transaction.keys()) {
+            await transaction.delete(key);
+          }
+        }
         for (const [key, value] of Object.entries(data)) {
-          await storage.set(key, value);
+          await transaction.set(key, value);
         }
-        
-        console.log(`Imported data for plugin: ${pluginId}`);
-        resolve();
-      } catch (error) {
-        console.error(`Error importing data for plugin ${pluginId}:`, error);
-        reject(error);
-      }
-    });
+      });
+
+      console.log(`Imported data for plugin: ${pluginId}`);
+    } catch (error) {
+      console.error(`Error importing data for plugin ${pluginId}:`, error);
+      throw error;
+    }
   }
 
   // Cleanup and destruction
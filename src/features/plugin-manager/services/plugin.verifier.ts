@@ -1,4 +1,7 @@
-import { PluginManifest } from '../../../shared';
+import * as crypto from 'crypto';
+import { PluginManifest, PluginPackage } from '../../../shared';
+import { createLogger } from '../../../core/logger';
+import { TrustedKeyStore } from './trusted-key.store';
 
 export interface VerificationResult {
   isValid: boolean;
@@ -6,7 +9,138 @@ export interface VerificationResult {
   warnings: string[];
 }
 
+export interface SignatureVerificationResult {
+  isValid: boolean;
+  keyId?: string;
+  error?: string;
+}
+
+export interface PluginVerifierOptions {
+  trustedKeys?: TrustedKeyStore;
+  allowUnsigned?: boolean; // Dev-mode override, defaults to PLUGIN_ALLOW_UNSIGNED=true; never honoured in production
+}
+
+export class PluginSignatureError extends Error {
+  readonly pluginId: string;
+
+  constructor(pluginId: string, reason: string = 'Invalid signature') {
+    super(`Plugin verification failed: ${reason}`);
+    this.name = 'PluginSignatureError';
+    this.pluginId = pluginId;
+  }
+}
+
+const SIGNATURE_PATTERN = /^([A-Za-z0-9._-]+):([A-Za-z0-9+/]+={0,2})$/;
+
+/**
+ * Bytes covered by a plugin signature: the SHA-256 of the code and of the
+ * canonical (key-sorted) JSON of the manifest, one per line
+ */
+export function createSignaturePayload(pluginPackage: Pick<PluginPackage, 'code' | 'manifest'>): Buffer {
+  const codeHash = crypto.createHash('sha256').update(pluginPackage.code, 'utf8').digest('hex');
+  const manifestHash = crypto.createHash('sha256').update(canonicalJson(pluginPackage.manifest), 'utf8').digest('hex');
+  return Buffer.from(`${codeHash}\n${manifestHash}`, 'utf8');
+}
+
+/**
+ * Sign a plugin package, returning the `<key-id>:<base64 signature>` string
+ * expected in the manifest's `signature` field
+ */
+export function signPluginPackage(
+  pluginPackage: Pick<PluginPackage, 'code' | 'manifest'>,
+  privateKey: crypto.KeyObject | string | Buffer,
+  keyId: string
+): string {
+  const key = privateKey instanceof crypto.KeyObject ? privateKey : crypto.createPrivateKey(privateKey);
+  const signature = crypto.sign(key.asymmetricKeyType === 'ed25519' ? null : 'sha256', createSignaturePayload(pluginPackage), key);
+  return `${keyId}:${signature.toString('base64')}`;
+}
+
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      const record = nested as Record<string, unknown>;
+      return Object.keys(record).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = record[key];
+        return sorted;
+      }, {});
+    }
+    return nested;
+  });
+}
+
 export class PluginVerifier {
+  private logger = createLogger('PluginVerifier');
+  private readonly trustedKeys: TrustedKeyStore;
+  private readonly allowUnsigned: boolean;
+
+  constructor(options: PluginVerifierOptions = {}) {
+    this.trustedKeys = options.trustedKeys || new TrustedKeyStore();
+
+    const allowUnsigned = options.allowUnsigned ?? process.env.PLUGIN_ALLOW_UNSIGNED === 'true';
+    if (allowUnsigned && process.env.NODE_ENV === 'production') {
+      this.logger.warn('Ignoring unsigned plugin override in production');
+      this.allowUnsigned = false;
+    } else {
+      this.allowUnsigned = allowUnsigned;
+    }
+  }
+
+  /**
+   * Check a package's signature against the trusted keys
+   */
+  checkPluginSignature(pluginPackage: PluginPackage): SignatureVerificationResult {
+    if (!pluginPackage.signature) {
+      return { isValid: false, error: 'Plugin is not signed' };
+    }
+
+    const match = SIGNATURE_PATTERN.exec(pluginPackage.signature.trim());
+    if (!match) {
+      return { isValid: false, error: 'Malformed signature, expected <key-id>:<base64 signature>' };
+    }
+
+    const keyId = match[1]!;
+    const trustedKey = this.trustedKeys.getKey(keyId);
+    if (!trustedKey) {
+      return { isValid: false, keyId, error: `Signing key ${keyId} is not trusted` };
+    }
+
+    try {
+      const isValid = crypto.verify(
+        trustedKey.type === 'ed25519' ? null : 'sha256',
+        createSignaturePayload(pluginPackage),
+        trustedKey.key,
+        Buffer.from(match[2]!, 'base64')
+      );
+      return isValid ? { isValid, keyId } : { isValid, keyId, error: 'Signature does not match plugin code and manifest' };
+    } catch (error) {
+      return { isValid: false, keyId, error: `Signature check failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  /**
+   * Verify a package's signature. With the dev-mode override enabled, packages
+   * that fail verification are accepted with a warning.
+   */
+  async verifyPluginSignature(pluginPackage: PluginPackage): Promise<boolean> {
+    const result = this.checkPluginSignature(pluginPackage);
+    if (result.isValid) {
+      this.logger.debug('Plugin signature verified', { pluginId: pluginPackage.id, keyId: result.keyId });
+      return true;
+    }
+
+    if (this.allowUnsigned) {
+      this.logger.warn('Accepting plugin without a valid signature (PLUGIN_ALLOW_UNSIGNED)', {
+        pluginId: pluginPackage.id,
+        reason: result.error
+      });
+      return true;
+    }
+
+    this.logger.warn('Plugin signature rejected', { pluginId: pluginPackage.id, keyId: result.keyId, reason: result.error });
+    return false;
+  }
+
   /**
    * Verify plugin manifest and files
    */
@@ -41,9 +175,8 @@ export class PluginVerifier {
       warnings.push('Plugin author information is recommended');
     }
 
-    // Basic signature verification (placeholder implementation)
-    // Note: PluginManifest doesn't have a signature field, so we'll skip this for now
-    warnings.push('Plugin signature verification not implemented - consider adding signature support');
+    // Signatures cover the code as well as the manifest, so they are checked
+    // on the whole package by verifyPluginSignature
 
     return {
       isValid: errors.length === 0,
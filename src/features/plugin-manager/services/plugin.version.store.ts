@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PluginPackage } from '../../../shared';
+import { createLogger } from '../../../core/logger';
+import { getDataDirectory } from '../../../shared/utils/data-directory';
+import { writeFileAtomic } from '../../../shared/utils/atomic-file';
+import { compareVersions, isValidVersion } from '../../../shared/utils/semver';
+
+const PLUGIN_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export function getPluginVersionsDirectory(): string {
+  return path.join(getDataDirectory(), 'plugin-versions');
+}
+
+/**
+ * Snapshots of installed plugin packages (code + manifest), stored as
+ * `<plugin-id>/<version>.json`. The installed version is activated from its
+ * snapshot, and the previous one is kept so an upgrade can be rolled back.
+ */
+export class PluginVersionStore {
+  private logger = createLogger('PluginVersionStore');
+
+  constructor(private readonly resolveDirectory: () => string = getPluginVersionsDirectory) {}
+
+  async saveVersion(pluginPackage: PluginPackage): Promise<void> {
+    const filePath = this.getVersionPath(pluginPackage.id, pluginPackage.version);
+    await writeFileAtomic(filePath, JSON.stringify(pluginPackage));
+
+    this.logger.debug('Plugin version saved', { pluginId: pluginPackage.id, version: pluginPackage.version });
+  }
+
+  async getVersion(pluginId: string, version: string): Promise<PluginPackage | undefined> {
+    if (!PLUGIN_ID_PATTERN.test(pluginId) || !isValidVersion(version)) {
+      return undefined;
+    }
+
+    try {
+      const contents = await fs.promises.readFile(this.getVersionPath(pluginId, version), 'utf8');
+      return JSON.parse(contents) as PluginPackage;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Unreadable plugin version snapshot', { pluginId, version, error });
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Stored versions of a plugin, lowest first
+   */
+  async listVersions(pluginId: string): Promise<string[]> {
+    try {
+      const files = await fs.promises.readdir(this.getPluginDirectory(pluginId));
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.slice(0, -'.json'.length))
+        .filter(version => isValidVersion(version))
+        .sort(compareVersions);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Delete every stored version of a plugin except the given ones
+   */
+  async pruneVersions(pluginId: string, keep: string[]): Promise<void> {
+    for (const version of await this.listVersions(pluginId)) {
+      if (!keep.includes(version)) {
+        await fs.promises.rm(this.getVersionPath(pluginId, version), { force: true });
+        this.logger.debug('Pruned plugin version', { pluginId, version });
+      }
+    }
+  }
+
+  async removePlugin(pluginId: string): Promise<void> {
+    if (!PLUGIN_ID_PATTERN.test(pluginId)) {
+      return;
+    }
+    await fs.promises.rm(this.getPluginDirectory(pluginId), { recursive: true, force: true });
+  }
+
+  private getPluginDirectory(pluginId: string): string {
+    if (!PLUGIN_ID_PATTERN.test(pluginId)) {
+      throw new Error(`Invalid plugin id: ${pluginId}`);
+    }
+    return path.join(path.resolve(this.resolveDirectory()), pluginId);
+  }
+
+  private getVersionPath(pluginId: string, version: string): string {
+    if (!isValidVersion(version)) {
+      throw new Error(`Invalid version for plugin ${pluginId}: ${version}`);
+    }
+    return path.join(this.getPluginDirectory(pluginId), `${version}.json`);
+  }
+}
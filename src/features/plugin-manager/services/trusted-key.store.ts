@@ -0,0 +1,132 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createLogger } from '../../../core/logger';
+
+export type TrustedKeyType = 'ed25519' | 'rsa';
+
+export interface TrustedKey {
+  keyId: string;
+  type: TrustedKeyType;
+  key: crypto.KeyObject;
+  source: string; // File the key was loaded from, or 'memory' for keys added at runtime
+}
+
+const KEY_FILE_EXTENSIONS = ['.pem', '.pub'];
+const KEY_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+// Trusted public keys directory, overridable with PLUGIN_TRUSTED_KEYS_DIRECTORY
+export function getTrustedKeysDirectory(): string {
+  return process.env.PLUGIN_TRUSTED_KEYS_DIRECTORY
+    ? path.resolve(process.env.PLUGIN_TRUSTED_KEYS_DIRECTORY)
+    : path.join(process.cwd(), 'config', 'trusted-keys');
+}
+
+/**
+ * Public keys that plugin signatures are checked against. Each `<key-id>.pem`
+ * (or `.pub`) file in the trusted keys directory holds one Ed25519 or RSA
+ * public key; the file name is the key id referenced by plugin signatures.
+ */
+export class TrustedKeyStore {
+  private keys: Map<string, TrustedKey> = new Map();
+  private loaded = false;
+  private logger = createLogger('TrustedKeyStore');
+
+  constructor(private readonly resolveDirectory: () => string = getTrustedKeysDirectory) {}
+
+  getDirectory(): string {
+    return path.resolve(this.resolveDirectory());
+  }
+
+  /**
+   * Reload keys from the trusted keys directory. Keys added at runtime are kept.
+   */
+  refresh(): void {
+    const directory = this.getDirectory();
+    this.loaded = true;
+
+    for (const [keyId, trustedKey] of this.keys) {
+      if (trustedKey.source !== 'memory') {
+        this.keys.delete(keyId);
+      }
+    }
+
+    if (!fs.existsSync(directory)) {
+      this.logger.debug('Trusted keys directory does not exist', { directory });
+      return;
+    }
+
+    const files = fs.readdirSync(directory)
+      .filter(file => KEY_FILE_EXTENSIONS.includes(path.extname(file)))
+      .sort();
+
+    for (const file of files) {
+      const keyId = path.basename(file, path.extname(file));
+      const source = path.join(directory, file);
+      try {
+        this.setKey(keyId, fs.readFileSync(source, 'utf8'), source);
+      } catch (error) {
+        this.logger.warn('Skipping unusable trusted key', {
+          file: source,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    this.logger.debug('Trusted keys loaded', { directory, keyIds: this.getKeyIds() });
+  }
+
+  getKey(keyId: string): TrustedKey | undefined {
+    this.ensureLoaded();
+    return this.keys.get(keyId);
+  }
+
+  getKeyIds(): string[] {
+    this.ensureLoaded();
+    return Array.from(this.keys.keys());
+  }
+
+  /**
+   * Trust a public key (PEM string or KeyObject) for this process only
+   */
+  addKey(keyId: string, publicKey: string | crypto.KeyObject): TrustedKey {
+    this.ensureLoaded();
+    return this.setKey(keyId, publicKey, 'memory');
+  }
+
+  removeKey(keyId: string): boolean {
+    this.ensureLoaded();
+    return this.keys.delete(keyId);
+  }
+
+  private setKey(keyId: string, publicKey: string | crypto.KeyObject, source: string): TrustedKey {
+    if (!KEY_ID_PATTERN.test(keyId)) {
+      throw new Error(`Invalid key id "${keyId}": use letters, numbers, dots, dashes and underscores`);
+    }
+
+    // createPublicKey would quietly derive a public key from a private one
+    if (typeof publicKey === 'string' && publicKey.includes('PRIVATE KEY')) {
+      throw new Error(`Key "${keyId}" is a private key; only public keys can be trusted`);
+    }
+
+    const key = typeof publicKey === 'string' ? crypto.createPublicKey(publicKey) : publicKey;
+    if (key.type !== 'public') {
+      throw new Error(`Key "${keyId}" is not a public key`);
+    }
+
+    const type = key.asymmetricKeyType;
+    if (type !== 'ed25519' && type !== 'rsa') {
+      throw new Error(`Key "${keyId}" has unsupported type ${type}; expected ed25519 or rsa`);
+    }
+
+    const trustedKey: TrustedKey = { keyId, type, key, source };
+    this.keys.set(keyId, trustedKey);
+    return trustedKey;
+  }
+
+  private ensureLoaded(): void {
+    if (!this.loaded) {
+      this.refresh();
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import { DependencyResolver, DependencyCycleError } from '../services/dependency.resolver';
+import { PluginDependency, PluginInfo, PluginStatus } from '../../../shared/types';
+
+// Registry catalogue the mocked plugins module reads from
+const mockCatalog: Record<string, { version: string; dependencies: PluginDependency[] }> = {};
+
+jest.mock('../../../plugins', () => ({
+  validatePlugin: jest.fn((pluginId: string) => pluginId in mockCatalog),
+  getPluginInfo: jest.fn((pluginId: string) =>
+    mockCatalog[pluginId] ? { id: pluginId, version: mockCatalog[pluginId]!.version } : undefined),
+  getPluginDependencies: jest.fn((pluginId: string) => mockCatalog[pluginId]?.dependencies || [])
+}));
+
+const dep = (id: string, version: string = '*', required: boolean = true): PluginDependency => ({ id, version, required });
+
+const addPlugin = (id: string, version: string, dependencies: PluginDependency[] = []) => {
+  mockCatalog[id] = { version, dependencies };
+};
+
+const installed = (id: string, version: string, dependencies: PluginDependency[] = []): PluginInfo => ({
+  id,
+  name: id,
+  version,
+  description: 'Installed plugin',
+  author: 'Test Author',
+  rating: 0,
+  downloads: 0,
+  dependencies,
+  permissions: [],
+  status: PluginStatus.INSTALLED
+});
+
+describe('DependencyResolver', () => {
+  let installedPlugins: PluginInfo[];
+  let resolver: DependencyResolver;
+
+  beforeEach(() => {
+    for (const id of Object.keys(mockCatalog)) {
+      delete mockCatalog[id];
+    }
+    installedPlugins = [];
+    resolver = new DependencyResolver(async () => installedPlugins);
+  });
+
+  describe('resolveDependencies', () => {
+    it('should resolve transitive dependencies from plugin manifests', async () => {
+      addPlugin('reading-core', '1.2.0');
+      addPlugin('reading-persistence', '1.0.0', [dep('reading-core', '^1.0.0')]);
+      addPlugin('reading-ui', '1.0.0', [dep('reading-persistence', '~1.0'), dep('reading-core', '^1.1.0')]);
+
+      const dependencies = await resolver.resolveDependencies('reading-ui');
+
+      // Dependencies come before the plugins that need them
+      expect(dependencies.map(d => d.id)).toEqual(['reading-core', 'reading-core', 'reading-persistence']);
+      expect(dependencies.map(d => d.version)).toEqual(['^1.0.0', '^1.1.0', '~1.0']);
+    });
+
+    it('should use declared dependencies for packages that are not in the registry', async () => {
+      addPlugin('reading-core', '1.0.0');
+
+      const dependencies = await resolver.resolveDependencies('new-plugin', [dep('reading-core', '^1.0.0')]);
+
+      expect(dependencies).toEqual([dep('reading-core', '^1.0.0')]);
+    });
+
+    it('should return no dependencies for unknown plugins', async () => {
+      await expect(resolver.resolveDependencies('unknown-plugin')).resolves.toEqual([]);
+    });
+
+    it('should report dependency cycles with the cycle path', async () => {
+      addPlugin('plugin-a', '1.0.0', [dep('plugin-b')]);
+      addPlugin('plugin-b', '1.0.0', [dep('plugin-c')]);
+      addPlugin('plugin-c', '1.0.0', [dep('plugin-a')]);
+
+      const resolution = resolver.resolveDependencies('plugin-a');
+
+      await expect(resolution).rejects.toThrow(DependencyCycleError);
+      await expect(resolution).rejects.toThrow('Circular dependency detected: plugin-a -> plugin-b -> plugin-c -> plugin-a');
+    });
+
+    it('should detect cycles that do not include the root plugin', async () => {
+      addPlugin('plugin-b', '1.0.0', [dep('plugin-c')]);
+      addPlugin('plugin-c', '1.0.0', [dep('plugin-b')]);
+
+      await expect(resolver.resolveDependencies('plugin-a', [dep('plugin-b')]))
+        .rejects.toThrow('Circular dependency detected: plugin-b -> plugin-c -> plugin-b');
+    });
+  });
+
+  describe('checkDependencyConflicts', () => {
+    it('should accept dependencies satisfied by the registry version', async () => {
+      addPlugin('reading-core', '1.4.0');
+
+      await expect(resolver.checkDependencyConflicts([dep('reading-core', '^1.0.0'), dep('reading-core', '>=1.2.0')]))
+        .resolves.toEqual([]);
+    });
+
+    it('should report ranges the installed version does not satisfy', async () => {
+      addPlugin('reading-core', '2.0.0');
+      installedPlugins = [installed('reading-core', '1.0.0')];
+
+      const conflicts = await resolver.checkDependencyConflicts([dep('reading-core', '^2.0.0')]);
+
+      expect(conflicts).toEqual([
+        "Version conflict for dependency 'reading-core': requires ^2.0.0 but 1.0.0 is installed"
+      ]);
+    });
+
+    it('should report incompatible ranges from different dependents', async () => {
+      addPlugin('reading-core', '1.5.0');
+
+      const conflicts = await resolver.checkDependencyConflicts([dep('reading-core', '^1.0.0'), dep('reading-core', '^2.0.0')]);
+
+      expect(conflicts).toEqual([
+        "Version conflict for dependency 'reading-core': requires ^2.0.0 but 1.5.0 is available"
+      ]);
+    });
+
+    it('should report missing required dependencies but not missing optional ones', async () => {
+      const conflicts = await resolver.checkDependencyConflicts([dep('missing-plugin', '^1.0.0'), dep('optional-plugin', '*', false)]);
+
+      expect(conflicts).toEqual(["Missing dependency 'missing-plugin': requires ^1.0.0 but it is not available"]);
+    });
+
+    it('should report invalid version ranges', async () => {
+      addPlugin('reading-core', '1.0.0');
+
+      const conflicts = await resolver.checkDependencyConflicts([dep('reading-core', 'newest please')]);
+
+      expect(conflicts[0]).toContain("Invalid version range for dependency 'reading-core'");
+    });
+  });
+
+  describe('getInstallOrder', () => {
+    it('should order plugins so dependencies are installed first', async () => {
+      addPlugin('base', '1.0.0');
+      addPlugin('middle', '1.0.0', [dep('base')]);
+      addPlugin('top', '1.0.0', [dep('middle'), dep('base')]);
+
+      await expect(resolver.getInstallOrder([dep('top'), dep('base')])).resolves.toEqual(['base', 'middle', 'top']);
+    });
+
+    it('should use recorded dependencies of installed plugins that left the registry', async () => {
+      addPlugin('base', '1.0.0');
+      installedPlugins = [installed('legacy', '1.0.0', [dep('base')])];
+
+      await expect(resolver.getInstallOrder([dep('legacy')])).resolves.toEqual(['base', 'legacy']);
+    });
+
+    it('should reject cyclic dependency graphs', async () => {
+      addPlugin('plugin-a', '1.0.0', [dep('plugin-b')]);
+      addPlugin('plugin-b', '1.0.0', [dep('plugin-a')]);
+
+      await expect(resolver.getInstallOrder([dep('plugin-a')])).rejects.toThrow(DependencyCycleError);
+    });
+  });
+});
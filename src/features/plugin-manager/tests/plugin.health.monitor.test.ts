@@ -0,0 +1,139 @@
+import { PluginHealthMonitor } from '../services/plugin.health.monitor';
+import { eventBus } from '../../../core/event-bus';
+import { AlertSeverity, PluginStatus, SystemAlert } from '../../../shared/types';
+
+describe('PluginHealthMonitor', () => {
+  let monitor: PluginHealthMonitor;
+  let alerts: SystemAlert[];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    monitor = new PluginHealthMonitor();
+    alerts = [];
+    monitor.subscribeToAlerts(alert => alerts.push(alert));
+  });
+
+  afterEach(() => {
+    monitor.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should start without any plugins', () => {
+    expect(monitor.getDetailedPluginMetrics()).toEqual([]);
+    expect(monitor.getSystemHealthSummary().totalPlugins).toBe(0);
+  });
+
+  it('should track activation times of enabled plugins', () => {
+    monitor.recordActivation('clock', 100, '1.2.0');
+    monitor.recordActivation('clock', 300);
+
+    const [metrics] = monitor.getDetailedPluginMetrics('clock');
+    expect(metrics).toMatchObject({
+      pluginId: 'clock',
+      version: '1.2.0',
+      status: PluginStatus.ENABLED,
+      averageResponseTime: 200,
+      performance: 1,
+      healthScore: 1
+    });
+    expect(alerts).toEqual([]);
+  });
+
+  it('should count plugin failures and widget errors published on the event bus', async () => {
+    monitor.recordActivation('clock', 50);
+
+    await eventBus.publish('admin.plugin.failure', { pluginId: 'clock', error: { message: 'boom' } });
+    await eventBus.publish('plugin.widget.error', { widgetId: 'clock-widget', pluginId: 'clock', error: 'render failed' });
+
+    expect(monitor.getDetailedPluginMetrics('clock')[0]?.errors).toBe(2);
+  });
+
+  it('should auto-disable a plugin that crosses a threshold and raise an alert', async () => {
+    const disabled: string[][] = [];
+    monitor.setAutoDisableHandler((pluginId, reasons) => {
+      disabled.push([pluginId, ...reasons]);
+    });
+    monitor.updateThresholds({ maxErrors: 2 });
+    monitor.recordActivation('clock', 50);
+
+    monitor.recordError('clock');
+    monitor.recordError('clock');
+    await Promise.resolve();
+
+    expect(monitor.getDetailedPluginMetrics('clock')[0]?.status).toBe(PluginStatus.DISABLED);
+    expect(disabled).toEqual([['clock', 'Plugin clock has high error count: 2', 'Plugin clock health score critical: 0.5']]);
+    expect(alerts.map(alert => alert.severity)).toEqual([AlertSeverity.ERROR, AlertSeverity.CRITICAL, AlertSeverity.CRITICAL]);
+    expect(alerts[2]?.message).toBe(
+      'Plugin clock was disabled automatically: Plugin clock has high error count: 2; Plugin clock health score critical: 0.5'
+    );
+
+    // Already disabled plugins are neither disabled nor alerted about again
+    monitor.recordError('clock');
+    await Promise.resolve();
+    expect(disabled).toHaveLength(1);
+    expect(alerts).toHaveLength(3);
+  });
+
+  it('should auto-disable plugins whose activation is too slow', async () => {
+    const handler = jest.fn();
+    monitor.setAutoDisableHandler(handler);
+
+    monitor.recordActivation('slow', 1500);
+    await Promise.resolve();
+
+    expect(handler).toHaveBeenCalledWith('slow', expect.arrayContaining(['Plugin slow activation is slow: 1500ms']));
+    expect(monitor.getDetailedPluginMetrics('slow')[0]?.performance).toBe(0);
+  });
+
+  it('should start error and crash counts afresh when a plugin is enabled again', () => {
+    monitor.updateThresholds({ maxCrashCount: 2 });
+    monitor.recordActivationFailure('flaky');
+    monitor.recordActivationFailure('flaky');
+    expect(monitor.getDetailedPluginMetrics('flaky')[0]).toMatchObject({ status: PluginStatus.DISABLED, crashCount: 2 });
+
+    monitor.recordActivation('flaky', 20);
+
+    expect(monitor.getDetailedPluginMetrics('flaky')[0]).toMatchObject({ status: PluginStatus.ENABLED, crashCount: 0, errors: 0 });
+  });
+
+  it('should sample storage usage and event throughput from its sources', () => {
+    const publisherStats: Record<string, number> = { chatty: 10 };
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    monitor.attachSources({
+      storageManager: { getStorageUsage: () => ({ used: 2 * 1024 * 1024 }) },
+      eventBus: { getEventStatistics: () => ({ publisherStats } as any) }
+    });
+    monitor.recordActivation('chatty', 10);
+
+    monitor.performHealthCheck();
+    publisherStats.chatty = 40;
+    now.mockReturnValue(1_030_000);
+    monitor.performHealthCheck();
+
+    expect(monitor.getDetailedPluginMetrics('chatty')[0]).toMatchObject({
+      storageUsage: 2,
+      eventThroughput: 60,
+      uptime: 30
+    });
+  });
+
+  it('should report storage and event volume over the thresholds', async () => {
+    const handler = jest.fn();
+    monitor.setAutoDisableHandler(handler);
+    monitor.updateThresholds({ maxStorageUsage: 1 });
+    monitor.attachSources({ storageManager: { getStorageUsage: () => ({ used: 3 * 1024 * 1024 }) } });
+    monitor.recordActivation('hoarder', 10);
+
+    monitor.performHealthCheck();
+    await Promise.resolve();
+
+    expect(handler).toHaveBeenCalledWith('hoarder', ['Plugin hoarder using excessive storage: 3MB']);
+  });
+
+  it('should forget unregistered plugins', () => {
+    monitor.recordActivation('clock', 10);
+    monitor.unregisterPlugin('clock');
+
+    expect(monitor.getDetailedPluginMetrics('clock')).toEqual([]);
+  });
+});
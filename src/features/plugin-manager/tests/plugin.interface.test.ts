@@ -1,5 +1,5 @@
 import { IPluginManager, IPluginAPI, IPluginSandbox } from '../interfaces/plugin.interface';
-import { PluginInfo, PluginPackage, InstallResult, PluginStatus } from '../../../shared/types';
+import { PluginInfo, PluginPackage, InstallResult, PluginStatus, PluginUpdateInfo, UpdateResult } from '../../../shared/types';
 
 describe('Plugin Management Interfaces', () => {
   describe('IPluginManager', () => {
@@ -13,6 +13,9 @@ describe('Plugin Management Interfaces', () => {
         getInstalledPlugins: jest.fn() as () => Promise<PluginInfo[]>,
         resolveDependencies: jest.fn() as (pluginId: string) => Promise<any[]>,
         downloadAndVerifyPlugin: jest.fn() as (pluginId: string) => Promise<PluginPackage>,
+        checkForUpdates: jest.fn() as () => Promise<PluginUpdateInfo[]>,
+        updatePlugin: jest.fn() as (pluginId: string) => Promise<UpdateResult>,
+        rollbackPlugin: jest.fn() as (pluginId: string) => Promise<UpdateResult>,
         handlePluginFailure: jest.fn() as (pluginId: string, error: Error) => void,
       };
 
@@ -24,6 +27,9 @@ describe('Plugin Management Interfaces', () => {
       expect(typeof mockPluginManager.getInstalledPlugins).toBe('function');
       expect(typeof mockPluginManager.resolveDependencies).toBe('function');
       expect(typeof mockPluginManager.downloadAndVerifyPlugin).toBe('function');
+      expect(typeof mockPluginManager.checkForUpdates).toBe('function');
+      expect(typeof mockPluginManager.updatePlugin).toBe('function');
+      expect(typeof mockPluginManager.rollbackPlugin).toBe('function');
       expect(typeof mockPluginManager.handlePluginFailure).toBe('function');
     });
 
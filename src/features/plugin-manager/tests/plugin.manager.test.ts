@@ -3,14 +3,22 @@ import { PluginInfo, PluginPackage, InstallResult, PluginStatus } from '../../..
 import { DashboardWidget } from '../../../shared/types';
 
 // Mock dependencies
-jest.mock('../services/dependency.resolver');
-jest.mock('../services/plugin.verifier');
+// Keep the real error classes so tests can assert on them
+jest.mock('../services/dependency.resolver', () => ({
+  ...jest.requireActual('../services/dependency.resolver'),
+  DependencyResolver: jest.fn()
+}));
+jest.mock('../services/plugin.verifier', () => ({
+  ...jest.requireActual('../services/plugin.verifier'),
+  PluginVerifier: jest.fn()
+}));
 
 // Mock the modular plugin registry
 jest.mock('../../../plugins', () => ({
-  PLUGIN_REGISTRY: {},
   discoverPlugins: jest.fn(),
   getPluginInfo: jest.fn(),
+  getPluginPackage: jest.fn(),
+  getPluginsDirectory: () => require('path').join(process.cwd(), 'src', 'plugins'),
   validatePlugin: jest.fn()
 }));
 
@@ -35,7 +43,8 @@ const mockPluginRegistry = {
 };
 
 // Import the mocked functions
-import { discoverPlugins, getPluginInfo, validatePlugin } from '../../../plugins';
+import { discoverPlugins, getPluginInfo, getPluginPackage, validatePlugin } from '../../../plugins';
+import { DependentPluginsError } from '../services/dependency.resolver';
 
 describe('PluginManager', () => {
   let pluginManager: PluginManager;
@@ -165,15 +174,83 @@ describe('PluginManager', () => {
       mockPluginVerifier.validatePluginManifest.mockResolvedValue({ isValid: true, errors: [] });
       mockPluginVerifier.checkSecurityCompliance.mockResolvedValue({ isCompliant: true, violations: [] });
       mockDependencyResolver.resolveDependencies.mockResolvedValue([
-        { id: 'dependency-1', version: '1.0.0', required: true }
+        { id: 'dependency-1', version: '^1.0.0', required: true }
       ]);
+      mockDependencyResolver.checkDependencyConflicts.mockResolvedValue([]);
+      mockDependencyResolver.getInstallOrder.mockResolvedValue(['dependency-1']);
+      (validatePlugin as jest.Mock).mockReturnValue(true);
+      (getPluginPackage as jest.Mock).mockReturnValue({
+        ...mockPluginPackage,
+        id: 'dependency-1',
+        manifest: { ...mockPluginPackage.manifest, id: 'dependency-1', name: 'Dependency 1' }
+      });
       mockPluginRegistry.addInstalledPlugin.mockResolvedValue(undefined);
 
       const result = await pluginManager.installPlugin(mockPluginPackage);
 
       expect(result.success).toBe(true);
       expect(result.dependenciesInstalled).toEqual(['dependency-1']);
-      expect(mockDependencyResolver.resolveDependencies).toHaveBeenCalledWith('test-plugin');
+      expect(mockDependencyResolver.resolveDependencies).toHaveBeenCalledWith('test-plugin', []);
+      // The dependency is registered before the plugin that needs it
+      expect(mockPluginRegistry.addInstalledPlugin).toHaveBeenCalledTimes(2);
+      expect(mockPluginRegistry.addInstalledPlugin.mock.calls[0][0].id).toBe('dependency-1');
+      expect(mockPluginRegistry.addInstalledPlugin.mock.calls[1][0].id).toBe('test-plugin');
+    });
+
+    it('should skip dependencies that are already installed', async () => {
+      mockPluginVerifier.verifyPluginSignature.mockResolvedValue(true);
+      mockPluginVerifier.validatePluginManifest.mockResolvedValue({ isValid: true, errors: [] });
+      mockPluginVerifier.checkSecurityCompliance.mockResolvedValue({ isCompliant: true, violations: [] });
+      mockDependencyResolver.resolveDependencies.mockResolvedValue([
+        { id: 'dependency-1', version: '^1.0.0', required: true }
+      ]);
+      mockDependencyResolver.checkDependencyConflicts.mockResolvedValue([]);
+      mockDependencyResolver.getInstallOrder.mockResolvedValue(['dependency-1']);
+      mockPluginRegistry.getInstalledPlugins.mockResolvedValue([
+        { id: 'dependency-1', version: '1.2.0', dependencies: [], status: PluginStatus.INSTALLED }
+      ]);
+
+      const result = await pluginManager.installPlugin(mockPluginPackage);
+
+      expect(result.success).toBe(true);
+      expect(result.dependenciesInstalled).toEqual([]);
+      expect(mockPluginRegistry.addInstalledPlugin).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when dependency versions conflict', async () => {
+      mockPluginVerifier.verifyPluginSignature.mockResolvedValue(true);
+      mockPluginVerifier.validatePluginManifest.mockResolvedValue({ isValid: true, errors: [] });
+      mockPluginVerifier.checkSecurityCompliance.mockResolvedValue({ isCompliant: true, violations: [] });
+      mockDependencyResolver.resolveDependencies.mockResolvedValue([
+        { id: 'dependency-1', version: '^2.0.0', required: true }
+      ]);
+      mockDependencyResolver.checkDependencyConflicts.mockResolvedValue([
+        "Version conflict for dependency 'dependency-1': requires ^2.0.0 but 1.0.0 is installed"
+      ]);
+
+      const result = await pluginManager.installPlugin(mockPluginPackage);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Version conflict for dependency 'dependency-1'");
+      expect(mockPluginRegistry.addInstalledPlugin).not.toHaveBeenCalled();
+    });
+
+    it('should fail when a required dependency is not available', async () => {
+      mockPluginVerifier.verifyPluginSignature.mockResolvedValue(true);
+      mockPluginVerifier.validatePluginManifest.mockResolvedValue({ isValid: true, errors: [] });
+      mockPluginVerifier.checkSecurityCompliance.mockResolvedValue({ isCompliant: true, violations: [] });
+      mockDependencyResolver.resolveDependencies.mockResolvedValue([
+        { id: 'missing-plugin', version: '*', required: true }
+      ]);
+      mockDependencyResolver.checkDependencyConflicts.mockResolvedValue([]);
+      mockDependencyResolver.getInstallOrder.mockResolvedValue(['missing-plugin']);
+      (validatePlugin as jest.Mock).mockReturnValue(false);
+
+      const result = await pluginManager.installPlugin(mockPluginPackage);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Dependency missing-plugin is not available');
+      expect(mockPluginRegistry.addInstalledPlugin).not.toHaveBeenCalled();
     });
 
     it('should handle security compliance violations', async () => {
@@ -245,6 +322,37 @@ describe('PluginManager', () => {
 
       await expect(pluginManager.uninstallPlugin('nonexistent-plugin')).rejects.toThrow('Plugin not found');
     });
+
+    it('should refuse to uninstall a plugin that other plugins depend on', async () => {
+      mockPluginRegistry.getInstalledPlugins.mockResolvedValue([
+        { id: 'reading-core', dependencies: [], status: PluginStatus.INSTALLED },
+        { id: 'reading-ui', dependencies: [{ id: 'reading-core', version: '^1.0.0', required: true }], status: PluginStatus.INSTALLED }
+      ]);
+
+      const uninstall = pluginManager.uninstallPlugin('reading-core');
+
+      await expect(uninstall).rejects.toThrow(DependentPluginsError);
+      await expect(uninstall).rejects.toThrow('Cannot uninstall plugin reading-core: Required by reading-ui');
+      expect(mockPluginRegistry.removeInstalledPlugin).not.toHaveBeenCalled();
+    });
+
+    it('should uninstall dependents first when cascading', async () => {
+      let installed: any[] = [
+        { id: 'reading-core', dependencies: [], status: PluginStatus.INSTALLED },
+        { id: 'reading-persistence', dependencies: [{ id: 'reading-core', version: '*', required: true }], status: PluginStatus.INSTALLED },
+        { id: 'reading-ui', dependencies: [{ id: 'reading-persistence', version: '*', required: true }], status: PluginStatus.INSTALLED }
+      ];
+      mockPluginRegistry.getInstalledPlugins.mockImplementation(async () => installed);
+      mockPluginRegistry.removeInstalledPlugin.mockImplementation(async (pluginId: string) => {
+        installed = installed.filter(plugin => plugin.id !== pluginId);
+      });
+
+      await pluginManager.uninstallPlugin('reading-core', false, true);
+
+      expect(mockPluginRegistry.removeInstalledPlugin.mock.calls.map(call => call[0]))
+        .toEqual(['reading-ui', 'reading-persistence', 'reading-core']);
+      expect(installed).toEqual([]);
+    });
   });
 
   describe('getInstalledPlugins', () => {
@@ -1007,4 +1115,423 @@ describe('PluginManager', () => {
       expect(mockDashboardManager.registerWidget).toHaveBeenCalledTimes(1); // Called again after disable/re-enable
     });
   });
-}); 
\ No newline at end of file
+}); 
+describe('PluginManager plugin module loading', () => {
+  const fs = require('fs');
+  const os = require('os');
+  const path = require('path');
+
+  let pluginsDirectory: string;
+  let pluginManager: PluginManager;
+  let installedPlugins: PluginInfo[];
+
+  const writePlugin = (pluginId: string, manifest: Record<string, any>, files: Record<string, string>) => {
+    const pluginDirectory = path.join(pluginsDirectory, pluginId);
+    fs.mkdirSync(pluginDirectory, { recursive: true });
+    fs.writeFileSync(path.join(pluginDirectory, 'manifest.json'), JSON.stringify({ id: pluginId, ...manifest }));
+    for (const [fileName, contents] of Object.entries(files)) {
+      fs.writeFileSync(path.join(pluginDirectory, fileName), contents);
+    }
+  };
+
+  const installed = (id: string): PluginInfo => ({
+    id,
+    name: id,
+    version: '1.0.0',
+    description: 'Fixture plugin',
+    author: 'Test Author',
+    rating: 0,
+    downloads: 0,
+    dependencies: [],
+    permissions: [],
+    status: PluginStatus.INSTALLED
+  });
+
+  const activeHandle = (pluginId: string) => (pluginManager as any).activePlugins.get(pluginId);
+
+  beforeEach(() => {
+    pluginsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-plugins-'));
+    (getPluginInfo as jest.Mock).mockReturnValue(undefined);
+
+    installedPlugins = [];
+    const registry = {
+      getAvailablePlugins: jest.fn().mockResolvedValue([]),
+      getInstalledPlugins: jest.fn().mockImplementation(async () => installedPlugins),
+      addInstalledPlugin: jest.fn(),
+      removeInstalledPlugin: jest.fn(),
+      updatePluginStatus: jest.fn().mockImplementation(async (pluginId: string, status: PluginStatus) => {
+        const plugin = installedPlugins.find(p => p.id === pluginId);
+        if (plugin) {
+          plugin.status = status;
+        }
+      })
+    };
+
+    pluginManager = new PluginManager(registry);
+    (pluginManager as any).pluginsDirectory = pluginsDirectory;
+  });
+
+  afterEach(() => {
+    fs.rmSync(pluginsDirectory, { recursive: true, force: true });
+  });
+
+  it('should load a class plugin from the manifest entry point and run its lifecycle with the plugin API', async () => {
+    writePlugin('class-plugin', { main: 'main.js', permissions: ['settings:read'] }, {
+      'main.js': `
+        class ClassPlugin {
+          constructor(api) { this.api = api; this.calls = []; }
+          async initialize(api) { this.calls.push(['initialize', api === this.api, typeof api.settings.get]); }
+          async activate() { this.calls.push(['activate']); }
+          async deactivate() { this.calls.push(['deactivate']); }
+        }
+        module.exports = ClassPlugin;
+      `
+    });
+    installedPlugins.push(installed('class-plugin'));
+
+    await pluginManager.enablePlugin('class-plugin');
+
+    expect(activeHandle('class-plugin').calls).toEqual([['initialize', true, 'function'], ['activate']]);
+  });
+
+  it('should call deactivate on the loaded plugin when it is disabled', async () => {
+    writePlugin('class-plugin', { main: 'main.js' }, {
+      'main.js': `
+        module.exports = class {
+          constructor() { this.calls = []; }
+          async activate() { this.calls.push('activate'); }
+          async deactivate() { this.calls.push('deactivate'); }
+        };
+      `
+    });
+    installedPlugins.push(installed('class-plugin'));
+
+    await pluginManager.enablePlugin('class-plugin');
+    const handle = activeHandle('class-plugin');
+    await pluginManager.disablePlugin('class-plugin');
+
+    expect(handle.calls).toEqual(['activate', 'deactivate']);
+    expect((pluginManager as any).activePlugins.has('class-plugin')).toBe(false);
+  });
+
+  it('should run the lifecycle of the instance returned by a factory-style activate export', async () => {
+    writePlugin('factory-plugin', { entryPoint: 'factory.js' }, {
+      'factory.js': `
+        module.exports = {
+          activate: function(api) {
+            const calls = [];
+            return {
+              calls,
+              initialize: async (pluginApi) => { calls.push(['instance.initialize', pluginApi === api]); },
+              activate: async () => { calls.push(['instance.activate']); },
+              deactivate: async () => { calls.push(['instance.deactivate']); }
+            };
+          }
+        };
+      `
+    });
+    installedPlugins.push(installed('factory-plugin'));
+
+    await pluginManager.enablePlugin('factory-plugin');
+    const handle = activeHandle('factory-plugin');
+    await pluginManager.uninstallPlugin('factory-plugin');
+
+    expect(handle.calls).toEqual([
+      ['instance.initialize', true],
+      ['instance.activate'],
+      ['instance.deactivate']
+    ]);
+  });
+
+  it('should register the settings schema from the manifest on activation and drop it on uninstall', async () => {
+    writePlugin('settings-plugin', {
+      main: 'main.js',
+      settings: { refreshInterval: { type: 'integer', minimum: 1000, default: 5000 } }
+    }, {
+      'main.js': `module.exports = { activate: async () => {} };`
+    });
+    installedPlugins.push(installed('settings-plugin'));
+    const settingsService = (pluginManager as any).settingsService;
+
+    await pluginManager.enablePlugin('settings-plugin');
+
+    expect(settingsService.getSettingsSchema().plugins['settings-plugin']).toHaveProperty('refreshInterval.minimum', 1000);
+    await expect(settingsService.setPluginSetting('settings-plugin', 'refreshInterval', 10)).rejects.toThrow('must be at least 1000');
+
+    await pluginManager.uninstallPlugin('settings-plugin');
+    expect(settingsService.getSettingsSchema().plugins).not.toHaveProperty('settings-plugin');
+  });
+
+  it('should prefer the registry entry point over the manifest', async () => {
+    writePlugin('registry-plugin', { main: 'missing.js' }, {
+      'registry.js': `module.exports = { source: 'registry', activate: async () => {} };`
+    });
+    (getPluginInfo as jest.Mock).mockReturnValue({ id: 'registry-plugin', entryPoint: './registry-plugin/registry.js' });
+    installedPlugins.push(installed('registry-plugin'));
+
+    await pluginManager.enablePlugin('registry-plugin');
+
+    expect(activeHandle('registry-plugin').source).toBe('registry');
+  });
+
+  it('should keep the plugin enabled without a module handle when the entry point is missing', async () => {
+    writePlugin('broken-plugin', { main: 'missing.js' }, {});
+    installedPlugins.push(installed('broken-plugin'));
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    await expect(pluginManager.enablePlugin('broken-plugin')).resolves.not.toThrow();
+
+    expect(installedPlugins[0]?.status).toBe(PluginStatus.ENABLED);
+    expect((pluginManager as any).activePlugins.has('broken-plugin')).toBe(false);
+    consoleSpy.mockRestore();
+  });
+
+  it('should refuse to load entry points outside the plugins directory', async () => {
+    fs.writeFileSync(path.join(pluginsDirectory, '..', 'outside-plugin.js'), `module.exports = { activate: async () => {} };`);
+    (getPluginInfo as jest.Mock).mockReturnValue({ id: 'escape-plugin', entryPoint: '../outside-plugin.js' });
+    installedPlugins.push(installed('escape-plugin'));
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    await pluginManager.enablePlugin('escape-plugin');
+
+    expect((pluginManager as any).activePlugins.has('escape-plugin')).toBe(false);
+    expect(consoleSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to load and activate plugin escape-plugin'),
+      expect.objectContaining({ message: expect.stringContaining('outside the plugins directory') })
+    );
+    fs.rmSync(path.join(pluginsDirectory, '..', 'outside-plugin.js'), { force: true });
+    consoleSpy.mockRestore();
+  });
+
+  it('should only expose API capabilities declared in the plugin manifest', async () => {
+    writePlugin('scoped-plugin', { main: 'main.js', permissions: [{ name: 'settings:read' }] }, {
+      'main.js': `
+        module.exports = class {
+          constructor(api) { this.api = api; }
+          async activate() {
+            try {
+              await this.api.settings.set('theme', 'dark');
+            } catch (error) {
+              this.denied = { name: error.name, message: error.message };
+            }
+          }
+        };
+      `
+    });
+    installedPlugins.push(installed('scoped-plugin'));
+
+    await pluginManager.enablePlugin('scoped-plugin');
+
+    expect(activeHandle('scoped-plugin').denied).toEqual({
+      name: 'PluginPermissionError',
+      message: expect.stringContaining("without the 'settings:write' permission")
+    });
+    expect((pluginManager as any).pluginSandbox.getSecurityViolations('scoped-plugin')).toHaveLength(1);
+  });
+
+  it('should fall back to the installed plugin permissions when the manifest declares none', async () => {
+    writePlugin('installed-permissions-plugin', { main: 'main.js' }, {
+      'main.js': `module.exports = { activate: async () => {} };`
+    });
+    installedPlugins.push({
+      ...installed('installed-permissions-plugin'),
+      permissions: [{ name: 'events:publish', description: 'Publish events', required: true }]
+    });
+
+    await pluginManager.enablePlugin('installed-permissions-plugin');
+
+    const sandbox = (pluginManager as any).pluginSandbox;
+    expect(sandbox.hasPermission('installed-permissions-plugin', 'events:publish')).toBe(true);
+    expect(sandbox.hasPermission('installed-permissions-plugin', 'settings:write')).toBe(false);
+  });
+
+  it('should unload the plugin sandbox when activation fails', async () => {
+    writePlugin('failing-plugin', { main: 'main.js' }, {
+      'main.js': `module.exports = { activate: async () => { throw new Error('activation failed'); } };`
+    });
+    installedPlugins.push(installed('failing-plugin'));
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    await pluginManager.enablePlugin('failing-plugin');
+
+    expect((pluginManager as any).pluginSandbox.isLoaded('failing-plugin')).toBe(false);
+    expect((pluginManager as any).activePlugins.has('failing-plugin')).toBe(false);
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('PluginManager plugin updates', () => {
+  const fs = require('fs');
+  const os = require('os');
+  const path = require('path');
+  const { PluginVersionStore } = require('../services/plugin.version.store');
+
+  let versionsDirectory: string;
+  let pluginManager: PluginManager;
+  let installedPlugins: PluginInfo[];
+  let available: Record<string, PluginPackage>;
+
+  const createPackage = (version: string, code: string, migrations?: Record<string, string>): PluginPackage => ({
+    id: 'notes-plugin',
+    version,
+    code,
+    manifest: {
+      id: 'notes-plugin',
+      name: 'Notes Plugin',
+      version,
+      description: 'Fixture plugin',
+      author: 'Test Author',
+      main: 'index.js',
+      dependencies: [],
+      permissions: [{ name: 'storage:local', description: 'Storage', required: true }],
+      api: [],
+      ...(migrations ? { migrations } : {})
+    },
+    signature: 'signed'
+  });
+
+  const publish = (pluginPackage: PluginPackage) => {
+    available[pluginPackage.id] = pluginPackage;
+  };
+
+  const storage = () => (pluginManager as any).getStorageManager().getPluginStorage('notes-plugin');
+  const activeHandle = () => (pluginManager as any).activePlugins.get('notes-plugin');
+
+  beforeEach(async () => {
+    versionsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-plugin-versions-'));
+    installedPlugins = [];
+    available = {};
+
+    (discoverPlugins as jest.Mock).mockImplementation(() => Object.keys(available));
+    (validatePlugin as jest.Mock).mockImplementation((pluginId: string) => pluginId in available);
+    (getPluginPackage as jest.Mock).mockImplementation((pluginId: string) => available[pluginId]);
+    (getPluginInfo as jest.Mock).mockImplementation((pluginId: string) =>
+      available[pluginId] ? { id: pluginId, version: available[pluginId]!.version } : undefined);
+
+    const registry = {
+      getAvailablePlugins: jest.fn().mockResolvedValue([]),
+      getInstalledPlugins: jest.fn().mockImplementation(async () => installedPlugins),
+      addInstalledPlugin: jest.fn().mockImplementation(async (plugin: PluginInfo) => {
+        installedPlugins = [...installedPlugins.filter(p => p.id !== plugin.id), plugin];
+      }),
+      removeInstalledPlugin: jest.fn(),
+      updatePluginStatus: jest.fn().mockImplementation(async (pluginId: string, status: PluginStatus) => {
+        const plugin = installedPlugins.find(p => p.id === pluginId);
+        if (plugin) {
+          plugin.status = status;
+        }
+      })
+    };
+    const verifier = {
+      verifyPluginSignature: jest.fn().mockResolvedValue(true),
+      validatePluginManifest: jest.fn().mockResolvedValue({ isValid: true, errors: [] }),
+      checkSecurityCompliance: jest.fn().mockResolvedValue({ isCompliant: true, violations: [] })
+    };
+    const resolver = {
+      resolveDependencies: jest.fn().mockResolvedValue([]),
+      checkDependencyConflicts: jest.fn().mockResolvedValue([]),
+      getInstallOrder: jest.fn().mockResolvedValue([])
+    };
+
+    pluginManager = new PluginManager(registry, verifier, resolver);
+    (pluginManager as any).versionStore = new PluginVersionStore(() => versionsDirectory);
+
+    // Install and enable version 1.0.0
+    publish(createPackage('1.0.0', `module.exports = { version: '1.0.0', activate: async () => {} };`));
+    await pluginManager.installPlugin(available['notes-plugin']!);
+    await pluginManager.enablePlugin('notes-plugin');
+  });
+
+  afterEach(() => {
+    fs.rmSync(versionsDirectory, { recursive: true, force: true });
+  });
+
+  it('should list installed plugins with a newer registry version', async () => {
+    await expect(pluginManager.checkForUpdates()).resolves.toEqual([]);
+
+    publish(createPackage('1.2.0', `module.exports = { activate: async () => {} };`));
+
+    await expect(pluginManager.checkForUpdates()).resolves.toEqual([
+      { pluginId: 'notes-plugin', name: 'Notes Plugin', installedVersion: '1.0.0', availableVersion: '1.2.0' }
+    ]);
+  });
+
+  it('should report no update when the installed version is current', async () => {
+    const result = await pluginManager.updatePlugin('notes-plugin');
+
+    expect(result).toEqual({ success: true, pluginId: 'notes-plugin', updated: false, fromVersion: '1.0.0', toVersion: '1.0.0' });
+    expect(activeHandle().version).toBe('1.0.0');
+  });
+
+  it('should run migration hooks in version order and activate the new version', async () => {
+    await storage().set('notes', ['first']);
+    publish(createPackage('2.0.0', `
+      module.exports = {
+        version: '2.0.0',
+        activate: async () => {},
+        addTitles: async ({ storage, fromVersion, toVersion }) => {
+          const notes = await storage.get('notes');
+          await storage.set('notes', notes.map(text => ({ title: text, text })));
+          await storage.set('log', [fromVersion + '->' + toVersion]);
+        },
+        addTheme: async ({ storage, settings, toVersion }) => {
+          await settings.set('theme', 'dark');
+          await storage.set('log', [...(await storage.get('log')), toVersion]);
+        }
+      };
+    `, { '2.0.0': 'addTheme', '1.5.0': 'addTitles', '0.9.0': 'skipped', '3.0.0': 'skipped' }));
+
+    const result = await pluginManager.updatePlugin('notes-plugin');
+
+    expect(result).toMatchObject({ success: true, updated: true, fromVersion: '1.0.0', toVersion: '2.0.0', migrationsRun: ['1.5.0', '2.0.0'] });
+    expect(await storage().get('notes')).toEqual([{ title: 'first', text: 'first' }]);
+    expect(await storage().get('log')).toEqual(['1.0.0->1.5.0', '2.0.0']);
+    expect(await (pluginManager as any).settingsService.getPluginSettings('notes-plugin')).toMatchObject({ theme: 'dark' });
+    expect(installedPlugins[0]).toMatchObject({ version: '2.0.0', status: PluginStatus.ENABLED });
+    expect(activeHandle().version).toBe('2.0.0');
+    await expect((pluginManager as any).versionStore.listVersions('notes-plugin')).resolves.toEqual(['1.0.0', '2.0.0']);
+  });
+
+  it('should roll back to the previous version and data when the new version fails to activate', async () => {
+    await storage().set('notes', ['first']);
+    publish(createPackage('2.0.0', `
+      module.exports = {
+        activate: async () => { throw new Error('activation failed'); },
+        wipe: async ({ storage }) => { await storage.clear(); }
+      };
+    `, { '2.0.0': 'wipe' }));
+
+    const result = await pluginManager.updatePlugin('notes-plugin');
+
+    expect(result).toMatchObject({ success: false, rolledBack: true, fromVersion: '1.0.0', toVersion: '2.0.0' });
+    expect(result.error).toContain('activation failed');
+    expect(await storage().get('notes')).toEqual(['first']);
+    expect(installedPlugins[0]).toMatchObject({ version: '1.0.0', status: PluginStatus.ENABLED });
+    expect(activeHandle().version).toBe('1.0.0');
+    await expect((pluginManager as any).versionStore.listVersions('notes-plugin')).resolves.toEqual(['1.0.0']);
+  });
+
+  it('should roll back when a declared migration hook is not exported', async () => {
+    publish(createPackage('2.0.0', `module.exports = { activate: async () => {} };`, { '2.0.0': 'missingHook' }));
+
+    const result = await pluginManager.updatePlugin('notes-plugin');
+
+    expect(result.rolledBack).toBe(true);
+    expect(result.error).toContain('does not export migration hook missingHook');
+    expect(activeHandle().version).toBe('1.0.0');
+  });
+
+  it('should roll an upgraded plugin back to its previous version on request', async () => {
+    publish(createPackage('2.0.0', `module.exports = { version: '2.0.0', activate: async () => {} };`));
+    await pluginManager.updatePlugin('notes-plugin');
+
+    const result = await pluginManager.rollbackPlugin('notes-plugin');
+
+    expect(result).toEqual({ success: true, pluginId: 'notes-plugin', updated: true, fromVersion: '2.0.0', toVersion: '1.0.0' });
+    expect(installedPlugins[0]?.version).toBe('1.0.0');
+    expect(activeHandle().version).toBe('1.0.0');
+
+    const again = await pluginManager.rollbackPlugin('notes-plugin');
+    expect(again).toMatchObject({ success: false, error: 'No previous version of plugin notes-plugin to roll back to' });
+  });
+});
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFilePluginPersistence, LocalStoragePluginPersistence } from '../services/plugin.persistence';
+import { PluginManager } from '../services/plugin.manager';
+import { PluginInfo, PluginStatus } from '../../../shared/types';
+
+const plugin = (id: string, status: PluginStatus = PluginStatus.INSTALLED): PluginInfo => ({
+  id,
+  name: id,
+  version: '1.0.0',
+  description: 'Persisted plugin',
+  author: 'Test Author',
+  rating: 0,
+  downloads: 0,
+  dependencies: [],
+  permissions: [],
+  status
+});
+
+describe('Plugin persistence', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-plugin-persistence-'));
+    filePath = path.join(directory, 'installed-plugins.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    localStorage.clear();
+  });
+
+  describe('JsonFilePluginPersistence', () => {
+    it('should load nothing before the first save', async () => {
+      const persistence = new JsonFilePluginPersistence(() => filePath);
+
+      await expect(persistence.load()).resolves.toEqual([]);
+    });
+
+    it('should save installed plugins to the JSON file and load them back', async () => {
+      const persistence = new JsonFilePluginPersistence(() => filePath);
+
+      await persistence.save([plugin('notes'), plugin('reader', PluginStatus.ENABLED)]);
+
+      expect(JSON.parse(fs.readFileSync(filePath, 'utf8')).map((p: PluginInfo) => p.id)).toEqual(['notes', 'reader']);
+      await expect(new JsonFilePluginPersistence(() => filePath).load()).resolves.toEqual([
+        plugin('notes'),
+        plugin('reader', PluginStatus.ENABLED)
+      ]);
+      expect(fs.readdirSync(directory)).toEqual(['installed-plugins.json']);
+    });
+
+    it('should apply concurrent saves in the order they were made', async () => {
+      const persistence = new JsonFilePluginPersistence(() => filePath);
+
+      await Promise.all([
+        persistence.save([plugin('first')]),
+        persistence.save([plugin('first'), plugin('second')]),
+        persistence.save([plugin('third')])
+      ]);
+
+      await expect(persistence.load()).resolves.toEqual([plugin('third')]);
+    });
+
+    it('should ignore a corrupted file and entries without an id', async () => {
+      const persistence = new JsonFilePluginPersistence(() => filePath);
+
+      fs.writeFileSync(filePath, '{ not json');
+      await expect(persistence.load()).resolves.toEqual([]);
+
+      fs.writeFileSync(filePath, JSON.stringify([plugin('notes'), { name: 'no id' }, null]));
+      await expect(persistence.load()).resolves.toEqual([plugin('notes')]);
+    });
+  });
+
+  describe('LocalStoragePluginPersistence', () => {
+    it('should save installed plugins to localStorage and load them back', async () => {
+      const persistence = new LocalStoragePluginPersistence('installed-plugins-test');
+
+      await persistence.save([plugin('notes')]);
+
+      expect(localStorage.getItem('installed-plugins-test')).toContain('"notes"');
+      await expect(persistence.load()).resolves.toEqual([plugin('notes')]);
+    });
+  });
+
+  describe('PluginManager', () => {
+    const createManager = () => new PluginManager(
+      undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined,
+      new JsonFilePluginPersistence(() => filePath)
+    );
+
+    it('should remember installed plugins and their status across restarts', async () => {
+      const pluginManager = createManager();
+      await (pluginManager as any).pluginRegistry.addInstalledPlugin(plugin('notes'));
+      await (pluginManager as any).pluginRegistry.addInstalledPlugin(plugin('reader'));
+      await (pluginManager as any).pluginRegistry.updatePluginStatus('reader', PluginStatus.DISABLED);
+      await (pluginManager as any).pluginRegistry.removeInstalledPlugin('notes');
+
+      const restarted = createManager();
+
+      await expect(restarted.getInstalledPlugins()).resolves.toEqual([plugin('reader', PluginStatus.DISABLED)]);
+    });
+
+    it('should not drop persisted plugins when saving right after startup', async () => {
+      await new JsonFilePluginPersistence(() => filePath).save([plugin('notes')]);
+
+      const pluginManager = createManager();
+      await (pluginManager as any).pluginRegistry.addInstalledPlugin(plugin('reader'));
+
+      const ids = (await createManager().getInstalledPlugins()).map(p => p.id);
+      expect(ids).toEqual(['notes', 'reader']);
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import { PluginSandbox, PluginPermissionError, PluginTimeoutError } from '../services/plugin.sandbox';
+import { SecuritySeverity } from '../../../shared/types';
+
+describe('PluginSandbox', () => {
+  let sandbox: PluginSandbox;
+
+  beforeEach(() => {
+    sandbox = new PluginSandbox({ cpuTimeMs: 100, operationTimeoutMs: 200 });
+  });
+
+  afterEach(async () => {
+    await sandbox.unloadPlugin('test-plugin');
+  });
+
+  describe('Code Loading', () => {
+    it('should evaluate CommonJS plugin code and return its exports', async () => {
+      const exports = await sandbox.loadPlugin('test-plugin', `
+        module.exports = { name: 'test', double: (value) => value * 2 };
+      `);
+
+      expect(exports.name).toBe('test');
+      expect(exports.double(2)).toBe(4);
+      expect(sandbox.isLoaded('test-plugin')).toBe(true);
+    });
+
+    it('should not expose host globals to plugin code', async () => {
+      const exports = await sandbox.loadPlugin('test-plugin', `
+        module.exports = {
+          process: typeof process,
+          global: typeof global,
+          window: typeof window,
+          hostRequire: typeof globalThis.require
+        };
+      `);
+
+      expect(exports).toEqual({
+        process: 'undefined',
+        global: 'undefined',
+        window: 'undefined',
+        hostRequire: 'undefined'
+      });
+    });
+
+    it('should not let plugin code reach the host Function constructor', async () => {
+      await expect(sandbox.loadPlugin('test-plugin', `
+        module.exports = { pid: require.constructor('return process')().pid };
+      `)).rejects.toThrow('process is not defined');
+
+      const exports = await sandbox.loadPlugin('test-plugin', `
+        const reach = (value) => {
+          try {
+            return typeof value.constructor.constructor('return process')();
+          } catch (error) {
+            return 'blocked';
+          }
+        };
+        module.exports = {
+          global: reach(globalThis),
+          module: reach(module),
+          console: reach(console.log),
+          setTimeout: reach(setTimeout),
+          error: (() => { try { require('fs'); } catch (error) { return reach(error); } })()
+        };
+      `);
+
+      expect(exports).toEqual({ global: 'blocked', module: 'blocked', console: 'blocked', setTimeout: 'blocked', error: 'blocked' });
+    });
+
+    it('should keep the plugin API and its results inside the plugin context', async () => {
+      sandbox.restrictAPI('test-plugin', ['settings:read']);
+      const scopedAPI = sandbox.createScopedAPI('test-plugin', {
+        settings: { get: jest.fn().mockResolvedValue({ theme: 'dark' }), set: jest.fn() }
+      });
+      const plugin = await sandbox.loadPlugin('test-plugin', `
+        const reach = (value) => {
+          try {
+            return typeof value.constructor.constructor('return process')();
+          } catch (error) {
+            return 'blocked';
+          }
+        };
+        module.exports = {
+          async activate(api) {
+            const pending = api.settings.get('theme');
+            const setting = await pending;
+            let denied;
+            try { api.settings.set('theme', 'light'); } catch (error) { denied = error; }
+            return {
+              api: reach(api),
+              method: reach(api.settings.get),
+              promise: reach(pending),
+              result: reach(setting),
+              error: reach(denied),
+              theme: setting.theme
+            };
+          }
+        };
+      `);
+
+      await expect(sandbox.executeInSandbox('test-plugin', () => plugin.activate(scopedAPI))).resolves.toEqual({
+        api: 'blocked', method: 'blocked', promise: 'blocked', result: 'blocked', error: 'blocked', theme: 'dark'
+      });
+    });
+
+    it('should not let plugin code replace the stack trace formatter', async () => {
+      const exports = await sandbox.loadPlugin('test-plugin', `
+        try { Error.prepareStackTrace = (error, frames) => frames; } catch (error) {}
+        try { globalThis.Error = { prepareStackTrace: (error, frames) => frames }; } catch (error) {}
+        module.exports = { stack: typeof new Error('probe').stack };
+      `);
+
+      expect(exports.stack).toBe('string');
+    });
+
+    it('should reject attempts to require modules', async () => {
+      await expect(sandbox.loadPlugin('test-plugin', `require('fs');`))
+        .rejects.toThrow("Plugin 'test-plugin' cannot require 'fs'");
+      expect(sandbox.isLoaded('test-plugin')).toBe(false);
+    });
+
+    it('should stop plugin code that exceeds the CPU time limit while loading', async () => {
+      await expect(sandbox.loadPlugin('test-plugin', `while (true) {}`))
+        .rejects.toThrow(PluginTimeoutError);
+      expect(sandbox.isLoaded('test-plugin')).toBe(false);
+    });
+  });
+
+  describe('Execution Limits', () => {
+    it('should return the result of a sandboxed operation', async () => {
+      const plugin = await sandbox.loadPlugin('test-plugin', `
+        module.exports = { activate: async () => 'activated' };
+      `);
+
+      await expect(sandbox.executeInSandbox('test-plugin', () => plugin.activate())).resolves.toBe('activated');
+    });
+
+    it('should stop synchronous operations that exceed the CPU time limit', async () => {
+      const plugin = await sandbox.loadPlugin('test-plugin', `
+        module.exports = { activate: () => { while (true) {} } };
+      `);
+
+      await expect(sandbox.executeInSandbox('test-plugin', () => plugin.activate(), 'activate'))
+        .rejects.toThrow("Plugin 'test-plugin' exceeded the 100ms limit during activate");
+    });
+
+    it('should time out async operations that never settle', async () => {
+      const plugin = await sandbox.loadPlugin('test-plugin', `
+        module.exports = { activate: () => new Promise(() => {}) };
+      `);
+
+      await expect(sandbox.executeInSandbox('test-plugin', () => plugin.activate(), 'activate'))
+        .rejects.toThrow(PluginTimeoutError);
+    });
+
+    it('should refuse to execute operations for plugins that are not loaded', async () => {
+      await expect(sandbox.executeInSandbox('missing-plugin', () => undefined))
+        .rejects.toThrow("Plugin 'missing-plugin' is not loaded in the sandbox");
+    });
+
+    it('should clear plugin timers when the plugin is unloaded', async () => {
+      jest.useFakeTimers();
+      try {
+        const plugin = await sandbox.loadPlugin('test-plugin', `
+          module.exports = { ticks: 0, start() { setInterval(() => { this.ticks++; }, 10); } };
+        `);
+        await sandbox.executeInSandbox('test-plugin', () => plugin.start());
+
+        jest.advanceTimersByTime(30);
+        expect(plugin.ticks).toBe(3);
+
+        await sandbox.unloadPlugin('test-plugin');
+        jest.advanceTimersByTime(30);
+        expect(plugin.ticks).toBe(3);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('Permission Enforcement', () => {
+    const createAPI = () => ({
+      settings: {
+        get: jest.fn().mockResolvedValue('dark'),
+        set: jest.fn().mockResolvedValue(undefined)
+      },
+      ui: {
+        createWidget: jest.fn()
+      },
+      internal: {
+        shutdown: jest.fn()
+      }
+    });
+
+    it('should allow calls covered by granted permissions', async () => {
+      const api = createAPI();
+      sandbox.restrictAPI('test-plugin', ['settings:read']);
+      const scopedAPI = sandbox.createScopedAPI('test-plugin', api);
+
+      await expect(scopedAPI.settings.get('theme')).resolves.toBe('dark');
+      expect(api.settings.get).toHaveBeenCalledWith('theme');
+    });
+
+    it('should throw a permission error for capabilities the manifest does not declare', () => {
+      const api = createAPI();
+      sandbox.restrictAPI('test-plugin', ['settings:read']);
+      const scopedAPI = sandbox.createScopedAPI('test-plugin', api);
+
+      expect(() => scopedAPI.settings.set('theme', 'light')).toThrow(PluginPermissionError);
+      expect(() => scopedAPI.ui.createWidget({})).toThrow(
+        "Permission denied: plugin 'test-plugin' called ui.createWidget without the 'ui:widget:create' permission"
+      );
+      expect(api.settings.set).not.toHaveBeenCalled();
+      expect(api.ui.createWidget).not.toHaveBeenCalled();
+    });
+
+    it('should record denied calls as security violations', () => {
+      sandbox.restrictAPI('test-plugin', []);
+      const scopedAPI = sandbox.createScopedAPI('test-plugin', createAPI());
+
+      expect(() => scopedAPI.settings.set('theme', 'light')).toThrow();
+
+      const violations = sandbox.getSecurityViolations('test-plugin');
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({
+        pluginId: 'test-plugin',
+        type: 'permission_denied',
+        severity: SecuritySeverity.MEDIUM
+      });
+    });
+
+    it('should not expose API methods that have no permission mapping', () => {
+      sandbox.restrictAPI('test-plugin', ['settings:read', 'settings:write']);
+      const scopedAPI = sandbox.createScopedAPI('test-plugin', createAPI());
+
+      expect(scopedAPI.internal.shutdown).toBeUndefined();
+      expect(Object.isFrozen(scopedAPI.settings)).toBe(true);
+    });
+
+    it('should hand host API results to plugin code awaiting them', async () => {
+      const api = createAPI();
+      sandbox.restrictAPI('test-plugin', ['settings:read']);
+      const scopedAPI = sandbox.createScopedAPI('test-plugin', api);
+      const plugin = await sandbox.loadPlugin('test-plugin', `
+        module.exports = {
+          activate: async (api) => {
+            const seen = [];
+            for (let i = 0; i < 3; i++) {
+              seen.push(await api.settings.get('theme'));
+            }
+            try {
+              await api.settings.set('theme', 'light');
+            } catch (error) {
+              seen.push(error.name);
+            }
+            return seen.join(',');
+          }
+        };
+      `);
+
+      await expect(sandbox.executeInSandbox('test-plugin', () => plugin.activate(scopedAPI)))
+        .resolves.toBe('dark,dark,dark,PluginPermissionError');
+      expect(api.settings.get).toHaveBeenCalledTimes(3);
+      expect(sandbox.getSecurityViolations('test-plugin')).toHaveLength(1);
+    });
+
+    it('should reject calls made by plugin code inside the sandbox', async () => {
+      sandbox.restrictAPI('test-plugin', []);
+      const scopedAPI = sandbox.createScopedAPI('test-plugin', createAPI());
+      const plugin = await sandbox.loadPlugin('test-plugin', `
+        module.exports = { activate: async (api) => api.settings.set('theme', 'light') };
+      `);
+
+      await expect(sandbox.executeInSandbox('test-plugin', () => plugin.activate(scopedAPI)))
+        .rejects.toThrow("without the 'settings:write' permission");
+    });
+  });
+});
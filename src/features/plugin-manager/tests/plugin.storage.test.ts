@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PluginStorageManager, StorageQuotaExceededError } from '../services/plugin.storage.manager';
+import { JsonFilePluginStorageDriver } from '../services/plugin.storage.driver';
+
+describe('Persistent plugin storage', () => {
+  let directory: string;
+  let driver: JsonFilePluginStorageDriver;
+  let storageManager: PluginStorageManager;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-plugin-storage-'));
+    driver = new JsonFilePluginStorageDriver(() => directory);
+    storageManager = new PluginStorageManager(driver);
+  });
+
+  afterEach(() => {
+    storageManager.destroy();
+    fs.rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  const readPluginFile = (pluginId: string) =>
+    JSON.parse(fs.readFileSync(path.join(directory, `${pluginId}.json`), 'utf8'));
+
+  describe('JsonFilePluginStorageDriver', () => {
+    it('should keep plugin data in one JSON file per plugin', async () => {
+      await storageManager.getPluginStorage('notes').set('count', 3);
+      await storageManager.getPluginStorage('clock').set('zone', 'UTC');
+
+      expect(readPluginFile('notes')).toEqual({ count: 3 });
+      expect(readPluginFile('clock')).toEqual({ zone: 'UTC' });
+    });
+
+    it('should keep data across storage manager instances', async () => {
+      await storageManager.getPluginStorage('notes').set('created', new Date('2024-01-01T00:00:00.000Z'));
+      await storageManager.getPluginStorage('notes').set('tags', ['a', 'b']);
+
+      const restarted = new PluginStorageManager(driver);
+      const storage = restarted.getPluginStorage('notes');
+
+      expect(await storage.keys()).toEqual(['created', 'tags']);
+      expect(await storage.get('created')).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+      expect(await storage.get('tags')).toEqual(['a', 'b']);
+    });
+
+    it('should remove the plugin file when its storage is cleared', async () => {
+      await storageManager.getPluginStorage('notes').set('count', 3);
+
+      await storageManager.clearPluginStorage('notes');
+
+      expect(fs.existsSync(path.join(directory, 'notes.json'))).toBe(false);
+    });
+
+    it('should reject plugin ids that are not valid file names', async () => {
+      await expect(driver.read('../escape')).rejects.toThrow('Invalid plugin id: ../escape');
+    });
+  });
+
+  describe('Quotas', () => {
+    it('should count the bytes of multi-byte characters', async () => {
+      const storage = storageManager.getPluginStorage('emoji');
+      await storage.set('k', '€€');
+
+      // 1 byte for the key, 2 quotes and 3 bytes per euro sign
+      expect(storageManager.getStorageUsage('emoji').used).toBe(9);
+    });
+
+    it('should reject writes over the quota with a typed error and count the violation', async () => {
+      const storage = storageManager.getPluginStorage('quota');
+      storageManager.enforceStorageQuota('quota', 20);
+
+      await storage.set('a', 'x'.repeat(10));
+      await expect(storage.set('b', 'y'.repeat(10))).rejects.toBeInstanceOf(StorageQuotaExceededError);
+
+      expect(await storage.keys()).toEqual(['a']);
+      expect(readPluginFile('quota')).toEqual({ a: 'x'.repeat(10) });
+      expect(storageManager.getStorageStatistics().quotaViolations).toBe(1);
+    });
+
+    it('should measure existing data after a restart', async () => {
+      await storageManager.getPluginStorage('quota').set('a', 'x'.repeat(10));
+
+      const restarted = new PluginStorageManager(driver);
+      restarted.enforceStorageQuota('quota', 20);
+
+      await expect(restarted.getPluginStorage('quota').set('b', 'y'.repeat(10))).rejects.toThrow(/quota/i);
+      expect(restarted.getStorageUsage('quota').used).toBe(13);
+    });
+
+    it('should still allow deletes over the quota', async () => {
+      const storage = storageManager.getPluginStorage('quota');
+      await storage.set('a', 'x'.repeat(10));
+      storageManager.enforceStorageQuota('quota', 5);
+
+      await storage.delete('a');
+
+      expect(storageManager.getStorageUsage('quota').used).toBe(0);
+    });
+  });
+
+  describe('Transactions', () => {
+    it('should apply multi-key writes together', async () => {
+      await storageManager.getPluginStorage('counter').set('count', 1);
+
+      const result = await storageManager.transaction('counter', async transaction => {
+        const count = (await transaction.get<number>('count')) || 0;
+        await transaction.set('count', count + 1);
+        await transaction.set('updated', 'now');
+        await transaction.delete('missing');
+        return count + 1;
+      });
+
+      expect(result).toBe(2);
+      expect(readPluginFile('counter')).toEqual({ count: 2, updated: 'now' });
+    });
+
+    it('should store nothing when the transaction fails', async () => {
+      await storageManager.getPluginStorage('counter').set('count', 1);
+
+      await expect(storageManager.transaction('counter', async transaction => {
+        await transaction.set('count', 2);
+        throw new Error('Interrupted');
+      })).rejects.toThrow('Interrupted');
+
+      expect(await storageManager.getPluginStorage('counter').get('count')).toBe(1);
+      expect(readPluginFile('counter')).toEqual({ count: 1 });
+    });
+
+    it('should store nothing when the transaction exceeds the quota', async () => {
+      storageManager.enforceStorageQuota('counter', 20);
+
+      await expect(storageManager.transaction('counter', async transaction => {
+        await transaction.set('a', 'x'.repeat(5));
+        await transaction.set('b', 'y'.repeat(10));
+      })).rejects.toBeInstanceOf(StorageQuotaExceededError);
+
+      expect(await storageManager.getPluginStorage('counter').keys()).toEqual([]);
+    });
+  });
+
+  describe('Export and import', () => {
+    it('should export the persisted data of a plugin', async () => {
+      await storageManager.getPluginStorage('notes').set('count', 3);
+
+      const restarted = new PluginStorageManager(driver);
+
+      expect(await restarted.exportPluginData('notes')).toEqual({ count: 3 });
+    });
+
+    it('should import data into the persistent store', async () => {
+      await storageManager.getPluginStorage('notes').set('old', true);
+
+      await storageManager.importPluginData('notes', { count: 3, title: 'Notes' });
+      expect(readPluginFile('notes')).toEqual({ old: true, count: 3, title: 'Notes' });
+
+      await storageManager.importPluginData('notes', { count: 4 }, { replace: true });
+      expect(readPluginFile('notes')).toEqual({ count: 4 });
+    });
+
+    it('should import nothing when the data exceeds the quota', async () => {
+      storageManager.enforceStorageQuota('notes', 10);
+
+      await expect(storageManager.importPluginData('notes', { a: 1, b: 'x'.repeat(20) })).rejects.toThrow(/quota/i);
+
+      expect(await storageManager.exportPluginData('notes')).toEqual({});
+    });
+  });
+});
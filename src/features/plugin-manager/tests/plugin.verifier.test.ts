@@ -0,0 +1,172 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PluginVerifier, createSignaturePayload, signPluginPackage } from '../services/plugin.verifier';
+import { TrustedKeyStore } from '../services/trusted-key.store';
+import { PluginPackage } from '../../../shared/types';
+
+const createPackage = (): PluginPackage => ({
+  id: 'signed-plugin',
+  version: '1.0.0',
+  code: 'module.exports = { activate: async () => {} };',
+  manifest: {
+    id: 'signed-plugin',
+    name: 'Signed Plugin',
+    version: '1.0.0',
+    description: 'A signed test plugin',
+    author: 'Test Author',
+    main: 'index.js',
+    dependencies: [],
+    permissions: [{ name: 'settings:read', description: 'Read settings', required: true }],
+    api: []
+  },
+  signature: ''
+});
+
+describe('PluginVerifier signatures', () => {
+  const ed25519 = crypto.generateKeyPairSync('ed25519');
+  const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  let trustedKeys: TrustedKeyStore;
+  let keysDirectory: string;
+
+  beforeEach(() => {
+    keysDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-trusted-keys-'));
+    trustedKeys = new TrustedKeyStore(() => keysDirectory);
+    trustedKeys.addKey('release', ed25519.publicKey);
+  });
+
+  afterEach(() => {
+    fs.rmSync(keysDirectory, { recursive: true, force: true });
+  });
+
+  it('should accept an Ed25519 signature from a trusted key', async () => {
+    const verifier = new PluginVerifier({ trustedKeys, allowUnsigned: false });
+    const pluginPackage = createPackage();
+    pluginPackage.signature = signPluginPackage(pluginPackage, ed25519.privateKey, 'release');
+
+    expect(verifier.checkPluginSignature(pluginPackage)).toEqual({ isValid: true, keyId: 'release' });
+    await expect(verifier.verifyPluginSignature(pluginPackage)).resolves.toBe(true);
+  });
+
+  it('should accept an RSA signature from a trusted key', async () => {
+    trustedKeys.addKey('rsa-release', rsa.publicKey.export({ type: 'spki', format: 'pem' }).toString());
+    const verifier = new PluginVerifier({ trustedKeys, allowUnsigned: false });
+    const pluginPackage = createPackage();
+    pluginPackage.signature = signPluginPackage(pluginPackage, rsa.privateKey, 'rsa-release');
+
+    await expect(verifier.verifyPluginSignature(pluginPackage)).resolves.toBe(true);
+  });
+
+  it('should reject packages whose code was changed after signing', async () => {
+    const verifier = new PluginVerifier({ trustedKeys, allowUnsigned: false });
+    const pluginPackage = createPackage();
+    pluginPackage.signature = signPluginPackage(pluginPackage, ed25519.privateKey, 'release');
+    pluginPackage.code += '\nprocess.exit(1);';
+
+    expect(verifier.checkPluginSignature(pluginPackage)).toEqual({
+      isValid: false,
+      keyId: 'release',
+      error: 'Signature does not match plugin code and manifest'
+    });
+    await expect(verifier.verifyPluginSignature(pluginPackage)).resolves.toBe(false);
+  });
+
+  it('should reject packages whose manifest was changed after signing', async () => {
+    const verifier = new PluginVerifier({ trustedKeys, allowUnsigned: false });
+    const pluginPackage = createPackage();
+    pluginPackage.signature = signPluginPackage(pluginPackage, ed25519.privateKey, 'release');
+    pluginPackage.manifest.permissions.push({ name: 'storage:local', description: 'Storage', required: true });
+
+    await expect(verifier.verifyPluginSignature(pluginPackage)).resolves.toBe(false);
+  });
+
+  it('should not depend on manifest key order', () => {
+    const pluginPackage = createPackage();
+    const { id, ...rest } = pluginPackage.manifest;
+
+    expect(createSignaturePayload({ code: pluginPackage.code, manifest: { ...rest, id } }))
+      .toEqual(createSignaturePayload(pluginPackage));
+  });
+
+  it('should reject signatures from untrusted keys', () => {
+    const verifier = new PluginVerifier({ trustedKeys, allowUnsigned: false });
+    const otherKey = crypto.generateKeyPairSync('ed25519');
+    const pluginPackage = createPackage();
+    pluginPackage.signature = signPluginPackage(pluginPackage, otherKey.privateKey, 'someone-else');
+
+    expect(verifier.checkPluginSignature(pluginPackage).error).toBe('Signing key someone-else is not trusted');
+  });
+
+  it('should reject unsigned and malformed signatures', () => {
+    const verifier = new PluginVerifier({ trustedKeys, allowUnsigned: false });
+    const pluginPackage = createPackage();
+
+    expect(verifier.checkPluginSignature(pluginPackage).error).toBe('Plugin is not signed');
+
+    pluginPackage.signature = 'mock-signature-for-testing';
+    expect(verifier.checkPluginSignature(pluginPackage).error).toContain('Malformed signature');
+  });
+
+  it('should accept unverified packages when the dev-mode override is enabled', async () => {
+    const verifier = new PluginVerifier({ trustedKeys, allowUnsigned: true });
+
+    await expect(verifier.verifyPluginSignature(createPackage())).resolves.toBe(true);
+  });
+
+  it('should ignore the dev-mode override in production', async () => {
+    const originalEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+    try {
+      const verifier = new PluginVerifier({ trustedKeys, allowUnsigned: true });
+
+      await expect(verifier.verifyPluginSignature(createPackage())).resolves.toBe(false);
+    } finally {
+      process.env.NODE_ENV = originalEnv;
+    }
+  });
+
+  describe('TrustedKeyStore', () => {
+    it('should load public keys from the trusted keys directory by file name', () => {
+      fs.writeFileSync(path.join(keysDirectory, 'team.pem'), ed25519.publicKey.export({ type: 'spki', format: 'pem' }));
+      fs.writeFileSync(path.join(keysDirectory, 'legacy.pub'), rsa.publicKey.export({ type: 'spki', format: 'pem' }));
+      fs.writeFileSync(path.join(keysDirectory, 'notes.txt'), 'not a key');
+
+      const store = new TrustedKeyStore(() => keysDirectory);
+
+      expect(store.getKeyIds()).toEqual(['legacy', 'team']);
+      expect(store.getKey('team')?.type).toBe('ed25519');
+      expect(store.getKey('legacy')?.type).toBe('rsa');
+    });
+
+    it('should skip files that are not usable public keys', () => {
+      fs.writeFileSync(path.join(keysDirectory, 'broken.pem'), 'not a key');
+      fs.writeFileSync(path.join(keysDirectory, 'private.pem'), ed25519.privateKey.export({ type: 'pkcs8', format: 'pem' }));
+
+      const store = new TrustedKeyStore(() => keysDirectory);
+
+      expect(store.getKey('broken')).toBeUndefined();
+      expect(store.getKey('private')).toBeUndefined();
+      expect(store.getKeyIds()).toEqual([]);
+    });
+
+    it('should keep runtime keys when reloading from disk', () => {
+      const store = new TrustedKeyStore(() => keysDirectory);
+      store.addKey('runtime', ed25519.publicKey);
+      fs.writeFileSync(path.join(keysDirectory, 'team.pem'), ed25519.publicKey.export({ type: 'spki', format: 'pem' }));
+
+      store.refresh();
+
+      expect(store.getKeyIds().sort()).toEqual(['runtime', 'team']);
+      expect(store.removeKey('runtime')).toBe(true);
+      expect(store.getKey('runtime')).toBeUndefined();
+    });
+
+    it('should reject unsupported key types', () => {
+      const store = new TrustedKeyStore(() => keysDirectory);
+      const ecKey = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+      expect(() => store.addKey('ec-key', ecKey.publicKey)).toThrow('unsupported type ec');
+    });
+  });
+});
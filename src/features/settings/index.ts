@@ -1,3 +1,8 @@
 // Settings Feature Exports
 export * from './interfaces/settings.interface';
-export * from './services/settings.service'; 
\ No newline at end of file
+export * from './services/settings.bundle';
+export * from './services/settings.config';
+export * from './services/settings.history';
+export * from './services/settings.service';
+export * from './services/settings.schema';
+export * from './services/settings.storage'; 
\ No newline at end of file
@@ -1,12 +1,178 @@
-import { ValidationResult, RecoveryResult } from '../../../shared';
+import { ValidationResult, RecoveryResult, Settings, SettingsSchema } from '../../../shared';
 
 export interface ISettingsService {
   getSetting<T>(key: string, userId?: string): Promise<T | null>;
   setSetting<T>(key: string, value: T, userId?: string): Promise<void>;
+  deleteSetting(key: string, userId?: string): Promise<boolean>;
+  getUserSettings(userId: string): Promise<Record<string, any>>;
   getPluginSettings(pluginId: string): Promise<Record<string, any>>;
   setPluginSetting(pluginId: string, key: string, value: any, userId?: string): Promise<void>;
   resetToDefaults(scope?: string): Promise<void>;
   validateSetting(key: string, value: any): Promise<ValidationResult>;
+  explainSetting(key: string, scope?: SettingScope): Promise<SettingExplanation>;
+  getSettingHistory(key: string, scope?: SettingScope, limit?: number): Promise<SettingChange[]>;
+  restoreSetting(key: string, timestamp: Date, scope?: SettingScope & { admin?: boolean }, context?: SettingChangeContext): Promise<boolean>;
+  exportSettings(scope?: SettingScope): Promise<SettingsBundle>;
+  importSettings(bundle: SettingsBundle, options?: SettingsImportOptions, context?: SettingChangeContext): Promise<SettingsImportResult>;
+  getSettingsSchema(): MergedSettingsSchema;
   recoverCorruptedSettings(): Promise<RecoveryResult>;
   subscribe(key: string, callback: (key: string, value: any, userId: string | null | undefined) => void): () => void;
-} 
\ No newline at end of file
+}
+
+/**
+ * Where SettingsService keeps settings, keyed by `core.<key>`, `<userId>.<key>`,
+ * `<pluginId>.<key>` or `<userId>.<pluginId>.<key>`
+ */
+export interface ISettingsStorage {
+  get(key: string): Promise<Settings | null>;
+  set(key: string, setting: Settings): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Every registered setting definition: the core ones, each plugin's, and the
+ * categories they are grouped under
+ */
+export interface MergedSettingsSchema {
+  core: SettingsSchema;
+  plugins: Record<string, SettingsSchema>;
+  categories: string[];
+}
+
+/**
+ * Deployment-level setting values, from the environment or a config file
+ */
+export interface SettingsConfigValue {
+  value: any;
+  source: string; // e.g. `env:SETTING_THEME` or `file:/app/config/settings.json`
+}
+
+export interface ISettingsConfigSource {
+  get(key: string): Promise<SettingsConfigValue | undefined>;
+}
+
+export interface SettingScope {
+  userId?: string;
+  pluginId?: string;
+}
+
+/**
+ * Where a setting's value can come from, lowest precedence first. A locked
+ * admin value wins over the plugin and user layers.
+ */
+export type SettingLayerName = 'default' | 'config' | 'admin' | 'plugin' | 'user';
+
+export interface SettingLayer {
+  layer: SettingLayerName;
+  set: boolean;
+  value?: any;
+  source?: string;
+  locked?: boolean;
+}
+
+export interface SettingExplanation {
+  key: string;
+  userId?: string;
+  pluginId?: string;
+  value: any;
+  winner: SettingLayerName | null;
+  locked: boolean;
+  layers: SettingLayer[];
+}
+
+/**
+ * Where a change came from: the settings page, another API client, plugin
+ * code, or the app itself (e.g. plugin cleanup)
+ */
+export type SettingChangeSource = 'ui' | 'api' | 'plugin' | 'system';
+
+export interface SettingChangeContext {
+  changedBy?: string;
+  source?: SettingChangeSource;
+}
+
+/**
+ * One change to a stored setting entry, with the entry before and after
+ */
+export interface SettingChange {
+  id: string;
+  storageKey: string;
+  key: string;
+  userId?: string;
+  pluginId?: string;
+  action: 'set' | 'delete' | 'restore' | 'import';
+  previous: Settings | null;
+  current: Settings | null;
+  changedBy?: string;
+  source: SettingChangeSource;
+  changedAt: Date;
+}
+
+export interface SettingsHistoryQuery {
+  storageKeys?: string[];
+  prefix?: string;
+  until?: Date;
+  limit?: number; // Most recent changes only
+}
+
+/**
+ * How much history to keep: changes older than maxAgeMs are dropped, as are
+ * all but the last maxEntriesPerKey changes of each entry
+ */
+export interface SettingsHistoryRetention {
+  maxEntriesPerKey: number;
+  maxAgeMs: number;
+}
+
+export interface ISettingsHistory {
+  record(change: SettingChange): Promise<void>;
+  query(query?: SettingsHistoryQuery): Promise<SettingChange[]>; // Oldest first
+}
+
+/**
+ * Stored settings in a form that can be moved between environments. Admin
+ * values are under `core`, user overrides under `users[userId]` and plugin
+ * values under `plugins[pluginId]`; in `core` and `users`, plugin settings are
+ * keyed `<pluginId>.<key>`.
+ */
+export interface SettingsBundle {
+  version: number;
+  exportedAt: string;
+  scope: SettingScope;
+  core: Record<string, { value: any; locked?: boolean }>;
+  users: Record<string, Record<string, any>>;
+  plugins: Record<string, Record<string, any>>;
+}
+
+/**
+ * `merge` only adds and updates entries; `replace` also removes the stored
+ * entries in the import scope that the bundle does not have
+ */
+export type SettingsImportMode = 'merge' | 'replace';
+
+export interface SettingsImportOptions {
+  mode?: SettingsImportMode;
+  dryRun?: boolean;
+  scope?: SettingScope; // Entries outside it are rejected; defaults to the bundle's own scope
+}
+
+export interface SettingsImportChange {
+  storageKey: string;
+  key: string;
+  userId?: string;
+  pluginId?: string;
+  change: 'add' | 'update' | 'remove';
+  previous?: any;
+  value?: any;
+  locked?: boolean;
+}
+
+export interface SettingsImportResult {
+  mode: SettingsImportMode;
+  dryRun: boolean;
+  applied: boolean;
+  changes: SettingsImportChange[];
+  errors: string[];
+}
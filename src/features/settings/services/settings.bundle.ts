@@ -0,0 +1,65 @@
+import { SettingsBundle, SettingScope } from '../interfaces/settings.interface';
+
+export const SETTINGS_BUNDLE_VERSION = 1;
+
+export function createSettingsBundle(scope: SettingScope = {}): SettingsBundle {
+  return {
+    version: SETTINGS_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    scope,
+    core: {},
+    users: {},
+    plugins: {}
+  };
+}
+
+// Plugin settings share the `core` and `users` sections with core settings
+export function toBundleKey(key: string, pluginId?: string): string {
+  return pluginId ? `${pluginId}.${key}` : key;
+}
+
+export function splitBundleKey(bundleKey: string): { key: string; pluginId?: string } {
+  const separator = bundleKey.lastIndexOf('.');
+  return separator === -1
+    ? { key: bundleKey }
+    : { key: bundleKey.substring(separator + 1), pluginId: bundleKey.substring(0, separator) };
+}
+
+const isRecord = (value: any): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Problems with the shape of a bundle, before any of its values are looked at
+ */
+export function validateSettingsBundle(bundle: any): string[] {
+  if (!isRecord(bundle)) {
+    return ['Settings bundle must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (typeof bundle.version !== 'number') {
+    errors.push('Settings bundle version is required');
+  } else if (bundle.version < 1 || bundle.version > SETTINGS_BUNDLE_VERSION) {
+    errors.push(`Unsupported settings bundle version: ${bundle.version}`);
+  }
+
+  for (const section of ['core', 'users', 'plugins']) {
+    if (bundle[section] !== undefined && !isRecord(bundle[section])) {
+      errors.push(`Settings bundle ${section} must be an object`);
+    }
+  }
+  for (const [bundleKey, entry] of Object.entries(isRecord(bundle.core) ? bundle.core : {})) {
+    if (!isRecord(entry) || entry.value === undefined) {
+      errors.push(`core.${bundleKey} must have a value`);
+    }
+  }
+  for (const section of ['users', 'plugins']) {
+    for (const [id, values] of Object.entries(isRecord(bundle[section]) ? bundle[section] : {})) {
+      if (!isRecord(values)) {
+        errors.push(`${section}.${id} must be an object`);
+      }
+    }
+  }
+
+  return errors;
+}
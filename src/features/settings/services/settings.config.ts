@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ISettingsConfigSource, SettingsConfigValue } from '../interfaces/settings.interface';
+
+// Overridable with SETTINGS_CONFIG_FILE; defaults to ./config/settings.json in the working directory
+export function getSettingsConfigFile(): string {
+  return process.env.SETTINGS_CONFIG_FILE
+    ? path.resolve(process.env.SETTINGS_CONFIG_FILE)
+    : path.join(process.cwd(), 'config', 'settings.json');
+}
+
+/**
+ * Environment variable that sets a key: `theme` is SETTING_THEME,
+ * `demo-hello-world.greeting` is SETTING_DEMO_HELLO_WORLD_GREETING
+ */
+export function getSettingEnvironmentVariable(key: string): string {
+  return `SETTING_${key.replace(/[^a-zA-Z0-9]+/g, '_').toUpperCase()}`;
+}
+
+// Environment values are JSON when they parse as JSON, plain strings otherwise
+function parseEnvironmentValue(raw: string): any {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Values set by whoever deploys the app: environment variables first, then
+ * the settings config file. The file is a flat object keyed like the
+ * environment variables' keys, e.g. `{ "theme": "dark" }`.
+ */
+export class EnvironmentSettingsConfig implements ISettingsConfigSource {
+  constructor(
+    private readonly env: Record<string, string | undefined> = process.env,
+    private readonly resolveFile: () => string = getSettingsConfigFile
+  ) {}
+
+  async get(key: string): Promise<SettingsConfigValue | undefined> {
+    const variable = getSettingEnvironmentVariable(key);
+    const fromEnvironment = this.env[variable];
+    if (fromEnvironment !== undefined) {
+      return { value: parseEnvironmentValue(fromEnvironment), source: `env:${variable}` };
+    }
+
+    const filePath = path.resolve(this.resolveFile());
+    const config = await this.readFile(filePath);
+    return Object.prototype.hasOwnProperty.call(config, key)
+      ? { value: config[key], source: `file:${filePath}` }
+      : undefined;
+  }
+
+  private async readFile(filePath: string): Promise<Record<string, any>> {
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * The browser has no deployment config of its own
+ */
+export function createSettingsConfigSource(): ISettingsConfigSource {
+  return typeof window !== 'undefined'
+    ? { get: async () => undefined }
+    : new EnvironmentSettingsConfig();
+}
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ISettingsHistory,
+  SettingChange,
+  SettingsHistoryQuery,
+  SettingsHistoryRetention
+} from '../interfaces/settings.interface';
+import { getDataDirectory } from '../../../shared/utils/data-directory';
+import { withFileLock, writeFileAtomic } from '../../../shared/utils/atomic-file';
+
+export const DEFAULT_SETTINGS_HISTORY_RETENTION: SettingsHistoryRetention = {
+  maxEntriesPerKey: 100,
+  maxAgeMs: 90 * 24 * 60 * 60 * 1000
+};
+
+export function getSettingsHistoryFile(): string {
+  return path.join(getDataDirectory(), 'settings-history.json');
+}
+
+// JSON has no dates, so changedAt and the entries' updatedAt come back as strings
+function reviveChange(change: any): SettingChange {
+  const reviveSetting = (setting: any) => setting && typeof setting.updatedAt === 'string'
+    ? { ...setting, updatedAt: new Date(setting.updatedAt) }
+    : setting;
+
+  return {
+    ...change,
+    previous: reviveSetting(change.previous),
+    current: reviveSetting(change.current),
+    changedAt: new Date(change.changedAt)
+  };
+}
+
+function applyRetention(changes: SettingChange[], retention: SettingsHistoryRetention, now: number = Date.now()): SettingChange[] {
+  const recent = changes.filter(change => now - change.changedAt.getTime() <= retention.maxAgeMs);
+
+  // Walk newest first so each entry keeps its latest changes
+  const kept = new Map<string, number>();
+  const result: SettingChange[] = [];
+  for (let i = recent.length - 1; i >= 0; i--) {
+    const change = recent[i]!;
+    const count = kept.get(change.storageKey) || 0;
+    if (count < retention.maxEntriesPerKey) {
+      kept.set(change.storageKey, count + 1);
+      result.push(change);
+    }
+  }
+  return result.reverse();
+}
+
+function filterChanges(changes: SettingChange[], query: SettingsHistoryQuery): SettingChange[] {
+  const matching = changes.filter(change =>
+    (!query.storageKeys || query.storageKeys.includes(change.storageKey)) &&
+    (!query.prefix || change.storageKey.startsWith(query.prefix)) &&
+    (!query.until || change.changedAt.getTime() <= query.until.getTime()));
+
+  return query.limit !== undefined ? matching.slice(-query.limit) : matching;
+}
+
+/**
+ * History kept for as long as the page or process lives
+ */
+export class MemorySettingsHistory implements ISettingsHistory {
+  private changes: SettingChange[] = [];
+
+  constructor(private readonly retention: SettingsHistoryRetention = DEFAULT_SETTINGS_HISTORY_RETENTION) {}
+
+  async record(change: SettingChange): Promise<void> {
+    this.changes = applyRetention([...this.changes, change], this.retention);
+  }
+
+  async query(query: SettingsHistoryQuery = {}): Promise<SettingChange[]> {
+    return filterChanges(this.changes, query);
+  }
+}
+
+/**
+ * History kept in one JSON file under the data directory, trimmed to the
+ * retention limits every time a change is recorded
+ */
+export class JsonFileSettingsHistory implements ISettingsHistory {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly resolveFile: () => string = getSettingsHistoryFile,
+    private readonly retention: SettingsHistoryRetention = DEFAULT_SETTINGS_HISTORY_RETENTION
+  ) {}
+
+  record(change: SettingChange): Promise<void> {
+    const filePath = path.resolve(this.resolveFile());
+    const write = this.pendingWrite.then(() => withFileLock(filePath, async () => {
+      const changes = applyRetention([...(await this.readAll(filePath)), change], this.retention);
+      await writeFileAtomic(filePath, JSON.stringify(changes, null, 2));
+    }));
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  async query(query: SettingsHistoryQuery = {}): Promise<SettingChange[]> {
+    return filterChanges(await this.readAll(path.resolve(this.resolveFile())), query);
+  }
+
+  private async readAll(filePath: string): Promise<SettingChange[]> {
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+      return Array.isArray(parsed) ? parsed.map(reviveChange) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * In memory in the browser, the JSON file under the data directory on the server
+ */
+export function createSettingsHistory(): ISettingsHistory {
+  return typeof window !== 'undefined'
+    ? new MemorySettingsHistory()
+    : new JsonFileSettingsHistory();
+}
@@ -0,0 +1,242 @@
+import { MergedSettingsSchema } from '../interfaces/settings.interface';
+import { SettingDefinition, SettingsSchema, SettingType, ValidationResult } from '../../../shared';
+
+const SETTING_TYPES: string[] = Object.values(SettingType);
+
+/**
+ * Settings the app itself understands
+ */
+export const CORE_SETTINGS_SCHEMA: SettingsSchema = {
+  theme: {
+    type: SettingType.STRING,
+    title: 'Theme',
+    description: 'Colour scheme used across the app',
+    category: 'appearance',
+    enum: ['light', 'dark', 'auto'],
+    default: 'light'
+  },
+  language: {
+    type: SettingType.STRING,
+    title: 'Language',
+    description: 'Language of the interface',
+    category: 'general',
+    enum: ['en', 'es', 'fr', 'de', 'ja', 'zh'],
+    default: 'en'
+  },
+  notifications: {
+    type: SettingType.BOOLEAN,
+    title: 'Notifications',
+    description: 'Show notifications from the app and plugins',
+    category: 'general',
+    default: true
+  }
+};
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case SettingType.STRING:
+      return typeof value === 'string';
+    case SettingType.NUMBER:
+      return typeof value === 'number' && !isNaN(value);
+    case SettingType.INTEGER:
+      return Number.isInteger(value);
+    case SettingType.BOOLEAN:
+      return typeof value === 'boolean';
+    case SettingType.ARRAY:
+      return Array.isArray(value);
+    case SettingType.OBJECT:
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check a value against a definition, returning one message per problem.
+ * Nested fields are reported with their path, e.g. `layout.columns`.
+ */
+export function validateSettingValue(value: any, definition: SettingDefinition, path: string): string[] {
+  if (!matchesType(value, definition.type)) {
+    return [`${path} must be of type ${definition.type}`];
+  }
+
+  const errors: string[] = [];
+
+  if (definition.enum && !definition.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path} must be one of: ${definition.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (definition.minimum !== undefined && value < definition.minimum) {
+      errors.push(`${path} must be at least ${definition.minimum}`);
+    }
+    if (definition.maximum !== undefined && value > definition.maximum) {
+      errors.push(`${path} must be at most ${definition.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (definition.minLength !== undefined && value.length < definition.minLength) {
+      errors.push(`${path} must be at least ${definition.minLength} characters`);
+    }
+    if (definition.maxLength !== undefined && value.length > definition.maxLength) {
+      errors.push(`${path} must be at most ${definition.maxLength} characters`);
+    }
+    if (definition.pattern !== undefined && !new RegExp(definition.pattern).test(value)) {
+      errors.push(`${path} must match the pattern ${definition.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (definition.minItems !== undefined && value.length < definition.minItems) {
+      errors.push(`${path} must have at least ${definition.minItems} items`);
+    }
+    if (definition.maxItems !== undefined && value.length > definition.maxItems) {
+      errors.push(`${path} must have at most ${definition.maxItems} items`);
+    }
+    if (definition.items) {
+      value.forEach((item, index) => errors.push(...validateSettingValue(item, definition.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (definition.type === SettingType.OBJECT) {
+    const properties = definition.properties || {};
+    for (const field of definition.required || []) {
+      if (value[field] === undefined) {
+        errors.push(`${path}.${field} is required`);
+      }
+    }
+    for (const [field, fieldValue] of Object.entries(value)) {
+      const fieldDefinition = properties[field];
+      if (fieldDefinition) {
+        errors.push(...validateSettingValue(fieldValue, fieldDefinition, `${path}.${field}`));
+      } else if (definition.additionalProperties === false) {
+        errors.push(`${path}.${field} is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check that a definition is well formed and that its default, if any, satisfies it
+ */
+export function validateSettingDefinition(definition: any, path: string): string[] {
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    return [`Invalid setting definition: ${path}`];
+  }
+  if (!SETTING_TYPES.includes(definition.type)) {
+    return [`Invalid setting type: ${definition.type}`];
+  }
+
+  const errors: string[] = [];
+
+  if (definition.enum !== undefined && (!Array.isArray(definition.enum) || definition.enum.length === 0)) {
+    errors.push(`${path}: enum must be a non-empty array`);
+  }
+  for (const keyword of ['minimum', 'maximum', 'minLength', 'maxLength', 'minItems', 'maxItems']) {
+    if (definition[keyword] !== undefined && typeof definition[keyword] !== 'number') {
+      errors.push(`${path}: ${keyword} must be a number`);
+    }
+  }
+  if (definition.pattern !== undefined) {
+    try {
+      new RegExp(definition.pattern);
+    } catch {
+      errors.push(`${path}: pattern is not a valid regular expression`);
+    }
+  }
+  if (definition.required !== undefined && !Array.isArray(definition.required)) {
+    errors.push(`${path}: required must be an array of property names`);
+  }
+  if (definition.properties !== undefined) {
+    errors.push(...validateSettingsSchema(definition.properties, `${path}.`).errors);
+  }
+  if (definition.items !== undefined) {
+    errors.push(...validateSettingDefinition(definition.items, `${path}[]`));
+  }
+
+  if (errors.length === 0 && definition.default !== undefined) {
+    errors.push(...validateSettingValue(definition.default, definition, `${path} default`));
+  }
+
+  return errors;
+}
+
+export function validateSettingsSchema(schema: any, prefix: string = ''): ValidationResult {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return { isValid: false, errors: ['Settings schema must be an object'] };
+  }
+
+  const errors = Object.entries(schema)
+    .flatMap(([key, definition]) => validateSettingDefinition(definition, `${prefix}${key}`));
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Definitions for core settings and for the settings each plugin declares.
+ * Keys without a definition are not described and are accepted as they are.
+ */
+export class SettingsSchemaRegistry {
+  private coreSchema: SettingsSchema = {};
+  private pluginSchemas = new Map<string, SettingsSchema>();
+
+  constructor(coreSchema: SettingsSchema = CORE_SETTINGS_SCHEMA) {
+    this.registerCoreSchema(coreSchema);
+  }
+
+  registerCoreSchema(schema: SettingsSchema): void {
+    this.assertValid(schema);
+    this.coreSchema = { ...this.coreSchema, ...schema };
+  }
+
+  /**
+   * Replaces anything the plugin registered before
+   */
+  registerPluginSchema(pluginId: string, schema: SettingsSchema): void {
+    this.assertValid(schema);
+    this.pluginSchemas.set(pluginId, { ...schema });
+  }
+
+  unregisterPluginSchema(pluginId: string): void {
+    this.pluginSchemas.delete(pluginId);
+  }
+
+  getDefinition(key: string, pluginId?: string): SettingDefinition | undefined {
+    const schema = pluginId ? this.pluginSchemas.get(pluginId) : this.coreSchema;
+    return schema && Object.prototype.hasOwnProperty.call(schema, key) ? schema[key] : undefined;
+  }
+
+  getPluginSchema(pluginId: string): SettingsSchema | undefined {
+    return this.pluginSchemas.get(pluginId);
+  }
+
+  validate(key: string, value: any, pluginId?: string): ValidationResult {
+    const definition = this.getDefinition(key, pluginId);
+    const errors = definition ? validateSettingValue(value, definition, key) : [];
+    return { isValid: errors.length === 0, errors };
+  }
+
+  getMergedSchema(): MergedSettingsSchema {
+    const plugins: Record<string, SettingsSchema> = {};
+    for (const [pluginId, schema] of this.pluginSchemas) {
+      plugins[pluginId] = schema;
+    }
+
+    const categories = new Set<string>();
+    for (const schema of [this.coreSchema, ...Object.values(plugins)]) {
+      Object.values(schema).forEach(definition => definition.category && categories.add(definition.category));
+    }
+
+    return { core: { ...this.coreSchema }, plugins, categories: Array.from(categories).sort() };
+  }
+
+  private assertValid(schema: SettingsSchema): void {
+    const validation = validateSettingsSchema(schema);
+    if (!validation.isValid) {
+      throw new Error(`Invalid settings schema: ${validation.errors.join(', ')}`);
+    }
+  }
+}
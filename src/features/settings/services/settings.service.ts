@@ -1,104 +1,101 @@
-import { ISettingsService } from '../interfaces/settings.interface';
+import {
+  ISettingsConfigSource,
+  ISettingsHistory,
+  ISettingsService,
+  ISettingsStorage,
+  MergedSettingsSchema,
+  SettingChange,
+  SettingChangeContext,
+  SettingExplanation,
+  SettingLayer,
+  SettingScope,
+  SettingsBundle,
+  SettingsImportChange,
+  SettingsImportOptions,
+  SettingsImportResult
+} from '../interfaces/settings.interface';
 import { ValidationResult, RecoveryResult, SettingType, Settings } from '../../../shared';
+import { createSettingsBundle, splitBundleKey, toBundleKey, validateSettingsBundle } from './settings.bundle';
+import { createSettingsConfigSource } from './settings.config';
+import { createSettingsHistory } from './settings.history';
+import { createSettingsStorage } from './settings.storage';
+import { SettingsSchemaRegistry, validateSettingsSchema } from './settings.schema';
 
 interface SettingsSubscriber {
   key: string;
   callback: (key: string, value: any, userId: string | null) => void;
 }
 
+// A stored entry, or one in a bundle, with the scope it belongs to
+interface SettingsEntry {
+  storageKey: string;
+  key: string;
+  userId?: string;
+  pluginId?: string;
+  value: any;
+  locked?: boolean;
+}
+
+export class SettingValidationError extends Error {
+  readonly key: string;
+  readonly errors: string[];
+
+  constructor(message: string, key: string, errors: string[]) {
+    super(message);
+    this.name = 'SettingValidationError';
+    this.key = key;
+    this.errors = errors;
+  }
+}
+
+export class SettingLockedError extends Error {
+  readonly key: string;
+
+  constructor(key: string) {
+    super(`Setting ${key} is locked by an administrator`);
+    this.name = 'SettingLockedError';
+    this.key = key;
+  }
+}
+
+// A stored entry only counts as a value when it has one
+function hasValue(setting: Settings | null): setting is Settings {
+  return !!setting && setting.value !== undefined;
+}
+
 export class SettingsService implements ISettingsService {
-  private storage: any;
+  private storage: ISettingsStorage;
+  private schemaRegistry: SettingsSchemaRegistry;
+  private configSource: ISettingsConfigSource;
+  private history: ISettingsHistory;
   private validator: any;
   private subscribers: SettingsSubscriber[] = [];
 
-  constructor() {
+  constructor(
+    storage?: ISettingsStorage,
+    schemaRegistry?: SettingsSchemaRegistry,
+    configSource?: ISettingsConfigSource,
+    history?: ISettingsHistory
+  ) {
+    // localStorage in the browser, data/settings.json on the server
+    this.storage = storage || createSettingsStorage();
+    this.schemaRegistry = schemaRegistry || new SettingsSchemaRegistry();
+    // Environment variables and config/settings.json on the server
+    this.configSource = configSource || createSettingsConfigSource();
+    // In memory in the browser, data/settings-history.json on the server
+    this.history = history || createSettingsHistory();
     this.initializeComponents();
   }
 
   private initializeComponents(): void {
-    // Initialize storage backend (localStorage, database, etc.)
-    this.storage = {
-      get: async (key: string) => {
-        try {
-          if (typeof window !== 'undefined' && window.localStorage) {
-            const stored = localStorage.getItem(`settings.${key}`);
-            return stored ? JSON.parse(stored) : null;
-          }
-          return null;
-        } catch (error) {
-          console.error(`Error reading setting ${key}:`, error);
-          return null;
-        }
-      },
-      set: async (key: string, value: Settings) => {
-        try {
-          if (typeof window !== 'undefined' && window.localStorage) {
-            localStorage.setItem(`settings.${key}`, JSON.stringify(value));
-          }
-        } catch (error) {
-          console.error(`Error saving setting ${key}:`, error);
-          throw error;
-        }
-      },
-      delete: async (key: string) => {
-        try {
-          if (typeof window !== 'undefined' && window.localStorage) {
-            localStorage.removeItem(`settings.${key}`);
-          }
-        } catch (error) {
-          console.error(`Error deleting setting ${key}:`, error);
-          throw error;
-        }
-      },
-      clear: async () => {
-        try {
-          if (typeof window !== 'undefined' && window.localStorage) {
-            const keys = Object.keys(localStorage).filter(key => key.startsWith('settings.'));
-            keys.forEach(key => localStorage.removeItem(key));
-          }
-        } catch (error) {
-          console.error('Error clearing settings:', error);
-          throw error;
-        }
-      },
-      keys: async () => {
-        try {
-          if (typeof window !== 'undefined' && window.localStorage) {
-            return Object.keys(localStorage)
-              .filter(key => key.startsWith('settings.'))
-              .map(key => key.replace('settings.', ''));
-          }
-          return [];
-        } catch (error) {
-          console.error('Error getting setting keys:', error);
-          return [];
-        }
-      }
-    };
-
     // Initialize validation engine
     this.validator = {
-      validateSetting: async (key: string, value: any): Promise<ValidationResult> => {
-        const errors: string[] = [];
-
-        // Built-in validation rules
-        const validationRules = this.getValidationRules(key);
-        
-        for (const rule of validationRules) {
-          if (!this.validateRule(value, rule)) {
-            errors.push(rule.message);
-          }
-        }
-
-        return {
-          isValid: errors.length === 0,
-          errors
-        };
+      // Plugin settings are checked against the plugin's schema, others against the core schema
+      validateSetting: async (key: string, value: any, pluginId?: string): Promise<ValidationResult> => {
+        return this.schemaRegistry.validate(key, value, pluginId);
       },
       validateSchema: async (schema: any): Promise<ValidationResult> => {
-        // Schema validation implementation ready
-        // In production, this would validate plugin settings against their schema
-        return { isValid: true, errors: [] };
+        return validateSettingsSchema(schema);
       },
       sanitizeValue: (value: any): any => {
         // Basic sanitization - in a real app, you'd want more sophisticated sanitization
@@ -110,51 +107,6 @@ export class SettingsService implements ISettingsService {
     };
   }
 
-  private getValidationRules(key: string): any[] {
-    // Define built-in validation rules for common settings
-    const rules: Record<string, any[]> = {
-      theme: [
-        {
-          type: 'enum',
-          values: ['light', 'dark', 'auto'],
-          message: 'Theme must be one of: light, dark, auto'
-        }
-      ],
-      language: [
-        {
-          type: 'enum',
-          values: ['en', 'es', 'fr', 'de', 'ja', 'zh'],
-          message: 'Language must be a supported language code'
-        }
-      ],
-      notifications: [
-        {
-          type: 'boolean',
-          message: 'Notifications setting must be true or false'
-        }
-      ]
-    };
-
-    return rules[key] || [];
-  }
-
-  private validateRule(value: any, rule: any): boolean {
-    switch (rule.type) {
-      case 'enum':
-        return rule.values.includes(value);
-      case 'boolean':
-        return typeof value === 'boolean';
-      case 'number':
-        return typeof value === 'number' && !isNaN(value);
-      case 'string':
-        return typeof value === 'string';
-      case 'range':
-        return typeof value === 'number' && value >= rule.min && value <= rule.max;
-      default:
-        return true;
-    }
-  }
-
   private determineSettingType(value: any): SettingType {
     if (typeof value === 'string') return SettingType.STRING;
     if (typeof value === 'number') return SettingType.NUMBER;
@@ -164,6 +116,11 @@ export class SettingsService implements ISettingsService {
     return SettingType.STRING;
   }
 
+  /**
+   * Storage key of a stored layer: `core.<key>` holds the admin value of a core
+   * setting, `<pluginId>.<key>` a plugin's own value, and `<userId>.<key>` or
+   * `<userId>.<pluginId>.<key>` a user's override
+   */
   private buildKey(key: string, userId?: string, pluginId?: string): string {
     if (userId && pluginId) {
       return `${userId}.${pluginId}.${key}`;
@@ -176,6 +133,60 @@ export class SettingsService implements ISettingsService {
     }
   }
 
+  // A dot would make a core key land on a plugin setting's storage key
+  private assertCoreSettingKey(key: string): void {
+    if (key.includes('.')) {
+      throw new SettingValidationError(`Setting key ${key} cannot contain '.'`, key, [`${key} cannot contain '.'`]);
+    }
+  }
+
+  // Admin values of plugin settings live next to the core ones
+  private buildAdminKey(key: string, pluginId?: string): string {
+    return pluginId ? `core.${pluginId}.${key}` : this.buildKey(key);
+  }
+
+  /**
+   * Write or remove one stored entry and add the change to the history
+   */
+  private async writeEntry(
+    storageKey: string,
+    next: Settings | null,
+    context: SettingChangeContext,
+    action: SettingChange['action'] = next ? 'set' : 'delete',
+    previous?: Settings | null
+  ): Promise<void> {
+    const before = previous !== undefined ? previous : await this.storage.get(storageKey);
+    if (next) {
+      await this.storage.set(storageKey, next);
+    } else {
+      await this.storage.delete(storageKey);
+    }
+
+    const entry = next || before;
+    if (!entry) {
+      return;
+    }
+
+    try {
+      await this.history.record({
+        id: Date.now().toString(36) + Math.random().toString(36).substring(2),
+        storageKey,
+        key: entry.key || storageKey.substring(storageKey.lastIndexOf('.') + 1),
+        ...(entry.userId ? { userId: entry.userId } : {}),
+        ...(entry.pluginId ? { pluginId: entry.pluginId } : {}),
+        action,
+        previous: before,
+        current: next,
+        ...(context.changedBy ? { changedBy: context.changedBy } : {}),
+        source: context.source || 'api',
+        changedAt: new Date()
+      });
+    } catch (error) {
+      // The change itself went through, so only the audit entry is lost
+      console.error(`Error recording history for setting ${storageKey}:`, error);
+    }
+  }
+
   private notifySubscribers(key: string, value: any, userId: string | null): void {
     this.subscribers
       .filter(sub => sub.key === key)
@@ -190,32 +201,88 @@ export class SettingsService implements ISettingsService {
 
   async getSetting<T>(key: string, userId?: string): Promise<T | null> {
     try {
-      // Try user-specific setting first if userId provided
-      if (userId) {
-        const userKey = this.buildKey(key, userId);
-        const userSetting = await this.storage.get(userKey);
-        if (userSetting) {
-          return userSetting.value as T;
-        }
-      }
-
-      // Fall back to core setting
-      const coreKey = this.buildKey(key);
-      const coreSetting = await this.storage.get(coreKey);
-      return coreSetting ? (coreSetting.value as T) : null;
+      const explanation = await this.explainSetting(key, userId ? { userId } : {});
+      return explanation.winner ? (explanation.value as T) : null;
     } catch (error) {
       console.error(`Error getting setting ${key}:`, error);
       return null;
     }
   }
 
-  async setSetting<T>(key: string, value: T, userId?: string): Promise<void> {
+  /**
+   * Every layer that could supply a setting's value, lowest precedence first:
+   * built-in default, deployment config, admin value, plugin default, user
+   * override. The highest layer with a value wins, unless the admin value is locked.
+   */
+  async explainSetting(key: string, scope: SettingScope = {}): Promise<SettingExplanation> {
+    const { userId, pluginId } = scope;
+    const definition = this.schemaRegistry.getDefinition(key, pluginId);
+    const schemaDefault = definition?.default;
+
+    const config = await this.configSource.get(pluginId ? `${pluginId}.${key}` : key);
+    const adminKey = this.buildAdminKey(key, pluginId);
+    const admin = await this.storage.get(adminKey);
+    const pluginKey = pluginId ? this.buildKey(key, undefined, pluginId) : undefined;
+    const plugin = pluginKey ? await this.storage.get(pluginKey) : null;
+    const userKey = userId ? this.buildKey(key, userId, pluginId) : undefined;
+    const user = userKey ? await this.storage.get(userKey) : null;
+
+    const unset = (layer: SettingLayer['layer']): SettingLayer => ({ layer, set: false });
+    const stored = (layer: SettingLayer['layer'], source: string, setting: Settings): SettingLayer =>
+      ({ layer, set: true, value: setting.value, source });
+
+    const layers: SettingLayer[] = [
+      !pluginId && schemaDefault !== undefined
+        ? { layer: 'default', set: true, value: schemaDefault, source: 'schema' }
+        : unset('default'),
+      config ? { layer: 'config', set: true, value: config.value, source: config.source } : unset('config'),
+      hasValue(admin) ? { ...stored('admin', adminKey, admin), locked: !!admin.locked } : unset('admin'),
+      hasValue(plugin)
+        ? stored('plugin', pluginKey!, plugin)
+        : pluginId && schemaDefault !== undefined
+          ? { layer: 'plugin', set: true, value: schemaDefault, source: 'schema' }
+          : unset('plugin'),
+      hasValue(user) ? stored('user', userKey!, user) : unset('user')
+    ];
+
+    const locked = hasValue(admin) && !!admin.locked;
+    const winner = locked ? layers[2] : [...layers].reverse().find(layer => layer.set);
+
+    return {
+      key,
+      ...(userId ? { userId } : {}),
+      ...(pluginId ? { pluginId } : {}),
+      value: winner ? winner.value : null,
+      winner: winner ? winner.layer : null,
+      locked,
+      layers
+    };
+  }
+
+  /**
+   * Without a userId this sets the admin value, which keeps its lock unless
+   * `locked` says otherwise. Users cannot override a locked value.
+   */
+  async setSetting<T>(
+    key: string,
+    value: T,
+    userId?: string,
+    options: { locked?: boolean } & SettingChangeContext = {}
+  ): Promise<void> {
     try {
+      this.assertCoreSettingKey(key);
+
       // Validate the setting value
       const validation = await this.validator.validateSetting(key, value);
       if (!validation.isValid) {
-        throw new Error(`Setting validation failed: ${validation.errors.join(', ')}`);
+        throw new SettingValidationError(`Setting validation failed: ${validation.errors.join(', ')}`, key, validation.errors);
+      }
+
+      const admin = await this.storage.get(this.buildKey(key));
+      if (userId && admin?.locked) {
+        throw new SettingLockedError(key);
       }
+      const locked = !userId && (options.locked ?? !!admin?.locked);
 
       // Sanitize the value
       const sanitizedValue = this.validator.sanitizeValue(value);
@@ -228,12 +295,13 @@ export class SettingsService implements ISettingsService {
         userId: userId,
         pluginId: undefined,
         validation: [],
-        updatedAt: new Date()
+        updatedAt: new Date(),
+        ...(locked ? { locked: true } : {})
       };
 
       // Build storage key and save
       const storageKey = this.buildKey(key, userId);
-      await this.storage.set(storageKey, setting);
+      await this.writeEntry(storageKey, setting, { changedBy: userId, ...options }, 'set', userId ? undefined : admin);
 
       // Notify subscribers
       this.notifySubscribers(key, sanitizedValue, userId || null);
@@ -243,6 +311,370 @@ export class SettingsService implements ISettingsService {
     }
   }
 
+  /**
+   * Lock the admin value of a setting so users cannot override it. Without a
+   * value, the value users currently get without an override of their own is locked.
+   */
+  async lockSetting(key: string, options: { value?: any; pluginId?: string } & SettingChangeContext = {}): Promise<void> {
+    const { pluginId } = options;
+    const value = options.value !== undefined ? options.value : (await this.explainSetting(key, pluginId ? { pluginId } : {})).value;
+    if (value === null || value === undefined) {
+      throw new SettingValidationError(`Setting ${key} has no value to lock`, key, [`${key} has no value to lock`]);
+    }
+
+    const validation = await this.validator.validateSetting(key, value, pluginId);
+    if (!validation.isValid) {
+      throw new SettingValidationError(`Setting validation failed: ${validation.errors.join(', ')}`, key, validation.errors);
+    }
+
+    await this.writeEntry(this.buildAdminKey(key, pluginId), {
+      key,
+      value: this.validator.sanitizeValue(value),
+      type: this.determineSettingType(value),
+      pluginId,
+      validation: [],
+      updatedAt: new Date(),
+      locked: true
+    }, options);
+    this.notifySubscribers(pluginId ? `${pluginId}.${key}` : key, value, null);
+  }
+
+  /**
+   * Let users override a setting again. Returns false when it was not locked.
+   */
+  async unlockSetting(key: string, pluginId?: string, context: SettingChangeContext = {}): Promise<boolean> {
+    const adminKey = this.buildAdminKey(key, pluginId);
+    const admin = await this.storage.get(adminKey);
+    if (!admin?.locked) {
+      return false;
+    }
+
+    const unlocked: Settings = { ...admin, updatedAt: new Date() };
+    delete unlocked.locked;
+    await this.writeEntry(adminKey, unlocked, context, 'set', admin);
+    return true;
+  }
+
+  /**
+   * Remove a core setting, or a user's own value for it. Returns false when
+   * there was nothing to remove.
+   */
+  async deleteSetting(key: string, userId?: string, context: SettingChangeContext = {}): Promise<boolean> {
+    try {
+      this.assertCoreSettingKey(key);
+      const storageKey = this.buildKey(key, userId);
+      const existing = await this.storage.get(storageKey);
+      if (!existing) {
+        return false;
+      }
+
+      await this.writeEntry(storageKey, null, { changedBy: userId, ...context }, 'delete', existing);
+
+      // Subscribers see the value that applies now
+      this.notifySubscribers(key, userId ? await this.getSetting(key) : null, userId || null);
+      return true;
+    } catch (error) {
+      console.error(`Error deleting setting ${key}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Changes to every stored layer behind the value a user gets for a setting,
+   * newest first
+   */
+  async getSettingHistory(key: string, scope: SettingScope = {}, limit?: number): Promise<SettingChange[]> {
+    const { userId, pluginId } = scope;
+    const storageKeys = [this.buildAdminKey(key, pluginId)];
+    if (pluginId) {
+      storageKeys.push(this.buildKey(key, undefined, pluginId));
+    }
+    if (userId) {
+      storageKeys.push(this.buildKey(key, userId, pluginId));
+    }
+
+    const changes = await this.history.query({ storageKeys, ...(limit !== undefined ? { limit } : {}) });
+    return changes.reverse();
+  }
+
+  /**
+   * Put one stored entry back the way it was at `timestamp`: the user's
+   * override with a userId, the plugin's value with only a pluginId, and the
+   * admin value with neither or with `admin`. Returns false when nothing changed.
+   */
+  async restoreSetting(
+    key: string,
+    timestamp: Date,
+    scope: SettingScope & { admin?: boolean } = {},
+    context: SettingChangeContext = {}
+  ): Promise<boolean> {
+    const { userId, pluginId, admin } = scope;
+    const storageKey = admin ? this.buildAdminKey(key, pluginId) : this.buildKey(key, userId, pluginId);
+    return this.restoreEntry(storageKey, timestamp, context);
+  }
+
+  /**
+   * Put every entry of a scope back the way it was at `timestamp`: a user's
+   * overrides (optionally only for one plugin), a plugin's values, or the
+   * admin values. Returns the storage keys that changed.
+   */
+  async restoreScope(
+    timestamp: Date,
+    scope: SettingScope & { admin?: boolean } = {},
+    context: SettingChangeContext = {}
+  ): Promise<string[]> {
+    const { userId, pluginId, admin } = scope;
+    const prefix = admin || (!userId && !pluginId)
+      ? ['core', pluginId].filter(Boolean).join('.') + '.'
+      : [userId, pluginId].filter(Boolean).join('.') + '.';
+
+    // Entries without any history have not changed since
+    const storageKeys = new Set((await this.history.query({ prefix })).map(change => change.storageKey));
+    const restored: string[] = [];
+    for (const storageKey of storageKeys) {
+      if (await this.restoreEntry(storageKey, timestamp, context)) {
+        restored.push(storageKey);
+      }
+    }
+    return restored;
+  }
+
+  private async restoreEntry(storageKey: string, timestamp: Date, context: SettingChangeContext): Promise<boolean> {
+    const changes = await this.history.query({ storageKeys: [storageKey] });
+    const lastBefore = changes.filter(change => change.changedAt.getTime() <= timestamp.getTime()).pop();
+    const firstAfter = changes.find(change => change.changedAt.getTime() > timestamp.getTime());
+    if (!lastBefore && !firstAfter) {
+      return false;
+    }
+
+    const target = lastBefore ? lastBefore.current : firstAfter!.previous;
+    const current = await this.storage.get(storageKey);
+    const same = (a: Settings | null, b: Settings | null) =>
+      !!a === !!b && (!a || (JSON.stringify(a.value) === JSON.stringify(b!.value) && !!a.locked === !!b!.locked));
+    if (same(target, current)) {
+      return false;
+    }
+
+    await this.writeEntry(storageKey, target ? { ...target, updatedAt: new Date() } : null, context, 'restore', current);
+
+    // Subscribers see a restore like any other change
+    const entry = (target || current)!;
+    const userId = entry.userId ?? null;
+    const subscriberKey = entry.pluginId ? `${entry.pluginId}.${entry.key}` : entry.key;
+    const value = target ? target.value : entry.pluginId ? null : await this.getSetting(entry.key, userId ?? undefined);
+    this.notifySubscribers(subscriberKey, value, userId);
+    return true;
+  }
+
+  /**
+   * The stored entries of a scope as a bundle: everything without a scope,
+   * only one user's overrides with a userId, and only one plugin's entries
+   * with a pluginId
+   */
+  async exportSettings(scope: SettingScope = {}): Promise<SettingsBundle> {
+    const bundle = createSettingsBundle(scope);
+
+    for (const entry of await this.getStoredEntries(scope)) {
+      const bundleKey = toBundleKey(entry.key, entry.pluginId);
+      if (entry.userId) {
+        const values = bundle.users[entry.userId] || (bundle.users[entry.userId] = {});
+        values[bundleKey] = entry.value;
+      } else if (entry.storageKey.startsWith('core.')) {
+        bundle.core[bundleKey] = { value: entry.value, ...(entry.locked ? { locked: true } : {}) };
+      } else {
+        const values = bundle.plugins[entry.pluginId!] || (bundle.plugins[entry.pluginId!] = {});
+        values[entry.key] = entry.value;
+      }
+    }
+
+    return bundle;
+  }
+
+  /**
+   * Apply a bundle from exportSettings. Every entry is checked against the
+   * schema, the admin locks and the import scope first, and nothing is written
+   * unless all of them pass. With `dryRun` the changes are only listed.
+   */
+  async importSettings(
+    bundle: SettingsBundle,
+    options: SettingsImportOptions = {},
+    context: SettingChangeContext = {}
+  ): Promise<SettingsImportResult> {
+    const result: SettingsImportResult = {
+      mode: options.mode || 'merge',
+      dryRun: !!options.dryRun,
+      applied: false,
+      changes: [],
+      errors: validateSettingsBundle(bundle)
+    };
+    if (result.errors.length > 0) {
+      return result;
+    }
+
+    const scope = options.scope || bundle.scope || {};
+    const entries = this.getBundleEntries(bundle, options.scope?.userId);
+    const incoming = new Map(entries.map(entry => [entry.storageKey, entry]));
+
+    for (const entry of entries) {
+      if (!this.isInScope(entry, scope)) {
+        result.errors.push(`${entry.storageKey} is outside the import scope`);
+        continue;
+      }
+
+      const validation: ValidationResult = await this.validator.validateSetting(entry.key, entry.value, entry.pluginId);
+      result.errors.push(...validation.errors.map(error => `${entry.storageKey}: ${error}`));
+
+      if (entry.userId) {
+        const adminKey = this.buildAdminKey(entry.key, entry.pluginId);
+        const admin = incoming.get(adminKey) || await this.storage.get(adminKey);
+        if (admin?.locked) {
+          result.errors.push(`${entry.storageKey}: Setting ${toBundleKey(entry.key, entry.pluginId)} is locked by an administrator`);
+        }
+      }
+    }
+    if (result.errors.length > 0) {
+      return result;
+    }
+
+    for (const entry of entries) {
+      const value = this.validator.sanitizeValue(entry.value);
+      const current = await this.storage.get(entry.storageKey);
+      const change = this.describeEntry(entry, hasValue(current) ? 'update' : 'add');
+      if (!hasValue(current)) {
+        result.changes.push({ ...change, value });
+      } else if (JSON.stringify(current.value) !== JSON.stringify(value) || !!current.locked !== !!entry.locked) {
+        result.changes.push({ ...change, previous: current.value, value });
+      }
+    }
+    if (result.mode === 'replace') {
+      for (const stored of await this.getStoredEntries(scope)) {
+        if (!incoming.has(stored.storageKey)) {
+          result.changes.push({ ...this.describeEntry(stored, 'remove'), previous: stored.value });
+        }
+      }
+    }
+
+    if (result.dryRun) {
+      return result;
+    }
+
+    for (const change of result.changes) {
+      const next: Settings | null = change.change === 'remove' ? null : {
+        key: change.key,
+        value: change.value,
+        type: this.determineSettingType(change.value),
+        userId: change.userId,
+        pluginId: change.pluginId,
+        validation: [],
+        updatedAt: new Date(),
+        ...(change.locked ? { locked: true } : {})
+      };
+      await this.writeEntry(change.storageKey, next, context, 'import');
+
+      const value = next ? next.value : change.pluginId ? null : await this.getSetting(change.key, change.userId);
+      this.notifySubscribers(toBundleKey(change.key, change.pluginId), value, change.userId ?? null);
+    }
+
+    result.applied = true;
+    return result;
+  }
+
+  // Stored entries that have a value, limited to a user and/or plugin when given
+  private async getStoredEntries(scope: SettingScope): Promise<SettingsEntry[]> {
+    const entries: SettingsEntry[] = [];
+    for (const storageKey of await this.storage.keys()) {
+      const setting = await this.storage.get(storageKey);
+      if (!hasValue(setting)) {
+        continue;
+      }
+
+      const admin = storageKey.startsWith('core.');
+      const entry: SettingsEntry = {
+        storageKey,
+        key: setting.key || storageKey.substring(storageKey.lastIndexOf('.') + 1),
+        userId: admin ? undefined : setting.userId,
+        pluginId: setting.pluginId,
+        value: setting.value,
+        locked: admin && !!setting.locked
+      };
+      if ((admin || entry.userId || entry.pluginId) && this.isInScope(entry, scope)) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  // A bundle exported for one user can be imported for another, e.g. in another environment
+  private getBundleEntries(bundle: SettingsBundle, userId?: string): SettingsEntry[] {
+    const entries: SettingsEntry[] = [];
+
+    for (const [bundleKey, { value, locked }] of Object.entries(bundle.core || {})) {
+      const { key, pluginId } = splitBundleKey(bundleKey);
+      entries.push({ storageKey: this.buildAdminKey(key, pluginId), key, pluginId, value, locked: !!locked });
+    }
+    for (const [bundleUserId, values] of Object.entries(bundle.users || {})) {
+      const targetUserId = userId && bundle.scope?.userId === bundleUserId ? userId : bundleUserId;
+      for (const [bundleKey, value] of Object.entries(values)) {
+        const { key, pluginId } = splitBundleKey(bundleKey);
+        entries.push({ storageKey: this.buildKey(key, targetUserId, pluginId), key, userId: targetUserId, pluginId, value });
+      }
+    }
+    for (const [pluginId, values] of Object.entries(bundle.plugins || {})) {
+      for (const [key, value] of Object.entries(values)) {
+        entries.push({ storageKey: this.buildKey(key, undefined, pluginId), key, pluginId, value });
+      }
+    }
+
+    return entries;
+  }
+
+  private isInScope(entry: SettingsEntry, scope: SettingScope): boolean {
+    return (!scope.userId || entry.userId === scope.userId) && (!scope.pluginId || entry.pluginId === scope.pluginId);
+  }
+
+  private describeEntry(entry: SettingsEntry, change: SettingsImportChange['change']): SettingsImportChange {
+    return {
+      storageKey: entry.storageKey,
+      key: entry.key,
+      ...(entry.userId ? { userId: entry.userId } : {}),
+      ...(entry.pluginId ? { pluginId: entry.pluginId } : {}),
+      change,
+      ...(entry.locked && change !== 'remove' ? { locked: true } : {})
+    };
+  }
+
+  /**
+   * The value the user gets for every core setting that has one
+   */
+  async getUserSettings(userId: string): Promise<Record<string, any>> {
+    try {
+      const keys = new Set(Object.keys(this.schemaRegistry.getMergedSchema().core));
+
+      // Plugin settings (`<userId>.<pluginId>.<key>`) have an extra segment
+      for (const fullKey of await this.storage.keys()) {
+        for (const prefix of ['core.', `${userId}.`]) {
+          const settingKey = fullKey.substring(prefix.length);
+          if (fullKey.startsWith(prefix) && !settingKey.includes('.')) {
+            keys.add(settingKey);
+          }
+        }
+      }
+
+      const settings: Record<string, any> = {};
+      for (const key of keys) {
+        const explanation = await this.explainSetting(key, { userId });
+        if (explanation.winner) {
+          settings[key] = explanation.value;
+        }
+      }
+
+      return settings;
+    } catch (error) {
+      console.error(`Error getting settings for user ${userId}:`, error);
+      return {};
+    }
+  }
+
   async getPluginSettings(pluginId: string): Promise<Record<string, any>> {
     try {
       const keys = await this.storage.keys();
@@ -266,12 +698,23 @@ export class SettingsService implements ISettingsService {
     }
   }
 
-  async setPluginSetting(pluginId: string, key: string, value: any, userId?: string, skipValidation: boolean = false): Promise<void> {
+  async setPluginSetting(
+    pluginId: string,
+    key: string,
+    value: any,
+    userId?: string,
+    skipValidation: boolean = false,
+    context: SettingChangeContext = {}
+  ): Promise<void> {
     try {
       // Validate the setting value
-      const validation = await this.validator.validateSetting(key, value);
+      const validation = await this.validator.validateSetting(key, value, pluginId);
       if (!validation.isValid) {
-        throw new Error(`Plugin setting validation failed: ${validation.errors.join(', ')}`);
+        throw new SettingValidationError(`Plugin setting validation failed: ${validation.errors.join(', ')}`, key, validation.errors);
+      }
+
+      if (userId && (await this.storage.get(this.buildAdminKey(key, pluginId)))?.locked) {
+        throw new SettingLockedError(`${pluginId}.${key}`);
       }
 
       // Validate against plugin schema if available and not skipping validation
@@ -295,7 +738,7 @@ export class SettingsService implements ISettingsService {
 
       // Build storage key and save
       const storageKey = this.buildKey(key, userId, pluginId);
-      await this.storage.set(storageKey, setting);
+      await this.writeEntry(storageKey, setting, { changedBy: userId, source: 'plugin', ...context });
 
       // Notify subscribers
       this.notifySubscribers(`${pluginId}.${key}`, sanitizedValue, userId ?? null);
@@ -328,6 +771,7 @@ export class SettingsService implements ISettingsService {
       if (!schemaValidation.isValid) {
         throw new Error(`Invalid plugin settings schema: ${schemaValidation.errors.join(', ')}`);
       }
+      this.schemaRegistry.registerPluginSchema(pluginId, settingsSchema);
 
       // Check if plugin settings already exist by looking at storage directly
       const keys = await this.storage.keys();
@@ -344,8 +788,8 @@ export class SettingsService implements ISettingsService {
       
       // Only set defaults for settings that don't already exist
       for (const [key, schema] of Object.entries(settingsSchema)) {
-        if (!(key in existingSettings)) {
-          await this.setPluginSetting(pluginId, key, schema.default, undefined, true); // Skip validation for registration
+        if (!(key in existingSettings) && schema.default !== undefined) {
+          await this.setPluginSetting(pluginId, key, schema.default, undefined, true, { source: 'system' }); // Skip validation for registration
         }
       }
 
@@ -374,7 +818,7 @@ export class SettingsService implements ISettingsService {
       const pluginKeys = keys.filter((key: string) => key.startsWith(`${pluginId}.`));
       
       for (const key of pluginKeys) {
-        await this.storage.delete(key);
+        await this.writeEntry(key, null, { source: 'system' });
       }
 
       console.log(`Reset settings for plugin: ${pluginId}`);
@@ -390,7 +834,7 @@ export class SettingsService implements ISettingsService {
       const pluginKeys = keys.filter((key: string) => key.startsWith(`${pluginId}.`));
       
       for (const key of pluginKeys) {
-        await this.storage.delete(key);
+        await this.writeEntry(key, null, { source: 'system' });
       }
 
       console.log(`Removed settings for plugin: ${pluginId}`);
@@ -412,12 +856,13 @@ export class SettingsService implements ISettingsService {
   async updatePluginSettingsSchema(pluginInfo: { id: string; name: string; settings: Record<string, any> }): Promise<void> {
     try {
       const { id: pluginId, settings: settingsSchema } = pluginInfo;
+      this.schemaRegistry.registerPluginSchema(pluginId, settingsSchema);
       const existingSettings = await this.getPluginSettings(pluginId);
       
       // Add new settings with defaults
       for (const [key, schema] of Object.entries(settingsSchema)) {
-        if (!(key in existingSettings)) {
-          await this.setPluginSetting(pluginId, key, schema.default, undefined, true); // Skip validation for new settings
+        if (!(key in existingSettings) && schema.default !== undefined) {
+          await this.setPluginSetting(pluginId, key, schema.default, undefined, true, { source: 'system' }); // Skip validation for new settings
         }
       }
     } catch (error) {
@@ -444,7 +889,7 @@ export class SettingsService implements ISettingsService {
       }
 
       for (const key of keysToDelete) {
-        await this.storage.delete(key);
+        await this.writeEntry(key, null, { source: 'system' });
       }
 
       console.log(`Reset ${keysToDelete.length} settings for scope: ${scope || 'core'}`);
@@ -458,6 +903,20 @@ export class SettingsService implements ISettingsService {
     return await this.validator.validateSetting(key, value);
   }
 
+  /**
+   * Forget a plugin's settings schema, e.g. once the plugin is uninstalled
+   */
+  unregisterPluginSettings(pluginId: string): void {
+    this.schemaRegistry.unregisterPluginSchema(pluginId);
+  }
+
+  /**
+   * Core and plugin setting definitions, for rendering settings forms
+   */
+  getSettingsSchema(): MergedSettingsSchema {
+    return this.schemaRegistry.getMergedSchema();
+  }
+
   async recoverCorruptedSettings(): Promise<RecoveryResult> {
     try {
       const keys = await this.storage.keys();
@@ -511,6 +970,7 @@ export class SettingsService implements ISettingsService {
     // Valid formats: core.key, user-123.key, plugin-1.key, user-123.plugin-1.key
     const patterns = [
       /^core\.[a-zA-Z][a-zA-Z0-9_-]*$/,           // core.setting
+      /^core\.[a-zA-Z][a-zA-Z0-9_-]+\.[a-zA-Z][a-zA-Z0-9_-]*$/,  // core.plugin-1.setting
       /^user-[a-zA-Z0-9_-]+\.[a-zA-Z][a-zA-Z0-9_-]*$/,  // user-123.setting
       /^[a-zA-Z][a-zA-Z0-9_-]+\.[a-zA-Z][a-zA-Z0-9_-]*$/,  // plugin-1.setting
       /^user-[a-zA-Z0-9_-]+\.[a-zA-Z][a-zA-Z0-9_-]+\.[a-zA-Z][a-zA-Z0-9_-]*$/  // user-123.plugin-1.setting
@@ -530,53 +990,6 @@ export class SettingsService implements ISettingsService {
     );
   }
 
-  private isValidSettingType(type: string): boolean {
-    const validTypes = ['string', 'number', 'boolean', 'array', 'object'];
-    return validTypes.includes(type);
-  }
-  
-  private isValidFieldSchema(fieldSchema: any): boolean {
-    if (!fieldSchema || typeof fieldSchema !== 'object') {
-      return false;
-    }
-    
-    // Required properties
-    if (!fieldSchema.type || !this.isValidSettingType(fieldSchema.type)) {
-      return false;
-    }
-    
-    if (fieldSchema.default === undefined) {
-      return false;
-    }
-    
-    // Optional properties validation
-    if (fieldSchema.required !== undefined && typeof fieldSchema.required !== 'boolean') {
-      return false;
-    }
-    
-    if (fieldSchema.description !== undefined && typeof fieldSchema.description !== 'string') {
-      return false;
-    }
-    
-    // Type-specific validation
-    if (fieldSchema.type === 'string' && fieldSchema.maxLength !== undefined) {
-      if (typeof fieldSchema.maxLength !== 'number' || fieldSchema.maxLength <= 0) {
-        return false;
-      }
-    }
-    
-    if (fieldSchema.type === 'number') {
-      if (fieldSchema.min !== undefined && typeof fieldSchema.min !== 'number') {
-        return false;
-      }
-      if (fieldSchema.max !== undefined && typeof fieldSchema.max !== 'number') {
-        return false;
-      }
-    }
-    
-    return true;
-  }
-
   private async validatePluginSettingValue(pluginId: string, key: string, value: any): Promise<void> {
     try {
       // Get plugin settings to check against schema if available
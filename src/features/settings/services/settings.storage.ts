@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ISettingsStorage } from '../interfaces/settings.interface';
+import { Settings } from '../../../shared';
+import { getDataDirectory } from '../../../shared/utils/data-directory';
+import { withFileLock, writeFileAtomic } from '../../../shared/utils/atomic-file';
+
+export function getSettingsFile(): string {
+  return path.join(getDataDirectory(), 'settings.json');
+}
+
+// JSON has no dates, so updatedAt comes back as a string
+function reviveSetting(setting: any): Settings {
+  return setting && typeof setting.updatedAt === 'string'
+    ? { ...setting, updatedAt: new Date(setting.updatedAt) }
+    : setting;
+}
+
+/**
+ * Settings kept in the browser's localStorage under `settings.<key>`
+ */
+export class LocalStorageSettingsStorage implements ISettingsStorage {
+  async get(key: string): Promise<Settings | null> {
+    try {
+      if (this.isAvailable()) {
+        const stored = localStorage.getItem(`settings.${key}`);
+        return stored ? reviveSetting(JSON.parse(stored)) : null;
+      }
+      return null;
+    } catch (error) {
+      console.error(`Error reading setting ${key}:`, error);
+      return null;
+    }
+  }
+
+  async set(key: string, setting: Settings): Promise<void> {
+    try {
+      if (this.isAvailable()) {
+        localStorage.setItem(`settings.${key}`, JSON.stringify(setting));
+      }
+    } catch (error) {
+      console.error(`Error saving setting ${key}:`, error);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      if (this.isAvailable()) {
+        localStorage.removeItem(`settings.${key}`);
+      }
+    } catch (error) {
+      console.error(`Error deleting setting ${key}:`, error);
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      if (this.isAvailable()) {
+        const keys = Object.keys(localStorage).filter(key => key.startsWith('settings.'));
+        keys.forEach(key => localStorage.removeItem(key));
+      }
+    } catch (error) {
+      console.error('Error clearing settings:', error);
+      throw error;
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      if (this.isAvailable()) {
+        return Object.keys(localStorage)
+          .filter(key => key.startsWith('settings.'))
+          .map(key => key.replace('settings.', ''));
+      }
+      return [];
+    } catch (error) {
+      console.error('Error getting setting keys:', error);
+      return [];
+    }
+  }
+
+  private isAvailable(): boolean {
+    return typeof window !== 'undefined' && !!window.localStorage;
+  }
+}
+
+/**
+ * Settings kept in one JSON file under the data directory. Every read goes to
+ * the file, and every change is made while holding its lock, so several
+ * server processes can share it.
+ */
+export class JsonFileSettingsStorage implements ISettingsStorage {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly resolveFile: () => string = getSettingsFile) {}
+
+  async get(key: string): Promise<Settings | null> {
+    const settings = await this.readAll();
+    return Object.prototype.hasOwnProperty.call(settings, key) ? reviveSetting(settings[key]) : null;
+  }
+
+  async set(key: string, setting: Settings): Promise<void> {
+    await this.update(settings => {
+      settings[key] = setting;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update(settings => {
+      delete settings[key];
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.update(settings => {
+      for (const key of Object.keys(settings)) {
+        delete settings[key];
+      }
+    });
+  }
+
+  async keys(): Promise<string[]> {
+    return Object.keys(await this.readAll());
+  }
+
+  private async readAll(): Promise<Record<string, any>> {
+    try {
+      const parsed = JSON.parse(await fs.promises.readFile(path.resolve(this.resolveFile()), 'utf8'));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  // Changes from this process are applied in the order they were made
+  private update(change: (settings: Record<string, any>) => void): Promise<void> {
+    const filePath = path.resolve(this.resolveFile());
+    const write = this.pendingWrite.then(() => withFileLock(filePath, async () => {
+      const settings = await this.readAll();
+      change(settings);
+      await writeFileAtomic(filePath, JSON.stringify(settings, null, 2));
+    }));
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * localStorage in the browser, the JSON file under the data directory on the server
+ */
+export function createSettingsStorage(): ISettingsStorage {
+  return typeof window !== 'undefined' && typeof localStorage !== 'undefined'
+    ? new LocalStorageSettingsStorage()
+    : new JsonFileSettingsStorage();
+}
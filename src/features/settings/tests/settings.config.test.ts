@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EnvironmentSettingsConfig, getSettingEnvironmentVariable } from '../services/settings.config';
+
+describe('EnvironmentSettingsConfig', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-settings-config-'));
+    filePath = path.join(directory, 'settings.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should name environment variables after the setting key', () => {
+    expect(getSettingEnvironmentVariable('theme')).toBe('SETTING_THEME');
+    expect(getSettingEnvironmentVariable('demo-hello-world.greeting')).toBe('SETTING_DEMO_HELLO_WORLD_GREETING');
+  });
+
+  it('should read values from the config file', async () => {
+    fs.writeFileSync(filePath, JSON.stringify({ theme: 'dark', 'demo-hello-world.refreshInterval': 2000 }));
+    const config = new EnvironmentSettingsConfig({}, () => filePath);
+
+    expect(await config.get('theme')).toEqual({ value: 'dark', source: `file:${filePath}` });
+    expect(await config.get('demo-hello-world.refreshInterval')).toEqual({ value: 2000, source: `file:${filePath}` });
+    expect(await config.get('language')).toBeUndefined();
+  });
+
+  it('should prefer environment variables and parse JSON values', async () => {
+    fs.writeFileSync(filePath, JSON.stringify({ theme: 'dark', notifications: true }));
+    const config = new EnvironmentSettingsConfig({ SETTING_THEME: 'auto', SETTING_NOTIFICATIONS: 'false' }, () => filePath);
+
+    expect(await config.get('theme')).toEqual({ value: 'auto', source: 'env:SETTING_THEME' });
+    expect(await config.get('notifications')).toEqual({ value: false, source: 'env:SETTING_NOTIFICATIONS' });
+  });
+
+  it('should have no values without a config file', async () => {
+    expect(await new EnvironmentSettingsConfig({}, () => filePath).get('theme')).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileSettingsHistory, MemorySettingsHistory } from '../services/settings.history';
+import { SettingChange } from '../interfaces/settings.interface';
+import { SettingType } from '../../../shared/types';
+
+const change = (storageKey: string, value: any, changedAt: Date): SettingChange => ({
+  id: `${storageKey}-${changedAt.getTime()}`,
+  storageKey,
+  key: storageKey.split('.').pop()!,
+  action: 'set',
+  previous: null,
+  current: { key: storageKey.split('.').pop()!, value, type: SettingType.STRING, validation: [], updatedAt: changedAt },
+  changedBy: '1',
+  source: 'api',
+  changedAt
+});
+
+describe('MemorySettingsHistory', () => {
+  it('should keep only the latest changes of each entry', async () => {
+    const history = new MemorySettingsHistory({ maxEntriesPerKey: 2, maxAgeMs: Infinity });
+    const now = Date.now();
+
+    for (let i = 0; i < 4; i++) {
+      await history.record(change('1.theme', `value-${i}`, new Date(now + i)));
+    }
+    await history.record(change('1.language', 'fr', new Date(now + 5)));
+
+    expect((await history.query()).map(entry => entry.current!.value)).toEqual(['value-2', 'value-3', 'fr']);
+  });
+
+  it('should drop changes older than the maximum age', async () => {
+    const history = new MemorySettingsHistory({ maxEntriesPerKey: 10, maxAgeMs: 60 * 1000 });
+
+    await history.record(change('1.theme', 'dark', new Date(Date.now() - 2 * 60 * 1000)));
+    await history.record(change('1.theme', 'light', new Date()));
+
+    expect((await history.query()).map(entry => entry.current!.value)).toEqual(['light']);
+  });
+
+  it('should filter by entry, prefix and time, keeping the most recent changes up to a limit', async () => {
+    const history = new MemorySettingsHistory();
+    const now = Date.now();
+    await history.record(change('core.theme', 'light', new Date(now - 3000)));
+    await history.record(change('1.theme', 'dark', new Date(now - 2000)));
+    await history.record(change('1.language', 'fr', new Date(now - 1000)));
+
+    expect((await history.query({ storageKeys: ['core.theme', '1.theme'] })).map(entry => entry.storageKey))
+      .toEqual(['core.theme', '1.theme']);
+    expect((await history.query({ prefix: '1.' })).map(entry => entry.storageKey)).toEqual(['1.theme', '1.language']);
+    expect((await history.query({ until: new Date(now - 1500) })).map(entry => entry.storageKey)).toEqual(['core.theme', '1.theme']);
+    expect((await history.query({ limit: 1 })).map(entry => entry.storageKey)).toEqual(['1.language']);
+  });
+});
+
+describe('JsonFileSettingsHistory', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-settings-history-'));
+    filePath = path.join(directory, 'settings-history.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist changes and read them back with dates', async () => {
+    const changedAt = new Date();
+    await new JsonFileSettingsHistory(() => filePath).record(change('1.theme', 'dark', changedAt));
+
+    const [entry] = await new JsonFileSettingsHistory(() => filePath).query();
+    expect(entry).toEqual(change('1.theme', 'dark', changedAt));
+  });
+
+  it('should apply concurrent changes without losing any', async () => {
+    const now = Date.now();
+    await Promise.all([
+      new JsonFileSettingsHistory(() => filePath).record(change('1.theme', 'dark', new Date(now))),
+      new JsonFileSettingsHistory(() => filePath).record(change('1.language', 'fr', new Date(now + 1))),
+      new JsonFileSettingsHistory(() => filePath).record(change('core.theme', 'light', new Date(now + 2)))
+    ]);
+
+    expect((await new JsonFileSettingsHistory(() => filePath).query()).map(entry => entry.storageKey).sort())
+      .toEqual(['1.language', '1.theme', 'core.theme']);
+  });
+
+  it('should apply the retention limits to the file', async () => {
+    const history = new JsonFileSettingsHistory(() => filePath, { maxEntriesPerKey: 1, maxAgeMs: Infinity });
+    await history.record(change('1.theme', 'dark', new Date()));
+    await history.record(change('1.theme', 'light', new Date()));
+
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toHaveLength(1);
+  });
+});
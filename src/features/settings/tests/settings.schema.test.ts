@@ -0,0 +1,158 @@
+import { SettingsSchemaRegistry, validateSettingsSchema, validateSettingValue } from '../services/settings.schema';
+import { SettingsService } from '../services/settings.service';
+import { SettingDefinition, SettingsSchema, SettingType } from '../../../shared/types';
+
+const layout: SettingDefinition = {
+  type: SettingType.OBJECT,
+  required: ['columns'],
+  additionalProperties: false,
+  properties: {
+    columns: { type: SettingType.INTEGER, minimum: 1, maximum: 6 },
+    gap: { type: SettingType.STRING, pattern: '^\\d+px$' },
+    pinned: { type: SettingType.ARRAY, items: { type: SettingType.STRING, minLength: 1 }, maxItems: 2 }
+  }
+};
+
+describe('validateSettingValue', () => {
+  it('should accept values that match the definition', () => {
+    expect(validateSettingValue({ columns: 3, gap: '8px', pinned: ['clock'] }, layout, 'layout')).toEqual([]);
+  });
+
+  it('should report type mismatches', () => {
+    expect(validateSettingValue('wide', layout, 'layout')).toEqual(['layout must be of type object']);
+    expect(validateSettingValue(2.5, { type: SettingType.INTEGER }, 'columns')).toEqual(['columns must be of type integer']);
+  });
+
+  it('should report every problem in nested fields with its path', () => {
+    expect(validateSettingValue({ gap: 'wide', pinned: ['', 'a', 'b'], extra: true }, layout, 'layout')).toEqual([
+      'layout.columns is required',
+      'layout.gap must match the pattern ^\\d+px$',
+      'layout.pinned must have at most 2 items',
+      'layout.pinned[0] must be at least 1 characters',
+      'layout.extra is not allowed'
+    ]);
+  });
+
+  it('should check enums and ranges', () => {
+    expect(validateSettingValue('sepia', { type: SettingType.STRING, enum: ['light', 'dark'] }, 'theme'))
+      .toEqual(['theme must be one of: light, dark']);
+    expect(validateSettingValue(0, layout.properties!.columns!, 'columns')).toEqual(['columns must be at least 1']);
+    expect(validateSettingValue(7, layout.properties!.columns!, 'columns')).toEqual(['columns must be at most 6']);
+  });
+});
+
+describe('validateSettingsSchema', () => {
+  it('should reject unknown types, malformed keywords and defaults that do not fit', () => {
+    const result = validateSettingsSchema({
+      mode: { type: 'invalid-type' },
+      size: { type: 'number', minimum: 'small' },
+      name: { type: 'string', pattern: '(' },
+      count: { type: 'integer', maximum: 3, default: 5 }
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      'Invalid setting type: invalid-type',
+      'size: minimum must be a number',
+      'name: pattern is not a valid regular expression',
+      'count default must be at most 3'
+    ]);
+  });
+
+  it('should check nested definitions', () => {
+    expect(validateSettingsSchema({ layout }).isValid).toBe(true);
+    expect(validateSettingsSchema({ layout: { type: 'object', properties: { columns: { type: 'grid' } } } }).errors)
+      .toEqual(['Invalid setting type: grid']);
+  });
+});
+
+describe('SettingsSchemaRegistry', () => {
+  let registry: SettingsSchemaRegistry;
+
+  beforeEach(() => {
+    registry = new SettingsSchemaRegistry();
+  });
+
+  it('should describe the core settings', () => {
+    expect(registry.getDefinition('theme')).toMatchObject({ type: 'string', enum: ['light', 'dark', 'auto'], default: 'light' });
+    expect(registry.validate('theme', 'sepia').errors).toEqual(['theme must be one of: light, dark, auto']);
+    expect(registry.validate('notifications', 'yes').isValid).toBe(false);
+  });
+
+  it('should accept keys nobody described', () => {
+    expect(registry.validate('layout', { columns: 2 })).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should keep plugin schemas apart from core settings', () => {
+    registry.registerPluginSchema('demo-hello-world', { theme: { type: SettingType.NUMBER } });
+
+    expect(registry.validate('theme', 3, 'demo-hello-world').isValid).toBe(true);
+    expect(registry.validate('theme', 3).isValid).toBe(false);
+  });
+
+  it('should refuse invalid schemas', () => {
+    expect(() => registry.registerPluginSchema('broken', { mode: { type: 'invalid-type' } } as unknown as SettingsSchema))
+      .toThrow('Invalid settings schema: Invalid setting type: invalid-type');
+    expect(registry.getPluginSchema('broken')).toBeUndefined();
+  });
+
+  it('should merge core and plugin schemas with their categories', () => {
+    registry.registerPluginSchema('demo-hello-world', {
+      greeting: { type: SettingType.STRING, default: 'Hello World!', category: 'widgets' }
+    });
+    registry.registerPluginSchema('removed', { mode: { type: SettingType.STRING } });
+    registry.unregisterPluginSchema('removed');
+
+    const merged = registry.getMergedSchema();
+    expect(Object.keys(merged.core)).toEqual(['theme', 'language', 'notifications']);
+    expect(merged.plugins).toEqual({
+      'demo-hello-world': { greeting: { type: 'string', default: 'Hello World!', category: 'widgets' } }
+    });
+    expect(merged.categories).toEqual(['appearance', 'general', 'widgets']);
+  });
+});
+
+describe('SettingsService schema validation', () => {
+  let service: SettingsService;
+
+  beforeEach(() => {
+    service = new SettingsService();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should validate core settings against the schema', async () => {
+    await expect(service.setSetting('language', 'xx')).rejects.toMatchObject({
+      name: 'SettingValidationError',
+      key: 'language',
+      errors: ['language must be one of: en, es, fr, de, ja, zh']
+    });
+    await expect(service.setSetting('language', 'fr')).resolves.toBeUndefined();
+  });
+
+  it('should validate plugin settings against the schema the plugin registered', async () => {
+    await service.registerPluginSettings({
+      id: 'demo-hello-world',
+      name: 'Hello World Demo',
+      settings: { refreshInterval: { type: 'integer', minimum: 1000, default: 5000 } }
+    });
+
+    expect(await service.getPluginSettings('demo-hello-world')).toEqual({ refreshInterval: 5000 });
+    await expect(service.setPluginSetting('demo-hello-world', 'refreshInterval', 10))
+      .rejects.toThrow('Plugin setting validation failed: refreshInterval must be at least 1000');
+    expect(service.getSettingsSchema().plugins['demo-hello-world']).toHaveProperty('refreshInterval');
+
+    service.unregisterPluginSettings('demo-hello-world');
+    expect(service.getSettingsSchema().plugins).toEqual({});
+  });
+
+  it('should reject plugin schemas that are not valid', async () => {
+    await expect(service.registerPluginSettings({
+      id: 'broken',
+      name: 'Broken',
+      settings: { mode: { type: 'string', enum: ['a', 'b'], default: 'c' } }
+    })).rejects.toThrow('Invalid plugin settings schema: mode default must be one of: a, b');
+  });
+});
@@ -1,5 +1,8 @@
-import { SettingsService } from '../services/settings.service';
-import { ValidationResult, RecoveryResult, SettingType } from '../../../shared/types';
+import { SettingLockedError, SettingsService, SettingValidationError } from '../services/settings.service';
+import { SETTINGS_BUNDLE_VERSION } from '../services/settings.bundle';
+import { MemorySettingsHistory } from '../services/settings.history';
+import { ISettingsConfigSource, ISettingsStorage } from '../interfaces/settings.interface';
+import { ValidationResult, RecoveryResult, Settings, SettingType } from '../../../shared/types';
 
 // Mock storage backend
 const mockStorage = {
@@ -26,6 +29,7 @@ describe('SettingsService', () => {
     
     // Set up default mock behaviors
     mockValidator.sanitizeValue.mockImplementation((value: any) => value);
+    mockStorage.get.mockResolvedValue(null);
     
     // Inject mocks
     (settingsService as any).storage = mockStorage;
@@ -125,6 +129,15 @@ describe('SettingsService', () => {
       expect(mockStorage.set).not.toHaveBeenCalled();
     });
 
+    it('should reject keys that would collide with plugin settings', async () => {
+      mockValidator.validateSetting.mockResolvedValue({ isValid: true, errors: [] });
+
+      await expect(settingsService.setSetting('somePlugin.foo', 'bar', 'user-123')).rejects.toThrow(SettingValidationError);
+      await expect(settingsService.deleteSetting('somePlugin.foo', 'user-123')).rejects.toThrow("Setting key somePlugin.foo cannot contain '.'");
+      expect(mockStorage.set).not.toHaveBeenCalled();
+      expect(mockStorage.delete).not.toHaveBeenCalled();
+    });
+
     it('should handle different data types correctly', async () => {
       mockValidator.validateSetting.mockResolvedValue({ isValid: true, errors: [] });
       mockStorage.set.mockResolvedValue(undefined);
@@ -181,6 +194,47 @@ describe('SettingsService', () => {
     });
   });
 
+  describe('getUserSettings', () => {
+    it('should overlay the user\'s own values on the core settings', async () => {
+      const stored: Record<string, any> = {
+        'core.theme': { key: 'theme', value: 'light' },
+        'core.language': { key: 'language', value: 'en' },
+        'user-1.theme': { key: 'theme', value: 'dark' },
+        'user-1.plugin-1.apiKey': { key: 'apiKey', value: 'secret-key' },
+        'user-2.language': { key: 'language', value: 'fr' }
+      };
+      mockStorage.keys.mockResolvedValue(Object.keys(stored));
+      mockStorage.get.mockImplementation((key: string) => Promise.resolve(stored[key] || null));
+
+      const result = await settingsService.getUserSettings('user-1');
+
+      expect(result).toEqual({ theme: 'dark', language: 'en', notifications: true });
+    });
+  });
+
+  describe('deleteSetting', () => {
+    it('should remove the user\'s value and notify subscribers of the core value', async () => {
+      const callback = jest.fn();
+      settingsService.subscribe('theme', callback);
+      mockStorage.get.mockImplementation((key: string) => Promise.resolve(
+        key === 'user-1.theme' ? { key: 'theme', value: 'dark' } : { key: 'theme', value: 'light' }
+      ));
+
+      const deleted = await settingsService.deleteSetting('theme', 'user-1');
+
+      expect(deleted).toBe(true);
+      expect(mockStorage.delete).toHaveBeenCalledWith('user-1.theme');
+      expect(callback).toHaveBeenCalledWith('theme', 'light', 'user-1');
+    });
+
+    it('should return false when there is nothing to delete', async () => {
+      mockStorage.get.mockResolvedValue(null);
+
+      expect(await settingsService.deleteSetting('theme', 'user-1')).toBe(false);
+      expect(mockStorage.delete).not.toHaveBeenCalled();
+    });
+  });
+
   describe('setPluginSetting', () => {
     it('should set a plugin-specific setting', async () => {
       mockValidator.validateSetting.mockResolvedValue({ isValid: true, errors: [] });
@@ -793,4 +847,311 @@ describe('SettingsService', () => {
   });
 }); 
 
- 
\ No newline at end of file
+ 
+describe('SettingsService layered resolution', () => {
+  let stored: Map<string, Settings>;
+  let config: Record<string, any>;
+  let service: SettingsService;
+
+  beforeEach(() => {
+    stored = new Map();
+    config = {};
+    const storage: ISettingsStorage = {
+      get: async (key: string) => stored.get(key) || null,
+      set: async (key: string, setting: Settings) => { stored.set(key, setting); },
+      delete: async (key: string) => { stored.delete(key); },
+      clear: async () => stored.clear(),
+      keys: async () => Array.from(stored.keys())
+    };
+    const configSource: ISettingsConfigSource = {
+      get: async (key: string) => key in config ? { value: config[key], source: `env:${key}` } : undefined
+    };
+    service = new SettingsService(storage, undefined, configSource);
+  });
+
+  it('should let each layer override the ones below it', async () => {
+    expect(await service.getSetting('theme', 'user-1')).toBe('light');
+
+    config.theme = 'auto';
+    expect(await service.getSetting('theme', 'user-1')).toBe('auto');
+
+    await service.setSetting('theme', 'dark');
+    expect(await service.getSetting('theme', 'user-1')).toBe('dark');
+
+    await service.setSetting('theme', 'light', 'user-1');
+    expect(await service.getSetting('theme', 'user-1')).toBe('light');
+    expect(await service.getSetting('theme', 'user-2')).toBe('dark');
+  });
+
+  it('should explain every layer and which one won', async () => {
+    config.theme = 'auto';
+    await service.setSetting('theme', 'dark', 'user-1');
+
+    expect(await service.explainSetting('theme', { userId: 'user-1' })).toEqual({
+      key: 'theme',
+      userId: 'user-1',
+      value: 'dark',
+      winner: 'user',
+      locked: false,
+      layers: [
+        { layer: 'default', set: true, value: 'light', source: 'schema' },
+        { layer: 'config', set: true, value: 'auto', source: 'env:theme' },
+        { layer: 'admin', set: false },
+        { layer: 'plugin', set: false },
+        { layer: 'user', set: true, value: 'dark', source: 'user-1.theme' }
+      ]
+    });
+  });
+
+  it('should put plugin defaults between the admin value and the user override', async () => {
+    await service.registerPluginSettings({
+      id: 'demo-hello-world',
+      name: 'Hello World Demo',
+      settings: { greeting: { type: 'string', default: 'Hello World!' } }
+    });
+
+    const byPlugin = await service.explainSetting('greeting', { pluginId: 'demo-hello-world', userId: 'user-1' });
+    expect(byPlugin).toMatchObject({ value: 'Hello World!', winner: 'plugin' });
+    expect(byPlugin.layers.find(layer => layer.layer === 'plugin')).toEqual({
+      layer: 'plugin', set: true, value: 'Hello World!', source: 'demo-hello-world.greeting'
+    });
+
+    await service.setPluginSetting('demo-hello-world', 'greeting', 'Hi', 'user-1');
+    expect(await service.explainSetting('greeting', { pluginId: 'demo-hello-world', userId: 'user-1' }))
+      .toMatchObject({ value: 'Hi', winner: 'user' });
+  });
+
+  it('should keep a locked admin value over user overrides', async () => {
+    await service.setSetting('theme', 'light', 'user-1');
+    await service.lockSetting('theme', { value: 'dark' });
+
+    expect(await service.explainSetting('theme', { userId: 'user-1' })).toMatchObject({ value: 'dark', winner: 'admin', locked: true });
+    expect(await service.getUserSettings('user-1')).toMatchObject({ theme: 'dark' });
+    await expect(service.setSetting('theme', 'auto', 'user-1')).rejects.toBeInstanceOf(SettingLockedError);
+
+    // Changing the admin value keeps the lock
+    await service.setSetting('theme', 'auto');
+    expect(await service.getSetting('theme', 'user-1')).toBe('auto');
+
+    expect(await service.unlockSetting('theme')).toBe(true);
+    expect(await service.unlockSetting('theme')).toBe(false);
+    expect(await service.getSetting('theme', 'user-1')).toBe('light');
+  });
+
+  it('should lock the value users currently get when no value is given', async () => {
+    config.language = 'fr';
+
+    await service.lockSetting('language');
+
+    expect(stored.get('core.language')).toMatchObject({ value: 'fr', locked: true });
+  });
+
+  it('should lock plugin settings against user overrides', async () => {
+    await service.lockSetting('greeting', { pluginId: 'demo-hello-world', value: 'Welcome' });
+
+    await expect(service.setPluginSetting('demo-hello-world', 'greeting', 'Hi', 'user-1')).rejects.toBeInstanceOf(SettingLockedError);
+    expect(await service.explainSetting('greeting', { pluginId: 'demo-hello-world', userId: 'user-1' }))
+      .toMatchObject({ value: 'Welcome', winner: 'admin', locked: true });
+  });
+});
+
+describe('SettingsService history', () => {
+  let stored: Map<string, Settings>;
+  let service: SettingsService;
+
+  // Changes made in the same millisecond cannot be told apart by a timestamp
+  const later = () => new Promise(resolve => setTimeout(resolve, 5));
+
+  beforeEach(() => {
+    stored = new Map();
+    const storage: ISettingsStorage = {
+      get: async (key: string) => stored.get(key) || null,
+      set: async (key: string, setting: Settings) => { stored.set(key, setting); },
+      delete: async (key: string) => { stored.delete(key); },
+      clear: async () => stored.clear(),
+      keys: async () => Array.from(stored.keys())
+    };
+    service = new SettingsService(storage, undefined, { get: async () => undefined }, new MemorySettingsHistory());
+  });
+
+  it('should record who changed what, from where, newest first', async () => {
+    await service.setSetting('theme', 'dark', 'user-1', { source: 'ui' });
+    await service.setSetting('theme', 'light', 'user-1');
+    await service.lockSetting('language', { value: 'fr', changedBy: 'admin1' });
+    await service.deleteSetting('theme', 'user-1');
+
+    const history = await service.getSettingHistory('theme', { userId: 'user-1' });
+    expect(history.map(change => [change.action, change.previous?.value, change.current?.value, change.changedBy, change.source]))
+      .toEqual([
+        ['delete', 'light', undefined, 'user-1', 'api'],
+        ['set', 'dark', 'light', 'user-1', 'api'],
+        ['set', undefined, 'dark', 'user-1', 'ui']
+      ]);
+
+    const [lock] = await service.getSettingHistory('language', { userId: 'user-1' });
+    expect(lock).toMatchObject({ storageKey: 'core.language', changedBy: 'admin1', current: { value: 'fr', locked: true } });
+  });
+
+  it('should restore a setting to its value at a point in time and notify subscribers', async () => {
+    const callback = jest.fn();
+    service.subscribe('theme', callback);
+
+    await service.setSetting('theme', 'dark', 'user-1');
+    await later();
+    const checkpoint = new Date();
+    await later();
+    await service.setSetting('theme', 'auto', 'user-1');
+    callback.mockClear();
+
+    expect(await service.restoreSetting('theme', checkpoint, { userId: 'user-1' }, { changedBy: 'user-1' })).toBe(true);
+    expect(await service.getSetting('theme', 'user-1')).toBe('dark');
+    expect(callback).toHaveBeenCalledWith('theme', 'dark', 'user-1');
+    expect((await service.getSettingHistory('theme', { userId: 'user-1' }))[0]).toMatchObject({ action: 'restore', changedBy: 'user-1' });
+
+    // Already there
+    expect(await service.restoreSetting('theme', checkpoint, { userId: 'user-1' })).toBe(false);
+  });
+
+  it('should remove values that did not exist yet at that time', async () => {
+    const checkpoint = new Date();
+    await later();
+    await service.setSetting('language', 'de', 'user-1');
+
+    expect(await service.restoreSetting('language', checkpoint, { userId: 'user-1' })).toBe(true);
+    expect(stored.has('user-1.language')).toBe(false);
+    expect(await service.getSetting('language', 'user-1')).toBe('en');
+  });
+
+  it('should restore a whole scope without touching other users', async () => {
+    await service.setSetting('theme', 'dark', 'user-1');
+    await later();
+    const checkpoint = new Date();
+    await later();
+    await service.setSetting('theme', 'light', 'user-1');
+    await service.setSetting('language', 'fr', 'user-1');
+    await service.setSetting('language', 'de', 'user-2');
+
+    const restored = await service.restoreScope(checkpoint, { userId: 'user-1' });
+
+    expect(restored.sort()).toEqual(['user-1.language', 'user-1.theme']);
+    expect(await service.getUserSettings('user-1')).toMatchObject({ theme: 'dark', language: 'en' });
+    expect(await service.getSetting('language', 'user-2')).toBe('de');
+  });
+});
+
+describe('SettingsService export and import', () => {
+  let stored: Map<string, Settings>;
+  let service: SettingsService;
+
+  const createService = () => {
+    const entries = new Map<string, Settings>();
+    const storage: ISettingsStorage = {
+      get: async (key: string) => entries.get(key) || null,
+      set: async (key: string, setting: Settings) => { entries.set(key, setting); },
+      delete: async (key: string) => { entries.delete(key); },
+      clear: async () => entries.clear(),
+      keys: async () => Array.from(entries.keys())
+    };
+    return { entries, service: new SettingsService(storage, undefined, { get: async () => undefined }, new MemorySettingsHistory()) };
+  };
+
+  beforeEach(async () => {
+    ({ entries: stored, service } = createService());
+    await service.lockSetting('language', { value: 'fr' });
+    await service.setSetting('theme', 'dark', 'user-1');
+    await service.setSetting('theme', 'auto', 'user-2');
+    await service.setPluginSetting('demo', 'greeting', 'Hello');
+    await service.setPluginSetting('demo', 'greeting', 'Hi', 'user-1');
+  });
+
+  it('should export every stored setting as a versioned bundle', async () => {
+    const bundle = await service.exportSettings();
+
+    expect(bundle).toMatchObject({
+      version: SETTINGS_BUNDLE_VERSION,
+      scope: {},
+      core: { language: { value: 'fr', locked: true } },
+      users: { 'user-1': { theme: 'dark', 'demo.greeting': 'Hi' }, 'user-2': { theme: 'auto' } },
+      plugins: { demo: { greeting: 'Hello' } }
+    });
+    expect(new Date(bundle.exportedAt).getTime()).not.toBeNaN();
+  });
+
+  it('should limit the export to a user or a plugin', async () => {
+    const userBundle = await service.exportSettings({ userId: 'user-1' });
+    expect(userBundle).toMatchObject({ core: {}, users: { 'user-1': { theme: 'dark', 'demo.greeting': 'Hi' } }, plugins: {} });
+    expect(Object.keys(userBundle.users)).toEqual(['user-1']);
+
+    const pluginBundle = await service.exportSettings({ pluginId: 'demo' });
+    expect(pluginBundle).toMatchObject({ core: {}, users: { 'user-1': { 'demo.greeting': 'Hi' } }, plugins: { demo: { greeting: 'Hello' } } });
+  });
+
+  it('should copy settings into another environment', async () => {
+    const bundle = await service.exportSettings();
+    const target = createService();
+    const callback = jest.fn();
+    target.service.subscribe('theme', callback);
+
+    const result = await target.service.importSettings(bundle, {}, { changedBy: 'admin1' });
+
+    expect(result).toMatchObject({ mode: 'merge', dryRun: false, applied: true, errors: [] });
+    expect(Array.from(target.entries.keys()).sort()).toEqual(Array.from(stored.keys()).sort());
+    expect(await target.service.explainSetting('language', { userId: 'user-2' })).toMatchObject({ value: 'fr', locked: true });
+    expect(callback).toHaveBeenCalledWith('theme', 'dark', 'user-1');
+    expect((await target.service.getSettingHistory('theme', { userId: 'user-1' }))[0])
+      .toMatchObject({ action: 'import', changedBy: 'admin1' });
+  });
+
+  it('should preview the changes of a dry run without applying them', async () => {
+    const bundle = await service.exportSettings({ userId: 'user-1' });
+    bundle.users['user-1']!.theme = 'light';
+    bundle.users['user-1']!.notifications = false;
+
+    const result = await service.importSettings(bundle, { mode: 'replace', dryRun: true, scope: { userId: 'user-2' } });
+
+    expect(result.applied).toBe(false);
+    expect(result.changes).toEqual([
+      { storageKey: 'user-2.theme', key: 'theme', userId: 'user-2', change: 'update', previous: 'auto', value: 'light' },
+      { storageKey: 'user-2.demo.greeting', key: 'greeting', userId: 'user-2', pluginId: 'demo', change: 'add', value: 'Hi' },
+      { storageKey: 'user-2.notifications', key: 'notifications', userId: 'user-2', change: 'add', value: false }
+    ]);
+    expect(await service.getSetting('theme', 'user-2')).toBe('auto');
+  });
+
+  it('should remove entries the bundle does not have only when replacing', async () => {
+    const bundle = await service.exportSettings({ userId: 'user-1' });
+    delete bundle.users['user-1']!['demo.greeting'];
+
+    expect((await service.importSettings(bundle)).changes).toEqual([]);
+
+    const result = await service.importSettings(bundle, { mode: 'replace' });
+    expect(result.changes).toEqual([
+      { storageKey: 'user-1.demo.greeting', key: 'greeting', userId: 'user-1', pluginId: 'demo', change: 'remove', previous: 'Hi' }
+    ]);
+    expect(stored.has('user-1.demo.greeting')).toBe(false);
+    expect(stored.has('user-2.theme')).toBe(true);
+  });
+
+  it('should apply nothing when any entry is invalid, locked or out of scope', async () => {
+    const bundle = await service.exportSettings({ userId: 'user-1' });
+    bundle.users['user-1']!.theme = 'sepia';
+    bundle.users['user-1']!.language = 'de';
+    bundle.core.notifications = { value: false };
+
+    const result = await service.importSettings(bundle, { scope: { userId: 'user-1' } });
+
+    expect(result.applied).toBe(false);
+    expect(result.errors).toEqual([
+      'core.notifications is outside the import scope',
+      'user-1.theme: theme must be one of: light, dark, auto',
+      'user-1.language: Setting language is locked by an administrator'
+    ]);
+    expect(await service.getSetting('theme', 'user-1')).toBe('dark');
+  });
+
+  it('should reject bundles it cannot read', async () => {
+    expect((await service.importSettings({ version: 99 } as any)).errors).toEqual(['Unsupported settings bundle version: 99']);
+    expect((await service.importSettings({ version: 1, users: { 'user-1': 'dark' } } as any)).errors)
+      .toEqual(['users.user-1 must be an object']);
+  });
+});
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileSettingsStorage } from '../services/settings.storage';
+import { SettingsService } from '../services/settings.service';
+import { Settings, SettingType } from '../../../shared/types';
+
+const setting = (key: string, value: any): Settings => ({
+  key,
+  value,
+  type: SettingType.STRING,
+  validation: [],
+  updatedAt: new Date('2024-01-01T00:00:00.000Z')
+});
+
+describe('JsonFileSettingsStorage', () => {
+  let directory: string;
+  let filePath: string;
+  let storage: JsonFileSettingsStorage;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-settings-'));
+    filePath = path.join(directory, 'settings.json');
+    storage = new JsonFileSettingsStorage(() => filePath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    expect(await storage.keys()).toEqual([]);
+    expect(await storage.get('core.theme')).toBeNull();
+  });
+
+  it('should write settings to the file and read them back with dates', async () => {
+    await storage.set('core.theme', setting('theme', 'dark'));
+
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toHaveProperty(['core.theme', 'value'], 'dark');
+    expect(await new JsonFileSettingsStorage(() => filePath).get('core.theme')).toEqual(setting('theme', 'dark'));
+  });
+
+  it('should apply concurrent changes without losing any', async () => {
+    await Promise.all([
+      storage.set('core.theme', setting('theme', 'dark')),
+      storage.set('core.language', setting('language', 'fr')),
+      new JsonFileSettingsStorage(() => filePath).set('1.theme', setting('theme', 'light'))
+    ]);
+
+    expect((await storage.keys()).sort()).toEqual(['1.theme', 'core.language', 'core.theme']);
+  });
+
+  it('should delete and clear settings', async () => {
+    await storage.set('core.theme', setting('theme', 'dark'));
+    await storage.set('core.language', setting('language', 'fr'));
+
+    await storage.delete('core.theme');
+    expect(await storage.keys()).toEqual(['core.language']);
+
+    await storage.clear();
+    expect(await storage.keys()).toEqual([]);
+  });
+
+  it('should persist settings made through SettingsService', async () => {
+    await new SettingsService(storage).setSetting('theme', 'dark', '1');
+
+    const restarted = new SettingsService(new JsonFileSettingsStorage(() => filePath));
+    expect(await restarted.getSetting('theme', '1')).toBe('dark');
+    expect(await restarted.getUserSettings('1')).toMatchObject({ theme: 'dark' });
+  });
+});
@@ -1,148 +1,70 @@
 /**
  * Plugins Module - Industry Standard Plugin Architecture
- * 
+ *
  * This module follows industry best practices for plugin organization:
  * - Plugins are separate from the plugin manager
  * - Each plugin is self-contained in its own directory
  * - Clear separation of concerns
  * - Standardized plugin structure
+ *
+ * The catalogue is discovered from each plugin's manifest.json, so adding a
+ * plugin only requires adding its directory.
  */
 
-// Plugin Info Interface
-export interface PluginRegistryInfo {
-  id: string;
-  name: string;
-  version: string;
-  description: string;
-  author: string;
-  entryPoint: string;
-  manifest: string;
-  category: string;
-  tags: string[];
-}
+import * as path from 'path';
+import { PluginPackage, PluginDependency } from '../shared/types';
+import { PluginRegistry, PluginRegistryInfo, PluginCategoryInfo } from './registry';
 
-// Plugin Registry - Central registry of all available plugins
-export const PLUGIN_REGISTRY: Record<string, PluginRegistryInfo> = {
-  'demo-hello-world': {
-    id: 'demo-hello-world',
-    name: 'Hello World Demo',
-    version: '1.0.0',
-    description: 'A simple demo plugin to validate the plugin system',
-    author: 'NeutralApp Team',
-    entryPoint: './demo-hello-world/demo-hello-world.js',
-    manifest: './demo-hello-world/manifest.json',
-    category: 'demo',
-    tags: ['demo', 'hello-world', 'reference']
-  },
-  'weather-widget': {
-    id: 'weather-widget',
-    name: 'Weather Widget',
-    version: '2.1.0',
-    description: 'Display current weather information in your dashboard.',
-    author: 'Weather Corp',
-    entryPoint: './weather-widget/index.js',
-    manifest: './weather-widget/manifest.json',
-    category: 'utility',
-    tags: ['weather', 'widget', 'dashboard']
-  },
-  'task-manager': {
-    id: 'task-manager',
-    name: 'Task Manager',
-    version: '1.5.2',
-    description: 'Organize and track your tasks with a beautiful interface.',
-    author: 'Productivity Inc',
-    entryPoint: './task-manager/index.js',
-    manifest: './task-manager/manifest.json',
-    category: 'utility',
-    tags: ['tasks', 'productivity', 'management']
-  },
-  'reading-core': {
-    id: 'reading-core',
-    name: 'Reading Core',
-    version: '1.0.0',
-    description: 'Provides comprehensive book library management with metadata handling, categories, search functionality, and cross-plugin communication APIs',
-    author: 'NeutralApp Team',
-    entryPoint: './reading-core/index.js',
-    manifest: './reading-core/manifest.json',
-    category: 'reading',
-    tags: ['reading', 'books', 'library', 'core']
-  },
-  'reading-ui': {
-    id: 'reading-ui',
-    name: 'Reading UI',
-    version: '1.0.0',
-    description: 'User interface components for reading and book management',
-    author: 'NeutralApp Team',
-    entryPoint: './reading-ui/index.js',
-    manifest: './reading-ui/manifest.json',
-    category: 'reading',
-    tags: ['reading', 'ui', 'interface']
-  },
-  'reading-persistence': {
-    id: 'reading-persistence',
-    name: 'Reading Persistence',
-    version: '1.0.0',
-    description: 'Data persistence layer for reading progress and book storage',
-    author: 'NeutralApp Team',
-    entryPoint: './reading-persistence/index.js',
-    manifest: './reading-persistence/manifest.json',
-    category: 'reading',
-    tags: ['reading', 'persistence', 'storage']
-  }
-};
+export * from './registry';
 
-// Plugin Category Interface
-export interface PluginCategoryInfo {
-  name: string;
-  description: string;
-  plugins: string[];
+// Plugins directory, overridable with PLUGIN_DIRECTORY
+export function getPluginsDirectory(): string {
+  return process.env.PLUGIN_DIRECTORY
+    ? path.resolve(process.env.PLUGIN_DIRECTORY)
+    : path.join(process.cwd(), 'src', 'plugins');
 }
 
-// Plugin Categories
-export const PLUGIN_CATEGORIES: Record<string, PluginCategoryInfo> = {
-  demo: {
-    name: 'Demo Plugins',
-    description: 'Demonstration and reference plugins',
-    plugins: ['demo-hello-world']
-  },
-  utility: {
-    name: 'Utility Plugins',
-    description: 'Utility and helper plugins',
-    plugins: ['weather-widget', 'task-manager']
-  },
-  reading: {
-    name: 'Reading Plugins',
-    description: 'Book management and reading experience plugins',
-    plugins: ['reading-core', 'reading-ui', 'reading-persistence']
-  },
-  integration: {
-    name: 'Integration Plugins',
-    description: 'Third-party service integrations',
-    plugins: []
-  }
-};
+// Plugin Registry - Central registry of all available plugins
+export const pluginRegistry = new PluginRegistry(getPluginsDirectory);
 
-// Plugin Discovery
+// Plugin Discovery - rescans so newly added plugin directories are picked up
 export function discoverPlugins(): string[] {
-  return Object.keys(PLUGIN_REGISTRY);
+  pluginRegistry.refresh();
+  return pluginRegistry.getPluginIds();
 }
 
 // Plugin Information
-export function getPluginInfo(pluginId: string) {
-  return PLUGIN_REGISTRY[pluginId];
+export function getPluginInfo(pluginId: string): PluginRegistryInfo | undefined {
+  return pluginRegistry.getPluginInfo(pluginId);
+}
+
+// Plugin Dependencies declared in the manifest
+export function getPluginDependencies(pluginId: string): PluginDependency[] {
+  return pluginRegistry.getDependencies(pluginId);
 }
 
 // Plugin Categories
+export function getPluginCategories(): Record<string, PluginCategoryInfo> {
+  return pluginRegistry.getCategories();
+}
+
 export function getPluginsByCategory(category: string): string[] {
-  const categoryInfo = PLUGIN_CATEGORIES[category];
+  const categoryInfo = getPluginCategories()[category];
   return categoryInfo ? categoryInfo.plugins : [];
 }
 
-// Plugin Validation
+// Plugin Validation - rescans on a miss so a freshly added plugin can be installed straight away
 export function validatePlugin(pluginId: string): boolean {
-  const plugin = PLUGIN_REGISTRY[pluginId];
-  return plugin !== undefined;
+  if (!pluginRegistry.hasPlugin(pluginId)) {
+    pluginRegistry.refresh();
+  }
+  return pluginRegistry.hasPlugin(pluginId);
+}
+
+// Plugin Packages
+export function getPluginPackage(pluginId: string): PluginPackage | undefined {
+  return pluginRegistry.getPluginPackage(pluginId);
 }
 
 // Export individual plugins for direct access
-export { default as DemoHelloWorldPlugin } from './demo-hello-world'; 
\ No newline at end of file
+export { default as DemoHelloWorldPlugin } from './demo-hello-world';
\ No newline at end of file
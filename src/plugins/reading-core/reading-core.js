@@ -377,6 +377,11 @@ class ReadingCorePlugin {
 
   // Global methods for widget interactions
   setupGlobalMethods() {
+    // Widget markup calls back through window.readingCore; nothing to wire up server-side
+    if (typeof window === 'undefined') {
+      return;
+    }
+
     window.readingCore = {
       openBook: (bookId) => {
         const book = this.getBook(bookId);
@@ -0,0 +1,334 @@
+/**
+ * Filesystem Plugin Registry
+ *
+ * Builds the plugin catalogue by scanning a plugins directory for
+ * `<plugin-id>/manifest.json` files. Adding a plugin means dropping in a
+ * folder with a manifest and its entry point - no TypeScript changes needed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PluginPackage, PluginDependency, Permission, SettingsSchema } from '../shared/types';
+import { createLogger } from '../core/logger';
+
+// Plugin Info Interface
+export interface PluginRegistryInfo {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  author: string;
+  entryPoint: string; // Relative to the plugins directory, e.g. './reading-core/reading-core.js'
+  manifest: string;
+  category: string;
+  tags: string[];
+}
+
+// Plugin Category Interface
+export interface PluginCategoryInfo {
+  name: string;
+  description: string;
+  plugins: string[];
+}
+
+// Shape of a plugin's manifest.json once it has passed validation
+export interface PluginManifestFile {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  author: string;
+  main?: string;
+  entryPoint?: string;
+  category?: string;
+  tags?: string[];
+  dependencies?: Array<string | Partial<PluginDependency>>;
+  permissions?: Array<string | Partial<Permission>>;
+  api?: string[];
+  migrations?: Record<string, string>;
+  settings?: SettingsSchema;
+  signature?: string;
+  [key: string]: unknown;
+}
+
+export interface PluginManifestValidationError {
+  directory: string;
+  errors: string[];
+}
+
+// Display metadata for well-known categories; any other category a manifest declares is listed too
+const CATEGORY_METADATA: Record<string, { name: string; description: string }> = {
+  demo: { name: 'Demo Plugins', description: 'Demonstration and reference plugins' },
+  utility: { name: 'Utility Plugins', description: 'Utility and helper plugins' },
+  reading: { name: 'Reading Plugins', description: 'Book management and reading experience plugins' },
+  integration: { name: 'Integration Plugins', description: 'Third-party service integrations' }
+};
+
+const DEFAULT_CATEGORY = 'utility';
+const MANIFEST_FILE = 'manifest.json';
+const PLUGIN_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export class PluginRegistry {
+  private plugins: Map<string, PluginRegistryInfo> = new Map();
+  private manifests: Map<string, PluginManifestFile> = new Map();
+  private validationErrors: PluginManifestValidationError[] = [];
+  private scanned = false;
+  private logger = createLogger('PluginRegistry');
+
+  constructor(private readonly resolveDirectory: () => string) {}
+
+  getPluginsDirectory(): string {
+    return path.resolve(this.resolveDirectory());
+  }
+
+  /**
+   * Rescan the plugins directory, replacing the cached catalogue
+   */
+  refresh(): void {
+    const pluginsDirectory = this.getPluginsDirectory();
+    this.plugins.clear();
+    this.manifests.clear();
+    this.validationErrors = [];
+    this.scanned = true;
+
+    if (!fs.existsSync(pluginsDirectory)) {
+      this.logger.warn('Plugins directory does not exist', { pluginsDirectory });
+      return;
+    }
+
+    const directories = fs.readdirSync(pluginsDirectory, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+
+    for (const directory of directories) {
+      const manifestPath = path.join(pluginsDirectory, directory, MANIFEST_FILE);
+      if (!fs.existsSync(manifestPath)) {
+        continue;
+      }
+
+      let manifest: unknown;
+      try {
+        manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      } catch (error) {
+        this.recordInvalid(directory, [`${MANIFEST_FILE} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+        continue;
+      }
+
+      const errors = this.validateManifest(directory, manifest);
+      if (errors.length > 0 || !this.isManifestFile(manifest)) {
+        this.recordInvalid(directory, errors);
+        continue;
+      }
+
+      const entryPoint = manifest.main || manifest.entryPoint;
+      this.plugins.set(manifest.id, {
+        id: manifest.id,
+        name: manifest.name,
+        version: manifest.version,
+        description: manifest.description,
+        author: manifest.author,
+        entryPoint: `./${directory}/${entryPoint}`,
+        manifest: `./${directory}/${MANIFEST_FILE}`,
+        category: typeof manifest.category === 'string' ? manifest.category : DEFAULT_CATEGORY,
+        tags: Array.isArray(manifest.tags) ? manifest.tags.filter(tag => typeof tag === 'string') : []
+      });
+      this.manifests.set(manifest.id, manifest);
+    }
+
+    this.logger.debug('Plugin registry scanned', { pluginsDirectory, plugins: Array.from(this.plugins.keys()) });
+  }
+
+  getPluginIds(): string[] {
+    this.ensureScanned();
+    return Array.from(this.plugins.keys());
+  }
+
+  getPluginInfo(pluginId: string): PluginRegistryInfo | undefined {
+    this.ensureScanned();
+    return this.plugins.get(pluginId);
+  }
+
+  getManifest(pluginId: string): PluginManifestFile | undefined {
+    this.ensureScanned();
+    return this.manifests.get(pluginId);
+  }
+
+  getDependencies(pluginId: string): PluginDependency[] {
+    return this.normalizeDependencies(this.getManifest(pluginId)?.dependencies);
+  }
+
+  hasPlugin(pluginId: string): boolean {
+    this.ensureScanned();
+    return this.plugins.has(pluginId);
+  }
+
+  getCategories(): Record<string, PluginCategoryInfo> {
+    this.ensureScanned();
+    const categories: Record<string, PluginCategoryInfo> = {};
+
+    for (const [category, metadata] of Object.entries(CATEGORY_METADATA)) {
+      categories[category] = { ...metadata, plugins: [] };
+    }
+
+    for (const plugin of this.plugins.values()) {
+      if (!categories[plugin.category]) {
+        categories[plugin.category] = {
+          name: `${plugin.category.charAt(0).toUpperCase()}${plugin.category.slice(1)} Plugins`,
+          description: `Plugins in the ${plugin.category} category`,
+          plugins: []
+        };
+      }
+      categories[plugin.category]!.plugins.push(plugin.id);
+    }
+
+    return categories;
+  }
+
+  getValidationErrors(): PluginManifestValidationError[] {
+    this.ensureScanned();
+    return [...this.validationErrors];
+  }
+
+  /**
+   * Build an installable package from a plugin's manifest and entry point code
+   */
+  getPluginPackage(pluginId: string): PluginPackage | undefined {
+    const info = this.getPluginInfo(pluginId);
+    const manifest = this.manifests.get(pluginId);
+    if (!info || !manifest) {
+      return undefined;
+    }
+
+    const code = fs.readFileSync(path.resolve(this.getPluginsDirectory(), info.entryPoint), 'utf8');
+
+    return {
+      id: info.id,
+      version: info.version,
+      code,
+      manifest: {
+        id: info.id,
+        name: info.name,
+        version: info.version,
+        description: info.description,
+        author: info.author,
+        main: manifest.main || manifest.entryPoint || '',
+        dependencies: this.normalizeDependencies(manifest.dependencies),
+        permissions: this.normalizePermissions(manifest.permissions),
+        api: Array.isArray(manifest.api) ? manifest.api : [],
+        ...(manifest.migrations ? { migrations: { ...manifest.migrations } } : {}),
+        ...(manifest.settings ? { settings: { ...manifest.settings } } : {})
+      },
+      signature: typeof manifest.signature === 'string' ? manifest.signature : ''
+    };
+  }
+
+  private ensureScanned(): void {
+    if (!this.scanned) {
+      this.refresh();
+    }
+  }
+
+  private isManifestFile(manifest: unknown): manifest is PluginManifestFile {
+    return !!manifest && typeof manifest === 'object' && !Array.isArray(manifest);
+  }
+
+  private validateManifest(directory: string, value: unknown): string[] {
+    const errors: string[] = [];
+
+    if (!this.isManifestFile(value)) {
+      return [`${MANIFEST_FILE} must contain an object`];
+    }
+    const manifest: Record<string, unknown> = value;
+
+    if (typeof manifest.id !== 'string' || !PLUGIN_ID_PATTERN.test(manifest.id)) {
+      errors.push('id must be a lowercase string of letters, numbers and dashes');
+    } else if (manifest.id !== directory) {
+      errors.push(`id "${manifest.id}" does not match its directory name "${directory}"`);
+    } else if (this.plugins.has(manifest.id)) {
+      errors.push(`duplicate plugin id "${manifest.id}"`);
+    }
+
+    for (const field of ['name', 'description', 'author']) {
+      const fieldValue = manifest[field];
+      if (typeof fieldValue !== 'string' || fieldValue.trim() === '') {
+        errors.push(`${field} is required`);
+      }
+    }
+
+    if (typeof manifest.version !== 'string' || !VERSION_PATTERN.test(manifest.version)) {
+      errors.push('version must be a semantic version (e.g. 1.0.0)');
+    }
+
+    const entryPoint = manifest.main || manifest.entryPoint;
+    if (typeof entryPoint !== 'string' || entryPoint.trim() === '') {
+      errors.push('main (or entryPoint) is required');
+    } else {
+      const pluginDirectory = path.join(this.getPluginsDirectory(), directory);
+      const entryPath = path.resolve(pluginDirectory, entryPoint);
+      if (!entryPath.startsWith(pluginDirectory + path.sep)) {
+        errors.push('entry point must be inside the plugin directory');
+      } else if (!fs.existsSync(entryPath)) {
+        errors.push(`entry point ${entryPoint} does not exist`);
+      }
+    }
+
+    if (manifest.permissions !== undefined && !Array.isArray(manifest.permissions)) {
+      errors.push('permissions must be an array');
+    } else if ((manifest.permissions || []).some((permission: unknown) =>
+      typeof permission !== 'string' && typeof (permission as Partial<Permission> | null)?.name !== 'string')) {
+      errors.push('permissions must be names or objects with a name');
+    }
+
+    if (manifest.dependencies !== undefined && !Array.isArray(manifest.dependencies)) {
+      errors.push('dependencies must be an array');
+    }
+
+    if (manifest.migrations !== undefined) {
+      const migrations = manifest.migrations;
+      if (!migrations || typeof migrations !== 'object' || Array.isArray(migrations)) {
+        errors.push('migrations must map versions to exported hook names');
+      } else {
+        for (const [version, hook] of Object.entries(migrations)) {
+          if (!VERSION_PATTERN.test(version) || typeof hook !== 'string' || hook.trim() === '') {
+            errors.push(`migration "${version}" must map a semantic version to an exported hook name`);
+          }
+        }
+      }
+    }
+
+    // Definitions themselves are checked when the plugin registers them
+    const settings = manifest.settings;
+    if (settings !== undefined && (!settings || typeof settings !== 'object' || Array.isArray(settings))) {
+      errors.push('settings must map setting keys to their definitions');
+    }
+
+    return errors;
+  }
+
+  private normalizePermissions(permissions: PluginManifestFile['permissions']): Permission[] {
+    return (permissions || []).map(permission => typeof permission === 'string'
+      ? { name: permission, description: permission, required: true }
+      : {
+          name: permission.name || '',
+          description: permission.description || permission.name || '',
+          required: permission.required !== false
+        });
+  }
+
+  private normalizeDependencies(dependencies: PluginManifestFile['dependencies']): PluginDependency[] {
+    return (dependencies || []).map(dependency => typeof dependency === 'string'
+      ? { id: dependency, version: '*', required: true }
+      : {
+          id: dependency.id || '',
+          version: dependency.version || '*',
+          required: dependency.required !== false
+        });
+  }
+
+  private recordInvalid(directory: string, errors: string[]): void {
+    this.validationErrors.push({ directory, errors });
+    this.logger.warn('Skipping plugin with invalid manifest', { directory, errors });
+  }
+}
@@ -161,9 +161,9 @@ describe('Core Type Definitions', () => {
     it('should define LogLevel enum with correct values', () => {
       expect(LogLevel.DEBUG).toBe('debug');
       expect(LogLevel.INFO).toBe('info');
-      expect(LogLevel.WARN).toBe('warn');
+      expect(LogLevel.WARNING).toBe('warning');
       expect(LogLevel.ERROR).toBe('error');
-      expect(LogLevel.FATAL).toBe('fatal');
+      expect(LogLevel.CRITICAL).toBe('critical');
     });
 
     it('should define SettingType enum with correct values', () => {
@@ -49,6 +49,10 @@ export interface UserProfile {
   displayName?: string;
   avatar?: string;
   settings: UserSettings;
+  status?: 'active' | 'suspended' | 'deleted';
+  roles?: string[]; // Role ids
+  createdAt?: Date;
+  lastLoginAt?: Date;
 }
 
 export interface UserMetadata {
@@ -104,6 +108,8 @@ export interface PluginManifest {
   dependencies: PluginDependency[];
   permissions: Permission[];
   api: string[];
+  migrations?: Record<string, string>; // Target version -> exported migration hook name
+  settings?: SettingsSchema;
 }
 
 export interface PluginDependency {
@@ -137,6 +143,25 @@ export interface InstallResult {
   dependenciesInstalled?: string[];
 }
 
+export interface PluginUpdateInfo {
+  pluginId: string;
+  name: string;
+  installedVersion: string;
+  availableVersion: string;
+}
+
+export interface UpdateResult {
+  success: boolean;
+  pluginId: string;
+  updated: boolean; // False when the installed version is already the latest
+  fromVersion: string;
+  toVersion: string;
+  migrationsRun?: string[];
+  dependenciesInstalled?: string[];
+  rolledBack?: boolean;
+  error?: string;
+}
+
 export interface PluginInstance {
   id: string;
   plugin: Plugin;
@@ -277,6 +302,7 @@ export interface Settings {
   type: SettingType;
   validation: ValidationRule[];
   updatedAt: Date;
+  locked?: boolean; // Admin values only: users cannot override it
 }
 
 export enum SettingType {
@@ -284,7 +310,8 @@ export enum SettingType {
   NUMBER = 'number',
   BOOLEAN = 'boolean',
   OBJECT = 'object',
-  ARRAY = 'array'
+  ARRAY = 'array',
+  INTEGER = 'integer'
 }
 
 export interface ValidationRule {
@@ -297,12 +324,29 @@ export interface SettingsSchema {
   [key: string]: SettingDefinition;
 }
 
+/**
+ * JSON-Schema-style description of one setting. Nested objects describe their
+ * fields with `properties`, arrays their elements with `items`.
+ */
 export interface SettingDefinition {
-  type: SettingType;
-  default: any;
-  validation: ValidationRule[];
-  description: string;
+  type: SettingType | `${SettingType}`;
+  default?: any;
+  title?: string;
+  description?: string;
   category?: string;
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  properties?: SettingsSchema;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: SettingDefinition;
+  minItems?: number;
+  maxItems?: number;
+  validation?: ValidationRule[];
 }
 
 export interface RecoveryResult {
@@ -360,12 +404,13 @@ export interface LogEntry {
   metadata: Record<string, any>;
 }
 
+// The one set of log levels, shared by the core logger, LoggingService and the admin views
 export enum LogLevel {
   DEBUG = 'debug',
   INFO = 'info',
-  WARN = 'warn',
+  WARNING = 'warning',
   ERROR = 'error',
-  FATAL = 'fatal'
+  CRITICAL = 'critical'
 }
 
 export interface LogContext {
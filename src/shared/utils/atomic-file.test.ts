@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { withFileLock, writeFileAtomic } from './atomic-file';
+
+describe('atomic file helpers', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-atomic-file-'));
+    filePath = path.join(directory, 'nested', 'state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should create parent directories and leave no temporary files behind', async () => {
+      await writeFileAtomic(filePath, '{"version":1}');
+      await writeFileAtomic(filePath, '{"version":2}');
+
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('{"version":2}');
+      expect(fs.readdirSync(path.dirname(filePath))).toEqual(['state.json']);
+    });
+  });
+
+  describe('withFileLock', () => {
+    it('should hold the lock file while the task runs and release it afterwards', async () => {
+      const result = await withFileLock(filePath, async () => {
+        expect(fs.existsSync(`${filePath}.lock`)).toBe(true);
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+    });
+
+    it('should release the lock when the task fails', async () => {
+      await expect(withFileLock(filePath, async () => { throw new Error('task failed'); })).rejects.toThrow('task failed');
+
+      expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+    });
+
+    it('should run tasks competing for the same lock one at a time', async () => {
+      const events: string[] = [];
+      const task = (name: string) => withFileLock(filePath, async () => {
+        events.push(`${name}:start`);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        events.push(`${name}:end`);
+      }, { retryMs: 5 });
+
+      await Promise.all([task('first'), task('second')]);
+
+      expect(events).toEqual(['first:start', 'first:end', 'second:start', 'second:end']);
+    });
+
+    it('should time out while another process holds the lock', async () => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(`${filePath}.lock`, '12345');
+
+      await expect(withFileLock(filePath, async () => 'never', { timeoutMs: 50, retryMs: 10 }))
+        .rejects.toThrow(`Timed out waiting for lock on ${filePath}`);
+    });
+
+    it('should break locks left behind by a crashed process', async () => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(`${filePath}.lock`, '12345');
+      const longAgo = new Date(Date.now() - 60000);
+      fs.utimesSync(`${filePath}.lock`, longAgo, longAgo);
+
+      await expect(withFileLock(filePath, async () => 'acquired', { staleMs: 1000 })).resolves.toBe('acquired');
+    });
+  });
+});
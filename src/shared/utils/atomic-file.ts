@@ -0,0 +1,86 @@
+/**
+ * Atomic File Helpers
+ * Crash-safe writes and cross-process locks for files under the data directory
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface FileLockOptions {
+  timeoutMs?: number; // Give up waiting for the lock after this long
+  staleMs?: number; // Locks older than this were left by a crashed process
+  retryMs?: number;
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<FileLockOptions> = {
+  timeoutMs: 5000,
+  staleMs: 30000,
+  retryMs: 25
+};
+
+/**
+ * Write to a temporary file next to the target and rename it into place, so
+ * readers see either the old or the new contents and never a partial write
+ */
+export async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+  const temporaryPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fs.promises.writeFile(temporaryPath, contents, 'utf8');
+    await fs.promises.rename(temporaryPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(temporaryPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Run `task` while holding `<filePath>.lock`. The lock file is created
+ * exclusively, so only one process at a time gets past it.
+ */
+export async function withFileLock<T>(filePath: string, task: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const { timeoutMs, staleMs, retryMs } = { ...DEFAULT_LOCK_OPTIONS, ...options };
+  const lockPath = `${filePath}.lock`;
+  const startedAt = Date.now();
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+  for (;;) {
+    try {
+      await fs.promises.writeFile(lockPath, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+
+      if (await isStaleLock(lockPath, staleMs)) {
+        await fs.promises.rm(lockPath, { force: true });
+        continue;
+      }
+
+      if (Date.now() - startedAt >= timeoutMs) {
+        throw new Error(`Timed out waiting for lock on ${filePath}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, retryMs));
+    }
+  }
+
+  try {
+    return await task();
+  } finally {
+    await fs.promises.rm(lockPath, { force: true });
+  }
+}
+
+async function isStaleLock(lockPath: string, staleMs: number): Promise<boolean> {
+  try {
+    const stats = await fs.promises.stat(lockPath);
+    return Date.now() - stats.mtimeMs > staleMs;
+  } catch {
+    // The holder released it between our attempt and the check
+    return false;
+  }
+}
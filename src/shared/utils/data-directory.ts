@@ -0,0 +1,13 @@
+/**
+ * Data Directory
+ * Root for files the server persists at runtime (plugin versions, stores, ...)
+ */
+
+import * as path from 'path';
+
+// Overridable with DATA_DIRECTORY; defaults to ./data in the working directory
+export function getDataDirectory(): string {
+  return process.env.DATA_DIRECTORY
+    ? path.resolve(process.env.DATA_DIRECTORY)
+    : path.join(process.cwd(), 'data');
+}
@@ -19,10 +19,30 @@ export interface EnvironmentConfig {
   NEXTAUTH_SECRET: string;
   AUTH_SECRET: string;
   JWT_SECRET: string;
-  
+
+  // Email and password sign-in and sign-up, on unless set to false
+  LOCAL_SIGNIN_ENABLED?: boolean;
+
+  // OpenID Connect Configuration (enabled when an issuer and client id are set)
+  OIDC_ISSUER?: string;
+  OIDC_CLIENT_ID?: string;
+  OIDC_CLIENT_SECRET?: string;
+  OIDC_REDIRECT_URI?: string;
+  OIDC_PROVIDER_NAME?: string;
+  OIDC_SCOPES?: string;
+  OIDC_ROLE_CLAIM?: string;
+  OIDC_ROLE_MAPPING?: string; // group:role pairs separated by commas
+
+  // First administrator, created at startup while no account has the admin role
+  INITIAL_ADMIN_EMAIL?: string;
+  INITIAL_ADMIN_PASSWORD?: string;
+  INITIAL_ADMIN_NAME?: string;
+
   // Logging Configuration
-  LOG_LEVEL: 'debug' | 'info' | 'warn' | 'error';
+  LOG_LEVEL: 'debug' | 'info' | 'warn' | 'warning' | 'error' | 'critical';
   LOG_FORMAT: 'dev' | 'json';
+  LOG_FILE?: string; // Entries are also appended here, one JSON object per line
+  LOG_CONTEXT_LEVELS?: string; // Context=level pairs separated by commas
   
   // Feature Flags
   ENABLE_DEBUG_MODE: boolean;
@@ -174,7 +194,7 @@ export class EnvironmentManager {
           (converted as any)[key] = parseInt(value, 10);
           break;
         case 'LOG_LEVEL':
-          converted.LOG_LEVEL = value as 'debug' | 'info' | 'warn' | 'error';
+          converted.LOG_LEVEL = value as EnvironmentConfig['LOG_LEVEL'];
           break;
         case 'LOG_FORMAT':
           converted.LOG_FORMAT = value as 'dev' | 'json';
@@ -193,6 +213,7 @@ export class EnvironmentManager {
         case 'ENABLE_CACHING':
         case 'ENABLE_AUTO_BACKUP':
         case 'ENABLE_TEST_MODE':
+        case 'LOCAL_SIGNIN_ENABLED':
           (converted as any)[key] = value.toLowerCase() === 'true';
           break;
         default:
@@ -6,6 +6,15 @@
 // Environment management
 export { EnvironmentManager, env } from './environment-manager';
 
+// Runtime data location
+export { getDataDirectory } from './data-directory';
+export { writeFileAtomic, withFileLock } from './atomic-file';
+export type { FileLockOptions } from './atomic-file';
+
+// Semantic versioning
+export { parseVersion, isValidVersion, compareVersions, satisfies, isValidRange, maxSatisfying } from './semver';
+export type { SemVer } from './semver';
+
 // Quality gates
 export { QualityGates } from './quality-gates';
 
@@ -0,0 +1,72 @@
+import { compareVersions, isValidRange, maxSatisfying, parseVersion, satisfies } from './semver';
+
+describe('semver utilities', () => {
+  describe('parseVersion', () => {
+    it('should parse release and prerelease versions', () => {
+      expect(parseVersion('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] });
+      expect(parseVersion('v2.0.0-beta.1+build.5')).toEqual({ major: 2, minor: 0, patch: 0, prerelease: ['beta', '1'] });
+    });
+
+    it('should reject malformed versions', () => {
+      expect(parseVersion('1.2')).toBeNull();
+      expect(parseVersion('latest')).toBeNull();
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should order versions by precedence', () => {
+      expect(compareVersions('1.2.3', '1.2.3')).toBe(0);
+      expect(compareVersions('1.10.0', '1.9.9')).toBeGreaterThan(0);
+      expect(compareVersions('1.0.0-alpha', '1.0.0')).toBeLessThan(0);
+      expect(compareVersions('1.0.0-alpha.2', '1.0.0-alpha.10')).toBeLessThan(0);
+      expect(compareVersions('1.0.0-alpha', '1.0.0-beta')).toBeLessThan(0);
+    });
+
+    it('should throw on invalid versions', () => {
+      expect(() => compareVersions('one', '1.0.0')).toThrow('Invalid version: one');
+    });
+  });
+
+  describe('satisfies', () => {
+    it.each([
+      ['1.4.2', '^1.0.0', true],
+      ['2.0.0', '^1.0.0', false],
+      ['0.2.5', '^0.2.3', true],
+      ['0.3.0', '^0.2.3', false],
+      ['0.0.4', '^0.0.3', false],
+      ['1.2.9', '~1.2', true],
+      ['1.3.0', '~1.2', false],
+      ['1.2.4', '~1.2.3', true],
+      ['3.1.0', '>=1.0.0', true],
+      ['0.9.0', '>=1.0.0', false],
+      ['1.5.0', '>=1.0.0 <2.0.0', true],
+      ['2.0.0', '>=1.0.0 <2.0.0', false],
+      ['1.9.0', '1.x', true],
+      ['1.2.3', '1.2.3', true],
+      ['1.2.4', '=1.2.3', false],
+      ['1.5.0', '1.0.0 - 2.0.0', true],
+      ['3.0.0', '^1.0.0 || ^3.0.0', true],
+      ['5.0.0', '*', true]
+    ])('%s satisfies %s: %s', (version, range, expected) => {
+      expect(satisfies(version, range)).toBe(expected);
+    });
+
+    it('should only match prereleases when the range names one', () => {
+      expect(satisfies('2.0.0-beta.1', '^1.0.0')).toBe(false);
+      expect(satisfies('1.3.0-beta.1', '^1.0.0')).toBe(false);
+      expect(satisfies('1.3.0-beta.2', '^1.3.0-beta.1')).toBe(true);
+    });
+
+    it('should not match invalid ranges', () => {
+      expect(isValidRange('not a range')).toBe(false);
+      expect(satisfies('1.0.0', 'not a range')).toBe(false);
+    });
+  });
+
+  describe('maxSatisfying', () => {
+    it('should return the highest matching version', () => {
+      expect(maxSatisfying(['1.0.0', '1.4.0', '2.0.0', '1.2.0'], '^1.0.0')).toBe('1.4.0');
+      expect(maxSatisfying(['1.0.0'], '^2.0.0')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Semantic Versioning Helpers
+ * Minimal semver parsing, comparison and npm-style range matching
+ * (`1.2.3`, `^1.2.0`, `~1.2`, `>=1.0.0 <2.0.0`, `1.x`, `1.0.0 - 2.0.0`, `a || b`)
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+interface Comparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: SemVer;
+}
+
+const VERSION_REGEX = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_REGEX = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_REGEX.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions: negative if a < b, zero if equal, positive if a > b
+ */
+export function compareVersions(a: string | SemVer, b: string | SemVer): number {
+  const left = typeof a === 'string' ? parseVersion(a) : a;
+  const right = typeof b === 'string' ? parseVersion(b) : b;
+  if (!left || !right) {
+    throw new Error(`Invalid version: ${!left ? String(a) : String(b)}`);
+  }
+
+  return left.major - right.major ||
+    left.minor - right.minor ||
+    left.patch - right.patch ||
+    comparePrerelease(left.prerelease, right.prerelease);
+}
+
+/**
+ * Check whether a version satisfies an npm-style range. Prerelease versions
+ * only match ranges that name a prerelease of the same major.minor.patch.
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return false;
+  }
+
+  const comparatorSets = parseRange(range);
+  if (!comparatorSets) {
+    return false;
+  }
+
+  return comparatorSets.some(comparators =>
+    comparators.every(comparator => testComparator(parsed, comparator)) &&
+    (parsed.prerelease.length === 0 || comparators.some(comparator =>
+      comparator.version.prerelease.length > 0 &&
+      comparator.version.major === parsed.major &&
+      comparator.version.minor === parsed.minor &&
+      comparator.version.patch === parsed.patch))
+  );
+}
+
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Highest version in the list that satisfies the range, if any
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  return versions
+    .filter(version => satisfies(version, range))
+    .sort((a, b) => compareVersions(b, a))[0] ?? null;
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release sorts above any of its prereleases
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const left = a[i];
+    const right = b[i];
+    if (left === undefined || right === undefined) {
+      return left === undefined ? -1 : 1;
+    }
+    if (left === right) {
+      continue;
+    }
+
+    const leftNumeric = /^\d+$/.test(left);
+    const rightNumeric = /^\d+$/.test(right);
+    if (leftNumeric && rightNumeric) {
+      return Number(left) - Number(right);
+    }
+    if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1;
+    }
+    return left < right ? -1 : 1;
+  }
+
+  return 0;
+}
+
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const part of range.split('||')) {
+    const comparators = parseComparatorSet(part.trim());
+    if (!comparators) {
+      return null;
+    }
+    sets.push(comparators);
+  }
+
+  return sets;
+}
+
+function parseComparatorSet(range: string): Comparator[] | null {
+  if (range === '' || range === '*' || range.toLowerCase() === 'x' || range === 'latest') {
+    return [];
+  }
+
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(range);
+  if (hyphen) {
+    const lower = expandPartial(hyphen[1]!, '>=');
+    const upper = expandPartial(hyphen[2]!, '<=');
+    return lower && upper ? [...lower, ...upper] : null;
+  }
+
+  const comparators: Comparator[] = [];
+  // Allow a space between an operator and its version, e.g. ">= 1.0.0"
+  const tokens = range.replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1').split(/\s+/);
+
+  for (const token of tokens) {
+    const match = /^(<=|>=|<|>|=|\^|~>?)?(.+)$/.exec(token);
+    if (!match) {
+      return null;
+    }
+
+    const operator = match[1] || '=';
+    const expanded = operator === '^' ? expandCaret(match[2]!)
+      : operator.startsWith('~') ? expandTilde(match[2]!)
+      : expandPartial(match[2]!, operator as Comparator['operator']);
+
+    if (!expanded) {
+      return null;
+    }
+    comparators.push(...expanded);
+  }
+
+  return comparators;
+}
+
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: string[];
+}
+
+function parsePartial(version: string): PartialVersion | null {
+  const match = PARTIAL_REGEX.exec(version);
+  if (!match) {
+    return null;
+  }
+
+  const toNumber = (part: string | undefined) =>
+    part === undefined || /^[xX*]$/.test(part) ? undefined : Number(part);
+  const major = toNumber(match[1]);
+  const minor = major === undefined ? undefined : toNumber(match[2]);
+  const patch = minor === undefined ? undefined : toNumber(match[3]);
+
+  return { major, minor, patch, prerelease: patch === undefined || !match[4] ? [] : match[4].split('.') };
+}
+
+function version(major: number, minor: number, patch: number, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease };
+}
+
+function expandPartial(raw: string, operator: Comparator['operator']): Comparator[] | null {
+  const partial = parsePartial(raw);
+  if (!partial) {
+    return null;
+  }
+
+  const { major, minor, patch, prerelease } = partial;
+  if (major === undefined) {
+    // "*" or "x" - any version, except for impossible "<*" / ">*"
+    return operator === '<' || operator === '>' ? [{ operator: '<', version: version(0, 0, 0, ['0']) }] : [];
+  }
+
+  if (minor !== undefined && patch !== undefined) {
+    return [{ operator, version: version(major, minor, patch, prerelease) }];
+  }
+
+  // Partial versions describe a span, e.g. "1.2" is >=1.2.0 <1.3.0
+  const lower = version(major, minor ?? 0, 0);
+  const upper = minor === undefined ? version(major + 1, 0, 0, ['0']) : version(major, minor + 1, 0, ['0']);
+
+  switch (operator) {
+    case '=':
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    case '>':
+      return [{ operator: '>=', version: version(upper.major, upper.minor, 0) }];
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+    case '<':
+      return [{ operator: '<', version: version(lower.major, lower.minor, 0, ['0']) }];
+    case '<=':
+      return [{ operator: '<', version: upper }];
+  }
+}
+
+function expandTilde(raw: string): Comparator[] | null {
+  const partial = parsePartial(raw);
+  if (!partial) {
+    return null;
+  }
+
+  const { major, minor, patch, prerelease } = partial;
+  if (major === undefined) {
+    return [];
+  }
+
+  // ~1.2.3 := >=1.2.3 <1.3.0, ~1.2 := >=1.2.0 <1.3.0, ~1 := >=1.0.0 <2.0.0
+  const lower = version(major, minor ?? 0, patch ?? 0, prerelease);
+  const upper = minor === undefined ? version(major + 1, 0, 0, ['0']) : version(major, minor + 1, 0, ['0']);
+  return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+}
+
+function expandCaret(raw: string): Comparator[] | null {
+  const partial = parsePartial(raw);
+  if (!partial) {
+    return null;
+  }
+
+  const { major, minor, patch, prerelease } = partial;
+  if (major === undefined) {
+    return [];
+  }
+
+  // Allow changes that do not modify the left-most non-zero component
+  const lower = version(major, minor ?? 0, patch ?? 0, prerelease);
+  let upper: SemVer;
+  if (major > 0 || minor === undefined) {
+    upper = version(major + 1, 0, 0, ['0']);
+  } else if (minor > 0 || patch === undefined) {
+    upper = version(0, minor + 1, 0, ['0']);
+  } else {
+    upper = version(0, 0, patch + 1, ['0']);
+  }
+
+  return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+}
+
+function testComparator(parsed: SemVer, comparator: Comparator): boolean {
+  const result = compareVersions(parsed, comparator.version);
+
+  switch (comparator.operator) {
+    case '<':
+      return result < 0;
+    case '<=':
+      return result <= 0;
+    case '>':
+      return result > 0;
+    case '>=':
+      return result >= 0;
+    case '=':
+      return result === 0;
+  }
+}
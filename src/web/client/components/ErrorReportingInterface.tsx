@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { webErrorLogger } from '../services/WebErrorLogger';
-import { ErrorStatistics, AggregatedError, ErrorSuggestion } from '../../../features/error-reporter/interfaces/logging.interface';
+import { ErrorStatistics, AggregatedError, ErrorSuggestion, ErrorIssue, ErrorIssueStatus } from '../../../features/error-reporter/interfaces/logging.interface';
 import { Button, Card, CardContent, CardHeader, CardTitle, LoadingSpinner } from '../../../shared/ui';
 import {
   AlertTriangle,
@@ -18,25 +18,101 @@ import {
   Calendar,
   Users,
   Code,
-  Zap
+  Zap,
+  Bug
 } from 'lucide-react';
 
 interface ErrorReportingInterfaceProps {
   className?: string;
 }
 
+type IssueFilter = ErrorIssueStatus | 'all';
+
+const ISSUE_FILTERS: IssueFilter[] = ['open', 'resolved', 'ignored', 'all'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getAuthHeaders = (): Record<string, string> => {
+  const token = localStorage.getItem('auth_token');
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+};
+
+// JSON has no dates, so they come back as strings
+const reviveIssue = (issue: any): ErrorIssue => ({
+  ...issue,
+  firstSeen: new Date(issue.firstSeen),
+  lastSeen: new Date(issue.lastSeen),
+  occurrences: issue.occurrences.map((bucket: any) => ({ ...bucket, start: new Date(bucket.start) }))
+});
+
 const ErrorReportingInterface: React.FC<ErrorReportingInterfaceProps> = ({ className = '' }) => {
   const [errorStats, setErrorStats] = useState<ErrorStatistics | null>(null);
   const [aggregatedErrors, setAggregatedErrors] = useState<AggregatedError[]>([]);
   const [errorSuggestions, setErrorSuggestions] = useState<ErrorSuggestion[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'errors' | 'suggestions'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'errors' | 'issues' | 'suggestions'>('overview');
+  const [issues, setIssues] = useState<ErrorIssue[]>([]);
+  const [issueFilter, setIssueFilter] = useState<IssueFilter>('open');
+  const [issuesError, setIssuesError] = useState<string | null>(null);
 
   useEffect(() => {
     loadErrorData();
   }, []);
 
+  // Issues are grouped on the server, so they are only fetched once the tab is opened
+  useEffect(() => {
+    if (activeTab === 'issues') {
+      loadIssues();
+    }
+  }, [activeTab, issueFilter]);
+
+  const loadIssues = async () => {
+    try {
+      setIssuesError(null);
+      const query = issueFilter === 'all' ? '' : `?status=${issueFilter}`;
+      const response = await fetch(`/api/admin/errors${query}`, { headers: getAuthHeaders() });
+      if (response.status === 401 || response.status === 403) {
+        setIssuesError('You do not have permission to view error issues');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Loading error issues failed with status ${response.status}`);
+      }
+      const data = await response.json();
+      setIssues(data.issues.map(reviveIssue));
+    } catch (err) {
+      setIssuesError('Failed to load error issues');
+      console.error('Error loading error issues:', err);
+    }
+  };
+
+  const updateIssueStatus = async (fingerprint: string, status: ErrorIssueStatus) => {
+    try {
+      const response = await fetch(`/api/admin/errors/${encodeURIComponent(fingerprint)}/status`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders()
+        },
+        body: JSON.stringify({ status })
+      });
+      if (!response.ok) {
+        throw new Error(`Updating the error issue failed with status ${response.status}`);
+      }
+      await loadIssues();
+    } catch (err) {
+      setIssuesError('Failed to update the error issue');
+      console.error('Error updating error issue:', err);
+    }
+  };
+
+  const refresh = () => {
+    loadErrorData();
+    if (activeTab === 'issues') {
+      loadIssues();
+    }
+  };
+
   const loadErrorData = async () => {
     try {
       setLoading(true);
@@ -69,6 +145,13 @@ const ErrorReportingInterface: React.FC<ErrorReportingInterfaceProps> = ({ class
     }).format(date);
   };
 
+  const countLastDay = (issue: ErrorIssue) => {
+    const since = Date.now() - DAY_MS;
+    return issue.occurrences
+      .filter(bucket => bucket.start.getTime() >= since)
+      .reduce((total, bucket) => total + bucket.count, 0);
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical': return 'text-error bg-error-light border-error/20';
@@ -118,6 +201,7 @@ const ErrorReportingInterface: React.FC<ErrorReportingInterfaceProps> = ({ class
   const tabs = [
     { id: 'overview', label: 'Overview', icon: <BarChart3 className="w-5 h-5" /> },
     { id: 'errors', label: 'Error Details', icon: <AlertCircle className="w-5 h-5" /> },
+    { id: 'issues', label: 'Issues', icon: <Bug className="w-5 h-5" /> },
     { id: 'suggestions', label: 'Suggestions', icon: <Lightbulb className="w-5 h-5" /> }
   ];
 
@@ -133,7 +217,7 @@ const ErrorReportingInterface: React.FC<ErrorReportingInterfaceProps> = ({ class
             Error Reporting & Analytics
           </h2>
           <Button 
-            onClick={loadErrorData} 
+            onClick={refresh} 
             variant="secondary"
             size="sm"
             className="flex items-center gap-2 bg-white/20 text-white border-white/30 hover:bg-white/30"
@@ -267,8 +351,8 @@ const ErrorReportingInterface: React.FC<ErrorReportingInterfaceProps> = ({ class
               </div>
             ) : (
               <div className="space-y-4">
-                {aggregatedErrors.map((error, index) => (
-                  <Card key={index} className="hover:shadow-md transition-shadow">
+                {aggregatedErrors.map(error => (
+                  <Card key={error.fingerprint} className="hover:shadow-md transition-shadow">
                     <CardContent className="p-6">
                       <div className="flex justify-between items-start mb-4">
                         <h4 className="text-lg font-semibold text-gray-dark flex-1 mr-4">
@@ -310,6 +394,104 @@ const ErrorReportingInterface: React.FC<ErrorReportingInterfaceProps> = ({ class
           </div>
         )}
 
+        {activeTab === 'issues' && (
+          <div className="space-y-6">
+            <label className="flex items-center gap-2 text-sm text-gray-medium">
+              Status
+              <select
+                value={issueFilter}
+                onChange={event => setIssueFilter(event.target.value as IssueFilter)}
+                className="border border-border rounded px-2 py-1"
+              >
+                {ISSUE_FILTERS.map(filter => (
+                  <option key={filter} value={filter}>{filter}</option>
+                ))}
+              </select>
+            </label>
+
+            {issuesError ? (
+              <p className="text-red-600" role="alert">{issuesError}</p>
+            ) : issues.length === 0 ? (
+              <div className="text-center py-12">
+                <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+                <p className="text-gray-medium">No {issueFilter === 'all' ? '' : `${issueFilter} `}issues.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {issues.map(issue => (
+                  <Card key={issue.fingerprint} className="hover:shadow-md transition-shadow">
+                    <CardContent className="p-6">
+                      <div className="flex justify-between items-start mb-4">
+                        <div className="flex-1 mr-4">
+                          <h4 className="text-lg font-semibold text-gray-dark">{issue.message}</h4>
+                          <p className="text-sm text-gray-medium flex items-center gap-2">
+                            <Code className="w-4 h-4" />
+                            {issue.type}{issue.culprit ? ` in ${issue.culprit}` : ''}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {issue.regressed && (
+                            <span className="px-3 py-1 rounded-full border text-sm font-semibold uppercase text-error bg-error-light border-error/20">
+                              Regressed
+                            </span>
+                          )}
+                          <span className={`px-3 py-1 rounded-full border text-sm font-semibold uppercase ${getSeverityColor(issue.severity)}`}>
+                            {issue.status}
+                          </span>
+                        </div>
+                      </div>
+
+                      <div className="space-y-3">
+                        <div className="flex items-center gap-4 text-sm text-gray-medium">
+                          <span className="flex items-center gap-2 font-semibold text-info">
+                            <Zap className="w-4 h-4" />
+                            Occurred {issue.count} times, {countLastDay(issue)} in the last 24 hours
+                          </span>
+                          {(issue.pluginId || issue.component) && (
+                            <span className="flex items-center gap-2">
+                              <Users className="w-4 h-4" />
+                              {[issue.pluginId, issue.component].filter(Boolean).join(', ')}
+                            </span>
+                          )}
+                        </div>
+
+                        <div className="flex items-center gap-4 text-sm text-gray-medium">
+                          <span className="flex items-center gap-2">
+                            <Clock className="w-4 h-4" />
+                            First: {formatDate(issue.firstSeen)}
+                          </span>
+                          <span className="flex items-center gap-2">
+                            <Clock className="w-4 h-4" />
+                            Last: {formatDate(issue.lastSeen)}
+                          </span>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                          {issue.status !== 'resolved' && (
+                            <Button size="sm" variant="default" onClick={() => updateIssueStatus(issue.fingerprint, 'resolved')}>
+                              Resolve
+                            </Button>
+                          )}
+                          {issue.status !== 'ignored' && (
+                            <Button size="sm" variant="secondary" onClick={() => updateIssueStatus(issue.fingerprint, 'ignored')}>
+                              Ignore
+                            </Button>
+                          )}
+                          {issue.status !== 'open' && (
+                            <Button size="sm" variant="secondary" onClick={() => updateIssueStatus(issue.fingerprint, 'open')}>
+                              Reopen
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {activeTab === 'suggestions' && (
           <div className="space-y-6">
             <div className="space-y-4">
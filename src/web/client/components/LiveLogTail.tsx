@@ -0,0 +1,288 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+
+interface LiveLogEntry {
+  id: string;
+  timestamp: string;
+  level: string;
+  message: string;
+  context: {
+    component?: string;
+    pluginId?: string;
+    userId?: string;
+  };
+}
+
+interface ServerSentEvent {
+  id?: string;
+  data: string;
+}
+
+type StreamStatus = 'connecting' | 'live' | 'reconnecting' | 'forbidden';
+
+const LOG_LEVELS = ['debug', 'info', 'warning', 'error', 'critical'];
+// Older entries are dropped so a busy server cannot grow the page without bound
+const MAX_ENTRIES = 500;
+const RECONNECT_DELAY_MS = 5000;
+
+const STATUS_LABELS: Record<StreamStatus, string> = {
+  connecting: 'Connecting…',
+  live: 'Live',
+  reconnecting: 'Disconnected, reconnecting…',
+  forbidden: 'You do not have permission to read logs'
+};
+
+const LEVEL_COLORS: Record<string, string> = {
+  debug: '#6b7280',
+  info: '#2563eb',
+  warning: '#d97706',
+  error: '#dc2626',
+  critical: '#7f1d1d'
+};
+
+const getAuthHeaders = (): Record<string, string> => {
+  const token = localStorage.getItem('auth_token');
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+};
+
+// Splits a Server-Sent Events body into complete events and the unfinished rest
+const parseServerSentEvents = (buffer: string): { events: ServerSentEvent[]; rest: string } => {
+  const blocks = buffer.split('\n\n');
+  const rest = blocks.pop() || '';
+  const events: ServerSentEvent[] = [];
+  for (const block of blocks) {
+    let id: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('id: ')) {
+        id = line.substring(4);
+      } else if (line.startsWith('data: ')) {
+        data.push(line.substring(6));
+      }
+    }
+    // Comment-only blocks are heartbeats
+    if (data.length > 0) {
+      events.push({ ...(id ? { id } : {}), data: data.join('\n') });
+    }
+  }
+  return { events, rest };
+};
+
+/**
+ * Follows /api/logs/stream and shows entries as they are logged. EventSource
+ * cannot send the bearer token, so the stream is read with fetch; after a
+ * disconnect it reconnects with Last-Event-ID and is sent what it missed.
+ * An access token that expired while connected is renewed once before the
+ * stream is given up as not permitted.
+ */
+const LiveLogTail: React.FC = () => {
+  const { renewSession } = useAuth();
+  const [level, setLevel] = useState('info');
+  const [entries, setEntries] = useState<LiveLogEntry[]>([]);
+  const [status, setStatus] = useState<StreamStatus>('connecting');
+  const [paused, setPaused] = useState(false);
+  const pausedRef = useRef(false);
+  const heldRef = useRef<LiveLogEntry[]>([]);
+  const renewSessionRef = useRef(renewSession);
+  renewSessionRef.current = renewSession;
+
+  const showEntries = (received: LiveLogEntry[]) => {
+    setEntries(current => [...received.reverse(), ...current].slice(0, MAX_ENTRIES));
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let lastEventId: string | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let renewed = false;
+
+    const receive = (event: ServerSentEvent) => {
+      if (event.id) {
+        lastEventId = event.id;
+      }
+      let entry: LiveLogEntry;
+      try {
+        entry = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (pausedRef.current) {
+        heldRef.current.push(entry);
+      } else {
+        showEntries([entry]);
+      }
+    };
+
+    const connect = async (): Promise<void> => {
+      try {
+        const response = await fetch(`/api/logs/stream?level=${encodeURIComponent(level)}`, {
+          headers: {
+            'Accept': 'text/event-stream',
+            ...getAuthHeaders(),
+            ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {})
+          },
+          signal: controller.signal
+        });
+        if (response.status === 401 || response.status === 403) {
+          if (!renewed) {
+            renewed = true;
+            if (await renewSessionRef.current() && !controller.signal.aborted) {
+              return connect();
+            }
+          }
+          if (!controller.signal.aborted) {
+            setStatus('forbidden');
+          }
+          return;
+        }
+        if (!response.ok || !response.body) {
+          throw new Error(`Log stream failed with status ${response.status}`);
+        }
+
+        renewed = false;
+        setStatus('live');
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) {
+            break;
+          }
+          const parsed = parseServerSentEvents(buffer + decoder.decode(value, { stream: true }));
+          buffer = parsed.rest;
+          parsed.events.forEach(receive);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.warn('Log stream disconnected:', error);
+      }
+
+      if (!controller.signal.aborted) {
+        setStatus('reconnecting');
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    setStatus('connecting');
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(reconnectTimer);
+    };
+  }, [level]);
+
+  const togglePaused = () => {
+    pausedRef.current = !paused;
+    if (paused) {
+      showEntries(heldRef.current);
+      heldRef.current = [];
+    }
+    setPaused(!paused);
+  };
+
+  const clear = () => {
+    heldRef.current = [];
+    setEntries([]);
+  };
+
+  // Entries below the new level would otherwise stay mixed in with the rest
+  const changeLevel = (newLevel: string) => {
+    clear();
+    setLevel(newLevel);
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    backgroundColor: '#ffffff',
+    color: '#374151',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        marginBottom: '16px'
+      }}>
+        <label style={{ fontSize: '14px', color: '#374151' }}>
+          Minimum level{' '}
+          <select value={level} onChange={event => changeLevel(event.target.value)}>
+            {LOG_LEVELS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </label>
+        <button style={buttonStyle} onClick={togglePaused}>
+          {paused ? 'Resume' : 'Pause'}
+        </button>
+        <button style={buttonStyle} onClick={clear}>
+          Clear
+        </button>
+        <span role="status" style={{
+          marginLeft: 'auto',
+          fontSize: '12px',
+          color: status === 'live' ? '#059669' : '#6b7280'
+        }}>
+          {paused && status === 'live' ? 'Paused' : STATUS_LABELS[status]}
+        </span>
+      </div>
+
+      {entries.length === 0 ? (
+        <p style={{
+          fontSize: '16px',
+          color: '#6b7280',
+          textAlign: 'center',
+          margin: '48px 0'
+        }}>
+          Waiting for new log entries
+        </p>
+      ) : (
+        <ul aria-label="Live log entries" style={{
+          listStyle: 'none',
+          margin: 0,
+          padding: 0,
+          maxHeight: '480px',
+          overflowY: 'auto',
+          fontFamily: 'monospace',
+          fontSize: '13px'
+        }}>
+          {entries.map(entry => (
+            <li key={entry.id} style={{
+              display: 'flex',
+              gap: '12px',
+              padding: '6px 8px',
+              borderBottom: '1px solid #f3f4f6'
+            }}>
+              <span style={{ color: '#6b7280' }}>
+                {new Date(entry.timestamp).toLocaleTimeString()}
+              </span>
+              <span style={{
+                minWidth: '64px',
+                fontWeight: '600',
+                color: LEVEL_COLORS[entry.level] || '#374151'
+              }}>
+                {entry.level}
+              </span>
+              {(entry.context.component || entry.context.pluginId) && (
+                <span style={{ color: '#374151' }}>
+                  [{entry.context.pluginId || entry.context.component}]
+                </span>
+              )}
+              <span style={{ color: '#1a1a1a' }}>{entry.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LiveLogTail;
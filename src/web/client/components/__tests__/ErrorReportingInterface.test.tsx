@@ -66,6 +66,7 @@ jest.mock('lucide-react', () => ({
   Users: () => <span data-testid="users-icon">Users</span>,
   Code: () => <span data-testid="code-icon">Code</span>,
   Zap: () => <span data-testid="zap-icon">Zap</span>,
+  Bug: () => <span data-testid="bug-icon">Bug</span>,
 }));
 
 const mockWebErrorLogger = webErrorLogger as jest.Mocked<typeof webErrorLogger>;
@@ -101,6 +102,7 @@ describe('ErrorReportingInterface', () => {
 
   const mockAggregatedErrors = [
     {
+      fingerprint: '3f9a1c2b4d5e6f70',
       message: 'Network timeout occurred',
       severity: ErrorSeverity.HIGH,
       count: 15,
@@ -109,6 +111,7 @@ describe('ErrorReportingInterface', () => {
       lastOccurrence: new Date('2024-01-20T14:30:00Z')
     },
     {
+      fingerprint: '0a1b2c3d4e5f6a7b',
       message: 'Invalid user input detected',
       severity: ErrorSeverity.MEDIUM,
       count: 8,
@@ -282,6 +285,106 @@ describe('ErrorReportingInterface', () => {
     });
   });
 
+  describe('Issues Tab', () => {
+    const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+    const jsonResponse = (body: unknown, status = 200) =>
+      ({ ok: status < 400, status, json: () => Promise.resolve(body) } as Response);
+    const issue = {
+      fingerprint: 'c0ffee0123456789',
+      type: 'TypeError',
+      message: 'Cannot read properties of undefined',
+      culprit: 'BookReader.turnPage (plugins/reading-core/reader.ts)',
+      frames: ['BookReader.turnPage (plugins/reading-core/reader.ts)'],
+      pluginId: 'reading-core',
+      severity: 'high',
+      status: 'open',
+      count: 12,
+      firstSeen: '2024-01-15T10:00:00.000Z',
+      lastSeen: new Date().toISOString(),
+      occurrences: [
+        { start: '2024-01-15T10:00:00.000Z', count: 9 },
+        { start: new Date().toISOString(), count: 3 }
+      ],
+      lastEntryId: 'e1',
+      regressed: true
+    };
+
+    beforeEach(async () => {
+      mockFetch.mockReset();
+      localStorage.setItem('auth_token', 'admin-token');
+      mockWebErrorLogger.getErrorStatistics.mockResolvedValue(mockErrorStats);
+      mockWebErrorLogger.getAggregatedErrors.mockResolvedValue(mockAggregatedErrors);
+      mockWebErrorLogger.getErrorSuggestions.mockResolvedValue(mockErrorSuggestions);
+
+      render(<ErrorReportingInterface />);
+
+      await waitFor(() => {
+        expect(screen.queryByTestId('loading-spinner')).not.toBeInTheDocument();
+      });
+    });
+
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    it('should list open issues from the server with their history', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ issues: [issue] }));
+
+      fireEvent.click(screen.getByRole('tab', { name: /Issues/ }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Cannot read properties of undefined')).toBeInTheDocument();
+      });
+      expect(screen.getByText('TypeError in BookReader.turnPage (plugins/reading-core/reader.ts)')).toBeInTheDocument();
+      expect(screen.getByText(/Occurred 12 times, 3 in the last 24 hours/)).toBeInTheDocument();
+      expect(screen.getByText('Regressed')).toBeInTheDocument();
+      expect(mockFetch).toHaveBeenCalledWith('/api/admin/errors?status=open', {
+        headers: { Authorization: 'Bearer admin-token' }
+      });
+    });
+
+    it('should resolve an issue and load the list again', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ issues: [issue] }))
+        .mockResolvedValueOnce(jsonResponse({ success: true, issue: { ...issue, status: 'resolved' } }))
+        .mockResolvedValueOnce(jsonResponse({ issues: [] }));
+
+      fireEvent.click(screen.getByRole('tab', { name: /Issues/ }));
+      await waitFor(() => {
+        expect(screen.getByText('Resolve')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Resolve'));
+
+      await waitFor(() => {
+        expect(screen.getByText('No open issues.')).toBeInTheDocument();
+      });
+      expect(mockFetch).toHaveBeenCalledWith('/api/admin/errors/c0ffee0123456789/status', expect.objectContaining({
+        method: 'PUT',
+        body: JSON.stringify({ status: 'resolved' })
+      }));
+    });
+
+    it('should filter by status', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ issues: [] }));
+
+      fireEvent.click(screen.getByRole('tab', { name: /Issues/ }));
+      fireEvent.change(screen.getByRole('combobox'), { target: { value: 'ignored' } });
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenLastCalledWith('/api/admin/errors?status=ignored', expect.anything());
+      });
+      expect(await screen.findByText('No ignored issues.')).toBeInTheDocument();
+    });
+
+    it('should explain when the user may not view issues', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Forbidden' }, 403));
+
+      fireEvent.click(screen.getByRole('tab', { name: /Issues/ }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('You do not have permission to view error issues');
+    });
+  });
+
   describe('Suggestions Tab', () => {
     beforeEach(async () => {
       mockWebErrorLogger.getErrorStatistics.mockResolvedValue(mockErrorStats);
@@ -382,7 +485,7 @@ describe('ErrorReportingInterface', () => {
 
     it('should have proper tab navigation', () => {
       const tabs = screen.getAllByRole('tab');
-      expect(tabs.length).toBe(3);
+      expect(tabs.length).toBe(4);
       
       tabs.forEach(tab => {
         expect(tab).toHaveAttribute('aria-selected');
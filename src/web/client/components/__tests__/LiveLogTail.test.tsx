@@ -0,0 +1,158 @@
+import React from 'react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import LiveLogTail from '../LiveLogTail';
+
+const mockRenewSession = jest.fn();
+jest.mock('../../contexts/AuthContext', () => ({
+  ...jest.requireActual('../../contexts/AuthContext'),
+  useAuth: () => ({ renewSession: mockRenewSession })
+}));
+
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+const logEvent = (id: string, level: string, message: string, component = 'reader') =>
+  `id: ${id}\ndata: ${JSON.stringify({ id, level, message, timestamp: new Date().toISOString(), context: { component } })}\n\n`;
+
+// A streamed response whose body yields the given chunks, then stays open until released
+const streamResponse = (chunks: string[], { end = false } = {}) => {
+  const encoder = new TextEncoder();
+  const remaining = [...chunks];
+  const read = jest.fn(() => {
+    const chunk = remaining.shift();
+    if (chunk !== undefined) {
+      return Promise.resolve({ done: false, value: encoder.encode(chunk) });
+    }
+    return end ? Promise.resolve({ done: true, value: undefined }) : new Promise(() => undefined);
+  });
+  return { ok: true, status: 200, body: { getReader: () => ({ read }) } } as unknown as Response;
+};
+
+describe('LiveLogTail', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockRenewSession.mockReset().mockResolvedValue(false);
+    localStorage.setItem('auth_token', 'admin-token');
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    jest.useRealTimers();
+  });
+
+  it('shows streamed entries newest first, including events split across chunks', async () => {
+    const second = logEvent('b', 'error', 'Plugin crashed');
+    mockFetch.mockResolvedValueOnce(streamResponse([
+      logEvent('a', 'info', 'Library opened') + ': heartbeat\n\n',
+      second.substring(0, 20),
+      second.substring(20)
+    ]));
+
+    render(<LiveLogTail />);
+
+    await waitFor(() => expect(screen.getAllByRole('listitem')).toHaveLength(2));
+    expect(screen.getAllByRole('listitem')[0]).toHaveTextContent('Plugin crashed');
+    expect(screen.getByRole('status')).toHaveTextContent('Live');
+    expect(mockFetch).toHaveBeenCalledWith('/api/logs/stream?level=info', expect.objectContaining({
+      headers: expect.objectContaining({ Authorization: 'Bearer admin-token' })
+    }));
+  });
+
+  it('reconnects with the last event id after the stream ends', async () => {
+    jest.useFakeTimers();
+    mockFetch
+      .mockResolvedValueOnce(streamResponse([logEvent('a', 'warning', 'Slow render')], { end: true }))
+      .mockResolvedValueOnce(streamResponse([logEvent('b', 'error', 'Missed while away')]));
+
+    render(<LiveLogTail />);
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('reconnecting'));
+
+    await act(async () => {
+      jest.advanceTimersByTime(5000);
+    });
+
+    await waitFor(() => expect(screen.getByText('Missed while away')).toBeInTheDocument());
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/logs/stream?level=info', expect.objectContaining({
+      headers: expect.objectContaining({ 'Last-Event-ID': 'a' })
+    }));
+  });
+
+  it('holds entries back while paused and clears the list', async () => {
+    let deliver: (chunk: string) => void = () => undefined;
+    const encoder = new TextEncoder();
+    const read = jest.fn(() => new Promise(resolve => {
+      deliver = chunk => resolve({ done: false, value: encoder.encode(chunk) });
+    }));
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, body: { getReader: () => ({ read }) } } as unknown as Response);
+
+    render(<LiveLogTail />);
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('Live'));
+
+    fireEvent.click(screen.getByText('Pause'));
+    await act(async () => {
+      deliver(logEvent('a', 'info', 'While paused'));
+    });
+    expect(screen.queryByText('While paused')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Resume'));
+    expect(screen.getByText('While paused')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Clear'));
+    expect(screen.getByText('Waiting for new log entries')).toBeInTheDocument();
+  });
+
+  it('clears the entries when the level changes', async () => {
+    mockFetch
+      .mockResolvedValueOnce(streamResponse([logEvent('a', 'info', 'Library opened')]))
+      .mockResolvedValueOnce(streamResponse([]));
+
+    render(<LiveLogTail />);
+    await waitFor(() => expect(screen.getByText('Library opened')).toBeInTheDocument());
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'error' } });
+
+    expect(screen.queryByText('Library opened')).not.toBeInTheDocument();
+    await waitFor(() => expect(mockFetch).toHaveBeenLastCalledWith('/api/logs/stream?level=error', expect.anything()));
+  });
+
+  it('renews the session once and reconnects when the access token has expired', async () => {
+    mockRenewSession.mockImplementationOnce(async () => {
+      localStorage.setItem('auth_token', 'renewed-token');
+      return true;
+    });
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 401 } as Response)
+      .mockResolvedValueOnce(streamResponse([logEvent('a', 'info', 'After renewal')]));
+
+    render(<LiveLogTail />);
+
+    await waitFor(() => expect(screen.getByText('After renewal')).toBeInTheDocument());
+    expect(screen.getByRole('status')).toHaveTextContent('Live');
+    expect(mockRenewSession).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/logs/stream?level=info', expect.objectContaining({
+      headers: expect.objectContaining({ Authorization: 'Bearer renewed-token' })
+    }));
+  });
+
+  it('stops when the user may not read logs', async () => {
+    mockRenewSession.mockResolvedValueOnce(true);
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 403 } as Response)
+      .mockResolvedValueOnce({ ok: false, status: 403 } as Response);
+
+    render(<LiveLogTail />);
+
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('You do not have permission to read logs'));
+    expect(mockRenewSession).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when the session cannot be renewed', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 401 } as Response);
+
+    render(<LiveLogTail />);
+
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('You do not have permission to read logs'));
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -17,6 +17,7 @@ interface AuthContextType {
   register: (userData: RegisterData) => Promise<boolean>;
   resetPassword: (email: string) => Promise<boolean>;
   loginAsGuest: () => void;
+  renewSession: () => Promise<boolean>;
 }
 
 interface RegisterData {
@@ -28,6 +29,9 @@ interface RegisterData {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Access tokens last 15 minutes, so they are renewed a little before that
+const TOKEN_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -45,10 +49,49 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [isGuest, setIsGuest] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Trade the refresh token for new tokens; null when there is no session to keep
+  const refreshSession = async (): Promise<User | null> => {
+    const refreshToken = localStorage.getItem('refresh_token');
+    if (!refreshToken) {
+      return null;
+    }
+
+    try {
+      const response = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (!response.ok) {
+        localStorage.removeItem('refresh_token');
+        return null;
+      }
+
+      const data = await response.json();
+      localStorage.setItem('auth_token', data.token);
+      localStorage.setItem('refresh_token', data.refreshToken);
+      return data.user;
+    } catch (error) {
+      console.error('Token refresh failed:', error);
+      return null;
+    }
+  };
+
   // Check for existing token on mount
   useEffect(() => {
     const checkAuth = async () => {
       console.log('AuthContext: Checking authentication on mount...');
+
+      // Sign-ins through an identity provider come back with a refresh token in the URL fragment
+      const providerRefreshToken = new URLSearchParams(window.location.hash.substring(1)).get('refreshToken');
+      if (providerRefreshToken) {
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        localStorage.setItem('refresh_token', providerRefreshToken);
+        localStorage.removeItem('auth_token');
+      }
       
       const token = localStorage.getItem('auth_token');
       console.log('AuthContext: Token in localStorage:', token ? 'exists' : 'none');
@@ -83,15 +126,30 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             // Clear any guest mode if we have a valid session
             localStorage.removeItem('guest_mode');
           } else {
-            console.log('AuthContext: Session check failed, removing token');
-            localStorage.removeItem('auth_token');
-            localStorage.removeItem('guest_mode');
+            // The access token may only have expired
+            const refreshedUser = response.status === 401 ? await refreshSession() : null;
+            if (refreshedUser) {
+              setUser(refreshedUser);
+              setIsGuest(false);
+              localStorage.removeItem('guest_mode');
+            } else {
+              console.log('AuthContext: Session check failed, removing token');
+              localStorage.removeItem('auth_token');
+              localStorage.removeItem('guest_mode');
+            }
           }
         } catch (error) {
           console.error('Session check failed:', error);
           localStorage.removeItem('auth_token');
           localStorage.removeItem('guest_mode');
         }
+      } else if (providerRefreshToken) {
+        const refreshedUser = await refreshSession();
+        if (refreshedUser) {
+          setUser(refreshedUser);
+          setIsGuest(false);
+          localStorage.removeItem('guest_mode');
+        }
       } else {
         // Check for guest mode only if no token exists
         const guestMode = localStorage.getItem('guest_mode');
@@ -108,6 +166,30 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkAuth();
   }, []);
 
+  // Keep the access token fresh while signed in
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    const interval = setInterval(async () => {
+      const refreshedUser = await refreshSession();
+      if (refreshedUser) {
+        setUser(refreshedUser);
+      }
+    }, TOKEN_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user?.id]);
+
+  // For callers whose request was refused with an expired access token
+  const renewSession = async (): Promise<boolean> => {
+    const refreshedUser = await refreshSession();
+    if (refreshedUser) {
+      setUser(refreshedUser);
+    }
+    return !!refreshedUser;
+  };
+
   const login = async (email: string, password: string): Promise<boolean> => {
     console.log('AuthContext: Login attempt for:', email);
     
@@ -146,6 +228,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         localStorage.removeItem('guest_mode');
         
         localStorage.setItem('auth_token', data.token);
+        localStorage.setItem('refresh_token', data.refreshToken);
         setUser(data.user);
         setIsGuest(false);
         
@@ -181,11 +264,21 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const logout = async (): Promise<void> => {
     try {
-      await fetch('/api/auth/signout', { method: 'POST' });
+      // Ends the session on the server, so the tokens cannot be used again
+      const token = localStorage.getItem('auth_token');
+      await fetch('/api/auth/signout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ refreshToken: localStorage.getItem('refresh_token') }),
+      });
     } catch (error) {
       console.error('Logout request failed:', error);
     } finally {
       localStorage.removeItem('auth_token');
+      localStorage.removeItem('refresh_token');
       localStorage.removeItem('guest_mode');
       setUser(null);
       setIsGuest(false);
@@ -195,6 +288,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const loginAsGuest = (): void => {
     localStorage.setItem('guest_mode', 'true');
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
     setIsGuest(true);
     setUser(null);
     console.log('AuthContext: Logged in as guest');
@@ -221,6 +315,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       if (response.ok) {
         const data = await response.json();
         localStorage.setItem('auth_token', data.token);
+        localStorage.setItem('refresh_token', data.refreshToken);
         setUser(data.user);
         return true;
       } else {
@@ -265,6 +360,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     register,
     resetPassword,
     loginAsGuest,
+    renewSession,
   };
 
   return (
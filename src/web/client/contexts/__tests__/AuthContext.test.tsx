@@ -112,6 +112,71 @@ describe('AuthContext', () => {
       });
     });
 
+    it('should renew an expired access token with the refresh token', async () => {
+      const stored: Record<string, string> = { auth_token: 'expired-token', refresh_token: 'refresh-token' };
+      localStorageMock.getItem.mockImplementation((key: string) => stored[key] ?? null);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ error: 'Token expired' })
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          success: true,
+          user: { id: '1', email: 'test@example.com', name: 'Test User' },
+          token: 'new-token',
+          refreshToken: 'new-refresh-token'
+        })
+      });
+
+      renderAuthContext();
+
+      await waitFor(() => {
+        expect(screen.getByTestId('isAuthenticated')).toHaveTextContent('true');
+      });
+      expect(mockFetch).toHaveBeenCalledWith('/api/auth/refresh', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ refreshToken: 'refresh-token' })
+      });
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('auth_token', 'new-token');
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('refresh_token', 'new-refresh-token');
+    });
+
+    it('should sign in with the refresh token an identity provider sign-in came back with', async () => {
+      const stored: Record<string, string> = {};
+      localStorageMock.getItem.mockImplementation((key: string) => stored[key] ?? null);
+      localStorageMock.setItem.mockImplementation((key: string, value: string) => {
+        stored[key] = value;
+      });
+      window.history.replaceState(null, '', '/dashboard#refreshToken=provider-refresh-token');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          success: true,
+          user: { id: '1', email: 'test@example.com', name: 'Test User' },
+          token: 'new-token',
+          refreshToken: 'new-refresh-token'
+        })
+      });
+
+      renderAuthContext();
+
+      await waitFor(() => {
+        expect(screen.getByTestId('isAuthenticated')).toHaveTextContent('true');
+      });
+      expect(mockFetch).toHaveBeenCalledWith('/api/auth/refresh', expect.objectContaining({
+        body: JSON.stringify({ refreshToken: 'provider-refresh-token' })
+      }));
+      expect(window.location.hash).toBe('');
+      expect(stored.auth_token).toBe('new-token');
+    });
+
     it('should handle invalid existing token', async () => {
       localStorageMock.getItem.mockReturnValue('invalid-token');
       
@@ -244,6 +309,9 @@ describe('AuthContext', () => {
 
   describe('Logout Functionality', () => {
     it('should handle successful logout', async () => {
+      const stored: Record<string, string> = { auth_token: 'existing-token', refresh_token: 'existing-refresh-token' };
+      localStorageMock.getItem.mockImplementation((key: string) => stored[key] ?? null);
+
       // Mock initial session check
       mockFetch.mockResolvedValueOnce({
         ok: false,
@@ -270,13 +338,20 @@ describe('AuthContext', () => {
       });
 
       await waitFor(() => {
+        // Ends the session on the server
         expect(mockFetch).toHaveBeenCalledWith('/api/auth/signout', {
-          method: 'POST'
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': 'Bearer existing-token'
+          },
+          body: JSON.stringify({ refreshToken: 'existing-refresh-token' })
         });
       });
 
       await waitFor(() => {
         expect(localStorageMock.removeItem).toHaveBeenCalledWith('auth_token');
+        expect(localStorageMock.removeItem).toHaveBeenCalledWith('refresh_token');
         expect(screen.getByTestId('user')).toHaveTextContent('null');
         expect(screen.getByTestId('isAuthenticated')).toHaveTextContent('false');
       });
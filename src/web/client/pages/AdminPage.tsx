@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Shield, Users, Activity, Settings, AlertTriangle, Package, FileText } from 'lucide-react';
+import LiveLogTail from '../components/LiveLogTail';
 
 interface SystemMetric {
   id: string;
@@ -460,14 +461,7 @@ const AdminPage: React.FC = () => {
         border: '1px solid #e5e7eb',
         boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)'
       }}>
-        <p style={{
-          fontSize: '16px',
-          color: '#6b7280',
-          textAlign: 'center',
-          margin: '48px 0'
-        }}>
-          Error reporting features coming soon
-        </p>
+        <LiveLogTail />
       </div>
     </div>
   );
@@ -16,6 +16,13 @@ interface AuthError {
   message: string;
 }
 
+interface AuthProviderInfo {
+  id: string;
+  name: string;
+  type: string;
+  loginUrl?: string; // Set for providers that sign in through a redirect
+}
+
 const AuthPage: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
@@ -33,6 +40,7 @@ const AuthPage: React.FC = () => {
   const [successMessage, setSuccessMessage] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [providers, setProviders] = useState<AuthProviderInfo[]>([]);
 
   // Memoize the redirect path to prevent infinite loops
   const redirectPath = useMemo(() => {
@@ -47,6 +55,36 @@ const AuthPage: React.FC = () => {
     }
   }, [isAuthenticated, isLoading, navigate, redirectPath]);
 
+  // List the identity providers that can be signed in with besides email and password
+  useEffect(() => {
+    const loadProviders = async () => {
+      try {
+        const response = await fetch('/api/auth/providers');
+        if (response && response.ok) {
+          const data = await response.json();
+          setProviders((data.providers || []).filter((provider: AuthProviderInfo) => provider.loginUrl));
+        }
+      } catch (error) {
+        console.error('Failed to load sign-in providers:', error);
+      }
+    };
+
+    loadProviders();
+  }, []);
+
+  // A failed sign-in through an identity provider comes back with the error in the URL fragment
+  useEffect(() => {
+    const providerError = new URLSearchParams(window.location.hash.substring(1)).get('error');
+    if (providerError) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      setErrors([{ field: 'general', message: providerError }]);
+    }
+  }, []);
+
+  const handleProviderLogin = (provider: AuthProviderInfo) => {
+    window.location.assign(`${provider.loginUrl}?redirect=${encodeURIComponent(redirectPath)}`);
+  };
+
   const validateForm = (): boolean => {
     const newErrors: AuthError[] = [];
 
@@ -626,6 +664,40 @@ const AuthPage: React.FC = () => {
             </button>
           </form>
 
+          {/* Identity Providers */}
+          {mode === 'login' && providers.length > 0 && (
+            <div style={{
+              marginTop: '24px',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '12px'
+            }}>
+              {providers.map(provider => (
+                <button
+                  key={provider.id}
+                  type="button"
+                  onClick={() => handleProviderLogin(provider)}
+                  disabled={isSubmitting}
+                  style={{
+                    width: '100%',
+                    padding: '12px 24px',
+                    backgroundColor: '#ffffff',
+                    color: '#1a1a1a',
+                    border: '1px solid #e5e7eb',
+                    borderRadius: '8px',
+                    fontSize: '14px',
+                    fontWeight: '600',
+                    cursor: isSubmitting ? 'not-allowed' : 'pointer',
+                    opacity: isSubmitting ? 0.6 : 1,
+                    transition: 'all 0.2s ease'
+                  }}
+                >
+                  Sign in with {provider.name}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Guest Login */}
           {mode === 'login' && (
             <div style={{ marginTop: '24px' }}>
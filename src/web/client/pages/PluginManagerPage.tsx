@@ -31,6 +31,12 @@ interface ToastNotification {
   message: string;
 }
 
+// Installing and uninstalling plugins needs the plugins:manage permission
+const getAuthHeaders = (): Record<string, string> => {
+  const token = localStorage.getItem('auth_token');
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+};
+
 const PluginManagerPage: React.FC = () => {
   const [plugins, setPlugins] = useState<Plugin[]>([]);
   const [pluginPacks, setPluginPacks] = useState<PluginPack[]>([]);
@@ -178,6 +184,7 @@ const PluginManagerPage: React.FC = () => {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
           body: JSON.stringify({ pluginId }),
         });
@@ -248,6 +255,7 @@ const PluginManagerPage: React.FC = () => {
       try {
         const response = await fetch(`/api/plugins/${pluginId}`, {
           method: 'DELETE',
+          headers: getAuthHeaders(),
         });
         
         if (response.ok) {
@@ -290,6 +298,7 @@ const PluginManagerPage: React.FC = () => {
           method: 'PUT',
           headers: {
             'Content-Type': 'application/json',
+            ...getAuthHeaders(),
           },
           body: JSON.stringify({ enabled: newEnabled }),
         });
@@ -4,9 +4,12 @@ import { BrowserRouter } from 'react-router-dom';
 import AuthPage from '../AuthPage';
 import { AuthProvider } from '../../contexts/AuthContext';
 
-// Mock fetch for API calls
+// Mock fetch for API calls; the sign-in providers the page loads on mount are answered separately
 const mockFetch = jest.fn();
-global.fetch = mockFetch;
+let providers: any[] = [];
+global.fetch = ((...args: any[]) => args[0] === '/api/auth/providers'
+  ? Promise.resolve({ ok: true, json: async () => ({ success: true, providers }) })
+  : mockFetch(...args)) as any;
 
 const renderAuthPage = () => {
   return render(
@@ -22,6 +25,27 @@ describe('AuthPage', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     localStorage.clear();
+    providers = [{ id: 'local', name: 'Email and password', type: 'local' }];
+  });
+
+  describe('Sign-in Providers', () => {
+    it('should list the enabled identity providers', async () => {
+      providers.push({ id: 'oidc', name: 'Acme SSO', type: 'oidc', loginUrl: '/api/auth/providers/oidc/login' });
+
+      renderAuthPage();
+
+      expect(await screen.findByRole('button', { name: 'Sign in with Acme SSO' })).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /Sign in with Email and password/i })).not.toBeInTheDocument();
+    });
+
+    it('should show the error a provider sign-in came back with', async () => {
+      window.history.replaceState(null, '', '/auth#error=Account%20is%20suspended');
+
+      renderAuthPage();
+
+      expect(await screen.findByText('Account is suspended')).toBeInTheDocument();
+      expect(window.location.hash).toBe('');
+    });
   });
 
   describe('Login Mode', () => {
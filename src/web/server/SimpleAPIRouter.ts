@@ -1,22 +1,107 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { PluginManager } from '../../features/plugin-manager/services/plugin.manager';
-import { SettingsService } from '../../features/settings/services/settings.service';
-import { ISettingsService } from '../../features/settings/interfaces/settings.interface';
+import { DependentPluginsError } from '../../features/plugin-manager/services/dependency.resolver';
+import { PluginSignatureError } from '../../features/plugin-manager/services/plugin.verifier';
+import { JsonFilePluginPersistence } from '../../features/plugin-manager/services/plugin.persistence';
+import { PluginHealthMonitor } from '../../features/plugin-manager/services/plugin.health.monitor';
+import { PluginStorageManager, StorageQuotaExceededError } from '../../features/plugin-manager/services/plugin.storage.manager';
+import { JsonFilePluginStorageDriver } from '../../features/plugin-manager/services/plugin.storage.driver';
+import { SettingLockedError, SettingsService, SettingValidationError } from '../../features/settings/services/settings.service';
+import { JsonFileSettingsStorage } from '../../features/settings/services/settings.storage';
+import { ISettingsService, SettingChangeContext, SettingScope } from '../../features/settings/interfaces/settings.interface';
+import { EnvironmentSettingsConfig } from '../../features/settings/services/settings.config';
+import { JsonFileSettingsHistory } from '../../features/settings/services/settings.history';
 import { DashboardManager } from '../../features/ui-shell/services/dashboard.manager';
+import { JWTAuthMiddleware, PERMISSIONS, SessionService, UserService, UserValidationError } from '../../features/auth';
+import { UserManager } from '../../features/admin/services/user.manager';
+import { validatePlugin } from '../../plugins';
+import { LoggingService } from '../../features/error-reporter/services/logging.service';
+import {
+  InvalidLogCursorError,
+  LogCursor,
+  decodeLogCursor,
+  encodeLogCursor,
+  isAtLeastLevel,
+  isNewerThanCursor
+} from '../../features/error-reporter/services/log.query';
+import { NdjsonLogStore } from '../../features/error-reporter/services/log.store';
+import { LoggingServiceTransport } from '../../features/error-reporter/services/logging.transport';
+import { ERROR_ISSUE_STATUSES, ErrorIssueNotFoundError, ErrorIssueTracker } from '../../features/error-reporter/services/error.issue.tracker';
+import { ErrorIssueStatus, LogContext, LogEntry, LogLevel, LogQuery } from '../../features/error-reporter/interfaces/logging.interface';
+import { addLogTransport, getCorrelationId } from '../../core/logger';
+
+const LOG_LEVELS: string[] = Object.values(LogLevel);
+const DEFAULT_LOG_PAGE_SIZE = 100;
+const MAX_LOG_PAGE_SIZE = 1000;
+// A client resuming a stream is sent at most this many of the entries it missed
+const MAX_LOG_STREAM_REPLAY = 1000;
+// Proxies close connections that stay quiet for too long
+const LOG_STREAM_HEARTBEAT_MS = 25 * 1000;
+// Each user's values for a plugin count against their own quota, so no user can fill the plugin's storage for everyone
+const USER_PLUGIN_STORAGE_QUOTA = 1024 * 1024;
+
+interface LogStreamFilter {
+  level?: LogLevel;
+  pluginId?: string;
+  component?: string;
+}
 
 export class SimpleAPIRouter {
   private router: Router;
   private pluginManager: PluginManager;
   private settingsService: SettingsService;
   private dashboardManager: DashboardManager;
+  private healthMonitor: PluginHealthMonitor;
+  private storageManager: PluginStorageManager;
+  private authMiddleware: JWTAuthMiddleware;
+  private userManager: UserManager;
+  private loggingService: LoggingService;
+  private stopForwardingCoreLogs: () => void;
+  private errorIssues: ErrorIssueTracker;
+  private stopTrackingErrors: () => void;
+  private logStreams: Set<() => void> = new Set();
 
-  constructor() {
+  constructor(users?: UserService) {
     this.router = Router();
     // Create shared instances
-    this.settingsService = new SettingsService();
+    this.settingsService = new SettingsService(
+      new JsonFileSettingsStorage(),
+      undefined,
+      new EnvironmentSettingsConfig(),
+      new JsonFileSettingsHistory()
+    );
     this.dashboardManager = new DashboardManager();
-    // Pass both DashboardManager and SettingsService to PluginManager for proper integration
-    this.pluginManager = new PluginManager(undefined, undefined, undefined, this.dashboardManager, this.settingsService);
+    this.storageManager = new PluginStorageManager(new JsonFilePluginStorageDriver());
+    // The server's accounts, shared with its sign-in routes
+    const userService = users || new UserService();
+    this.authMiddleware = new JWTAuthMiddleware(undefined, undefined, userService);
+    this.userManager = new UserManager(userService, this.settingsService, new SessionService());
+    // Logs are appended to data/logs/ and searched from there, so they survive restarts;
+    // entries logged while handling a request carry its correlation id
+    this.loggingService = new LoggingService({
+      storage: new Map(),
+      maxEntries: 1000,
+      enableConsoleOutput: false,
+      store: new NdjsonLogStore(),
+      getCorrelationId
+    });
+    // Server components log through createLogger; their entries are kept with the rest
+    this.stopForwardingCoreLogs = addLogTransport(new LoggingServiceTransport(this.loggingService));
+    // Logged errors are grouped into issues kept in data/error-issues.json
+    this.errorIssues = new ErrorIssueTracker();
+    this.stopTrackingErrors = this.loggingService.subscribe(entry => this.errorIssues.record(entry));
+    this.healthMonitor = new PluginHealthMonitor();
+    this.healthMonitor.subscribeToAlerts(alert => {
+      console.warn(`Plugin health alert (${alert.severity}): ${alert.message}`);
+    });
+    // Pass both DashboardManager and SettingsService to PluginManager for proper integration;
+    // installed plugins are kept in data/installed-plugins.json and plugin data under
+    // data/plugin-storage/ so both survive restarts
+    this.pluginManager = new PluginManager(
+      undefined, undefined, undefined, this.dashboardManager, this.settingsService,
+      undefined, this.storageManager, undefined,
+      new JsonFilePluginPersistence(), this.healthMonitor
+    );
     this.setupRoutes();
   }
 
@@ -49,29 +134,72 @@ export class SimpleAPIRouter {
         },
         endpoints: {
           auth: [
+            'POST /api/auth/signup',
             'POST /api/auth/signin',
             'POST /api/auth/signout',
-            'GET /api/auth/session'
+            'GET /api/auth/session',
+            'POST /api/auth/refresh',
+            'GET /api/auth/sessions',
+            'DELETE /api/auth/sessions/:sessionId',
+            'GET /api/auth/tokens',
+            'POST /api/auth/tokens',
+            'DELETE /api/auth/tokens/:tokenId',
+            'POST /api/auth/password',
+            'POST /api/auth/password/forgot',
+            'POST /api/auth/password/reset',
+            'GET /api/auth/providers',
+            'GET /api/auth/providers/:providerId/login',
+            'GET /api/auth/providers/:providerId/callback'
           ],
           plugins: [
             'GET /api/plugins',
+            'GET /api/plugins/updates',
             'POST /api/plugins/install',
+            'POST /api/plugins/:id/uninstall',
             'DELETE /api/plugins/:id',
-            'PATCH /api/plugins/:id'
+            'PUT /api/plugins/:id',
+            'POST /api/plugins/:id/enable',
+            'POST /api/plugins/:id/disable',
+            'POST /api/plugins/:id/update',
+            'POST /api/plugins/:id/rollback'
+          ],
+          pluginStorage: [
+            'GET /api/plugins/:id/storage',
+            'DELETE /api/plugins/:id/storage',
+            'GET /api/plugins/:id/storage/export',
+            'POST /api/plugins/:id/storage/import',
+            'GET /api/plugins/:id/storage/:key',
+            'PUT /api/plugins/:id/storage/:key',
+            'DELETE /api/plugins/:id/storage/:key'
           ],
           settings: [
             'GET /api/settings',
+            'GET /api/settings/schema',
+            'GET /api/settings/:key',
+            'GET /api/settings/:key/explain',
             'PUT /api/settings/:key',
-            'DELETE /api/settings/:key'
+            'DELETE /api/settings/:key',
+            'PUT /api/settings/:key/lock',
+            'DELETE /api/settings/:key/lock',
+            'GET /api/settings/:key/history',
+            'POST /api/settings/:key/restore',
+            'POST /api/settings/restore',
+            'GET /api/settings/export',
+            'POST /api/settings/import'
           ],
           admin: [
             'GET /api/admin/health',
             'GET /api/admin/report',
-            'GET /api/admin/users'
+            'GET /api/admin/users',
+            'PUT /api/admin/users/:userId/roles',
+            'GET /api/admin/errors',
+            'GET /api/admin/errors/:fingerprint',
+            'PUT /api/admin/errors/:fingerprint/status'
           ],
           logs: [
             'GET /api/logs',
-            'POST /api/logs'
+            'POST /api/logs',
+            'GET /api/logs/stream'
           ]
         }
       });
@@ -79,6 +207,9 @@ export class SimpleAPIRouter {
 
     // Plugin routes
     this.setupPluginRoutes();
+
+    // Plugin storage routes
+    this.setupPluginStorageRoutes();
     
     // Dashboard routes
     this.setupDashboardRoutes();
@@ -94,6 +225,9 @@ export class SimpleAPIRouter {
   }
 
   private setupPluginRoutes(): void {
+    const authenticate = this.authMiddleware.authenticateToken;
+    const canManagePlugins = this.authMiddleware.requirePermission(PERMISSIONS.PLUGINS_MANAGE);
+
     // Get all plugins
     this.router.get('/plugins', async (req: Request, res: Response) => {
       try {
@@ -110,8 +244,19 @@ export class SimpleAPIRouter {
       }
     });
 
+    // List installed plugins with a newer version available
+    this.router.get('/plugins/updates', authenticate, canManagePlugins, async (req: Request, res: Response) => {
+      try {
+        const updates = await this.pluginManager.checkForUpdates();
+        return res.json({ updates });
+      } catch (error) {
+        console.error('Check plugin updates error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
     // Install plugin
-    this.router.post('/plugins/install', async (req: Request, res: Response) => {
+    this.router.post('/plugins/install', authenticate, canManagePlugins, async (req: Request, res: Response) => {
       try {
         const { pluginId, version } = req.body;
         
@@ -119,261 +264,16 @@ export class SimpleAPIRouter {
           return res.status(400).json({ error: 'Plugin ID is required' });
         }
 
-        // Use the actual PluginManager to install the plugin
-        let pluginPackage;
-        
-        if (pluginId === 'demo-hello-world') {
-          // Use actual Hello World plugin data
-          pluginPackage = {
-            id: pluginId,
-            version: version || '1.0.0',
-            code: `// Hello World plugin code
-module.exports = {
-  activate: function(api) {
-    console.log('Hello World plugin activated');
-    return {
-      name: 'Hello World Demo',
-      version: '1.0.0'
-    };
-  }
-};`,
-            manifest: {
-              id: pluginId,
-              name: 'Hello World Demo',
-              version: version || '1.0.0',
-              description: 'A simple demo plugin to validate the plugin system',
-              author: 'NeutralApp Team',
-              main: 'demo-hello-world.js',
-              dependencies: [],
-              permissions: [
-                {
-                  name: 'settings:read',
-                  description: 'Read application settings',
-                  required: false
-                },
-                {
-                  name: 'settings:write',
-                  description: 'Write application settings',
-                  required: false
-                },
-                {
-                  name: 'ui:widget:create',
-                  description: 'Create UI widgets',
-                  required: true
-                },
-                {
-                  name: 'ui:widget:update',
-                  description: 'Update UI widgets',
-                  required: false
-                }
-              ],
-              api: []
-            },
-            signature: 'demo-hello-world-signature'
-          };
-        } else if (pluginId === 'test-plugin') {
-          // Use test plugin data
-          pluginPackage = {
-            id: pluginId,
-            version: version || '1.0.0',
-            code: `// Test plugin code
-module.exports = {
-  activate: function(api) {
-    console.log('Test plugin activated');
-    return {
-      name: 'Test Plugin',
-      version: '1.0.0'
-    };
-  }
-};`,
-            manifest: {
-              id: pluginId,
-              name: 'Test Plugin',
-              version: version || '1.0.0',
-              description: 'A test plugin for development',
-              author: 'Test Author',
-              main: 'index.js',
-              dependencies: [],
-              permissions: [],
-              api: []
-            },
-            signature: 'test-plugin-signature'
-          };
-        } else if (pluginId === 'weather-widget') {
-          pluginPackage = {
-            id: pluginId,
-            version: version || '2.1.0',
-            code: `// Weather Widget plugin code`,
-            manifest: {
-              id: pluginId,
-              name: 'Weather Widget',
-              version: version || '2.1.0',
-              description: 'Display current weather information in your dashboard.',
-              author: 'Weather Corp',
-              main: 'index.js',
-              dependencies: [],
-              permissions: [
-                {
-                  name: 'network:http',
-                  description: 'Access weather APIs',
-                  required: true
-                }
-              ],
-              api: []
-            },
-            signature: 'weather-widget-signature'
-          };
-        } else if (pluginId === 'task-manager') {
-          pluginPackage = {
-            id: pluginId,
-            version: version || '1.5.2',
-            code: `// Task Manager plugin code`,
-            manifest: {
-              id: pluginId,
-              name: 'Task Manager',
-              version: version || '1.5.2',
-              description: 'Organize and track your tasks with a beautiful interface.',
-              author: 'Productivity Inc',
-              main: 'index.js',
-              dependencies: [],
-              permissions: [
-                {
-                  name: 'storage:local',
-                  description: 'Store task data locally',
-                  required: true
-                }
-              ],
-              api: []
-            },
-            signature: 'task-manager-signature'
-          };
-        } else if (pluginId === 'reading-core') {
-          const fs = require('fs');
-          const path = require('path');
-          
-          // Read the actual plugin code
-          const pluginPath = path.join(process.cwd(), 'src/plugins/reading-core/reading-core.js');
-          let pluginCode = `// Reading Core plugin code - fallback implementation
-            console.log('Reading Core Plugin loaded (fallback)');`;
-          
-          try {
-            if (fs.existsSync(pluginPath)) {
-              pluginCode = fs.readFileSync(pluginPath, 'utf8');
-            }
-          } catch (error) {
-            console.warn('Could not load reading-core plugin file:', error);
-          }
-          
-          pluginPackage = {
-            id: pluginId,
-            version: version || '1.0.0',
-            code: pluginCode,
-            manifest: {
-              id: pluginId,
-              name: 'Reading Core',
-              version: version || '1.0.0',
-              description: 'Provides comprehensive book library management with metadata handling, categories, search functionality, and cross-plugin communication APIs',
-              author: 'NeutralApp Team',
-              main: 'reading-core.js',
-              dependencies: [],
-              permissions: [
-                {
-                  name: 'storage:local',
-                  description: 'Store book library data',
-                  required: true
-                },
-                {
-                  name: 'storage:persistent',
-                  description: 'Persist library data across sessions',
-                  required: true
-                },
-                {
-                  name: 'ui:widget:create',
-                  description: 'Create library management widgets',
-                  required: true
-                },
-                {
-                  name: 'events:publish',
-                  description: 'Publish reading events to other plugins',
-                  required: true
-                },
-                {
-                  name: 'events:subscribe', 
-                  description: 'Subscribe to events from other plugins',
-                  required: true
-                }
-              ],
-              api: []
-            },
-            signature: 'reading-core-signature'
-          };
-        } else if (pluginId === 'reading-ui') {
-          pluginPackage = {
-            id: pluginId,
-            version: version || '1.0.0',
-            code: `// Reading UI plugin code`,
-            manifest: {
-              id: pluginId,
-              name: 'Reading UI',
-              version: version || '1.0.0',
-              description: 'User interface components for reading and book management',
-              author: 'NeutralApp Team',
-              main: 'index.js',
-              dependencies: [{ id: 'reading-core', version: '1.0.0', required: true }],
-              permissions: [
-                {
-                  name: 'ui:widget:create',
-                  description: 'Create reading UI widgets',
-                  required: true
-                }
-              ],
-              api: []
-            },
-            signature: 'reading-ui-signature'
-          };
-        } else if (pluginId === 'reading-persistence') {
-          pluginPackage = {
-            id: pluginId,
-            version: version || '1.0.0',
-            code: `// Reading Persistence plugin code`,
-            manifest: {
-              id: pluginId,
-              name: 'Reading Persistence',
-              version: version || '1.0.0',
-              description: 'Data persistence layer for reading progress and book storage',
-              author: 'NeutralApp Team',
-              main: 'index.js',
-              dependencies: [{ id: 'reading-core', version: '1.0.0', required: true }],
-              permissions: [
-                {
-                  name: 'storage:persistent',
-                  description: 'Store reading progress persistently',
-                  required: true
-                }
-              ],
-              api: []
-            },
-            signature: 'reading-persistence-signature'
-          };
-        } else {
-          // Fallback for other plugins
-          pluginPackage = {
-            id: pluginId,
-            version: version || 'latest',
-            code: `// Mock plugin code for ${pluginId}`,
-            manifest: {
-              id: pluginId,
-              name: pluginId,
-              version: version || 'latest',
-              description: `Test plugin for ${pluginId}`,
-              author: 'Test Author',
-              main: 'index.js',
-              dependencies: [],
-              permissions: [],
-              api: []
-            },
-            signature: 'mock-signature'
-          };
+        // Packages come from the plugin's manifest and code in the plugins directory
+        if (!validatePlugin(pluginId)) {
+          return res.status(404).json({ error: 'Plugin not found' });
+        }
+
+        const pluginPackage = await this.pluginManager.downloadAndVerifyPlugin(pluginId);
+        if (version && version !== 'latest' && version !== pluginPackage.version) {
+          return res.status(400).json({
+            error: `Version ${version} of plugin ${pluginId} is not available (available: ${pluginPackage.version})`
+          });
         }
 
         const result = await this.pluginManager.installPlugin(pluginPackage);
@@ -384,8 +284,9 @@ module.exports = {
             message: 'Plugin installed successfully',
             plugin: {
               id: result.pluginId,
-              version: version || 'latest'
-            }
+              version: pluginPackage.version
+            },
+            dependenciesInstalled: result.dependenciesInstalled || []
           });
         } else {
           return res.status(400).json({
@@ -393,16 +294,21 @@ module.exports = {
           });
         }
       } catch (error) {
+        if (error instanceof PluginSignatureError) {
+          return res.status(400).json({ error: error.message });
+        }
         console.error('Plugin install error:', error);
         return res.status(500).json({ error: 'Internal server error' });
       }
     });
 
     // Uninstall plugin (POST route to match frontend)
-    this.router.post('/plugins/:pluginId/uninstall', async (req: Request, res: Response) => {
+    this.router.post('/plugins/:pluginId/uninstall', authenticate, canManagePlugins, async (req: Request, res: Response) => {
       try {
         const { pluginId } = req.params;
         const { cleanupData } = req.body;
+        // Uninstall dependents too when cascade is requested (body or ?cascade=true)
+        const cascade = req.body.cascade === true || req.query.cascade === 'true';
         
         if (!pluginId) {
           return res.status(400).json({ error: 'Plugin ID is required' });
@@ -417,7 +323,7 @@ module.exports = {
         }
 
         // Use the actual PluginManager to uninstall the plugin
-        await this.pluginManager.uninstallPlugin(pluginId, cleanupData !== false);
+        await this.pluginManager.uninstallPlugin(pluginId, cleanupData !== false, cascade);
 
         return res.json({
           success: true,
@@ -427,16 +333,21 @@ module.exports = {
           }
         });
       } catch (error) {
+        if (error instanceof DependentPluginsError) {
+          return res.status(409).json({ error: error.message, dependents: error.dependents });
+        }
         console.error('Plugin uninstall error:', error);
         return res.status(500).json({ error: 'Internal server error' });
       }
     });
 
     // Uninstall plugin (DELETE route for REST compliance)
-    this.router.delete('/plugins/:pluginId', async (req: Request, res: Response) => {
+    this.router.delete('/plugins/:pluginId', authenticate, canManagePlugins, async (req: Request, res: Response) => {
       try {
         const { pluginId } = req.params;
         const { cleanupData } = req.body;
+        // Uninstall dependents too when cascade is requested (body or ?cascade=true)
+        const cascade = req.body.cascade === true || req.query.cascade === 'true';
         
         if (!pluginId) {
           return res.status(400).json({ error: 'Plugin ID is required' });
@@ -451,7 +362,7 @@ module.exports = {
         }
 
         // Use the actual PluginManager to uninstall the plugin
-        await this.pluginManager.uninstallPlugin(pluginId, cleanupData !== false);
+        await this.pluginManager.uninstallPlugin(pluginId, cleanupData !== false, cascade);
 
         return res.json({
           success: true,
@@ -461,13 +372,16 @@ module.exports = {
           }
         });
       } catch (error) {
+        if (error instanceof DependentPluginsError) {
+          return res.status(409).json({ error: error.message, dependents: error.dependents });
+        }
         console.error('Plugin uninstall error:', error);
         return res.status(500).json({ error: 'Internal server error' });
       }
     });
 
     // Enable/disable plugin
-    this.router.put('/plugins/:pluginId', async (req: Request, res: Response) => {
+    this.router.put('/plugins/:pluginId', authenticate, canManagePlugins, async (req: Request, res: Response) => {
       try {
         const { pluginId } = req.params;
         const { enabled } = req.body;
@@ -510,7 +424,7 @@ module.exports = {
     });
 
     // Enable plugin
-    this.router.post('/plugins/:pluginId/enable', async (req: Request, res: Response) => {
+    this.router.post('/plugins/:pluginId/enable', authenticate, canManagePlugins, async (req: Request, res: Response) => {
       try {
         const { pluginId } = req.params;
         
@@ -543,7 +457,7 @@ module.exports = {
     });
 
     // Disable plugin
-    this.router.post('/plugins/:pluginId/disable', async (req: Request, res: Response) => {
+    this.router.post('/plugins/:pluginId/disable', authenticate, canManagePlugins, async (req: Request, res: Response) => {
       try {
         const { pluginId } = req.params;
         
@@ -576,7 +490,7 @@ module.exports = {
     });
 
     // Update plugin
-    this.router.post('/plugins/:pluginId/update', async (req: Request, res: Response) => {
+    this.router.post('/plugins/:pluginId/update', authenticate, canManagePlugins, async (req: Request, res: Response) => {
       try {
         const { pluginId } = req.params;
         
@@ -592,40 +506,255 @@ module.exports = {
           return res.status(404).json({ error: 'Plugin not found' });
         }
 
-        // For now, simulate plugin update by reinstalling
-        // In a real implementation, this would update the plugin to the latest version
-        try {
-          // First uninstall the old version
-          await this.pluginManager.uninstallPlugin(pluginId, false);
-          
-          // Then reinstall with latest version
-          const pluginPackage = await this.pluginManager.downloadAndVerifyPlugin(pluginId);
-          const result = await this.pluginManager.installPlugin(pluginPackage);
-          
-          if (result.success) {
-            return res.json({
-              success: true,
-              message: 'Plugin updated successfully',
-              plugin: {
-                id: pluginId
-              }
-            });
-          } else {
-            return res.status(400).json({
-              error: result.error || 'Plugin update failed'
-            });
-          }
-        } catch (updateError) {
-          console.error(`Plugin update failed for ${pluginId}:`, updateError);
-          return res.status(500).json({ 
-            error: 'Plugin update failed - please try again' 
+        // Failed migrations or activation roll back to the installed version
+        const result = await this.pluginManager.updatePlugin(pluginId);
+
+        if (!result.success) {
+          return res.status(400).json({
+            error: result.error || 'Plugin update failed',
+            rolledBack: result.rolledBack || false
           });
         }
+
+        return res.json({
+          success: true,
+          message: result.updated ? 'Plugin updated successfully' : 'Plugin is already up to date',
+          plugin: {
+            id: pluginId,
+            fromVersion: result.fromVersion,
+            toVersion: result.toVersion
+          },
+          updated: result.updated,
+          migrationsRun: result.migrationsRun || [],
+          dependenciesInstalled: result.dependenciesInstalled || []
+        });
       } catch (error) {
+        if (error instanceof PluginSignatureError) {
+          return res.status(400).json({ error: error.message });
+        }
         console.error('Plugin update error:', error);
         return res.status(500).json({ error: 'Internal server error' });
       }
     });
+
+    // Roll an upgraded plugin back to its previous version
+    this.router.post('/plugins/:pluginId/rollback', authenticate, canManagePlugins, async (req: Request, res: Response) => {
+      try {
+        const { pluginId } = req.params;
+        
+        if (!pluginId) {
+          return res.status(400).json({ error: 'Plugin ID is required' });
+        }
+
+        const installedPlugins = await this.pluginManager.getInstalledPlugins();
+        if (!installedPlugins.some(plugin => plugin.id === pluginId)) {
+          return res.status(404).json({ error: 'Plugin not found' });
+        }
+
+        const result = await this.pluginManager.rollbackPlugin(pluginId);
+        if (!result.success) {
+          return res.status(409).json({ error: result.error || 'Plugin rollback failed' });
+        }
+
+        return res.json({
+          success: true,
+          message: 'Plugin rolled back successfully',
+          plugin: {
+            id: pluginId,
+            fromVersion: result.fromVersion,
+            toVersion: result.toVersion
+          }
+        });
+      } catch (error) {
+        console.error('Plugin rollback error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+  }
+
+  private setupPluginStorageRoutes(): void {
+    const authenticate = this.authMiddleware.authenticateToken;
+    const requireAdmin = this.authMiddleware.requireAdmin;
+
+    // List the signed-in user's storage keys for a plugin with the plugin's usage and quota
+    this.router.get('/plugins/:pluginId/storage', authenticate, async (req: Request, res: Response) => {
+      try {
+        const pluginId = await this.findInstalledPluginId(req.params.pluginId);
+        if (!pluginId) {
+          return res.status(404).json({ error: 'Plugin not found' });
+        }
+
+        const prefix = this.getUserStorageKey(req, '');
+        const keys = (await this.storageManager.getPluginStorage(pluginId).keys())
+          .filter(key => key.startsWith(prefix))
+          .map(key => key.substring(prefix.length));
+        return res.json({ pluginId, keys, usage: this.getStorageUsage(pluginId) });
+      } catch (error) {
+        console.error('Get plugin storage error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Wipe all of a plugin's stored data
+    this.router.delete('/plugins/:pluginId/storage', authenticate, requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const pluginId = await this.findInstalledPluginId(req.params.pluginId);
+        if (!pluginId) {
+          return res.status(404).json({ error: 'Plugin not found' });
+        }
+
+        await this.storageManager.clearPluginStorage(pluginId);
+        return res.json({ success: true, message: 'Plugin storage cleared successfully' });
+      } catch (error) {
+        console.error('Clear plugin storage error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Export all of a plugin's stored data (registered before /:key so it isn't read as a key)
+    this.router.get('/plugins/:pluginId/storage/export', authenticate, requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const pluginId = await this.findInstalledPluginId(req.params.pluginId);
+        if (!pluginId) {
+          return res.status(404).json({ error: 'Plugin not found' });
+        }
+
+        const data = await this.storageManager.exportPluginData(pluginId);
+        return res.json({ pluginId, data, exportedAt: new Date().toISOString() });
+      } catch (error) {
+        console.error('Export plugin storage error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Import previously exported data, merged into the stored data unless `replace` is set
+    this.router.post('/plugins/:pluginId/storage/import', authenticate, requireAdmin, async (req: Request, res: Response) => {
+      try {
+        const pluginId = await this.findInstalledPluginId(req.params.pluginId);
+        if (!pluginId) {
+          return res.status(404).json({ error: 'Plugin not found' });
+        }
+
+        const { data, replace } = req.body;
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+          return res.status(400).json({ error: 'Data must be an object of storage keys and values' });
+        }
+
+        await this.storageManager.importPluginData(pluginId, data, { replace: replace === true });
+        return res.json({
+          success: true,
+          message: 'Plugin storage imported successfully',
+          imported: Object.keys(data).length,
+          usage: this.getStorageUsage(pluginId)
+        });
+      } catch (error) {
+        if (error instanceof StorageQuotaExceededError) {
+          return res.status(413).json({ error: error.message });
+        }
+        console.error('Import plugin storage error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Get one of the signed-in user's stored values
+    this.router.get('/plugins/:pluginId/storage/:key', authenticate, async (req: Request, res: Response) => {
+      try {
+        const pluginId = await this.findInstalledPluginId(req.params.pluginId);
+        if (!pluginId) {
+          return res.status(404).json({ error: 'Plugin not found' });
+        }
+
+        const { key } = req.params;
+        const storage = this.storageManager.getPluginStorage(pluginId);
+        if (!key || !(await storage.keys()).includes(this.getUserStorageKey(req, key))) {
+          return res.status(404).json({ error: 'Storage key not found' });
+        }
+
+        return res.json({ key, value: await storage.get(this.getUserStorageKey(req, key)) });
+      } catch (error) {
+        console.error('Get plugin storage value error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Store a value for the signed-in user
+    this.router.put('/plugins/:pluginId/storage/:key', authenticate, async (req: Request, res: Response) => {
+      try {
+        const pluginId = await this.findInstalledPluginId(req.params.pluginId);
+        if (!pluginId) {
+          return res.status(404).json({ error: 'Plugin not found' });
+        }
+
+        const { key } = req.params;
+        const { value } = req.body;
+        if (!key || value === undefined) {
+          return res.status(400).json({ error: 'Key and value are required' });
+        }
+
+        const userPrefix = this.getUserStorageKey(req, '');
+        await this.storageManager.transaction(pluginId, async transaction => {
+          const previouslyUsed = await transaction.usage(userPrefix);
+          await transaction.set(this.getUserStorageKey(req, key), value);
+          // Writes that shrink the user's values are allowed even over the quota
+          const used = await transaction.usage(userPrefix);
+          if (used > USER_PLUGIN_STORAGE_QUOTA && used > previouslyUsed) {
+            this.storageManager.recordQuotaViolation(pluginId);
+            throw new StorageQuotaExceededError(pluginId, used, USER_PLUGIN_STORAGE_QUOTA);
+          }
+        });
+        return res.json({ success: true, key, value, usage: this.getStorageUsage(pluginId) });
+      } catch (error) {
+        if (error instanceof StorageQuotaExceededError) {
+          return res.status(413).json({ error: error.message });
+        }
+        console.error('Set plugin storage value error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Delete one of the signed-in user's stored values
+    this.router.delete('/plugins/:pluginId/storage/:key', authenticate, async (req: Request, res: Response) => {
+      try {
+        const pluginId = await this.findInstalledPluginId(req.params.pluginId);
+        if (!pluginId) {
+          return res.status(404).json({ error: 'Plugin not found' });
+        }
+
+        const { key } = req.params;
+        const storage = this.storageManager.getPluginStorage(pluginId);
+        if (!key || !(await storage.keys()).includes(this.getUserStorageKey(req, key))) {
+          return res.status(404).json({ error: 'Storage key not found' });
+        }
+
+        await storage.delete(this.getUserStorageKey(req, key));
+        return res.json({ success: true, message: 'Storage key deleted successfully' });
+      } catch (error) {
+        console.error('Delete plugin storage value error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+  }
+
+  /**
+   * The id of an installed plugin, or undefined when no such plugin is installed
+   */
+  private async findInstalledPluginId(pluginId: string | undefined): Promise<string | undefined> {
+    if (!pluginId) {
+      return undefined;
+    }
+    const installedPlugins = await this.pluginManager.getInstalledPlugins();
+    return installedPlugins.some(plugin => plugin.id === pluginId) ? pluginId : undefined;
+  }
+
+  // Values stored through the API are kept per user, so one user's widget can't read or replace another's
+  private getUserStorageKey(req: Request, key: string): string {
+    return `users/${req.user!.id}/${key}`;
+  }
+
+  // Unlimited quotas are reported as null, which JSON can represent
+  private getStorageUsage(pluginId: string): { used: number; quota: number | null; percentage: number } {
+    const usage = this.storageManager.getStorageUsage(pluginId);
+    return { ...usage, quota: Number.isFinite(usage.quota) ? usage.quota : null };
   }
 
   private setupDashboardRoutes(): void {
@@ -644,57 +773,88 @@ module.exports = {
   }
 
   private setupSettingsRoutes(): void {
-    // Get user settings
-    this.router.get('/settings', async (req: Request, res: Response) => {
+    const authenticate = this.authMiddleware.authenticateToken;
+
+    // Get the signed-in user's settings, core defaults included
+    this.router.get('/settings', authenticate, async (req: Request, res: Response) => {
       try {
-        const userId = req.query.userId as string;
-        
-        // For development/testing, provide mock response
-        if (process.env.NODE_ENV === 'test' || process.env.NODE_ENV === 'development') {
-          return res.json({ 
-            settings: {
-              theme: 'light',
-              language: 'en',
-              notifications: true
-            },
-            userId: userId || 'mock-user-id'
-          });
-        }
+        const userId = req.user!.id;
+        const settings = await this.settingsService.getUserSettings(userId);
 
-        // Settings retrieval implementation ready for integration
-        // In production, this would use the SettingsService
-        return res.json({ 
-          settings: {},
-          message: 'Settings retrieval endpoint ready - will integrate with SettingsService',
-          userId: userId || 'no-user-id-provided'
-        });
+        return res.json({ settings, userId });
       } catch (error) {
         console.error('Get settings error:', error);
         return res.status(500).json({ error: 'Internal server error' });
       }
     });
 
+    // Core and plugin setting definitions, so settings forms can be rendered from them
+    this.router.get('/settings/schema', authenticate, (req: Request, res: Response) => {
+      try {
+        return res.json({ schema: this.settingsService.getSettingsSchema() });
+      } catch (error) {
+        console.error('Get settings schema error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // The signed-in user's overrides as a bundle, or with `all=true` every stored setting
+    this.router.get('/settings/export', authenticate, this.requireAdminForOtherScopes, async (req: Request, res: Response) => {
+      try {
+        const pluginId = typeof req.query.pluginId === 'string' ? req.query.pluginId : undefined;
+        const scope = req.query.all === 'true' ? (pluginId ? { pluginId } : {}) : this.getSettingScope(req, req.query);
+
+        return res.json(await this.settingsService.exportSettings(scope));
+      } catch (error) {
+        console.error('Export settings error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Apply a bundle from /settings/export, or with `dryRun` preview the changes it would make
+    this.router.post('/settings/import', authenticate, this.requireAdminForOtherScopes, async (req: Request, res: Response) => {
+      try {
+        const { bundle, mode = 'merge', dryRun = false } = req.body || {};
+        if (!bundle) {
+          return res.status(400).json({ error: 'A settings bundle is required' });
+        }
+        if (mode !== 'merge' && mode !== 'replace') {
+          return res.status(400).json({ error: 'Import mode must be merge or replace' });
+        }
+
+        const scope = req.body.all === true
+          ? (typeof req.body.pluginId === 'string' ? { pluginId: req.body.pluginId } : {})
+          : this.getSettingScope(req, req.body);
+        const result = await this.settingsService.importSettings(
+          bundle,
+          { mode, dryRun: dryRun === true, scope },
+          this.getSettingChangeContext(req)
+        );
+        if (result.errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid settings bundle', ...result });
+        }
+
+        return res.json({ success: true, ...result });
+      } catch (error) {
+        console.error('Import settings error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
     // Get specific setting by key
-    this.router.get('/settings/:key', async (req: Request, res: Response) => {
+    this.router.get('/settings/:key', authenticate, async (req: Request, res: Response) => {
       try {
         const { key } = req.params;
-        const userId = req.query.userId as string;
-        
-        // For development/testing, provide mock response
-        if (process.env.NODE_ENV === 'test' || process.env.NODE_ENV === 'development') {
-          if (key === 'theme') {
-            return res.json({ 
-              key: 'theme',
-              value: 'light'
-            });
-          } else {
-            return res.status(404).json({ error: 'Setting not found' });
-          }
+        if (!key) {
+          return res.status(400).json({ error: 'Setting key is required' });
         }
 
-        // Setting retrieval implementation ready for integration
-        // In production, this would use the SettingsService
-        return res.status(404).json({ error: 'Setting not found' });
+        const value = await this.settingsService.getSetting(key, req.user!.id);
+        if (value === null) {
+          return res.status(404).json({ error: 'Setting not found' });
+        }
+
+        return res.json({ key, value });
       } catch (error) {
         console.error('Get setting error:', error);
         return res.status(500).json({ error: 'Internal server error' });
@@ -702,104 +862,235 @@ module.exports = {
     });
 
     // Update setting
-    this.router.put('/settings/:key', async (req: Request, res: Response) => {
+    this.router.put('/settings/:key', authenticate, async (req: Request, res: Response) => {
       try {
         const { key } = req.params;
-        const { value, userId } = req.body;
-        const userIdTyped = userId as string | undefined;
+        const { value } = req.body;
+        const userId = req.user!.id;
         
-        if (value === undefined) {
+        if (!key || value === undefined) {
           return res.status(400).json({ error: 'Value is required' });
         }
 
-        // For test environment, validate theme value
-        if (process.env.NODE_ENV === 'test' && key === 'theme' && value === null) {
-          return res.status(400).json({ error: 'Invalid theme value' });
+        await this.settingsService.setSetting(key, value, userId, this.getSettingChangeContext(req));
+        
+        return res.json({
+          success: true,
+          message: 'Setting updated successfully',
+          setting: {
+            key,
+            value: await this.settingsService.getSetting(key, userId),
+            userId
+          }
+        });
+      } catch (error) {
+        if (error instanceof SettingValidationError) {
+          return res.status(400).json({ error: error.message, errors: error.errors });
+        }
+        if (error instanceof SettingLockedError) {
+          return res.status(403).json({ error: error.message, key: error.key });
         }
+        console.error('Update setting error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
 
-        // For development/testing, provide mock response
-        if (process.env.NODE_ENV === 'test' || process.env.NODE_ENV === 'development') {
-          return res.json({
-            message: 'Setting updated successfully',
-            setting: {
-              key,
-              value,
-              userId: userId || 'mock-user-id'
-            }
-          });
+    // Delete the user's value for a setting
+    this.router.delete('/settings/:key', authenticate, async (req: Request, res: Response) => {
+      try {
+        const { key } = req.params;
+        const userId = req.user!.id;
+
+        if (!key || !(await this.settingsService.deleteSetting(key, userId, this.getSettingChangeContext(req)))) {
+          return res.status(404).json({ error: 'Setting not found' });
         }
 
-        await (this.settingsService as any).setSetting(key, value, userIdTyped);
-        
         return res.json({
           success: true,
-          message: 'Setting updated successfully',
+          message: 'Setting deleted successfully',
           setting: {
             key,
-            value,
-            userId: userId || null
+            userId
           }
         });
       } catch (error) {
-        console.error('Update setting error:', error);
+        if (error instanceof SettingValidationError) {
+          return res.status(400).json({ error: error.message, errors: error.errors });
+        }
+        console.error('Delete setting error:', error);
         return res.status(500).json({ error: 'Internal server error' });
       }
     });
 
-    // Delete setting
-    this.router.delete('/settings/:key', async (req: Request, res: Response) => {
+    // Show every layer of a setting and which one won
+    this.router.get('/settings/:key/explain', authenticate, this.requireAdminForOtherScopes, async (req: Request, res: Response) => {
       try {
         const { key } = req.params;
-        const userId = req.query.userId as string | undefined;
-        
-        // For development/testing, provide mock response
-        if (process.env.NODE_ENV === 'test' || process.env.NODE_ENV === 'development') {
-          return res.json({
-            message: 'Setting deleted successfully'
-          });
+        if (!key) {
+          return res.status(400).json({ error: 'Setting key is required' });
         }
 
-        // Delete the setting by resetting to default or removing
-        try {
-          // For deletion, we'll set to an empty string to indicate removal
-          await (this.settingsService as any).setSetting(key, '', userId);
-          
-          return res.json({
-            success: true,
-            message: 'Setting deleted successfully',
-            setting: {
-              key,
-              userId: userId || null
-            }
-          });
-        } catch (deleteError) {
-          return res.status(500).json({
-            success: false,
-            error: 'Failed to delete setting',
-            key
-          });
+        return res.json(await this.settingsService.explainSetting(key, this.getSettingScope(req, req.query)));
+      } catch (error) {
+        console.error('Explain setting error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Lock the admin value of a setting, optionally setting it first
+    this.router.put('/settings/:key/lock', authenticate, this.canManageSettings, async (req: Request, res: Response) => {
+      try {
+        const { key } = req.params;
+        const { value, pluginId } = req.body || {};
+        if (!key) {
+          return res.status(400).json({ error: 'Setting key is required' });
         }
+
+        await this.settingsService.lockSetting(key, {
+          value,
+          ...(typeof pluginId === 'string' ? { pluginId } : {}),
+          ...this.getSettingChangeContext(req)
+        });
+
+        return res.json({
+          success: true,
+          message: 'Setting locked successfully',
+          setting: await this.settingsService.explainSetting(key, typeof pluginId === 'string' ? { pluginId } : {})
+        });
       } catch (error) {
-        console.error('Delete setting error:', error);
+        if (error instanceof SettingValidationError) {
+          return res.status(400).json({ error: error.message, errors: error.errors });
+        }
+        console.error('Lock setting error:', error);
         return res.status(500).json({ error: 'Internal server error' });
       }
     });
+
+    this.router.delete('/settings/:key/lock', authenticate, this.canManageSettings, async (req: Request, res: Response) => {
+      try {
+        const { key } = req.params;
+        const pluginId = typeof req.query.pluginId === 'string' ? req.query.pluginId : undefined;
+
+        if (!key || !(await this.settingsService.unlockSetting(key, pluginId, this.getSettingChangeContext(req)))) {
+          return res.status(404).json({ error: 'Setting is not locked' });
+        }
+
+        return res.json({ success: true, message: 'Setting unlocked successfully' });
+      } catch (error) {
+        console.error('Unlock setting error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Changes behind the value the user gets, newest first
+    this.router.get('/settings/:key/history', authenticate, this.requireAdminForOtherScopes, async (req: Request, res: Response) => {
+      try {
+        const { key } = req.params;
+        const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : undefined;
+        if (!key) {
+          return res.status(400).json({ error: 'Setting key is required' });
+        }
+        if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+          return res.status(400).json({ error: 'limit must be a positive number' });
+        }
+
+        const scope = this.getSettingScope(req, req.query);
+        return res.json({ key, ...scope, history: await this.settingsService.getSettingHistory(key, scope, limit) });
+      } catch (error) {
+        console.error('Get setting history error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Put a setting back the way it was at a point in time
+    this.router.post('/settings/:key/restore', authenticate, this.requireAdminForOtherScopes, async (req: Request, res: Response) => {
+      try {
+        const { key } = req.params;
+        const timestamp = new Date(req.body?.timestamp);
+        if (!key || isNaN(timestamp.getTime())) {
+          return res.status(400).json({ error: 'A valid timestamp is required' });
+        }
+
+        const scope = { ...this.getSettingScope(req, req.body), admin: req.body.admin === true };
+        const restored = await this.settingsService.restoreSetting(key, timestamp, scope, this.getSettingChangeContext(req));
+
+        return res.json({
+          success: true,
+          restored,
+          setting: await this.settingsService.explainSetting(key, this.getSettingScope(req, req.body))
+        });
+      } catch (error) {
+        console.error('Restore setting error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Put every setting in a scope back the way it was at a point in time
+    this.router.post('/settings/restore', authenticate, this.requireAdminForOtherScopes, async (req: Request, res: Response) => {
+      try {
+        const timestamp = new Date(req.body?.timestamp);
+        if (isNaN(timestamp.getTime())) {
+          return res.status(400).json({ error: 'A valid timestamp is required' });
+        }
+
+        const scope = { ...this.getSettingScope(req, req.body), admin: req.body.admin === true };
+        const restored = await this.settingsService.restoreScope(timestamp, scope, this.getSettingChangeContext(req));
+
+        return res.json({ success: true, restored });
+      } catch (error) {
+        console.error('Restore settings error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+  }
+
+  // The settings page sends `X-Settings-Source: ui`, anything else is an API client
+  private getSettingChangeContext(req: Request): SettingChangeContext {
+    return { changedBy: req.user!.id, source: req.get('X-Settings-Source') === 'ui' ? 'ui' : 'api' };
+  }
+
+  // The signed-in user unless another userId is given, and optionally one plugin
+  private getSettingScope(req: Request, params: Record<string, any> = {}): SettingScope {
+    return {
+      userId: typeof params.userId === 'string' ? params.userId : req.user!.id,
+      ...(typeof params.pluginId === 'string' ? { pluginId: params.pluginId } : {})
+    };
   }
 
+  private canManageSettings = (req: Request, res: Response, next: NextFunction): void =>
+    this.authMiddleware.requirePermission(PERMISSIONS.SETTINGS_MANAGE)(req, res, next);
+
+  // Another user's settings, the admin values, and everyone's settings at once need settings:manage
+  private requireAdminForOtherScopes = (req: Request, res: Response, next: NextFunction): void => {
+    const userId = req.query.userId ?? req.body?.userId;
+    const otherUser = typeof userId === 'string' && userId !== req.user!.id;
+    const everyone = req.query.all === 'true' || req.body?.all === true;
+    return otherUser || everyone || req.body?.admin === true ? this.canManageSettings(req, res, next) : next();
+  };
+
   private setupAdminRoutes(): void {
+    const authenticate = this.authMiddleware.authenticateToken;
+    const requireAdmin = this.authMiddleware.requireAdmin;
+    const canManageUsers = this.authMiddleware.requirePermission(PERMISSIONS.USERS_MANAGE);
+    const canReadLogs = this.authMiddleware.requirePermission(PERMISSIONS.LOGS_READ);
+    const canWriteLogs = this.authMiddleware.requirePermission(PERMISSIONS.LOGS_WRITE);
+
     // Get system health
-    this.router.get('/admin/health', async (req: Request, res: Response) => {
+    this.router.get('/admin/health', authenticate, requireAdmin, async (req: Request, res: Response) => {
       try {
-        // Admin dashboard integration ready
-        // In production, this would connect to the AdminDashboard service
+        // Sample storage and event metrics now so the scores are current
+        this.healthMonitor.performHealthCheck();
+        const summary = this.healthMonitor.getSystemHealthSummary();
+
         return res.json({ 
           health: {
-            status: 'healthy',
+            status: summary.unhealthyPlugins + summary.errorPlugins > 0 ? 'degraded' : 'healthy',
             uptime: process.uptime(),
             memory: process.memoryUsage(),
             timestamp: new Date().toISOString()
           },
-          message: 'System health endpoint ready - will integrate with AdminDashboard'
+          summary,
+          plugins: this.healthMonitor.getDetailedPluginMetrics()
         });
       } catch (error) {
         console.error('Get system health error:', error);
@@ -808,7 +1099,7 @@ module.exports = {
     });
 
     // Get system report
-    this.router.get('/admin/report', async (req: Request, res: Response) => {
+    this.router.get('/admin/report', authenticate, requireAdmin, async (req: Request, res: Response) => {
       try {
         // Admin dashboard integration ready
         // In production, this would connect to the AdminDashboard service
@@ -826,75 +1117,303 @@ module.exports = {
     });
 
     // Get user statistics
-    this.router.get('/admin/users', async (req: Request, res: Response) => {
+    // Accounts from the user store, with counts by status
+    this.router.get('/admin/users', authenticate, requireAdmin, canManageUsers, async (req: Request, res: Response) => {
       try {
-        // Admin dashboard integration ready
-        // In production, this would connect to the AdminDashboard service
+        const users = await this.userManager.getUserProfiles();
+
         return res.json({ 
+          users,
           userStats: {
-            totalUsers: 0,
-            activeUsers: 0,
-            placeholder: true
-          },
-          message: 'User statistics endpoint ready - will integrate with AdminDashboard'
+            totalUsers: users.length,
+            activeUsers: users.filter(user => user.status === 'active').length,
+            suspendedUsers: users.filter(user => user.status === 'suspended').length
+          }
         });
       } catch (error) {
         console.error('Get user stats error:', error);
         return res.status(500).json({ error: 'Internal server error' });
       }
     });
+
+    // Replace a user's roles; they apply from the user's next sign-in
+    this.router.put('/admin/users/:userId/roles', authenticate, requireAdmin, canManageUsers, async (req: Request, res: Response) => {
+      try {
+        const { roles } = req.body;
+        if (!Array.isArray(roles) || roles.some(role => typeof role !== 'string')) {
+          return res.status(400).json({ error: 'roles must be an array of role ids' });
+        }
+
+        const user = await this.userManager.setUserRoles(req.params.userId!, roles, req.user!.id);
+        if (!user) {
+          return res.status(404).json({ error: 'User not found' });
+        }
+
+        return res.json({ success: true, user });
+      } catch (error) {
+        if (error instanceof UserValidationError) {
+          return res.status(400).json({ error: error.message, errors: error.errors });
+        }
+        console.error('Set user roles error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Logged errors grouped into issues, the most recently seen first
+    this.router.get('/admin/errors', authenticate, requireAdmin, canReadLogs, async (req: Request, res: Response) => {
+      try {
+        const { status } = req.query;
+        if (status !== undefined && !ERROR_ISSUE_STATUSES.includes(status as ErrorIssueStatus)) {
+          return res.status(400).json({ error: `status must be one of: ${ERROR_ISSUE_STATUSES.join(', ')}` });
+        }
+
+        const issues = await this.errorIssues.listIssues(status ? { status: status as ErrorIssueStatus } : {});
+        return res.json({ issues });
+      } catch (error) {
+        console.error('Get error issues error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    this.router.get('/admin/errors/:fingerprint', authenticate, requireAdmin, canReadLogs, async (req: Request, res: Response) => {
+      try {
+        const issue = await this.errorIssues.getIssue(req.params.fingerprint!);
+        if (!issue) {
+          return res.status(404).json({ error: 'Error issue not found' });
+        }
+        return res.json({ issue });
+      } catch (error) {
+        console.error('Get error issue error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Open, resolve or ignore an issue; a resolved issue that comes back is reopened as a regression
+    this.router.put('/admin/errors/:fingerprint/status', authenticate, requireAdmin, canWriteLogs, async (req: Request, res: Response) => {
+      try {
+        const { status } = req.body;
+        if (!ERROR_ISSUE_STATUSES.includes(status)) {
+          return res.status(400).json({ error: `status must be one of: ${ERROR_ISSUE_STATUSES.join(', ')}` });
+        }
+
+        const issue = await this.errorIssues.updateStatus(req.params.fingerprint!, status);
+        return res.json({ success: true, issue });
+      } catch (error) {
+        if (error instanceof ErrorIssueNotFoundError) {
+          return res.status(404).json({ error: 'Error issue not found' });
+        }
+        console.error('Update error issue error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+    });
   }
 
   private setupLoggingRoutes(): void {
-    // Get logs
-    this.router.get('/logs', async (req: Request, res: Response) => {
-      try {
-        const query = {
-          level: req.query.level as string,
-          startDate: req.query.startDate as string,
-          endDate: req.query.endDate as string,
-          pluginId: req.query.pluginId as string,
-          userId: req.query.userId as string,
-          limit: req.query.limit ? parseInt(req.query.limit as string) : 100,
-          offset: req.query.offset ? parseInt(req.query.offset as string) : 0
-        };
-        
-        // Logging service integration ready
-        // In production, this would connect to the LoggingService
-        return res.json({ 
-          logs: [],
-          query,
-          message: 'Log retrieval endpoint ready - will integrate with LoggingService'
-        });
+    const authenticate = this.authMiddleware.authenticateToken;
+
+    // Search logs, newest first, a page at a time
+    this.router.get('/logs', authenticate, this.authMiddleware.requirePermission(PERMISSIONS.LOGS_READ), async (req: Request, res: Response) => {
+      try {
+        const parsed = this.parseLogQuery(req.query);
+        if ('error' in parsed) {
+          return res.status(400).json({ error: parsed.error });
+        }
+
+        const page = await this.loggingService.queryLogs(parsed.query);
+        return res.json({ logs: page.entries, ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}) });
       } catch (error) {
+        if (error instanceof InvalidLogCursorError) {
+          return res.status(400).json({ error: error.message });
+        }
         console.error('Get logs error:', error);
         return res.status(500).json({ error: 'Internal server error' });
       }
     });
 
-    // Create log entry
-    this.router.post('/logs', async (req: Request, res: Response) => {
+    // Create log entry; it is recorded for the signed-in user
+    this.router.post('/logs', authenticate, this.authMiddleware.requirePermission(PERMISSIONS.LOGS_WRITE), async (req: Request, res: Response) => {
       try {
-        const { level, message, context, userId, pluginId, metadata } = req.body;
+        const { level, message, context, pluginId, metadata } = req.body || {};
         
         if (!level || !message || !context) {
           return res.status(400).json({ error: 'level, message, and context are required' });
         }
+        if (!LOG_LEVELS.includes(level)) {
+          return res.status(400).json({ error: `level must be one of ${LOG_LEVELS.join(', ')}` });
+        }
+        if (typeof message !== 'string') {
+          return res.status(400).json({ error: 'message must be a string' });
+        }
 
-        // Logging service integration ready
-        // In production, this would connect to the LoggingService
-        console.log('API Log Entry:', { level, message, context, userId, pluginId, metadata });
-        
-        return res.status(201).json({
-          success: true,
-          message: 'Log creation endpoint ready - will integrate with LoggingService',
-          entry: { level, message, context }
-        });
+        // context names the component, or is a LogContext
+        const logContext: LogContext = typeof context === 'string' ? { component: context } : { ...context };
+        logContext.userId = req.user!.id;
+        // The request's correlation id is the one recorded
+        delete logContext.correlationId;
+        if (typeof pluginId === 'string') {
+          logContext.pluginId = pluginId;
+        }
+        if (metadata && typeof metadata === 'object') {
+          logContext.metadata = metadata;
+        }
+
+        const entry = this.loggingService.log(level, message, logContext);
+        return res.status(201).json({ success: true, entry });
       } catch (error) {
         console.error('Create log error:', error);
         return res.status(500).json({ error: 'Internal server error' });
       }
     });
+
+    // Follow new log entries as Server-Sent Events; level is the least severe level sent
+    this.router.get('/logs/stream', authenticate, this.authMiddleware.requirePermission(PERMISSIONS.LOGS_READ), async (req: Request, res: Response) => {
+      const text = (name: string): string | undefined => typeof req.query[name] === 'string' && req.query[name] ? req.query[name] as string : undefined;
+      const filter: LogStreamFilter = {};
+      const level = text('level');
+      if (level !== undefined) {
+        if (!LOG_LEVELS.includes(level)) {
+          return res.status(400).json({ error: `level must be one of ${LOG_LEVELS.join(', ')}` });
+        }
+        filter.level = level as LogLevel;
+      }
+      for (const field of ['pluginId', 'component'] as const) {
+        filter[field] = text(field);
+      }
+
+      // EventSource sends Last-Event-ID when it reconnects; the query parameter serves clients that cannot set headers
+      const lastEventId = req.get('Last-Event-ID') || text('lastEventId');
+      let resumeFrom: LogCursor | undefined;
+      try {
+        resumeFrom = lastEventId ? decodeLogCursor(lastEventId) : undefined;
+      } catch (error) {
+        if (error instanceof InvalidLogCursorError) {
+          return res.status(400).json({ error: error.message });
+        }
+        throw error;
+      }
+
+      return this.streamLogs(req, res, filter, resumeFrom);
+    });
+  }
+
+  /**
+   * Send matching entries as they are logged until the client disconnects.
+   * A resuming client is first sent what it missed, oldest first; entries
+   * logged meanwhile are held back so none is sent twice or out of order.
+   */
+  private async streamLogs(req: Request, res: Response, filter: LogStreamFilter, resumeFrom?: LogCursor): Promise<void> {
+    const matches = (entry: LogEntry): boolean =>
+      (!filter.level || isAtLeastLevel(entry.level, filter.level))
+      && (!filter.pluginId || entry.context.pluginId === filter.pluginId)
+      && (!filter.component || entry.context.component === filter.component);
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stops nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    // Entries held back may be replayed too; once they are sent, nothing can be sent twice
+    let sent: Set<string> | null = resumeFrom ? new Set() : null;
+    const send = (entry: LogEntry): void => {
+      if (!closed && !sent?.has(entry.id)) {
+        sent?.add(entry.id);
+        res.write(`id: ${encodeLogCursor(entry)}\ndata: ${JSON.stringify(entry)}\n\n`);
+      }
+    };
+
+    const held: LogEntry[] = [];
+    let replaying = resumeFrom !== undefined;
+    const unsubscribe = this.loggingService.subscribe(entry => {
+      if (!matches(entry)) {
+        return;
+      }
+      if (replaying) {
+        held.push(entry);
+      } else {
+        send(entry);
+      }
+    });
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), LOG_STREAM_HEARTBEAT_MS);
+    const close = (): void => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      this.logStreams.delete(close);
+      res.end();
+    };
+    this.logStreams.add(close);
+    req.on('close', close);
+
+    if (!resumeFrom) {
+      return;
+    }
+    try {
+      const { entries } = await this.loggingService.queryLogs({
+        startDate: new Date(resumeFrom.time),
+        minLevel: filter.level,
+        pluginId: filter.pluginId,
+        component: filter.component,
+        limit: MAX_LOG_STREAM_REPLAY
+      });
+      entries
+        .filter(entry => matches(entry) && isNewerThanCursor(entry, resumeFrom))
+        .reverse()
+        .forEach(send);
+    } catch (error) {
+      console.error('Replay log stream error:', error);
+    }
+    replaying = false;
+    held.splice(0).forEach(send);
+    sent = null;
+  }
+
+  private parseLogQuery(params: Request['query']): { query: LogQuery } | { error: string } {
+    const text = (name: string): string | undefined => typeof params[name] === 'string' && params[name] ? params[name] as string : undefined;
+    const query: LogQuery = { limit: DEFAULT_LOG_PAGE_SIZE };
+
+    const level = text('level');
+    if (level !== undefined) {
+      if (!LOG_LEVELS.includes(level as LogLevel)) {
+        return { error: `level must be one of ${LOG_LEVELS.join(', ')}` };
+      }
+      query.level = level as LogLevel;
+    }
+
+    for (const field of ['startDate', 'endDate'] as const) {
+      const value = text(field);
+      if (value !== undefined) {
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return { error: `${field} must be a date` };
+        }
+        query[field] = date;
+      }
+    }
+
+    const limit = text('limit');
+    if (limit !== undefined) {
+      const parsedLimit = Number(limit);
+      if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_LOG_PAGE_SIZE) {
+        return { error: `limit must be a whole number between 1 and ${MAX_LOG_PAGE_SIZE}` };
+      }
+      query.limit = parsedLimit;
+    }
+
+    for (const field of ['userId', 'pluginId', 'component', 'correlationId', 'messageContains', 'cursor'] as const) {
+      const value = text(field);
+      if (value !== undefined) {
+        query[field] = value;
+      }
+    }
+    return { query };
   }
 
   /**
@@ -907,4 +1426,13 @@ module.exports = {
   public getRouter(): Router {
     return this.router;
   }
+
+  /**
+   * End open log streams and stop collecting core logs, so the server can shut down
+   */
+  public close(): void {
+    this.stopForwardingCoreLogs();
+    this.stopTrackingErrors();
+    Array.from(this.logStreams).forEach(close => close());
+  }
 } 
\ No newline at end of file
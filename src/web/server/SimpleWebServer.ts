@@ -3,7 +3,9 @@ import cors from 'cors';
 import helmet from 'helmet';
 import path from 'path';
 import { SimpleAPIRouter } from './SimpleAPIRouter';
-import { JWTAuthRoutes } from '../../features/auth';
+import { CORRELATION_ID_HEADER, correlationId } from './correlation-id';
+import { accessLog } from './access-log';
+import { JWTAuthRoutes, UserService, createInitialAdmin } from '../../features/auth';
 import { createLogger } from '../../core/logger';
 
 /**
@@ -14,11 +16,17 @@ export class SimpleWebServer {
   private app: Express;
   private server: any;
   private authRoutes: JWTAuthRoutes;
+  private apiRouter: SimpleAPIRouter;
+  private users: UserService;
   private logger = createLogger('WebServer');
 
   constructor() {
     this.app = express();
-    this.authRoutes = new JWTAuthRoutes();
+    // One set of accounts for the whole server: the development accounts are
+    // held in memory, so each separate store would have its own copy
+    this.users = new UserService();
+    this.authRoutes = new JWTAuthRoutes(undefined, this.users);
+    this.apiRouter = new SimpleAPIRouter(this.users);
     this.logger.info('Initializing JWT authentication');
     this.setupMiddleware();
     this.setupRoutes();
@@ -47,7 +55,8 @@ export class SimpleWebServer {
         : true,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', CORRELATION_ID_HEADER],
+      exposedHeaders: [CORRELATION_ID_HEADER],
       optionsSuccessStatus: 200 // Some legacy browsers choke on 204
     }));
 
@@ -64,12 +73,11 @@ export class SimpleWebServer {
       return;
     });
 
+    // After body parsing, whose callbacks would lose the request's correlation id
+    this.app.use(correlationId);
+
     // Request logging middleware
-    this.app.use((req: Request, res: Response, next: NextFunction) => {
-      const timestamp = new Date().toISOString();
-      this.logger.debug('HTTP Request', { method: req.method, path: req.path, timestamp });
-      next();
-    });
+    this.app.use(accessLog);
   }
 
   /**
@@ -145,8 +153,7 @@ export class SimpleWebServer {
     this.app.use('/api/auth', this.authRoutes.getRouter());
 
     // API routes
-    const apiRouter = new SimpleAPIRouter();
-    this.app.use('/api', apiRouter.getRouter());
+    this.app.use('/api', this.apiRouter.getRouter());
 
     // Catch-all for API routes (must come before static file serving)
     this.app.use('/api/*', (req: Request, res: Response) => {
@@ -202,9 +209,10 @@ export class SimpleWebServer {
 
 
   /**
-   * Start the web server
+   * Start the web server, after creating the configured initial administrator
    */
   async start(port: number): Promise<void> {
+    await createInitialAdmin(this.users);
     return new Promise((resolve, reject) => {
       this.server = this.app.listen(port, (error?: Error) => {
         if (error) {
@@ -224,6 +232,8 @@ export class SimpleWebServer {
    * Stop the web server gracefully
    */
   async stop(): Promise<void> {
+    // Open log streams would otherwise keep the server from closing
+    this.apiRouter.close();
     return new Promise((resolve) => {
       if (this.server) {
         this.server.close(() => {
@@ -3,7 +3,9 @@ import cors from 'cors';
 import helmet from 'helmet';
 import path from 'path';
 import { SimpleAPIRouter } from './SimpleAPIRouter';
-import { JWTAuthRoutes, JWTAuthMiddleware } from '../../features/auth';
+import { CORRELATION_ID_HEADER, correlationId } from './correlation-id';
+import { accessLog } from './access-log';
+import { JWTAuthRoutes, JWTAuthMiddleware, UserService, createInitialAdmin } from '../../features/auth';
 import { DashboardManager } from '../../features/ui-shell/services/dashboard.manager';
 
 /**
@@ -16,12 +18,16 @@ export class WebServer {
   private apiRouter: SimpleAPIRouter;
   private authRoutes: JWTAuthRoutes;
   private authMiddleware: JWTAuthMiddleware;
+  private users: UserService;
 
   constructor() {
     this.app = express();
-    this.apiRouter = new SimpleAPIRouter();
-    this.authRoutes = new JWTAuthRoutes();
-    this.authMiddleware = new JWTAuthMiddleware();
+    // One set of accounts for the whole server: the development accounts are
+    // held in memory, so each separate store would have its own copy
+    this.users = new UserService();
+    this.apiRouter = new SimpleAPIRouter(this.users);
+    this.authRoutes = new JWTAuthRoutes(undefined, this.users);
+    this.authMiddleware = new JWTAuthMiddleware(undefined, undefined, this.users);
     
     // Set the global DashboardManager instance
     const dashboardManager = this.apiRouter.getDashboardManager();
@@ -58,7 +64,8 @@ export class WebServer {
         }
         res.header('Access-Control-Allow-Credentials', 'true');
         res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-        res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+        res.header('Access-Control-Allow-Headers', `Origin, X-Requested-With, Content-Type, Accept, Authorization, ${CORRELATION_ID_HEADER}`);
+        res.header('Access-Control-Expose-Headers', CORRELATION_ID_HEADER);
         
         if (req.method === 'OPTIONS') {
           res.sendStatus(200);
@@ -70,6 +77,7 @@ export class WebServer {
       this.app.use(cors({
         origin: true,
         credentials: true,
+        exposedHeaders: [CORRELATION_ID_HEADER]
       }));
     }
 
@@ -77,12 +85,10 @@ export class WebServer {
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-    // Request logging middleware
-    this.app.use((req: Request, res: Response, next: NextFunction) => {
-      const timestamp = new Date().toISOString();
-      console.log(`${timestamp} ${req.method} ${req.path}`);
-      next();
-    });
+    // After body parsing, whose callbacks would lose the request's correlation id
+    this.app.use(correlationId);
+
+    this.app.use(accessLog);
   }
 
   /**
@@ -169,9 +175,10 @@ export class WebServer {
   }
 
   /**
-   * Start the web server
+   * Start the web server, after creating the configured initial administrator
    */
   async start(port: number): Promise<void> {
+    await createInitialAdmin(this.users);
     return new Promise((resolve, reject) => {
       this.server = this.app.listen(port, (error?: Error) => {
         if (error) {
@@ -191,6 +198,8 @@ export class WebServer {
    * Stop the web server gracefully
    */
   async stop(): Promise<void> {
+    // Open log streams would otherwise keep the server from closing
+    this.apiRouter.close();
     return new Promise((resolve) => {
       if (this.server) {
         this.server.close(() => {
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { createLogger, getCorrelationId, runWithCorrelationId } from '../../core/logger';
+
+const logger = createLogger('HTTP');
+
+/**
+ * Log one entry per finished request with its method, route, status,
+ * duration and user. Server errors are logged as errors, under the route
+ * rather than the path so they group into one issue whatever the ids in it.
+ * Must run after the correlation id middleware so the entry carries the
+ * request's id.
+ */
+export function accessLog(req: Request, res: Response, next: NextFunction): void {
+  const started = process.hrtime.bigint();
+  const correlationId = getCorrelationId();
+
+  res.on('finish', () => {
+    const durationMs = Math.round(Number(process.hrtime.bigint() - started) / 1e4) / 100;
+    const data: Record<string, unknown> = {
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      status: res.statusCode,
+      durationMs
+    };
+    // The matched route, e.g. /api/plugins/:id, groups requests for different ids
+    if (req.route) {
+      data.route = `${req.baseUrl}${req.route.path}`;
+    }
+    if (req.user) {
+      data.userId = req.user.id;
+    }
+
+    const write = () => {
+      const message = `${req.method} ${data.route ?? data.path} ${res.statusCode}`;
+      if (res.statusCode >= 500) {
+        logger.error(message, data);
+      } else {
+        logger.info(message, data);
+      }
+    };
+    // 'finish' is emitted outside the request's async context
+    if (correlationId) {
+      runWithCorrelationId(correlationId, write);
+    } else {
+      write();
+    }
+  });
+
+  next();
+}
@@ -0,0 +1,30 @@
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { runWithCorrelationId } from '../../core/logger';
+
+export const CORRELATION_ID_HEADER = 'X-Request-ID';
+
+// Ids from callers are kept only when they are short and safe to print
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+/**
+ * Give each request a correlation id, taken from its X-Request-ID header or
+ * generated, and send it back in the response. Entries logged while the
+ * request is handled carry it, and server error bodies include it as
+ * requestId so users can quote it when reporting the problem.
+ */
+export function correlationId(req: Request, res: Response, next: NextFunction): void {
+  const requested = req.get(CORRELATION_ID_HEADER);
+  const id = requested && CORRELATION_ID_PATTERN.test(requested) ? requested : randomUUID();
+  res.setHeader(CORRELATION_ID_HEADER, id);
+
+  const json = res.json.bind(res);
+  res.json = (body?: Parameters<Response['json']>[0]) => {
+    if (res.statusCode >= 500 && body && typeof body === 'object' && !Array.isArray(body)) {
+      return json({ ...body, requestId: id });
+    }
+    return json(body);
+  };
+
+  runWithCorrelationId(id, next);
+}
@@ -1,11 +1,14 @@
 // NeutralApp Foundation Web Server
 import { WebServer } from './WebServer';
 import { env } from '../../shared/utils/environment-manager';
+import { configureLogging, resetLogging } from '../../core/logger';
+import { createLoggingOptions } from '../../core/log-transports';
 
 async function startFoundationServer() {
   try {
     // Load environment configuration
     const config = env.getConfig();
+    configureLogging(createLoggingOptions(config));
     const port = config.PORT;
     const webServer = new WebServer();
 
@@ -19,12 +22,14 @@ async function startFoundationServer() {
     process.on('SIGINT', async () => {
       console.log('\n⏹️  Shutting down server gracefully...');
       await webServer.stop();
+      await resetLogging();
       process.exit(0);
     });
     
     process.on('SIGTERM', async () => {
       console.log('\n⏹️  Shutting down server gracefully...');
       await webServer.stop();
+      await resetLogging();
       process.exit(0);
     });
     
@@ -2,6 +2,7 @@ import request from 'supertest';
 import express from 'express';
 import { WebServer } from '../WebServer';
 import { SimpleWebServer } from '../SimpleWebServer';
+import { LogEntry, addLogTransport } from '../../../core/logger';
 
 // NextAuth removed - using JWT authentication
 
@@ -9,6 +10,7 @@ import { SimpleWebServer } from '../SimpleWebServer';
 jest.mock('../SimpleAPIRouter', () => ({
   SimpleAPIRouter: jest.fn().mockImplementation(() => ({
     getRouter: jest.fn().mockReturnValue(express.Router()),
+    close: jest.fn(),
     getDashboardManager: jest.fn().mockReturnValue({
       getActiveWidgets: jest.fn().mockReturnValue([]),
       registerWidget: jest.fn(),
@@ -303,19 +305,29 @@ describe('WebServer', () => {
   });
 
   describe('Request Logging', () => {
-    it('should log requests with timestamp', async () => {
+    it('should log each request once through the access log', async () => {
+      const entries: LogEntry[] = [];
+      const removeTransport = addLogTransport({ write: entry => entries.push(entry) });
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
       const app = webServer.getApp();
-      
-      await request(app)
-        .get('/health')
-        .expect(200);
-      
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringMatching(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z GET \/health$/)
-      );
-      
-      consoleSpy.mockRestore();
+
+      try {
+        await request(app)
+          .get('/health')
+          .expect(200);
+
+        expect(entries.filter(entry => entry.context === 'HTTP')).toEqual([
+          expect.objectContaining({
+            message: 'GET /health 200',
+            data: expect.objectContaining({ method: 'GET', path: '/health', route: '/health', status: 200 }),
+            correlationId: expect.any(String)
+          })
+        ]);
+        expect(consoleSpy).not.toHaveBeenCalled();
+      } finally {
+        removeTransport();
+        consoleSpy.mockRestore();
+      }
     });
   });
 });
@@ -1,5 +1,11 @@
 import request from 'supertest';
 import express from 'express';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
 
 // Supabase removed - using JWT authentication
 
@@ -7,6 +13,10 @@ import express from 'express';
 
 import { SimpleWebServer } from '../SimpleWebServer';
 import { SimpleAPIRouter } from '../SimpleAPIRouter';
+import { PluginRegistry } from '../../../plugins/registry';
+import { signPluginPackage } from '../../../features/plugin-manager/services/plugin.verifier';
+import { createLogger } from '../../../core/logger';
+import { LoggingService } from '../../../features/error-reporter/services/logging.service';
 
 // Helper function to safely set environment variables
 const setEnvVar = (key: string, value: string) => {
@@ -17,9 +27,102 @@ const setEnvVar = (key: string, value: string) => {
   });
 };
 
+// Installable fixture plugins, discovered from their manifests like real plugins
+const createFixturePlugins = (pluginIds: string[], dependencies: Record<string, string[]> = {}): string => {
+  const pluginsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-api-plugins-'));
+  for (const pluginId of pluginIds) {
+    const pluginDirectory = path.join(pluginsDirectory, pluginId);
+    fs.mkdirSync(pluginDirectory);
+    fs.writeFileSync(path.join(pluginDirectory, 'manifest.json'), JSON.stringify({
+      id: pluginId,
+      name: pluginId,
+      version: '1.0.0',
+      description: `Fixture plugin ${pluginId}`,
+      author: 'Test Author',
+      main: 'index.js',
+      permissions: [],
+      dependencies: (dependencies[pluginId] || []).map(id => ({ id, version: '^1.0.0', required: true }))
+    }));
+    fs.writeFileSync(path.join(pluginDirectory, 'index.js'), 'module.exports = { activate: async () => {} };');
+  }
+  return pluginsDirectory;
+};
+
+const fixtureSigningKey = crypto.generateKeyPairSync('ed25519');
+
+const signFixturePlugin = (pluginsDirectory: string, pluginId: string): void => {
+  const registry = new PluginRegistry(() => pluginsDirectory);
+  const manifestPath = path.join(pluginsDirectory, pluginId, 'manifest.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  manifest.signature = signPluginPackage(registry.getPluginPackage(pluginId)!, fixtureSigningKey.privateKey, 'test-key');
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+};
+
+// Sign every fixture plugin and trust the signing key
+const signFixturePlugins = (pluginsDirectory: string): string => {
+  const keysDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-api-keys-'));
+  fs.writeFileSync(path.join(keysDirectory, 'test-key.pem'), fixtureSigningKey.publicKey.export({ type: 'spki', format: 'pem' }));
+
+  for (const pluginId of new PluginRegistry(() => pluginsDirectory).getPluginIds()) {
+    signFixturePlugin(pluginsDirectory, pluginId);
+  }
+  return keysDirectory;
+};
+
+interface LogStream {
+  events: Array<{ id: string; data: any }>;
+  close: () => void;
+}
+
+// Collects the events of a Server-Sent Events response as they arrive
+const openLogStream = (url: string, headers: Record<string, string>): Promise<LogStream> => new Promise((resolve, reject) => {
+  const req = http.get(url, { headers }, response => {
+    const events: LogStream['events'] = [];
+    let buffer = '';
+    response.setEncoding('utf8');
+    response.on('error', () => undefined);
+    response.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end;
+      while ((end = buffer.indexOf('\n\n')) >= 0) {
+        const block = buffer.substring(0, end);
+        buffer = buffer.substring(end + 2);
+        const id = /^id: (.*)$/m.exec(block);
+        const data = /^data: (.*)$/m.exec(block);
+        if (id && data) {
+          events.push({ id: id[1]!, data: JSON.parse(data[1]!) });
+        }
+      }
+    });
+    resolve({ events, close: () => req.destroy() });
+  });
+  req.on('error', reject);
+});
+
+const waitUntil = async (condition: () => boolean): Promise<void> => {
+  for (let attempt = 0; attempt < 200 && !condition(); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+};
+
 describe('API Integration Tests', () => {
   let server: SimpleWebServer;
   let app: any;
+  let pluginsDirectory: string;
+  let keysDirectory: string;
+
+  beforeAll(() => {
+    pluginsDirectory = createFixturePlugins(
+      ['test-plugin', 'test-plugin-install', 'test-plugin-uninstall', 'test-plugin-base', 'test-plugin-dependent', 'test-plugin-tampered', 'test-plugin-upgrade'],
+      { 'test-plugin-dependent': ['test-plugin-base'] }
+    );
+    keysDirectory = signFixturePlugins(pluginsDirectory);
+    // Modify a plugin after it was signed
+    fs.appendFileSync(path.join(pluginsDirectory, 'test-plugin-tampered', 'index.js'), '\nglobalThis.tampered = true;');
+    setEnvVar('PLUGIN_DIRECTORY', pluginsDirectory);
+    setEnvVar('PLUGIN_TRUSTED_KEYS_DIRECTORY', keysDirectory);
+  });
 
   beforeEach(() => {
     setEnvVar('NODE_ENV', 'test');
@@ -28,10 +131,25 @@ describe('API Integration Tests', () => {
     app = server.getApp();
   });
 
-  afterAll(async () => {
+  const signin = async (email: string) => {
+    const response = await request(app)
+      .post('/api/auth/signin')
+      .send({ email, password: 'password123' })
+      .expect(200);
+    return response.body.token as string;
+  };
+
+  afterEach(async () => {
     await server.stop();
   });
 
+  afterAll(async () => {
+    fs.rmSync(pluginsDirectory, { recursive: true, force: true });
+    fs.rmSync(keysDirectory, { recursive: true, force: true });
+    delete process.env.PLUGIN_DIRECTORY;
+    delete process.env.PLUGIN_TRUSTED_KEYS_DIRECTORY;
+  });
+
   describe('Authentication Endpoints', () => {
     describe('POST /api/auth/signin', () => {
       it('should login user successfully', async () => {
@@ -67,6 +185,34 @@ describe('API Integration Tests', () => {
       });
     });
 
+    describe('POST /api/auth/signup', () => {
+      it('should create an account that can sign in', async () => {
+        const signup = await request(app)
+          .post('/api/auth/signup')
+          .send({ email: 'new@example.com', password: 'correct-horse', name: 'New User' })
+          .expect(201);
+
+        expect(signup.body.user).toEqual({
+          id: expect.any(String),
+          email: 'new@example.com',
+          name: 'New User',
+          roles: ['user'],
+          permissions: ['logs:write']
+        });
+
+        const signin = await request(app)
+          .post('/api/auth/signin')
+          .send({ email: 'new@example.com', password: 'correct-horse' })
+          .expect(200);
+        expect(signin.body.user).toEqual(signup.body.user);
+
+        await request(app)
+          .post('/api/auth/signup')
+          .send({ email: 'new@example.com', password: 'battery-staple' })
+          .expect(409);
+      });
+    });
+
     describe('GET /api/auth/session', () => {
       it('should return current user session with valid token', async () => {
         // First login to get a token
@@ -109,8 +255,7 @@ describe('API Integration Tests', () => {
     });
 
     describe('POST /api/auth/refresh', () => {
-      it('should refresh token successfully', async () => {
-        // First login to get a token
+      it('should trade the refresh token for new tokens only once', async () => {
         const loginResponse = await request(app)
           .post('/api/auth/signin')
           .send({
@@ -118,29 +263,81 @@ describe('API Integration Tests', () => {
             password: 'password123'
           });
 
-        const token = loginResponse.body.token;
-
         const response = await request(app)
           .post('/api/auth/refresh')
-          .set('Authorization', `Bearer ${token}`)
+          .send({ refreshToken: loginResponse.body.refreshToken })
           .expect(200);
 
-        expect(response.body).toHaveProperty('token');
-        expect(response.body.token).toBeTruthy(); // Should return a valid token
+        expect(response.body.token).toBeTruthy();
+        expect(response.body.refreshToken).not.toBe(loginResponse.body.refreshToken);
+        await request(app)
+          .get('/api/auth/session')
+          .set('Authorization', `Bearer ${response.body.token}`)
+          .expect(200);
+
+        await request(app)
+          .post('/api/auth/refresh')
+          .send({ refreshToken: loginResponse.body.refreshToken })
+          .expect(401);
       });
 
       it('should return 401 with invalid refresh token', async () => {
         const response = await request(app)
           .post('/api/auth/refresh')
-          .set('Authorization', 'Bearer invalid-token')
+          .send({ refreshToken: 'invalid-token' })
           .expect(401);
 
         expect(response.body).toHaveProperty('error');
       });
     });
+
+    describe('/api/auth/sessions', () => {
+      it('should list sessions and revoke one so its access token stops working', async () => {
+        const laptop = await signin('test@example.com');
+        const phone = await signin('test@example.com');
+
+        const listed = await request(app)
+          .get('/api/auth/sessions')
+          .set('Authorization', `Bearer ${laptop}`)
+          .expect(200);
+        expect(listed.body.sessions).toHaveLength(2);
+        const phoneSession = listed.body.sessions.find((session: any) => !session.current);
+
+        await request(app)
+          .delete(`/api/auth/sessions/${phoneSession.id}`)
+          .set('Authorization', `Bearer ${laptop}`)
+          .expect(200);
+
+        const refused = await request(app)
+          .get('/api/auth/session')
+          .set('Authorization', `Bearer ${phone}`)
+          .expect(401);
+        expect(refused.body).toEqual({ error: 'Token revoked' });
+      });
+
+      it('should revoke the access token on signout, across all routes', async () => {
+        const token = await signin('admin@example.com');
+
+        await request(app)
+          .post('/api/auth/signout')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+
+        await request(app)
+          .get('/api/admin/users')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(401);
+      });
+    });
   });
 
   describe('Plugin Management Endpoints', () => {
+    let adminToken: string;
+
+    beforeEach(async () => {
+      adminToken = await signin('admin@example.com');
+    });
+
     describe('GET /api/plugins', () => {
       it('should return available plugins', async () => {
         const response = await request(app)
@@ -152,9 +349,38 @@ describe('API Integration Tests', () => {
         expect(Array.isArray(response.body.available)).toBe(true);
         expect(Array.isArray(response.body.installed)).toBe(true);
       });
+
+      it('should keep installed plugins after a server restart', async () => {
+        await request(app)
+          .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ pluginId: 'test-plugin' })
+          .expect(201);
+
+        await server.stop();
+        server = new SimpleWebServer();
+        const response = await request(server.getApp()).get('/api/plugins').expect(200);
+
+        expect(response.body.installed.map((plugin: any) => plugin.id)).toContain('test-plugin');
+      });
     });
 
     describe('POST /api/plugins/install', () => {
+      it('should require the plugins:manage permission', async () => {
+        await request(app)
+          .post('/api/plugins/install')
+          .send({ pluginId: 'test-plugin-install' })
+          .expect(401);
+
+        const response = await request(app)
+          .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${await signin('test@example.com')}`)
+          .send({ pluginId: 'test-plugin-install' })
+          .expect(403);
+
+        expect(response.body).toEqual({ error: 'Missing permission: plugins:manage', missingPermission: 'plugins:manage' });
+      });
+
       it('should install a plugin successfully', async () => {
         const pluginData = {
           pluginId: 'test-plugin-install',
@@ -163,6 +389,7 @@ describe('API Integration Tests', () => {
 
         const response = await request(app)
           .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
           .send(pluginData)
           .expect(201);
 
@@ -173,6 +400,36 @@ describe('API Integration Tests', () => {
         expect(response.body.plugin).toHaveProperty('version', pluginData.version);
       });
 
+      it('should return 404 for a plugin that is not in the plugins directory', async () => {
+        const response = await request(app)
+          .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ pluginId: 'non-existent-plugin' })
+          .expect(404);
+
+        expect(response.body).toHaveProperty('error', 'Plugin not found');
+      });
+
+      it('should return 400 for a version that is not available', async () => {
+        const response = await request(app)
+          .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ pluginId: 'test-plugin-install', version: '9.9.9' })
+          .expect(400);
+
+        expect(response.body.error).toContain('Version 9.9.9 of plugin test-plugin-install is not available');
+      });
+
+      it('should return 400 for a plugin whose signature does not match', async () => {
+        const response = await request(app)
+          .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ pluginId: 'test-plugin-tampered' })
+          .expect(400);
+
+        expect(response.body.error).toContain('Plugin verification failed');
+      });
+
       it('should return 400 for invalid plugin data', async () => {
         const invalidData = {
           pluginId: ''
@@ -180,6 +437,7 @@ describe('API Integration Tests', () => {
 
         const response = await request(app)
           .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
           .send(invalidData)
           .expect(400);
 
@@ -194,12 +452,14 @@ describe('API Integration Tests', () => {
         // First install the plugin
         await request(app)
           .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
           .send({ pluginId, version: '1.0.0' })
           .expect(201);
 
         // Then uninstall it
         const response = await request(app)
           .delete(`/api/plugins/${pluginId}`)
+          .set('Authorization', `Bearer ${adminToken}`)
           .expect(200);
 
         expect(response.body).toHaveProperty('success', true);
@@ -213,10 +473,283 @@ describe('API Integration Tests', () => {
 
         const response = await request(app)
           .delete(`/api/plugins/${pluginId}`)
+          .set('Authorization', `Bearer ${adminToken}`)
           .expect(404);
 
         expect(response.body).toHaveProperty('error');
       });
+
+      it('should refuse to uninstall a dependency unless cascade is requested', async () => {
+        // Installing the dependent plugin installs its dependency first
+        const installResponse = await request(app)
+          .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ pluginId: 'test-plugin-dependent' })
+          .expect(201);
+
+        expect(installResponse.body.dependenciesInstalled).toEqual(['test-plugin-base']);
+
+        const conflictResponse = await request(app)
+          .delete('/api/plugins/test-plugin-base')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(409);
+
+        expect(conflictResponse.body.error).toContain('Required by test-plugin-dependent');
+        expect(conflictResponse.body.dependents).toEqual(['test-plugin-dependent']);
+
+        await request(app)
+          .delete('/api/plugins/test-plugin-base?cascade=true')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+
+        const pluginsResponse = await request(app).get('/api/plugins').expect(200);
+        const installedIds = pluginsResponse.body.installed.map((plugin: any) => plugin.id);
+        expect(installedIds).not.toContain('test-plugin-base');
+        expect(installedIds).not.toContain('test-plugin-dependent');
+      });
+    });
+
+    describe('Plugin updates', () => {
+      it.each([
+        ['GET', '/api/plugins/updates'],
+        ['POST', '/api/plugins/test-plugin/update'],
+        ['POST', '/api/plugins/test-plugin/rollback']
+      ])('should require the plugins:manage permission for %s %s', async (method, url) => {
+        const send = () => method === 'GET' ? request(app).get(url) : request(app).post(url);
+
+        await send().expect(401);
+        const response = await send()
+          .set('Authorization', `Bearer ${await signin('test@example.com')}`)
+          .expect(403);
+        expect(response.body.missingPermission).toBe('plugins:manage');
+      });
+
+      it('should list and apply updates for plugins with a newer version', async () => {
+        const pluginId = 'test-plugin-upgrade';
+        await request(app)
+          .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ pluginId })
+          .expect(201);
+
+        const currentResponse = await request(app)
+          .get('/api/plugins/updates')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+        expect(currentResponse.body.updates).toEqual([]);
+
+        // Publish 1.1.0 of the plugin
+        const manifestPath = path.join(pluginsDirectory, pluginId, 'manifest.json');
+        const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+        fs.writeFileSync(manifestPath, JSON.stringify({ ...manifest, version: '1.1.0' }));
+        signFixturePlugin(pluginsDirectory, pluginId);
+
+        const updatesResponse = await request(app)
+          .get('/api/plugins/updates')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+        expect(updatesResponse.body.updates).toEqual([
+          { pluginId, name: pluginId, installedVersion: '1.0.0', availableVersion: '1.1.0' }
+        ]);
+
+        const updateResponse = await request(app)
+          .post(`/api/plugins/${pluginId}/update`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+
+        expect(updateResponse.body).toMatchObject({
+          success: true,
+          updated: true,
+          plugin: { id: pluginId, fromVersion: '1.0.0', toVersion: '1.1.0' }
+        });
+
+        const rollbackResponse = await request(app)
+          .post(`/api/plugins/${pluginId}/rollback`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+        expect(rollbackResponse.body.plugin).toEqual({ id: pluginId, fromVersion: '1.1.0', toVersion: '1.0.0' });
+      });
+
+      it('should return 404 when updating a plugin that is not installed', async () => {
+        await request(app)
+          .post('/api/plugins/non-existent-plugin/update')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(404);
+      });
+    });
+
+    describe('Plugin storage', () => {
+      const pluginId = 'test-plugin';
+      let token: string;
+
+      beforeEach(async () => {
+        const signin = await request(app)
+          .post('/api/auth/signin')
+          .send({ email: 'test@example.com', password: 'password123' })
+          .expect(200);
+        token = signin.body.token;
+
+        await request(app)
+          .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ pluginId });
+      });
+
+      it('should require authentication', async () => {
+        await request(app)
+          .get(`/api/plugins/${pluginId}/storage`)
+          .expect(401);
+      });
+
+      it('should store, list, read and delete values', async () => {
+        await request(app)
+          .put(`/api/plugins/${pluginId}/storage/layout`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: { columns: 2 } })
+          .expect(200);
+
+        const listResponse = await request(app)
+          .get(`/api/plugins/${pluginId}/storage`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+        expect(listResponse.body).toEqual({
+          pluginId,
+          keys: ['layout'],
+          usage: { used: 27, quota: null, percentage: 0 }
+        });
+
+        const getResponse = await request(app)
+          .get(`/api/plugins/${pluginId}/storage/layout`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+        expect(getResponse.body).toEqual({ key: 'layout', value: { columns: 2 } });
+
+        await request(app)
+          .delete(`/api/plugins/${pluginId}/storage/layout`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+        await request(app)
+          .get(`/api/plugins/${pluginId}/storage/layout`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(404);
+      });
+
+      it('should keep each user\'s values apart', async () => {
+        await request(app)
+          .put(`/api/plugins/${pluginId}/storage/layout`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: { columns: 2 } })
+          .expect(200);
+
+        await request(app)
+          .get(`/api/plugins/${pluginId}/storage/layout`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(404);
+        await request(app)
+          .delete(`/api/plugins/${pluginId}/storage/layout`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(404);
+        const listResponse = await request(app)
+          .get(`/api/plugins/${pluginId}/storage`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+        expect(listResponse.body.keys).toEqual([]);
+
+        const getResponse = await request(app)
+          .get(`/api/plugins/${pluginId}/storage/layout`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+        expect(getResponse.body.value).toEqual({ columns: 2 });
+      });
+
+      it('should limit each user\'s values to their own quota', async () => {
+        const largeValue = 'x'.repeat(600 * 1024);
+        await request(app)
+          .put(`/api/plugins/${pluginId}/storage/first`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: largeValue })
+          .expect(200);
+        const response = await request(app)
+          .put(`/api/plugins/${pluginId}/storage/second`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: largeValue })
+          .expect(413);
+        expect(response.body.error).toContain('Storage quota exceeded');
+
+        // Other users still have room, and the full user can still make their values smaller
+        await request(app)
+          .put(`/api/plugins/${pluginId}/storage/first`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ value: largeValue })
+          .expect(200);
+        await request(app)
+          .put(`/api/plugins/${pluginId}/storage/first`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'small' })
+          .expect(200);
+      });
+
+      it('should only let administrators export and import plugin data', async () => {
+        await request(app)
+          .get(`/api/plugins/${pluginId}/storage/export`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(403);
+        await request(app)
+          .post(`/api/plugins/${pluginId}/storage/import`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ data: { a: 1 }, replace: true })
+          .expect(403);
+        await request(app)
+          .post(`/api/plugins/${pluginId}/storage/import`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ data: { a: 1 } })
+          .expect(403);
+      });
+
+      it('should export, import and wipe plugin data', async () => {
+        await request(app)
+          .post(`/api/plugins/${pluginId}/storage/import`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ data: { a: 1, b: 'two' } })
+          .expect(200);
+
+        const exportResponse = await request(app)
+          .get(`/api/plugins/${pluginId}/storage/export`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+        expect(exportResponse.body.data).toEqual({ a: 1, b: 'two' });
+
+        // Wiping a plugin's data is for administrators
+        await request(app)
+          .delete(`/api/plugins/${pluginId}/storage`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(403);
+        await request(app)
+          .delete(`/api/plugins/${pluginId}/storage`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+
+        const exportAfterWipe = await request(app)
+          .get(`/api/plugins/${pluginId}/storage/export`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+        expect(exportAfterWipe.body.data).toEqual({});
+      });
+
+      it('should reject imports that are not an object', async () => {
+        await request(app)
+          .post(`/api/plugins/${pluginId}/storage/import`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ data: ['not', 'an', 'object'] })
+          .expect(400);
+      });
+
+      it('should return 404 for plugins that are not installed', async () => {
+        await request(app)
+          .get('/api/plugins/non-existent-plugin/storage')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(404);
+      });
     });
 
     describe('PUT /api/plugins/:pluginId', () => {
@@ -226,6 +759,7 @@ describe('API Integration Tests', () => {
         // First install the plugin
         await request(app)
           .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
           .send({ pluginId, version: '1.0.0' })
           .expect(201);
 
@@ -233,6 +767,7 @@ describe('API Integration Tests', () => {
         const action = { enabled: true };
         const response = await request(app)
           .put(`/api/plugins/${pluginId}`)
+          .set('Authorization', `Bearer ${adminToken}`)
           .send(action)
           .expect(200);
 
@@ -249,92 +784,863 @@ describe('API Integration Tests', () => {
 
         const response = await request(app)
           .put(`/api/plugins/${pluginId}`)
+          .set('Authorization', `Bearer ${adminToken}`)
           .send(action)
           .expect(404);
 
         expect(response.body).toHaveProperty('error', 'Plugin not found');
       });
+
+      it.each([
+        ['PUT', '/api/plugins/test-plugin'],
+        ['POST', '/api/plugins/test-plugin/enable'],
+        ['POST', '/api/plugins/test-plugin/disable']
+      ])('should require the plugins:manage permission for %s %s', async (method, url) => {
+        const send = () => (method === 'PUT' ? request(app).put(url) : request(app).post(url)).send({ enabled: true });
+
+        await send().expect(401);
+        const response = await send()
+          .set('Authorization', `Bearer ${await signin('test@example.com')}`)
+          .expect(403);
+        expect(response.body.missingPermission).toBe('plugins:manage');
+      });
     });
   });
 
-  describe('Settings Management Endpoints', () => {
-    describe('GET /api/settings', () => {
-      it('should return all settings', async () => {
-        const response = await request(app)
-          .get('/api/settings')
-          .expect(200);
+  describe('Admin Endpoints', () => {
+    let adminToken: string;
 
-        expect(response.body).toHaveProperty('settings');
-        expect(typeof response.body.settings).toBe('object');
-      });
+    beforeEach(async () => {
+      adminToken = await signin('admin@example.com');
     });
 
-    describe('GET /api/settings/:key', () => {
-      it('should return specific setting', async () => {
-        const key = 'theme';
+    describe('GET /api/admin/health', () => {
+      it('should return health metrics for activated plugins', async () => {
+        const pluginId = 'test-plugin';
+        await request(app)
+          .post('/api/plugins/install')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ pluginId })
+          .expect(201);
+        await request(app)
+          .put(`/api/plugins/${pluginId}`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ enabled: true })
+          .expect(200);
 
         const response = await request(app)
-          .get(`/api/settings/${key}`)
+          .get('/api/admin/health')
+          .set('Authorization', `Bearer ${adminToken}`)
           .expect(200);
 
-        expect(response.body).toHaveProperty('key', key);
-        expect(response.body).toHaveProperty('value');
+        expect(response.body.health).toHaveProperty('status', 'healthy');
+        expect(response.body.summary).toMatchObject({ totalPlugins: 1, healthyPlugins: 1 });
+        expect(response.body.plugins).toEqual([
+          expect.objectContaining({ pluginId, status: 'enabled', errors: 0, crashCount: 0, healthScore: 1 })
+        ]);
       });
 
-      it('should return 404 for non-existent setting', async () => {
-        const key = 'non-existent-setting';
-
+      it('should be for administrators only', async () => {
         const response = await request(app)
-          .get(`/api/settings/${key}`)
-          .expect(404);
+          .get('/api/admin/health')
+          .set('Authorization', `Bearer ${await signin('test@example.com')}`)
+          .expect(403);
 
-        expect(response.body).toHaveProperty('error');
+        expect(response.body).toEqual({ error: 'Missing permission: admin:access', missingPermission: 'admin:access' });
       });
     });
 
-    describe('PUT /api/settings/:key', () => {
-      it('should update setting successfully', async () => {
-        const key = 'theme';
-        const value = { mode: 'dark' };
+    describe('GET /api/admin/users', () => {
+      it('should list the accounts that can sign in', async () => {
+        await request(app)
+          .post('/api/auth/signup')
+          .send({ email: 'new@example.com', password: 'correct-horse' })
+          .expect(201);
+        const signin = await request(app)
+          .post('/api/auth/signin')
+          .send({ email: 'admin@example.com', password: 'password123' })
+          .expect(200);
 
         const response = await request(app)
-          .put(`/api/settings/${key}`)
-          .send({ value })
+          .get('/api/admin/users')
+          .set('Authorization', `Bearer ${signin.body.token}`)
           .expect(200);
 
-        expect(response.body).toHaveProperty('message', 'Setting updated successfully');
-        expect(response.body).toHaveProperty('setting');
-        expect(response.body.setting).toHaveProperty('key', key);
-        expect(response.body.setting).toHaveProperty('value', value);
+        expect(response.body.users.map((user: any) => user.email))
+          .toEqual(['test@example.com', 'admin@example.com', 'new@example.com']);
+        expect(response.body.userStats).toEqual({ totalUsers: 3, activeUsers: 3, suspendedUsers: 0 });
+        expect(JSON.stringify(response.body)).not.toContain('passwordHash');
       });
 
-      it('should return 400 for invalid setting value', async () => {
+      it('should require authentication', async () => {
+        await request(app)
+          .get('/api/admin/users')
+          .expect(401);
+      });
+    });
+
+    describe('PUT /api/admin/users/:userId/roles', () => {
+      it('should grant the permissions of the new roles from the next sign-in', async () => {
+        const userToken = await signin('test@example.com');
+
+        const response = await request(app)
+          .put('/api/admin/users/1/roles')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ roles: ['user', 'admin'] })
+          .expect(200);
+        expect(response.body.user).toMatchObject({ id: '1', roles: ['user', 'admin'] });
+
+        // The old token still carries the old permissions
+        await request(app)
+          .get('/api/admin/health')
+          .set('Authorization', `Bearer ${userToken}`)
+          .expect(403);
+        await request(app)
+          .get('/api/admin/health')
+          .set('Authorization', `Bearer ${await signin('test@example.com')}`)
+          .expect(200);
+      });
+
+      it('should change the roles of the account every part of a development server uses', async () => {
+        // Development accounts are held in memory rather than in the users file
+        await server.stop();
+        setEnvVar('NODE_ENV', 'development');
+        server = new SimpleWebServer();
+        app = server.getApp();
+
+        await request(app)
+          .put('/api/admin/users/1/roles')
+          .set('Authorization', `Bearer ${await signin('admin@example.com')}`)
+          .send({ roles: ['user', 'admin'] })
+          .expect(200);
+
+        const signinResponse = await request(app)
+          .post('/api/auth/signin')
+          .send({ email: 'test@example.com', password: 'password123' })
+          .expect(200);
+        expect(signinResponse.body.user.roles).toEqual(['user', 'admin']);
+        await request(app)
+          .get('/api/admin/health')
+          .set('Authorization', `Bearer ${signinResponse.body.token}`)
+          .expect(200);
+      });
+
+      it('should reject unknown roles and users', async () => {
+        const response = await request(app)
+          .put('/api/admin/users/1/roles')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ roles: ['superuser'] })
+          .expect(400);
+        expect(response.body.errors).toEqual(['Unknown role: superuser']);
+
+        await request(app)
+          .put('/api/admin/users/nobody/roles')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ roles: ['admin'] })
+          .expect(404);
+      });
+    });
+
+    describe('/api/admin/errors', () => {
+      const logError = async (message: string) => request(app)
+        .post('/api/logs')
+        .set('Authorization', `Bearer ${await signin('test@example.com')}`)
+        .send({ level: 'error', message, context: 'reader', pluginId: 'reading-core' })
+        .expect(201);
+      const findReaderIssue = async (status = '') => {
+        const response = await request(app)
+          .get(`/api/admin/errors${status ? `?status=${status}` : ''}`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+        return response.body.issues.find((issue: any) => issue.component === 'reader');
+      };
+
+      it('should group logged errors into issues that can be resolved and regress', async () => {
+        await logError('Page 12 failed to render');
+        await logError('Page 40 failed to render');
+
+        const issue = await findReaderIssue('open');
+        expect(issue).toMatchObject({ pluginId: 'reading-core', status: 'open', count: 2, message: 'Page 40 failed to render', regressed: false });
+        expect(issue.occurrences.reduce((total: number, bucket: any) => total + bucket.count, 0)).toBe(2);
+
+        const resolved = await request(app)
+          .put(`/api/admin/errors/${issue.fingerprint}/status`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ status: 'resolved' })
+          .expect(200);
+        expect(resolved.body.issue).toMatchObject({ status: 'resolved', resolvedAt: expect.any(String) });
+        expect(await findReaderIssue('open')).toBeUndefined();
+
+        await logError('Page 7 failed to render');
+        const regressed = await request(app)
+          .get(`/api/admin/errors/${issue.fingerprint}`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+        expect(regressed.body.issue).toMatchObject({ status: 'open', regressed: true, count: 3 });
+      });
+
+      it('should reject unknown statuses and issues, and be for administrators only', async () => {
+        await request(app)
+          .get('/api/admin/errors?status=fixed')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(400);
+        await request(app)
+          .put('/api/admin/errors/missing/status')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ status: 'resolved' })
+          .expect(404);
+        await request(app)
+          .get('/api/admin/errors/missing')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(404);
+
+        await logError('Library scan failed');
+        const issue = await findReaderIssue();
+        await request(app)
+          .put(`/api/admin/errors/${issue.fingerprint}/status`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ status: 'fixed' })
+          .expect(400);
+        await request(app)
+          .get('/api/admin/errors')
+          .set('Authorization', `Bearer ${await signin('test@example.com')}`)
+          .expect(403);
+        await request(app)
+          .put(`/api/admin/errors/${issue.fingerprint}/status`)
+          .set('Authorization', `Bearer ${await signin('test@example.com')}`)
+          .send({ status: 'resolved' })
+          .expect(403);
+      });
+    });
+  });
+
+  describe('Logging Endpoints', () => {
+    it('should let users write logs but only administrators read them', async () => {
+      const userToken = await signin('test@example.com');
+
+      await request(app)
+        .post('/api/logs')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ level: 'info', message: 'Opened the library', context: 'client' })
+        .expect(201);
+
+      const rejected = await request(app)
+        .get('/api/logs')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(403);
+      expect(rejected.body.missingPermission).toBe('logs:read');
+
+      // Server components log too, so only the client's entries are asked for
+      const logs = await request(app)
+        .get('/api/logs?component=client')
+        .set('Authorization', `Bearer ${await signin('admin@example.com')}`)
+        .expect(200);
+      expect(logs.body.logs).toEqual([
+        expect.objectContaining({ level: 'info', message: 'Opened the library', context: expect.objectContaining({ component: 'client' }) })
+      ]);
+    });
+
+    it('should search logs on the server and page through them with a cursor', async () => {
+      const userToken = await signin('test@example.com');
+      for (const message of ['First', 'Second', 'Third']) {
+        await request(app)
+          .post('/api/logs')
+          .set('Authorization', `Bearer ${userToken}`)
+          .send({ level: 'warning', message, context: 'reader', pluginId: 'reading-core' })
+          .expect(201);
+      }
+      await request(app)
+        .post('/api/logs')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ level: 'error', message: 'Other', context: 'shell' })
+        .expect(201);
+
+      const adminToken = await signin('admin@example.com');
+      const first = await request(app)
+        .get('/api/logs?pluginId=reading-core&level=warning&limit=2')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(first.body.logs).toHaveLength(2);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+
+      const second = await request(app)
+        .get(`/api/logs?pluginId=reading-core&level=warning&limit=2&cursor=${encodeURIComponent(first.body.nextCursor)}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(second.body.logs).toHaveLength(1);
+      expect(second.body).not.toHaveProperty('nextCursor');
+      expect([...first.body.logs, ...second.body.logs].map((log: any) => log.message).sort()).toEqual(['First', 'Second', 'Third']);
+
+      await request(app)
+        .get('/api/logs?level=loud')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+      await request(app)
+        .get('/api/logs?cursor=nonsense')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+    });
+
+    it('should tag entries with the correlation id of the request that logged them', async () => {
+      const created = await request(app)
+        .post('/api/logs')
+        .set('Authorization', `Bearer ${await signin('test@example.com')}`)
+        .set('X-Request-ID', 'import-42')
+        .send({ level: 'info', message: 'Imported books', context: 'client' })
+        .expect(201);
+      expect(created.headers['x-request-id']).toBe('import-42');
+
+      // Ids that are unsafe to print are replaced
+      const replaced = await request(app).get('/health').set('X-Request-ID', 'not a safe id!').expect(200);
+      expect(replaced.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+
+      const logs = await request(app)
+        .get('/api/logs?correlationId=import-42')
+        .set('Authorization', `Bearer ${await signin('admin@example.com')}`)
+        .expect(200);
+      // The server's own entries for the request are found with the client's
+      expect(logs.body.logs).toEqual(expect.arrayContaining([
+        expect.objectContaining({ message: 'Imported books', context: expect.objectContaining({ component: 'client' }) }),
+        expect.objectContaining({ message: 'POST /api/logs 201', context: expect.objectContaining({ component: 'HTTP' }) })
+      ]));
+      expect(logs.body.logs.every((log: any) => log.context.correlationId === 'import-42')).toBe(true);
+    });
+
+    it('should log each request with its route, status, duration and user', async () => {
+      const adminToken = await signin('admin@example.com');
+      await request(app)
+        .get('/api/plugins/missing-plugin/storage')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('X-Request-ID', 'storage-1');
+
+      const logs = await request(app)
+        .get('/api/logs?correlationId=storage-1&component=HTTP')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(logs.body.logs).toHaveLength(1);
+      expect(logs.body.logs[0].message).toMatch(/^GET \/api\/plugins\/:pluginId\/storage \d{3}$/);
+      expect(logs.body.logs[0].context.metadata).toEqual({
+        method: 'GET',
+        path: '/api/plugins/missing-plugin/storage',
+        route: '/api/plugins/:pluginId/storage',
+        status: expect.any(Number),
+        durationMs: expect.any(Number),
+        userId: expect.any(String)
+      });
+    });
+
+    it('should stream new entries at or above a level and resume after a disconnect', async () => {
+      const userToken = await signin('test@example.com');
+      const adminToken = await signin('admin@example.com');
+      const writeLog = (level: string, message: string) => request(app)
+        .post('/api/logs')
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ level, message, context: 'reader' })
+        .expect(201);
+
+      await request(app)
+        .get('/api/logs/stream')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(403);
+      await request(app)
+        .get('/api/logs/stream?lastEventId=nonsense')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+
+      const listener = app.listen(0);
+      const url = `http://127.0.0.1:${(listener.address() as AddressInfo).port}/api/logs/stream?level=warning`;
+      try {
+        const first = await openLogStream(url, { Authorization: `Bearer ${adminToken}` });
+        await writeLog('info', 'Page turned');
+        await writeLog('warning', 'Slow render');
+        createLogger('Library').error('Scan failed', { folder: 'books' });
+        await waitUntil(() => first.events.length === 2);
+        expect(first.events.map(event => event.data)).toEqual([
+          expect.objectContaining({ level: 'warning', message: 'Slow render', context: expect.objectContaining({ component: 'reader' }) }),
+          expect.objectContaining({ level: 'error', message: 'Scan failed', context: expect.objectContaining({ component: 'Library', metadata: { folder: 'books' } }) })
+        ]);
+        first.close();
+
+        await writeLog('error', 'Missed while away');
+        const resumed = await openLogStream(url, { Authorization: `Bearer ${adminToken}`, 'Last-Event-ID': first.events[1]!.id });
+        await writeLog('critical', 'After reconnecting');
+        await waitUntil(() => resumed.events.length === 2);
+        expect(resumed.events.map(event => event.data.message)).toEqual(['Missed while away', 'After reconnecting']);
+        resumed.close();
+      } finally {
+        await server.stop();
+        await new Promise(resolve => listener.close(resolve));
+      }
+    });
+  });
+
+  describe('Settings Management Endpoints', () => {
+    let token: string;
+
+    beforeEach(async () => {
+      token = await signin('test@example.com');
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .get('/api/settings')
+        .expect(401);
+    });
+
+    describe('GET /api/settings', () => {
+      it('should return the settings of the signed-in user', async () => {
+        await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'dark' })
+          .expect(200);
+
+        const response = await request(app)
+          .get('/api/settings')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+
+        expect(response.body).toEqual({
+          settings: { theme: 'dark', language: 'en', notifications: true },
+          userId: '1'
+        });
+      });
+
+      it('should not show one user the settings of another', async () => {
+        await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'dark' })
+          .expect(200);
+
+        const adminToken = await signin('admin@example.com');
+        const response = await request(app)
+          .get('/api/settings')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+
+        expect(response.body.settings.theme).toBe('light');
+      });
+    });
+
+    describe('GET /api/settings/schema', () => {
+      it('should return the core setting definitions', async () => {
+        const response = await request(app)
+          .get('/api/settings/schema')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+
+        expect(response.body.schema.core.theme).toMatchObject({ type: 'string', enum: ['light', 'dark', 'auto'], default: 'light' });
+        expect(response.body.schema.categories).toEqual(expect.arrayContaining(['appearance', 'general']));
+        expect(response.body.schema).toHaveProperty('plugins');
+      });
+
+      it('should reject values the schema does not allow', async () => {
+        const response = await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'sepia' })
+          .expect(400);
+
+        expect(response.body.errors).toEqual(['theme must be one of: light, dark, auto']);
+      });
+    });
+
+    describe('GET /api/settings/:key/explain', () => {
+      it('should show which layer supplies the value', async () => {
+        await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'dark' })
+          .expect(200);
+
+        const response = await request(app)
+          .get('/api/settings/theme/explain')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+
+        expect(response.body).toMatchObject({ key: 'theme', userId: '1', value: 'dark', winner: 'user', locked: false });
+        expect(response.body.layers.map((layer: any) => layer.layer)).toEqual(['default', 'config', 'admin', 'plugin', 'user']);
+        expect(response.body.layers[0]).toEqual({ layer: 'default', set: true, value: 'light', source: 'schema' });
+      });
+
+      it('should let an admin explain the value another user gets', async () => {
+        await request(app)
+          .put('/api/settings/language')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'de' })
+          .expect(200);
+
+        const adminToken = await signin('admin@example.com');
+        const response = await request(app)
+          .get('/api/settings/language/explain?userId=1')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+
+        expect(response.body).toMatchObject({ userId: '1', value: 'de', winner: 'user' });
+      });
+    });
+
+    describe('PUT /api/settings/:key/lock', () => {
+      it('should stop users from overriding a locked value until it is unlocked', async () => {
+        const adminToken = await signin('admin@example.com');
+        const locked = await request(app)
+          .put('/api/settings/theme/lock')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ value: 'dark' })
+          .expect(200);
+        expect(locked.body.setting).toMatchObject({ value: 'dark', winner: 'admin', locked: true });
+
+        const rejected = await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'light' })
+          .expect(403);
+        expect(rejected.body).toEqual({ error: 'Setting theme is locked by an administrator', key: 'theme' });
+
+        await request(app)
+          .delete('/api/settings/theme/lock')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+        await request(app)
+          .delete('/api/settings/theme/lock')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(404);
+
+        await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'light' })
+          .expect(200);
+      });
+
+      it('should reject values the schema does not allow', async () => {
+        const adminToken = await signin('admin@example.com');
+
+        const response = await request(app)
+          .put('/api/settings/theme/lock')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ value: 'sepia' })
+          .expect(400);
+
+        expect(response.body.errors).toEqual(['theme must be one of: light, dark, auto']);
+      });
+    });
+
+    describe('GET /api/settings/:key/history', () => {
+      it('should list who changed a setting, from where, newest first', async () => {
+        await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .set('X-Settings-Source', 'ui')
+          .send({ value: 'dark' })
+          .expect(200);
+        await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'auto' })
+          .expect(200);
+
+        const response = await request(app)
+          .get('/api/settings/theme/history')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+
+        expect(response.body).toMatchObject({ key: 'theme', userId: '1' });
+        expect(response.body.history.map((change: any) => [change.previous?.value, change.current.value, change.changedBy, change.source]))
+          .toEqual([['dark', 'auto', '1', 'api'], [undefined, 'dark', '1', 'ui']]);
+      });
+
+      it('should reject an invalid limit', async () => {
+        await request(app)
+          .get('/api/settings/theme/history?limit=-1')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(400);
+      });
+    });
+
+    describe('POST /api/settings/:key/restore', () => {
+      it('should revert a setting to its value at a point in time', async () => {
+        await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'dark' })
+          .expect(200);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const timestamp = new Date().toISOString();
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'auto' })
+          .expect(200);
+
+        const response = await request(app)
+          .post('/api/settings/theme/restore')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ timestamp })
+          .expect(200);
+
+        expect(response.body).toMatchObject({ success: true, restored: true, setting: { value: 'dark', winner: 'user' } });
+
+        const history = await request(app)
+          .get('/api/settings/theme/history?limit=1')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+        expect(history.body.history).toEqual([expect.objectContaining({ action: 'restore', changedBy: '1' })]);
+      });
+
+      it('should require a valid timestamp', async () => {
+        const response = await request(app)
+          .post('/api/settings/theme/restore')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ timestamp: 'yesterday' })
+          .expect(400);
+
+        expect(response.body.error).toBe('A valid timestamp is required');
+      });
+    });
+
+    describe('POST /api/settings/restore', () => {
+      it('should revert all of the user\'s settings to a point in time', async () => {
+        const timestamp = new Date().toISOString();
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'dark' })
+          .expect(200);
+        await request(app)
+          .put('/api/settings/language')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'fr' })
+          .expect(200);
+
+        const response = await request(app)
+          .post('/api/settings/restore')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ timestamp })
+          .expect(200);
+
+        expect(response.body.restored.sort()).toEqual(['1.language', '1.theme']);
+
+        const settings = await request(app)
+          .get('/api/settings')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+        expect(settings.body.settings).toMatchObject({ theme: 'light', language: 'en' });
+      });
+    });
+
+    describe('GET /api/settings/export', () => {
+      it('should export the signed-in user\'s settings as a bundle', async () => {
+        await request(app)
+          .put('/api/settings/theme')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'dark' })
+          .expect(200);
+
+        const response = await request(app)
+          .get('/api/settings/export')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+
+        expect(response.body).toMatchObject({ version: 1, scope: { userId: '1' }, core: {}, users: { '1': { theme: 'dark' } }, plugins: {} });
+      });
+    });
+
+    describe('POST /api/settings/import', () => {
+      const bundle = { version: 1, scope: { userId: '1' }, core: {}, users: { '1': { theme: 'dark', language: 'fr' } }, plugins: {} };
+
+      it('should preview a dry run and then apply the bundle', async () => {
+        const preview = await request(app)
+          .post('/api/settings/import')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ bundle, dryRun: true })
+          .expect(200);
+
+        expect(preview.body).toMatchObject({ success: true, mode: 'merge', dryRun: true, applied: false });
+        expect(preview.body.changes.map((change: any) => [change.storageKey, change.change, change.value]))
+          .toEqual([['1.theme', 'add', 'dark'], ['1.language', 'add', 'fr']]);
+
+        const before = await request(app)
+          .get('/api/settings')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+        expect(before.body.settings.theme).toBe('light');
+
+        await request(app)
+          .post('/api/settings/import')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ bundle })
+          .expect(200);
+
+        const after = await request(app)
+          .get('/api/settings')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+        expect(after.body.settings).toMatchObject({ theme: 'dark', language: 'fr' });
+      });
+
+      it('should reject entries that fail validation or belong to others', async () => {
+        const response = await request(app)
+          .post('/api/settings/import')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ bundle: { ...bundle, core: { theme: { value: 'dark' } }, users: { '1': { theme: 'sepia' } } } })
+          .expect(400);
+
+        expect(response.body).toMatchObject({ error: 'Invalid settings bundle', applied: false });
+        expect(response.body.errors).toEqual([
+          'core.theme is outside the import scope',
+          '1.theme: theme must be one of: light, dark, auto'
+        ]);
+      });
+
+      it('should require a bundle and a known mode', async () => {
+        await request(app)
+          .post('/api/settings/import')
+          .set('Authorization', `Bearer ${token}`)
+          .send({})
+          .expect(400);
+        await request(app)
+          .post('/api/settings/import')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ bundle, mode: 'overwrite' })
+          .expect(400);
+      });
+    });
+
+    describe('GET /api/settings/:key', () => {
+      it('should return specific setting', async () => {
+        const key = 'theme';
+        await request(app)
+          .put(`/api/settings/${key}`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'dark' })
+          .expect(200);
+
+        const response = await request(app)
+          .get(`/api/settings/${key}`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+
+        expect(response.body).toEqual({ key, value: 'dark' });
+      });
+
+      it('should return 404 for non-existent setting', async () => {
+        const key = 'non-existent-setting';
+
+        const response = await request(app)
+          .get(`/api/settings/${key}`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(404);
+
+        expect(response.body).toHaveProperty('error');
+      });
+    });
+
+    describe('PUT /api/settings/:key', () => {
+      it('should update setting successfully', async () => {
+        const key = 'layout';
+        const value = { columns: 2 };
+
+        const response = await request(app)
+          .put(`/api/settings/${key}`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value })
+          .expect(200);
+
+        expect(response.body).toHaveProperty('message', 'Setting updated successfully');
+        expect(response.body.setting).toEqual({ key, value, userId: '1' });
+      });
+
+      it('should return 400 for invalid setting value', async () => {
         const key = 'theme';
         const invalidValue = null;
 
         const response = await request(app)
           .put(`/api/settings/${key}`)
+          .set('Authorization', `Bearer ${token}`)
           .send({ value: invalidValue })
           .expect(400);
 
         expect(response.body).toHaveProperty('error');
       });
+
+      it('should return 400 for keys that would collide with plugin settings', async () => {
+        const response = await request(app)
+          .put('/api/settings/somePlugin.foo')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'bar' })
+          .expect(400);
+
+        expect(response.body.error).toBe("Setting key somePlugin.foo cannot contain '.'");
+      });
+
+      it('should keep settings after a server restart', async () => {
+        await request(app)
+          .put('/api/settings/language')
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'fr' })
+          .expect(200);
+
+        await server.stop();
+        server = new SimpleWebServer();
+        const response = await request(server.getApp())
+          .get('/api/settings/language')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+
+        expect(response.body.value).toBe('fr');
+      });
     });
 
     describe('DELETE /api/settings/:key', () => {
       it('should delete setting successfully', async () => {
         const key = 'temp-setting';
+        await request(app)
+          .put(`/api/settings/${key}`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ value: 'temporary' })
+          .expect(200);
 
         const response = await request(app)
           .delete(`/api/settings/${key}`)
+          .set('Authorization', `Bearer ${token}`)
           .expect(200);
 
         expect(response.body).toHaveProperty('message', 'Setting deleted successfully');
+        await request(app)
+          .get(`/api/settings/${key}`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(404);
+      });
+
+      it('should return 404 when the user has no value for the setting', async () => {
+        await request(app)
+          .delete('/api/settings/never-set')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(404);
       });
     });
   });
 
   describe('Error Handling', () => {
+    it('should include the request id in server error responses', async () => {
+      const queryLogs = jest.spyOn(LoggingService.prototype, 'queryLogs').mockRejectedValueOnce(new Error('Log store unavailable'));
+      try {
+        const response = await request(app)
+          .get('/api/logs')
+          .set('Authorization', `Bearer ${await signin('admin@example.com')}`)
+          .set('X-Request-ID', 'support-7')
+          .expect(500);
+
+        expect(response.body).toEqual({ error: 'Internal server error', requestId: 'support-7' });
+      } finally {
+        queryLogs.mockRestore();
+      }
+    });
+
     it('should return 404 for non-existent endpoints', async () => {
       const response = await request(app)
         .get('/api/non-existent')
@@ -1,7 +1,11 @@
-import { PluginManager } from '../src/features/plugin-manager';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PluginManager, signPluginPackage } from '../src/features/plugin-manager';
 import { SettingsService } from '../src/features/settings';
 import { DashboardManager } from '../src/features/ui-shell';
-import { PLUGIN_REGISTRY, discoverPlugins, getPluginInfo, validatePlugin } from '../src/plugins';
+import { pluginRegistry, discoverPlugins, getPluginInfo, validatePlugin } from '../src/plugins';
 
 describe('Demo Plugin Integration', () => {
   let pluginManager: PluginManager;
@@ -17,7 +21,7 @@ describe('Demo Plugin Integration', () => {
   describe('15.1 Demo Plugin Implementation', () => {
     it('should have plugins in modular structure separate from plugin manager', () => {
       // Verify plugins are in separate modular location
-      expect(PLUGIN_REGISTRY).toBeDefined();
+      expect(pluginRegistry.getPluginsDirectory()).toContain('plugins');
       expect(discoverPlugins()).toContain('demo-hello-world');
       expect(validatePlugin('demo-hello-world')).toBe(true);
       
@@ -143,9 +147,28 @@ describe('Demo Plugin Integration', () => {
         signature: 'mock-signature-for-testing'
       };
 
-      const installResult = await pluginManager.installPlugin(pluginPackage);
-      expect(installResult.success).toBe(true);
-      expect(installResult.pluginId).toBe('demo-hello-world');
+      // Unsigned or unverifiable packages are rejected
+      const rejectedResult = await pluginManager.installPlugin(pluginPackage);
+      expect(rejectedResult.success).toBe(false);
+      expect(rejectedResult.error).toBe('Invalid plugin signature');
+
+      // Packages signed with a trusted key install
+      const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+      const keysDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-demo-keys-'));
+      fs.writeFileSync(path.join(keysDirectory, 'demo.pem'), publicKey.export({ type: 'spki', format: 'pem' }));
+      process.env.PLUGIN_TRUSTED_KEYS_DIRECTORY = keysDirectory;
+
+      try {
+        const signedPluginManager = new PluginManager();
+        pluginPackage.signature = signPluginPackage(pluginPackage, privateKey, 'demo');
+
+        const installResult = await signedPluginManager.installPlugin(pluginPackage);
+        expect(installResult.success).toBe(true);
+        expect(installResult.pluginId).toBe('demo-hello-world');
+      } finally {
+        delete process.env.PLUGIN_TRUSTED_KEYS_DIRECTORY;
+        fs.rmSync(keysDirectory, { recursive: true, force: true });
+      }
     });
 
     it('should test plugin activation and deactivation', async () => {
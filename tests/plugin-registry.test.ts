@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PluginRegistry } from '../src/plugins/registry';
+
+describe('PluginRegistry', () => {
+  let pluginsDirectory: string;
+  let registry: PluginRegistry;
+
+  const writePlugin = (directory: string, manifest: Record<string, any> | string, files: Record<string, string> = { 'index.js': 'module.exports = {};' }) => {
+    const pluginDirectory = path.join(pluginsDirectory, directory);
+    fs.mkdirSync(pluginDirectory, { recursive: true });
+    fs.writeFileSync(
+      path.join(pluginDirectory, 'manifest.json'),
+      typeof manifest === 'string' ? manifest : JSON.stringify(manifest)
+    );
+    for (const [fileName, contents] of Object.entries(files)) {
+      fs.writeFileSync(path.join(pluginDirectory, fileName), contents);
+    }
+  };
+
+  const validManifest = (id: string, overrides: Record<string, any> = {}) => ({
+    id,
+    name: `Plugin ${id}`,
+    version: '1.2.0',
+    description: 'A fixture plugin',
+    author: 'Test Author',
+    main: 'index.js',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    pluginsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-registry-'));
+    registry = new PluginRegistry(() => pluginsDirectory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(pluginsDirectory, { recursive: true, force: true });
+  });
+
+  it('should discover plugins from manifest.json files', () => {
+    writePlugin('notes', validManifest('notes', { category: 'utility', tags: ['notes', 'text'] }));
+    writePlugin('not-a-plugin', validManifest('not-a-plugin'));
+    fs.rmSync(path.join(pluginsDirectory, 'not-a-plugin', 'manifest.json'));
+
+    expect(registry.getPluginIds()).toEqual(['notes']);
+    expect(registry.getPluginInfo('notes')).toEqual({
+      id: 'notes',
+      name: 'Plugin notes',
+      version: '1.2.0',
+      description: 'A fixture plugin',
+      author: 'Test Author',
+      entryPoint: './notes/index.js',
+      manifest: './notes/manifest.json',
+      category: 'utility',
+      tags: ['notes', 'text']
+    });
+  });
+
+  it('should accept entryPoint as an alias for main', () => {
+    writePlugin('legacy', validManifest('legacy', { main: undefined, entryPoint: 'legacy.js' }), { 'legacy.js': '' });
+
+    expect(registry.getPluginInfo('legacy')?.entryPoint).toBe('./legacy/legacy.js');
+  });
+
+  it('should skip plugins with invalid manifests and report why', () => {
+    writePlugin('broken-json', '{ not json');
+    writePlugin('mismatched', validManifest('other-id'));
+    writePlugin('no-entry', validManifest('no-entry', { main: 'missing.js' }));
+    writePlugin('bad-version', validManifest('bad-version', { version: 'one' }));
+    writePlugin('valid', validManifest('valid'));
+
+    expect(registry.getPluginIds()).toEqual(['valid']);
+
+    const errors = registry.getValidationErrors();
+    expect(errors.map(error => error.directory)).toEqual(['bad-version', 'broken-json', 'mismatched', 'no-entry']);
+    expect(errors.find(error => error.directory === 'mismatched')?.errors)
+      .toContain('id "other-id" does not match its directory name "mismatched"');
+    expect(errors.find(error => error.directory === 'no-entry')?.errors)
+      .toContain('entry point missing.js does not exist');
+  });
+
+  it('should reject entry points outside the plugin directory', () => {
+    writePlugin('escape', validManifest('escape', { main: '../escape.js' }));
+    fs.writeFileSync(path.join(pluginsDirectory, 'escape.js'), '');
+
+    expect(registry.hasPlugin('escape')).toBe(false);
+    expect(registry.getValidationErrors()[0]?.errors).toContain('entry point must be inside the plugin directory');
+  });
+
+  it('should build categories from the discovered plugins', () => {
+    writePlugin('demo-one', validManifest('demo-one', { category: 'demo' }));
+    writePlugin('weather', validManifest('weather', { category: 'forecasting' }));
+    writePlugin('uncategorized', validManifest('uncategorized'));
+
+    const categories = registry.getCategories();
+
+    expect(categories.demo?.plugins).toEqual(['demo-one']);
+    expect(categories.utility?.plugins).toEqual(['uncategorized']);
+    expect(categories.integration?.plugins).toEqual([]);
+    expect(categories.forecasting).toEqual({
+      name: 'Forecasting Plugins',
+      description: 'Plugins in the forecasting category',
+      plugins: ['weather']
+    });
+  });
+
+  it('should pick up newly added plugins on refresh', () => {
+    expect(registry.getPluginIds()).toEqual([]);
+
+    writePlugin('late', validManifest('late'));
+    expect(registry.hasPlugin('late')).toBe(false);
+
+    registry.refresh();
+    expect(registry.hasPlugin('late')).toBe(true);
+  });
+
+  it('should build an installable package from the manifest and entry point code', () => {
+    writePlugin('packaged', validManifest('packaged', {
+      permissions: ['settings:read', { name: 'storage:local', description: 'Store data', required: false }],
+      dependencies: [{ id: 'base', version: '^1.0.0' }]
+    }), { 'index.js': 'module.exports = { activate() {} };' });
+
+    const pluginPackage = registry.getPluginPackage('packaged');
+
+    expect(pluginPackage).toMatchObject({
+      id: 'packaged',
+      version: '1.2.0',
+      code: 'module.exports = { activate() {} };',
+      manifest: {
+        id: 'packaged',
+        main: 'index.js',
+        dependencies: [{ id: 'base', version: '^1.0.0', required: true }],
+        permissions: [
+          { name: 'settings:read', description: 'settings:read', required: true },
+          { name: 'storage:local', description: 'Store data', required: false }
+        ],
+        api: []
+      }
+    });
+    expect(registry.getPluginPackage('missing')).toBeUndefined();
+  });
+});
@@ -53,6 +53,27 @@ jest.setTimeout(10000); // 10 seconds default timeout for all tests
 process.env.JWT_SECRET = 'test-jwt-secret-key-for-testing-only';
 process.env.NODE_ENV = 'test';
 
+// Keep files the server persists at runtime out of the repository's data/ directory
+if (!process.env.DATA_DIRECTORY) {
+  const fs = require('fs');
+  const os = require('os');
+  const path = require('path');
+  const dataDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'neutral-test-data-'));
+  process.env.DATA_DIRECTORY = dataDirectory;
+
+  // Each test starts without data left behind by the previous one
+  afterEach(() => {
+    for (const entry of fs.readdirSync(dataDirectory)) {
+      fs.rmSync(path.join(dataDirectory, entry), { recursive: true, force: true });
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(dataDirectory, { recursive: true, force: true });
+    delete process.env.DATA_DIRECTORY;
+  });
+}
+
 // Note: Individual timeouts are handled by Jest's testTimeout configuration
 
 // Note: Fetch timeout is handled by individual tests using jest.mock() 
\ No newline at end of file